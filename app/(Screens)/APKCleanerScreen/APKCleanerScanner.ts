@@ -1,5 +1,6 @@
 import RNFS from "react-native-fs";
 import { createExtensionFilter, fastScan } from '../../../utils/fastScanner';
+import { moveFilesToTrash, type DeletionResult } from '../../../utils/trash';
 
 export interface APKFileInfo {
   path: string;
@@ -43,8 +44,6 @@ export const scanAPKFiles = async (): Promise<APKFileInfo[]> => {
   const entries = await fastScan<RNFS.ReadDirItem>({
     rootPaths,
     fileFilter: apkFilter,
-    maxConcurrentDirs: 10,
-    batchSize: 100,
   });
 
   const results: APKFileInfo[] = [];
@@ -73,17 +72,8 @@ export const scanAPKFiles = async (): Promise<APKFileInfo[]> => {
   return results.sort((a, b) => b.size - a.size);
 };
 
-export const deleteAPKFiles = async (files: APKFileInfo[]): Promise<void> => {
-  await Promise.allSettled(
-    files.map(async (file) => {
-      try {
-        await RNFS.unlink(file.path);
-      } catch (error) {
-        console.warn(`Failed to delete ${file.path}:`, error);
-        throw error;
-      }
-    })
-  );
+export const deleteAPKFiles = async (files: APKFileInfo[]): Promise<DeletionResult> => {
+  return moveFilesToTrash(files, 'apk');
 };
 
 export default scanAPKFiles;
@@ -1,5 +1,5 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react";
-import { RefreshControl, ScrollView, StyleSheet, View } from "react-native";
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useDispatch, useSelector } from "react-redux";
 import { DefaultTheme, useTheme } from "styled-components/native";
@@ -16,6 +16,8 @@ import {
 } from "../../../redux-code/action";
 import type { RootState } from "../../../redux-code/store";
 import { initDatabase, loadAPKResults, saveAPKResults } from "../../../utils/db";
+import { showCleanupResult } from "../../../utils/showCleanupResult";
+import { describeDeletionFailures, getRemovedPaths } from "../../../utils/trash";
 import { scanAPKFiles, deleteAPKFiles } from "./APKCleanerScanner";
 import APKFileListItem from "../../../components/APKFileListItem";
 
@@ -74,11 +76,17 @@ const APKCleanerScreen: React.FC = () => {
     setDeleting(true);
     try {
       const filesToDelete = sortedFiles.filter((f) => selectedFilePaths.has(f.path));
-      await deleteAPKFiles(filesToDelete);
-      const remainingFiles = files.filter((f) => !selectedFilePaths.has(f.path));
+      const result = await deleteAPKFiles(filesToDelete);
+      const removedPaths = getRemovedPaths(result);
+      const remainingFiles = files.filter((f) => !removedPaths.has(f.path));
       dispatch(setAPKResults(remainingFiles));
-      dispatch(clearSelections("apk"));
+      dispatch(setSelectedItems("apk", result.failed.map((f) => f.path)));
       await saveAPKResults(remainingFiles);
+      if (result.failed.length > 0) {
+        Alert.alert("Delete Failed", describeDeletionFailures(result));
+      } else {
+        showCleanupResult(result);
+      }
     } catch (err) {
       console.error("Failed to delete APK files:", err);
       setError(err instanceof Error ? err.message : "Failed to delete files");
@@ -57,9 +57,22 @@ const ensurePerms = async (): Promise<boolean> => {
   return permissions.every((permission) => results[permission] === PermissionsAndroid.RESULTS.GRANTED);
 };
 
+const toAudioFile = (entry: RNFS.ReadDirItem): CategoryFile => {
+  const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
+  const modifiedDate = entry.mtime ? entry.mtime.getTime() : Date.now();
+
+  return {
+    path: entry.path,
+    size,
+    modified: modifiedDate,
+    category: 'Audio',
+  };
+};
+
 export const scanAudios = async (
   onProgress?: (progress: ScanProgress) => void,
   cancelRef?: { current: boolean },
+  onChunk?: (chunk: CategoryFile[]) => void,
 ): Promise<CategoryFile[]> => {
   const startedAt = Date.now();
   const hasAccess = await ensurePerms();
@@ -70,25 +83,13 @@ export const scanAudios = async (
   const rootPaths = buildAudioRootPaths();
   const audioFilter = createExtensionFilter(AUDIO_EXTENSIONS);
 
-  const entries = await fastScan<RNFS.ReadDirItem>({
+  const results = await fastScan<CategoryFile>({
     rootPaths,
     fileFilter: audioFilter,
-    maxConcurrentDirs: 10,
-    batchSize: 100,
     onProgress,
     cancelRef,
-  });
-
-  const results: CategoryFile[] = entries.map((entry) => {
-    const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
-    const modifiedDate = entry.mtime ? entry.mtime.getTime() : Date.now();
-
-    return {
-      path: entry.path,
-      size,
-      modified: modifiedDate,
-      category: 'Audio',
-    };
+    transform: toAudioFile,
+    onChunk,
   });
 
   const finishedAt = Date.now();
@@ -1,54 +1,16 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useDispatch } from 'react-redux';
-import { initDatabase, loadAudiosResults, saveAudiosResults } from '../../../utils/db';
-import { setAudiosResults } from '../../../redux-code/action';
+import { initDatabase, saveAudiosResults } from '../../../utils/db';
+import { appendAudiosResults, clearAudiosResults } from '../../../redux-code/action';
 import { scanAudios, type ScanProgress } from './AudiosScanner';
-import type { CategoryFile } from '../../../utils/fileCategoryCalculator';
 
 export const useAudiosScanner = () => {
   const dispatch = useDispatch();
   const [isScanning, setIsScanning] = useState(false);
-  const [isRestoring, setIsRestoring] = useState(true);
   const [progress, setProgress] = useState<ScanProgress>({ total: 0, current: 0 });
-  const [audios, setAudios] = useState<CategoryFile[]>([]);
   const [error, setError] = useState<string | null>(null);
   const cancelRef = useRef(false);
 
-  // Load saved results on mount so UI can render immediately with prior scan data
-  useEffect(() => {
-    let isMounted = true;
-
-    const loadSavedResults = async () => {
-      try {
-        await initDatabase();
-        const savedResults = await loadAudiosResults();
-        if (isMounted && savedResults.length > 0) {
-          setAudios(savedResults);
-          dispatch(setAudiosResults(savedResults));
-          // Mark progress as complete so summary / rescan logic behaves like other screens
-          setProgress((prev) => ({
-            ...prev,
-            total: savedResults.length,
-            current: savedResults.length,
-            stage: 'restored',
-          }));
-        }
-      } catch (error) {
-        console.error('Failed to load saved audios results:', error);
-      } finally {
-        if (isMounted) {
-          setIsRestoring(false);
-        }
-      }
-    };
-
-    loadSavedResults();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [dispatch]);
-
   const startScan = useCallback(async () => {
     if (isScanning) {
       return;
@@ -56,9 +18,9 @@ export const useAudiosScanner = () => {
 
     setIsScanning(true);
     setProgress({ total: 0, current: 0 });
-    setAudios([]);
     setError(null);
     cancelRef.current = false;
+    dispatch(clearAudiosResults());
 
     try {
       const results = await scanAudios(
@@ -68,11 +30,14 @@ export const useAudiosScanner = () => {
           }
         },
         cancelRef,
+        (chunk) => {
+          if (!cancelRef.current) {
+            dispatch(appendAudiosResults(chunk));
+          }
+        },
       );
 
       if (!cancelRef.current) {
-        setAudios(results);
-        dispatch(setAudiosResults(results));
         setProgress((prev) => ({ ...prev, stage: 'complete' }));
         
         // Save results to database
@@ -103,6 +68,8 @@ export const useAudiosScanner = () => {
         setError(message);
       }
     } finally {
+      // Redux only holds the streamed list of a running scan; the screen pages the saved results
+      dispatch(clearAudiosResults());
       setIsScanning(false);
     }
   }, [isScanning, dispatch]);
@@ -121,9 +88,7 @@ export const useAudiosScanner = () => {
 
   return {
     isScanning,
-    isRestoring,
     progress,
-    audios,
     error,
     startScan,
     stopScan,
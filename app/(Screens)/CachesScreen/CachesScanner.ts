@@ -1,5 +1,16 @@
 import RNFS from "react-native-fs";
 import * as FileSystem from 'expo-file-system/legacy';
+import { containsProtectedPath, getExclusionMatcher } from '../../../utils/exclusions';
+import { moveFilesToTrash, type DeletionResult } from '../../../utils/trash';
+import {
+  CACHE_RULES,
+  CACHE_RULES_VERSION,
+  hasWildcard,
+  segmentToRegExp,
+  type CacheRule,
+  type CacheRuleCategory,
+  type CacheRuleSafety,
+} from './cacheRules';
 
 // Try to import getApps, but handle if it's not available
 let getApps: ((options?: any) => Promise<any[]>) | null = null;
@@ -10,14 +21,35 @@ try {
   console.warn('[CachesScanner] Could not import react-native-app-list:', error);
 }
 
-export interface CacheItem {
+interface CacheItemBase {
   path: string;
   size: number;
-  type: 'corpse' | 'cache';
-  packageName?: string; // For corpse items
+  packageName?: string;
   modifiedDate?: number;
 }
 
+// The cache folder of an installed app
+export interface AppCacheItem extends CacheItemBase {
+  type: 'cache';
+}
+
+// Data left behind by an uninstalled app
+export interface CorpseItem extends CacheItemBase {
+  type: 'corpse';
+}
+
+// A hit of one rule of the bundled cache rule database
+export interface RuleCacheItem extends CacheItemBase {
+  type: 'rule';
+  ruleId: string;
+  ruleVersion: number;
+  category: CacheRuleCategory;
+  safety: CacheRuleSafety;
+  label: string;
+}
+
+export type CacheItem = AppCacheItem | CorpseItem | RuleCacheItem;
+
 const BATCH_SIZE = 50;
 
 // Get Android data directories dynamically
@@ -41,43 +73,6 @@ const getAndroidDataPaths = (): string[] => {
   return [...new Set(paths)];
 };
 
-// Get accessible cache directories (workaround for Android 11+ restrictions)
-const getAccessibleCachePaths = (): string[] => {
-  const paths: string[] = [];
-  
-  // App's own cache directory (always accessible)
-  if (RNFS.CachesDirectoryPath) {
-    paths.push(RNFS.CachesDirectoryPath);
-  }
-  
-  // External cache directory
-  if (RNFS.ExternalCachesDirectoryPath) {
-    paths.push(RNFS.ExternalCachesDirectoryPath);
-  }
-  
-  // Document directory (may contain cache files)
-  if (RNFS.DocumentDirectoryPath) {
-    paths.push(RNFS.DocumentDirectoryPath);
-  }
-  
-  // External directory
-  if (RNFS.ExternalDirectoryPath) {
-    paths.push(RNFS.ExternalDirectoryPath);
-  }
-  
-  // Download directory (may contain cache files)
-  if (RNFS.DownloadDirectoryPath) {
-    paths.push(RNFS.DownloadDirectoryPath);
-  }
-  
-  // Root external storage (scan for .cache directories)
-  if (RNFS.ExternalStorageDirectoryPath) {
-    paths.push(RNFS.ExternalStorageDirectoryPath);
-  }
-  
-  return paths.filter(Boolean);
-};
-
 // System packages to exclude
 const SYSTEM_PACKAGE_PREFIXES = [
   'android.',
@@ -250,7 +245,8 @@ const getInstalledPackages = async (): Promise<Set<string>> => {
  */
 const scanCorpses = async (
   installedPackages: Set<string>,
-  androidDataPath: string
+  androidDataPath: string,
+  cancelRef?: { current: boolean }
 ): Promise<CacheItem[]> => {
   const results: CacheItem[] = [];
 
@@ -281,7 +277,7 @@ const scanCorpses = async (
     
     const batches = chunkArray(dirEntries, BATCH_SIZE);
     // Process batches in parallel (up to 3 at a time for better performance)
-    for (let i = 0; i < batches.length; i += 3) {
+    for (let i = 0; i < batches.length && !cancelRef?.current; i += 3) {
       const batchGroup = batches.slice(i, i + 3);
       await Promise.all(
         batchGroup.map(async (batch) => {
@@ -372,7 +368,8 @@ const scanCorpses = async (
 const scanAppCaches = async (
   installedPackages: Set<string>,
   androidDataPath: string,
-  fallbackMode: boolean = false
+  fallbackMode: boolean = false,
+  cancelRef?: { current: boolean }
 ): Promise<CacheItem[]> => {
   const results: CacheItem[] = [];
 
@@ -422,7 +419,7 @@ const scanAppCaches = async (
     let cacheFoundCount = 0;
     
     // Process batches in parallel (up to 3 at a time)
-    for (let i = 0; i < batches.length; i += 3) {
+    for (let i = 0; i < batches.length && !cancelRef?.current; i += 3) {
       const batchGroup = batches.slice(i, i + 3);
       await Promise.all(
         batchGroup.map(async (batch) => {
@@ -525,129 +522,96 @@ const scanAppCaches = async (
   return results;
 };
 
+const getStorageRoot = (): string => RNFS.ExternalStorageDirectoryPath || '/storage/emulated/0';
+
 /**
- * Scan accessible directories for cache files (workaround for Android 11+)
+ * Paths under the storage root that a rule's glob matches. Literal segments are joined without
+ * reading anything; only wildcard segments list their folder.
  */
-const scanAccessibleCaches = async (): Promise<CacheItem[]> => {
-  const results: CacheItem[] = [];
-  const accessiblePaths = getAccessibleCachePaths();
-  
-  console.log(`[CachesScanner] Scanning ${accessiblePaths.length} accessible paths for cache files`);
-  
-  for (const basePath of accessiblePaths) {
-    try {
-      // Recursively scan for cache directories and files
-      const queue: string[] = [basePath];
-      const visited = new Set<string>();
-      
-      while (queue.length > 0 && visited.size < 1000) { // Limit depth to prevent infinite loops
-        const currentPath = queue.shift();
-        if (!currentPath || visited.has(currentPath)) continue;
-        visited.add(currentPath);
-        
+const expandRuleGlob = async (root: string, pathGlob: string): Promise<string[]> => {
+  let current = [root];
+  for (const segment of pathGlob.split('/').filter(Boolean)) {
+    if (!hasWildcard(segment)) {
+      current = current.map((dir) => `${dir}/${segment}`);
+      continue;
+    }
+    const pattern = segmentToRegExp(segment);
+    const next = await Promise.all(
+      current.map(async (dir) => {
         try {
-          let entries: string[] = [];
-          try {
-            const uriPath = currentPath.startsWith('file://') ? currentPath : `file://${currentPath}`;
-            entries = await FileSystem.readDirectoryAsync(uriPath);
-          } catch {
-            try {
-              const rnfsEntries = await RNFS.readDir(currentPath);
-              entries = rnfsEntries.map(e => e.name);
-            } catch {
-              continue;
-            }
-          }
-          
-          for (const entryName of entries) {
-            if (!entryName || entryName.startsWith('.')) continue;
-            
-            const entryPath = `${currentPath}/${entryName}`;
-            const uriPath = entryPath.startsWith('file://') ? entryPath : `file://${entryPath}`;
-            
-            // Check if it's a cache directory or file
-            const lowerName = entryName.toLowerCase();
-            const isCacheDir = lowerName.includes('cache') || lowerName.includes('.cache');
-            const isCacheFile = lowerName.endsWith('.cache') || lowerName.endsWith('.tmp');
-            
-            if (isCacheDir || isCacheFile) {
-              try {
-                let info: FileSystem.FileInfo | null = null;
-                try {
-                  info = await FileSystem.getInfoAsync(uriPath);
-                } catch {
-                  try {
-                    const stat = await RNFS.stat(entryPath);
-                    if (stat.isDirectory()) {
-                      const size = await calculateDirectorySize(entryPath);
-                      if (size > 0) {
-                        results.push({
-                          path: entryPath,
-                          size,
-                          type: 'cache',
-                          modifiedDate: stat.mtime ? (stat.mtime.getTime ? stat.mtime.getTime() : stat.mtime) : undefined,
-                        });
-                      }
-                    } else if (stat.isFile() && stat.size > 0) {
-                      results.push({
-                        path: entryPath,
-                        size: stat.size,
-                        type: 'cache',
-                        modifiedDate: stat.mtime ? (stat.mtime.getTime ? stat.mtime.getTime() : stat.mtime) : undefined,
-                      });
-                    }
-                  } catch {
-                    continue;
-                  }
-                  continue;
-                }
-                
-                if (info && info.exists) {
-                  if (info.isDirectory) {
-                    const size = await calculateDirectorySize(entryPath);
-                    if (size > 0) {
-                      results.push({
-                        path: entryPath,
-                        size,
-                        type: 'cache',
-                        modifiedDate: info.modificationTime ? info.modificationTime * 1000 : undefined,
-                      });
-                    }
-                  } else if (typeof info.size === 'number' && info.size > 0) {
-                    results.push({
-                      path: entryPath,
-                      size: info.size,
-                      type: 'cache',
-                      modifiedDate: info.modificationTime ? info.modificationTime * 1000 : undefined,
-                    });
-                  }
-                }
-              } catch {
-                continue;
-              }
-            } else {
-              // Continue scanning subdirectories
-              if (!visited.has(entryPath) && visited.size < 1000) {
-                queue.push(entryPath);
-              }
-            }
-          }
+          const entries = await RNFS.readDir(dir);
+          return entries.filter((entry) => pattern.test(entry.name)).map((entry) => entry.path);
         } catch {
-          continue;
+          return [];
         }
+      }),
+    );
+    current = next.flat();
+    if (!current.length) {
+      break;
+    }
+  }
+  return current;
+};
+
+const scanRule = async (root: string, rule: CacheRule): Promise<RuleCacheItem[]> => {
+  const results: RuleCacheItem[] = [];
+  const paths = await expandRuleGlob(root, rule.pathGlob);
+  for (const path of paths) {
+    try {
+      const stat = await RNFS.stat(path);
+      const size = stat.isDirectory() ? await calculateDirectorySize(path) : stat.size;
+      if (size > 0) {
+        results.push({
+          path,
+          size,
+          type: 'rule',
+          ruleId: rule.id,
+          ruleVersion: CACHE_RULES_VERSION,
+          category: rule.category,
+          safety: rule.safety,
+          label: rule.label,
+          packageName: rule.package ?? undefined,
+          modifiedDate: stat.mtime ? new Date(stat.mtime).getTime() : undefined,
+        });
       }
+    } catch {
+      // Gone between listing and stat, or not readable
+    }
+  }
+  return results;
+};
+
+/**
+ * Evaluate the bundled cache rule database against shared storage
+ */
+const scanRuleCaches = async (cancelRef?: { current: boolean }): Promise<RuleCacheItem[]> => {
+  const root = getStorageRoot();
+  const results: RuleCacheItem[] = [];
+
+  console.log(`[CachesScanner] Evaluating ${CACHE_RULES.length} cache rules (v${CACHE_RULES_VERSION}) under ${root}`);
+
+  for (const rule of CACHE_RULES) {
+    if (cancelRef?.current) break;
+    try {
+      results.push(...(await scanRule(root, rule)));
     } catch (error) {
-      console.warn(`[CachesScanner] Error scanning accessible path ${basePath}:`, error);
+      console.warn(`[CachesScanner] Failed to evaluate cache rule ${rule.id}:`, error);
     }
   }
-  
+
   return results;
 };
 
+// A rule hit inside a folder that is already listed would be counted twice
+const isInsideAny = (path: string, items: CacheItem[]): boolean =>
+  items.some((item) => path === item.path || path.startsWith(`${item.path}/`));
+
 /**
- * Main scan function - combines CorpseFinder and AppCleaner
+ * Main scan function - combines CorpseFinder, AppCleaner and the cache rule database
+ * Stops early and returns what was found so far once cancelRef is set
  */
-export const scanCaches = async (): Promise<CacheItem[]> => {
+export const scanCaches = async (cancelRef?: { current: boolean }): Promise<CacheItem[]> => {
   const results: CacheItem[] = [];
   console.log('[CachesScanner] Starting cache scan...');
 
@@ -669,6 +633,7 @@ export const scanCaches = async (): Promise<CacheItem[]> => {
     
     // Scan each Android data path
     for (const androidDataPath of androidDataPaths) {
+      if (cancelRef?.current) break;
       try {
         console.log(`[CachesScanner] Attempting to access: ${androidDataPath}`);
         
@@ -702,7 +667,7 @@ export const scanCaches = async (): Promise<CacheItem[]> => {
         // Scan for corpses (uninstalled app data) - only if we have package list
         if (!fallbackMode) {
           console.log(`[CachesScanner] Scanning for corpses in ${androidDataPath}...`);
-          const corpses = await scanCorpses(installedPackages, androidDataPath);
+          const corpses = await scanCorpses(installedPackages, androidDataPath, cancelRef);
           console.log(`[CachesScanner] Found ${corpses.length} corpses in ${androidDataPath}`);
           results.push(...corpses);
         }
@@ -711,7 +676,7 @@ export const scanCaches = async (): Promise<CacheItem[]> => {
         // Only scan in /Android/data, not /Android/obb
         if (androidDataPath.includes('/Android/data')) {
           console.log(`[CachesScanner] Scanning for caches in ${androidDataPath}...`);
-          const caches = await scanAppCaches(installedPackages, androidDataPath, fallbackMode);
+          const caches = await scanAppCaches(installedPackages, androidDataPath, fallbackMode, cancelRef);
           console.log(`[CachesScanner] Found ${caches.length} caches in ${androidDataPath}`);
           results.push(...caches);
           if (caches.length > 0) {
@@ -735,12 +700,16 @@ export const scanCaches = async (): Promise<CacheItem[]> => {
     
     console.log(`[CachesScanner] Android data scan complete. Found ${results.length} items from Android data paths`);
     
-    // If Android data paths are not accessible (Android 11+), scan accessible locations as fallback
-    if (!androidDataAccessible || results.length === 0) {
-      console.log('[CachesScanner] Android data paths not accessible, scanning accessible cache locations...');
-      const accessibleCaches = await scanAccessibleCaches();
-      console.log(`[CachesScanner] Found ${accessibleCaches.length} cache items in accessible locations`);
-      results.push(...accessibleCaches);
+    if (!androidDataAccessible) {
+      console.log('[CachesScanner] Android data paths not accessible, relying on the cache rules');
+    }
+
+    // Known junk outside the app cache folders; the rules reach what Android 11+ still allows
+    if (!cancelRef?.current) {
+      const ruleCaches = await scanRuleCaches(cancelRef);
+      const newRuleCaches = ruleCaches.filter((item) => !isInsideAny(item.path, results));
+      console.log(`[CachesScanner] Found ${newRuleCaches.length} cache rule hits`);
+      results.push(...newRuleCaches);
     }
     
     console.log(`[CachesScanner] Scan complete. Found ${results.length} total cache items`);
@@ -749,25 +718,19 @@ export const scanCaches = async (): Promise<CacheItem[]> => {
     throw error;
   }
 
-  return results.sort((a, b) => b.size - a.size);
+  // Cache folders are trashed whole, so leave out any that hold a protected path
+  const exclusions = await getExclusionMatcher();
+  const isProtected = await Promise.all(results.map((item) => containsProtectedPath(exclusions, item.path)));
+  return results
+    .filter((_, index) => !isProtected[index])
+    .sort((a, b) => b.size - a.size);
 };
 
 /**
- * Delete cache items (directories)
+ * Delete cache items (directories) by moving them into the trash
  */
-export const deleteCacheItems = async (items: CacheItem[]): Promise<void> => {
-  await Promise.allSettled(
-    items.map(async (item) => {
-      try {
-        // Use unlink for files, but we're dealing with directories
-        // RNFS.unlink should work for directories too
-        await RNFS.unlink(item.path);
-      } catch (error) {
-        console.warn(`Failed to delete ${item.path}:`, error);
-        throw error;
-      }
-    })
-  );
+export const deleteCacheItems = async (items: CacheItem[]): Promise<DeletionResult> => {
+  return moveFilesToTrash(items, 'caches');
 };
 
 export default scanCaches;
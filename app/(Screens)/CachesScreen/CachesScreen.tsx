@@ -1,5 +1,5 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react";
-import { RefreshControl, ScrollView, StyleSheet, View } from "react-native";
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useDispatch, useSelector } from "react-redux";
 import { DefaultTheme, useTheme } from "styled-components/native";
@@ -17,7 +17,12 @@ import {
 } from "../../../redux-code/action";
 import type { RootState } from "../../../redux-code/store";
 import { initDatabase, loadCachesResults, saveCachesResults } from "../../../utils/db";
-import { scanCaches, deleteCacheItems } from "./CachesScanner";
+import { showCleanupResult } from "../../../utils/showCleanupResult";
+import { describeDeletionFailures, getRemovedPaths } from "../../../utils/trash";
+import { scanCaches, deleteCacheItems, type CacheItem } from "./CachesScanner";
+
+// Rule hits that may hold something the user still wants are only ever picked one by one
+const isSelectableInBulk = (item: CacheItem) => !(item.type === "rule" && item.safety === "review");
 
 const CachesScreen: React.FC = () => {
   const dispatch = useDispatch();
@@ -48,9 +53,11 @@ const CachesScreen: React.FC = () => {
     return { count, size };
   }, [selectedItemPaths, sortedItems]);
 
+  const bulkItems = useMemo(() => sortedItems.filter(isSelectableInBulk), [sortedItems]);
+
   const isAllSelected = useMemo(() => 
-    sortedItems.length > 0 && sortedItems.every((item) => selectedItemPaths.has(item.path)),
-    [sortedItems, selectedItemPaths]
+    bulkItems.length > 0 && bulkItems.every((item) => selectedItemPaths.has(item.path)),
+    [bulkItems, selectedItemPaths]
   );
 
   const handleToggleItemSelection = useCallback((path: string) => {
@@ -61,10 +68,13 @@ const CachesScreen: React.FC = () => {
     if (isAllSelected) {
       dispatch(clearSelections("caches"));
     } else {
-      const allPaths = sortedItems.map((item) => item.path);
-      dispatch(setSelectedItems("caches", allPaths));
+      // Keep review items the user already picked, but never add more of them
+      const reviewPaths = sortedItems
+        .filter((item) => !isSelectableInBulk(item) && selectedItemPaths.has(item.path))
+        .map((item) => item.path);
+      dispatch(setSelectedItems("caches", [...bulkItems.map((item) => item.path), ...reviewPaths]));
     }
-  }, [isAllSelected, sortedItems, dispatch]);
+  }, [isAllSelected, sortedItems, bulkItems, selectedItemPaths, dispatch]);
 
   const handleDelete = useCallback(async () => {
     if (selectedStats.count === 0 || deleting) {
@@ -74,11 +84,17 @@ const CachesScreen: React.FC = () => {
     setDeleting(true);
     try {
       const itemsToDelete = sortedItems.filter((item) => selectedItemPaths.has(item.path));
-      await deleteCacheItems(itemsToDelete);
-      const remainingItems = items.filter((item) => !selectedItemPaths.has(item.path));
+      const result = await deleteCacheItems(itemsToDelete);
+      const removedPaths = getRemovedPaths(result);
+      const remainingItems = items.filter((item) => !removedPaths.has(item.path));
       dispatch(setCachesResults(remainingItems));
-      dispatch(clearSelections("caches"));
+      dispatch(setSelectedItems("caches", result.failed.map((f) => f.path)));
       await saveCachesResults(remainingItems);
+      if (result.failed.length > 0) {
+        Alert.alert("Delete Failed", describeDeletionFailures(result));
+      } else {
+        showCleanupResult(result);
+      }
     } catch (err) {
       console.error("Failed to delete cache items:", err);
       setError(err instanceof Error ? err.message : "Failed to delete items");
@@ -148,7 +164,7 @@ const CachesScreen: React.FC = () => {
             totalFiles={resultsAvailable ? sortedItems.length : undefined}
             isAllSelected={resultsAvailable ? isAllSelected : undefined}
             onSelectAllPress={resultsAvailable ? toggleSelectAll : undefined}
-            selectAllDisabled={resultsAvailable ? !sortedItems.length : undefined}
+            selectAllDisabled={resultsAvailable ? !bulkItems.length : undefined}
           />
         </View>
         <ScrollView 
@@ -0,0 +1,136 @@
+export type CacheRuleCategory = 'thumbnails' | 'logs' | 'appCache' | 'downloadTemp' | 'gameUpdate';
+
+// safe: the owner recreates it on demand; review: may hold something the user still wants
+export type CacheRuleSafety = 'safe' | 'review';
+
+/**
+ * One kind of well-known junk. `pathGlob` is relative to the shared storage root; `*` and `?`
+ * match within a single folder or file name, never across a `/`.
+ */
+export interface CacheRule {
+  id: string;
+  // App that writes it, when there is one
+  package: string | null;
+  pathGlob: string;
+  category: CacheRuleCategory;
+  safety: CacheRuleSafety;
+  label: string;
+}
+
+// Bump whenever a rule is added, changed or removed; saved hits keep the version that found them
+export const CACHE_RULES_VERSION = 1;
+
+export const CACHE_RULES: CacheRule[] = [
+  {
+    id: 'gallery-thumbnails',
+    package: null,
+    pathGlob: 'Pictures/.thumbnails',
+    category: 'thumbnails',
+    safety: 'safe',
+    label: 'Gallery thumbnails',
+  },
+  {
+    id: 'camera-thumbnails',
+    package: null,
+    pathGlob: 'DCIM/.thumbnails',
+    category: 'thumbnails',
+    safety: 'safe',
+    label: 'Camera thumbnails',
+  },
+  {
+    id: 'miui-debug-log',
+    package: null,
+    pathGlob: 'MIUI/debug_log',
+    category: 'logs',
+    safety: 'safe',
+    label: 'MIUI debug logs',
+  },
+  {
+    id: 'wechat-image-cache',
+    package: 'com.tencent.mm',
+    pathGlob: 'tencent/MicroMsg/*/image2',
+    category: 'appCache',
+    // Full-size chat images live here too until the chat is opened again
+    safety: 'review',
+    label: 'WeChat image cache',
+  },
+  {
+    id: 'wechat-xlog',
+    package: 'com.tencent.mm',
+    pathGlob: 'tencent/MicroMsg/xlog',
+    category: 'logs',
+    safety: 'safe',
+    label: 'WeChat logs',
+  },
+  {
+    id: 'chrome-partial-downloads',
+    package: 'com.android.chrome',
+    pathGlob: 'Download/*.crdownload',
+    category: 'downloadTemp',
+    safety: 'safe',
+    label: 'Unfinished Chrome downloads',
+  },
+  {
+    id: 'firefox-partial-downloads',
+    package: 'org.mozilla.firefox',
+    pathGlob: 'Download/*.part',
+    category: 'downloadTemp',
+    safety: 'safe',
+    label: 'Unfinished Firefox downloads',
+  },
+  {
+    id: 'samsung-browser-pending-downloads',
+    package: 'com.sec.android.app.sbrowser',
+    pathGlob: 'Download/.pending-*',
+    category: 'downloadTemp',
+    safety: 'safe',
+    label: 'Unfinished Samsung Internet downloads',
+  },
+  {
+    id: 'obb-partial-downloads',
+    package: null,
+    pathGlob: 'Android/obb/*/*.obb.tmp',
+    category: 'gameUpdate',
+    safety: 'safe',
+    label: 'Interrupted game downloads',
+  },
+  {
+    id: 'pubg-update-logs',
+    package: 'com.tencent.ig',
+    pathGlob: 'Android/data/com.tencent.ig/files/UE4Game/ShadowTrackerExtra/ShadowTrackerExtra/Saved/Logs',
+    category: 'gameUpdate',
+    safety: 'safe',
+    label: 'PUBG Mobile update logs',
+  },
+  {
+    id: 'pubg-patch-leftovers',
+    package: 'com.tencent.ig',
+    pathGlob: 'Android/data/com.tencent.ig/files/UE4Game/ShadowTrackerExtra/ShadowTrackerExtra/Saved/Paks/*.tmp',
+    category: 'gameUpdate',
+    safety: 'safe',
+    label: 'PUBG Mobile patch leftovers',
+  },
+];
+
+/**
+ * Regular expression for one segment of a rule's glob.
+ */
+export const segmentToRegExp = (segment: string): RegExp =>
+  new RegExp(
+    `^${segment
+      .split('')
+      .map((char) => {
+        if (char === '*') return '[^/]*';
+        if (char === '?') return '[^/]';
+        return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('')}$`,
+    'i',
+  );
+
+export const hasWildcard = (segment: string): boolean => /[*?]/.test(segment);
+
+// Default export to satisfy expo-router while keeping this as a non-route module
+export default function CacheRulesRoute(): null {
+  return null;
+}
@@ -54,9 +54,22 @@ const ensurePerms = async (): Promise<boolean> => {
   return permissions.every((permission) => results[permission] === PermissionsAndroid.RESULTS.GRANTED);
 };
 
+const toDocumentFile = (entry: RNFS.ReadDirItem): CategoryFile => {
+  const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
+  const modifiedDate = entry.mtime ? entry.mtime.getTime() : Date.now();
+
+  return {
+    path: entry.path,
+    size,
+    modified: modifiedDate,
+    category: 'Documents',
+  };
+};
+
 export const scanDocuments = async (
   onProgress?: (progress: ScanProgress) => void,
   cancelRef?: { current: boolean },
+  onChunk?: (chunk: CategoryFile[]) => void,
 ): Promise<CategoryFile[]> => {
   const startedAt = Date.now();
   const hasAccess = await ensurePerms();
@@ -80,25 +93,13 @@ export const scanDocuments = async (
     return true;
   };
 
-  const entries = await fastScan<RNFS.ReadDirItem>({
+  const results = await fastScan<CategoryFile>({
     rootPaths,
     fileFilter: combinedFilter,
-    maxConcurrentDirs: 10,
-    batchSize: 100,
     onProgress,
     cancelRef,
-  });
-
-  const results: CategoryFile[] = entries.map((entry) => {
-    const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
-    const modifiedDate = entry.mtime ? entry.mtime.getTime() : Date.now();
-
-    return {
-      path: entry.path,
-      size,
-      modified: modifiedDate,
-      category: 'Documents',
-    };
+    transform: toDocumentFile,
+    onChunk,
   });
 
   const finishedAt = Date.now();
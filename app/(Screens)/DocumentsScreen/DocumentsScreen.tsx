@@ -1,5 +1,5 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
-import { FlatList, RefreshControl, StyleSheet, Text, View } from "react-native";
+import React, { useCallback, useMemo, useState } from "react";
+import { Alert, FlatList, RefreshControl, StyleSheet, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useDispatch, useSelector } from "react-redux";
 import { DefaultTheme, useTheme } from "styled-components/native";
@@ -8,57 +8,63 @@ import CategoryFileListItem from "../../../components/CategoryFileListItem";
 import DeleteButton from "../../../components/DeleteButton";
 import EmptyState from "../../../components/EmptyState";
 import ScreenWrapper from "../../../components/ScreenWrapper";
+import formatBytes from "../../../constants/formatBytes";
 import {
   clearSelections,
-  setDocumentsResults,
   setSelectedItems,
   toggleItemSelection,
 } from "../../../redux-code/action";
 import type { RootState } from "../../../redux-code/store";
-import { saveDocumentsResults } from "../../../utils/db";
 import type { CategoryFile } from "../../../utils/fileCategoryCalculator";
+import { showCleanupResult } from "../../../utils/showCleanupResult";
+import { TRASH_RETENTION_DAYS, describeDeletionFailures, getRemovedPaths } from "../../../utils/trash";
+import { queryScanResultsByPath, removeScanResults } from "../../../utils/db";
+import { deleteCategoryFiles } from "../../../utils/deleteCategoryFiles";
+import { usePagedScanResults } from "../../../utils/usePagedScanResults";
 import { useDocumentsScanner } from "./useDocumentsScanner";
 
+const APK_EXTENSIONS = ["apk", "apks", "xapk"];
+
+const isApk = (path: string) => APK_EXTENSIONS.some((extension) => path.toLowerCase().endsWith(`.${extension}`));
+
 const DocumentsScreen: React.FC = () => {
   const dispatch = useDispatch();
   const theme = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
   
-  const { isScanning, isRestoring, error, startScan } = useDocumentsScanner();
+  const { isScanning, error, startScan } = useDocumentsScanner();
   
   const documentsResults = useSelector((state: RootState) => state.appState.documentsResults);
   const selectedFilePathsArray = useSelector((state: RootState) => state.appState.selectedItems.documents);
   const selectedFilePaths = useMemo(() => new Set(selectedFilePathsArray), [selectedFilePathsArray]);
+  const {
+    items: savedFiles,
+    summary,
+    isLoading,
+    loadMore,
+    reload,
+    selectAll,
+    selection: selectedStats,
+    isAllSelected,
+  } = usePagedScanResults("documents", selectedFilePathsArray, {
+    orderBy: "size",
+    descending: true,
+    // APK files are listed by the APK cleaner, not here
+    excludeExtensions: APK_EXTENSIONS,
+  });
   
   const [clearing, setClearing] = useState(false);
 
-  // Use documents results directly from Redux and sort once
-  // Filter out APK files (they should not be in documents)
-  const sortedFiles = useMemo(() => {
-    const filtered = documentsResults.filter((file) => {
-      const lower = file.path.toLowerCase();
-      return !lower.endsWith(".apk") && !lower.endsWith(".apks") && !lower.endsWith(".xapk");
-    });
-    return filtered.sort((a, b) => b.size - a.size);
-  }, [documentsResults]);
-  const totalBytes = useMemo(() => sortedFiles.reduce((sum, file) => sum + file.size, 0), [sortedFiles]);
-  const resultsAvailable = sortedFiles.length > 0;
-
-  const selectedStats = useMemo(() => {
-    let items = 0, size = 0;
-    sortedFiles.forEach((f) => {
-      if (selectedFilePaths.has(f.path)) {
-        items += 1;
-        size += f.size;
-      }
-    });
-    return { items, size };
-  }, [selectedFilePaths, sortedFiles]);
-
-  const isAllSelected = useMemo(() => 
-    sortedFiles.length > 0 && sortedFiles.every((f) => selectedFilePaths.has(f.path)),
-    [sortedFiles, selectedFilePaths]
+  // A running scan streams into Redux before anything is saved, so show that until it finishes
+  const streamedFiles = useMemo(
+    () =>
+      isScanning
+        ? documentsResults.filter((file) => !isApk(file.path)).sort((a, b) => b.size - a.size)
+        : [],
+    [isScanning, documentsResults]
   );
+  const files = isScanning ? streamedFiles : savedFiles;
+  const resultsAvailable = files.length > 0;
 
   const toggleFileSelection = useCallback((path: string) => {
     dispatch(toggleItemSelection("documents", path));
@@ -76,53 +82,66 @@ const DocumentsScreen: React.FC = () => {
 
   const ItemSeparator = useCallback(() => <View style={{ height: theme.spacing.xs }} />, [theme]);
 
-  const toggleSelectAll = useCallback(() => {
+  const toggleSelectAll = useCallback(async () => {
     if (isAllSelected) {
       dispatch(clearSelections("documents"));
-    } else {
-      const allPaths = sortedFiles.map((f) => f.path);
-      dispatch(setSelectedItems("documents", allPaths));
+      return;
     }
-  }, [isAllSelected, sortedFiles, dispatch]);
+    try {
+      dispatch(setSelectedItems("documents", await selectAll()));
+    } catch (error) {
+      console.error("Failed to select all documents:", error);
+    }
+  }, [isAllSelected, selectAll, dispatch]);
 
-  const handleDelete = useCallback(async () => {
+  const handleDelete = useCallback(() => {
     if (selectedStats.items === 0 || clearing) {
       return;
     }
-    console.log("Deleting files:", Array.from(selectedFilePaths));
-    setClearing(true);
-    try {
-      // Update category results by removing deleted files
-      const remainingDocuments = documentsResults.filter(
-        (f) => !selectedFilePaths.has(f.path)
-      );
 
-      dispatch(setDocumentsResults(remainingDocuments));
-      dispatch(clearSelections("documents"));
-      
-      // Update database
-      try {
-        await saveDocumentsResults(remainingDocuments);
-      } catch (error) {
-        console.error("Failed to save documents results to database:", error);
-      }
-    } finally {
-      setClearing(false);
-    }
-  }, [selectedFilePaths, selectedStats.items, clearing, documentsResults, dispatch]);
-
-  useEffect(() => {
-    if (selectedFilePathsArray.length === 0) return;
-    const availablePaths = new Set(sortedFiles.map((f) => f.path));
-    const validSelections = selectedFilePathsArray.filter((p) => availablePaths.has(p));
-    if (validSelections.length !== selectedFilePathsArray.length) {
-      dispatch(setSelectedItems("documents", validSelections));
-    }
-  }, [sortedFiles, selectedFilePathsArray, dispatch]);
+    Alert.alert(
+      "Delete Documents?",
+      `This will move ${selectedStats.items} file${selectedStats.items !== 1 ? 's' : ''} (${formatBytes(selectedStats.size)}) to the trash. Trashed files are permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            setClearing(true);
+            try {
+              const filesToDelete = await queryScanResultsByPath("documents", selectedStats.paths);
+              const result = await deleteCategoryFiles(filesToDelete, "documents");
+
+              // Only drop files that were really removed from disk
+              const removedPaths = getRemovedPaths(result);
+              dispatch(setSelectedItems("documents", result.failed.map((f) => f.path)));
+
+              try {
+                await removeScanResults("documents", [...removedPaths]);
+              } catch (error) {
+                console.error("Failed to save documents results to database:", error);
+              }
+              await reload();
+
+              if (result.failed.length > 0) {
+                Alert.alert("Delete Failed", describeDeletionFailures(result));
+              } else {
+                showCleanupResult(result);
+              }
+            } finally {
+              setClearing(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [selectedStats, clearing, reload, dispatch]);
 
   const onRefresh = useCallback(async () => {
     await startScan();
-  }, [startScan]);
+    await reload();
+  }, [startScan, reload]);
 
   return (
     <ScreenWrapper style={styles.screen}>
@@ -131,11 +150,11 @@ const DocumentsScreen: React.FC = () => {
           <AppHeader 
             title="Documents" 
             subtitle="Manage document files"
-            totalSize={resultsAvailable ? totalBytes : undefined}
-            totalFiles={resultsAvailable ? sortedFiles.length : undefined}
-            isAllSelected={resultsAvailable ? isAllSelected : undefined}
-            onSelectAllPress={resultsAvailable ? toggleSelectAll : undefined}
-            selectAllDisabled={resultsAvailable ? !sortedFiles.length : undefined}
+            totalSize={summary.count > 0 ? summary.size : undefined}
+            totalFiles={summary.count > 0 ? summary.count : undefined}
+            isAllSelected={summary.count > 0 ? isAllSelected : undefined}
+            onSelectAllPress={summary.count > 0 && !isScanning ? toggleSelectAll : undefined}
+            selectAllDisabled={summary.count > 0 ? isScanning : undefined}
           />
         </View>
         {error && (
@@ -146,7 +165,7 @@ const DocumentsScreen: React.FC = () => {
 
         {resultsAvailable ? (
           <FlatList
-            data={sortedFiles}
+            data={files}
             renderItem={renderItem}
             keyExtractor={keyExtractor}
             ItemSeparatorComponent={ItemSeparator}
@@ -160,6 +179,8 @@ const DocumentsScreen: React.FC = () => {
             updateCellsBatchingPeriod={50}
             initialNumToRender={15}
             windowSize={10}
+            onEndReached={isScanning ? undefined : loadMore}
+            onEndReachedThreshold={0.5}
             refreshControl={
               <RefreshControl
                 refreshing={isScanning}
@@ -168,7 +189,7 @@ const DocumentsScreen: React.FC = () => {
               />
             }
           />
-        ) : !isScanning && !isRestoring ? (
+        ) : !isScanning && !isLoading ? (
           <View style={styles.sectionSpacing}>
             <EmptyState
               icon="file-document-outline"
@@ -1,54 +1,16 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useDispatch } from 'react-redux';
-import { initDatabase, loadDocumentsResults, saveDocumentsResults } from '../../../utils/db';
-import { setDocumentsResults } from '../../../redux-code/action';
+import { initDatabase, saveDocumentsResults } from '../../../utils/db';
+import { appendDocumentsResults, clearDocumentsResults } from '../../../redux-code/action';
 import { scanDocuments, type ScanProgress } from './DocumentsScanner';
-import type { CategoryFile } from '../../../utils/fileCategoryCalculator';
 
 export const useDocumentsScanner = () => {
   const dispatch = useDispatch();
   const [isScanning, setIsScanning] = useState(false);
-  const [isRestoring, setIsRestoring] = useState(true);
   const [progress, setProgress] = useState<ScanProgress>({ total: 0, current: 0 });
-  const [documents, setDocuments] = useState<CategoryFile[]>([]);
   const [error, setError] = useState<string | null>(null);
   const cancelRef = useRef(false);
 
-  // Load saved results on mount so UI can render immediately with prior scan data
-  useEffect(() => {
-    let isMounted = true;
-
-    const loadSavedResults = async () => {
-      try {
-        await initDatabase();
-        const savedResults = await loadDocumentsResults();
-        if (isMounted && savedResults.length > 0) {
-          setDocuments(savedResults);
-          dispatch(setDocumentsResults(savedResults));
-          // Mark progress as complete so summary / rescan logic behaves like other screens
-          setProgress((prev) => ({
-            ...prev,
-            total: savedResults.length,
-            current: savedResults.length,
-            stage: 'restored',
-          }));
-        }
-      } catch (error) {
-        console.error('Failed to load saved documents results:', error);
-      } finally {
-        if (isMounted) {
-          setIsRestoring(false);
-        }
-      }
-    };
-
-    loadSavedResults();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [dispatch]);
-
   const startScan = useCallback(async () => {
     if (isScanning) {
       return;
@@ -56,9 +18,9 @@ export const useDocumentsScanner = () => {
 
     setIsScanning(true);
     setProgress({ total: 0, current: 0 });
-    setDocuments([]);
     setError(null);
     cancelRef.current = false;
+    dispatch(clearDocumentsResults());
 
     try {
       const results = await scanDocuments(
@@ -68,11 +30,14 @@ export const useDocumentsScanner = () => {
           }
         },
         cancelRef,
+        (chunk) => {
+          if (!cancelRef.current) {
+            dispatch(appendDocumentsResults(chunk));
+          }
+        },
       );
 
       if (!cancelRef.current) {
-        setDocuments(results);
-        dispatch(setDocumentsResults(results));
         setProgress((prev) => ({ ...prev, stage: 'complete' }));
         
         // Save results to database
@@ -103,6 +68,8 @@ export const useDocumentsScanner = () => {
         setError(message);
       }
     } finally {
+      // Redux only holds the streamed list of a running scan; the screen pages the saved results
+      dispatch(clearDocumentsResults());
       setIsScanning(false);
     }
   }, [isScanning, dispatch]);
@@ -121,9 +88,7 @@ export const useDocumentsScanner = () => {
 
   return {
     isScanning,
-    isRestoring,
     progress,
-    documents,
     error,
     startScan,
     stopScan,
@@ -0,0 +1,114 @@
+import type { Permission } from 'react-native';
+import { PermissionsAndroid, Platform } from 'react-native';
+import RNFS from 'react-native-fs';
+import { initDatabase } from '../../../utils/db';
+import { scanDuplicateFiles, type DuplicateGroup } from '../../../utils/duplicateFinder';
+import type { ScanProgress } from '../../../utils/fastScanner';
+import { categorizeFile } from '../../../utils/fileCategoryCalculator';
+
+export type { ScanProgress };
+
+export const ALL_DUPLICATE_CATEGORIES = 'All';
+
+const MIN_DUPLICATE_FILE_SIZE_BYTES = 10 * 1024; // Tiny files free almost nothing and dominate hashing time
+
+const buildDuplicateRootPaths = (): string[] => {
+  const base = RNFS.ExternalStorageDirectoryPath;
+  if (!base) return [];
+
+  return [
+    base,
+    `${base}/DCIM`,
+    `${base}/Pictures`,
+    `${base}/Movies`,
+    `${base}/Music`,
+    `${base}/Documents`,
+    `${base}/Download`,
+    `${base}/Downloads`,
+    `${base}/WhatsApp/Media`,
+    `${base}/Android/media`,
+  ].filter(Boolean);
+};
+
+const ensurePerms = async (): Promise<boolean> => {
+  if (Platform.OS !== 'android') {
+    return true;
+  }
+
+  const version =
+    typeof Platform.Version === 'number' ? Platform.Version : parseInt(String(Platform.Version), 10) || 0;
+  const needsLegacyPermissions = version < 33;
+
+  const permissionCandidates: (Permission | undefined)[] = needsLegacyPermissions
+    ? [
+        PermissionsAndroid.PERMISSIONS.READ_EXTERNAL_STORAGE,
+        PermissionsAndroid.PERMISSIONS.WRITE_EXTERNAL_STORAGE,
+      ]
+    : [
+        PermissionsAndroid.PERMISSIONS.READ_MEDIA_IMAGES,
+        PermissionsAndroid.PERMISSIONS.READ_MEDIA_VIDEO,
+        PermissionsAndroid.PERMISSIONS.READ_MEDIA_AUDIO,
+      ];
+
+  const permissions = permissionCandidates.filter(Boolean) as Permission[];
+  if (!permissions.length) {
+    return true;
+  }
+
+  const results = await PermissionsAndroid.requestMultiple(permissions);
+  return permissions.every((permission) => results[permission] === PermissionsAndroid.RESULTS.GRANTED);
+};
+
+/**
+ * Find byte-identical files of every type (documents, videos, APKs, archives, ...) across shared storage.
+ */
+export const scanAllDuplicateFiles = async (
+  onProgress?: (progress: ScanProgress) => void,
+  cancelRef?: { current: boolean },
+): Promise<DuplicateGroup[]> => {
+  const startedAt = Date.now();
+  const hasAccess = await ensurePerms();
+  if (!hasAccess) {
+    return [];
+  }
+
+  await initDatabase();
+  const groups = await scanDuplicateFiles(
+    {
+      rootPaths: buildDuplicateRootPaths(),
+      minSize: MIN_DUPLICATE_FILE_SIZE_BYTES,
+      categorize: (path) => categorizeFile(path),
+    },
+    onProgress,
+    cancelRef,
+  );
+  if (cancelRef?.current) {
+    return [];
+  }
+
+  const wastedBytes = (group: DuplicateGroup) => group.files[0].size * (group.files.length - 1);
+  const results = groups.sort((a, b) => wastedBytes(b) - wastedBytes(a));
+  console.log(
+    `[DuplicateFileScan] groups=${results.length} durationMs=${Date.now() - startedAt}`,
+  );
+
+  return results;
+};
+
+/**
+ * Group counts per category plus an "All" bucket, for the type filter chips.
+ */
+export const countGroupsByCategory = (groups: DuplicateGroup[]): Record<string, number> =>
+  groups.reduce<Record<string, number>>(
+    (counts, group) => {
+      const category = group.category || 'Other';
+      counts[category] = (counts[category] || 0) + 1;
+      return counts;
+    },
+    { [ALL_DUPLICATE_CATEGORIES]: groups.length },
+  );
+
+// Default export to satisfy expo-router while keeping this as a non-route module
+export default function DuplicateFileScannerRoute(): null {
+  return null;
+}
@@ -0,0 +1,311 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { DefaultTheme, useTheme } from 'styled-components/native';
+import AppHeader from '../../../components/AppHeader';
+import CategoryFilterBar from '../../../components/CategoryFilterBar';
+import DeleteButton from '../../../components/DeleteButton';
+import { DuplicateFileItem } from '../../../components/DuplicateCard';
+import DuplicateFileItemComponent from '../../../components/DuplicateFileItem';
+import DuplicateFilterBar from '../../../components/DuplicateFilterBar';
+import DuplicateGroupHeader from '../../../components/DuplicateGroupHeader';
+import DuplicateSummaryCard from '../../../components/DuplicateSummaryCard';
+import EmptyState from '../../../components/EmptyState';
+import ImagePreviewModal from '../../../components/ImagePreviewModal';
+import ScreenWrapper from '../../../components/ScreenWrapper';
+import formatBytes from '../../../constants/formatBytes';
+import { findFullyDeletedGroups } from '../../../utils/duplicateFinder';
+import { getFileTypeIcon, isImageFile } from '../../../utils/fileUtils';
+import { showCleanupResult } from '../../../utils/showCleanupResult';
+import { TRASH_RETENTION_DAYS, describeDeletionFailures } from '../../../utils/trash';
+import { getDuplicateFileId, useDuplicateSelection } from '../DuplicateImagesScreen/useDuplicateSelection';
+import { ALL_DUPLICATE_CATEGORIES, countGroupsByCategory } from './DuplicateFileScanner';
+import { useDuplicateFileScanner } from './useDuplicateFileScanner';
+
+export default function DuplicateFilesScreen() {
+  const { isScanning, isRestoring, progress, groups, error, startScan, deleteFiles } = useDuplicateFileScanner();
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [activeCategory, setActiveCategory] = useState(ALL_DUPLICATE_CATEGORIES);
+  const [previewFile, setPreviewFile] = useState<DuplicateFileItem | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [imageLoadErrors, setImageLoadErrors] = useState<Set<string>>(() => new Set());
+
+  const categoryCounts = useMemo(() => countGroupsByCategory(groups), [groups]);
+  const categories = useMemo(
+    () => [
+      ALL_DUPLICATE_CATEGORIES,
+      ...Object.keys(categoryCounts)
+        .filter((category) => category !== ALL_DUPLICATE_CATEGORIES)
+        .sort((a, b) => categoryCounts[b] - categoryCounts[a]),
+    ],
+    [categoryCounts]
+  );
+
+  // Fall back to "All" once the last group of the active type is deleted
+  useEffect(() => {
+    if (!categoryCounts[activeCategory]) {
+      setActiveCategory(ALL_DUPLICATE_CATEGORIES);
+    }
+  }, [categoryCounts, activeCategory]);
+
+  const visibleGroups = useMemo(
+    () =>
+      activeCategory === ALL_DUPLICATE_CATEGORIES
+        ? groups
+        : groups.filter((group) => (group.category || 'Other') === activeCategory),
+    [groups, activeCategory]
+  );
+
+  const duplicateFiles = useMemo<DuplicateFileItem[]>(() => {
+    return visibleGroups.flatMap((group) =>
+      group.files.map((file) => ({
+        id: getDuplicateFileId(group.hash, file.path),
+        path: file.path,
+        size: file.size,
+        modifiedDate: file.modifiedDate,
+        groupHash: group.hash,
+      }))
+    );
+  }, [visibleGroups]);
+
+  const {
+    selectedFileIds,
+    smartFiltering,
+    selectedStats,
+    selectionState,
+    selectAllActionLabel,
+    selectAllDisabled,
+    selectAllHint,
+    toggleFileSelection,
+    handleSmartFilteringToggle,
+    handleSelectAll,
+    handleGroupSelectAll,
+  } = useDuplicateSelection(visibleGroups, duplicateFiles);
+
+  const deleteDisabled = selectedStats.items === 0;
+
+  const handleDelete = useCallback(() => {
+    if (deleteDisabled || deleting) {
+      return;
+    }
+
+    const selectedPaths = duplicateFiles
+      .filter((file) => selectedFileIds.has(file.id))
+      .map((file) => file.path);
+    const fullySelectedGroups = findFullyDeletedGroups(visibleGroups, new Set(selectedPaths));
+    if (fullySelectedGroups.length > 0) {
+      Alert.alert(
+        'Keep One Copy',
+        `Every copy is selected in ${fullySelectedGroups.length} group${fullySelectedGroups.length !== 1 ? 's' : ''}. Deselect at least one file in each group before deleting.`
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Delete Duplicates?',
+      `This will move ${selectedStats.items} file${selectedStats.items !== 1 ? 's' : ''} (${formatBytes(selectedStats.size)}) to the trash. Trashed files are permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setDeleting(true);
+            try {
+              const result = await deleteFiles(selectedPaths);
+              if (result.failed.length > 0) {
+                Alert.alert('Delete Failed', describeDeletionFailures(result));
+              } else {
+                showCleanupResult(result);
+              }
+            } catch (err) {
+              console.warn('Delete duplicate files failed', err);
+              Alert.alert('Delete Failed', err instanceof Error ? err.message : 'Some files could not be deleted.');
+            } finally {
+              setDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [deleteDisabled, deleting, duplicateFiles, selectedFileIds, visibleGroups, selectedStats, deleteFiles]);
+
+  const handlePreview = useCallback((file: DuplicateFileItem) => {
+    if (isImageFile(file.path)) {
+      setPreviewFile(file);
+    }
+  }, []);
+
+  const showResults = !isScanning && duplicateFiles.length > 0;
+  const showNoResultsSummary = !isScanning && !isRestoring && groups.length === 0 && !error && progress.total > 0;
+  const showEmptyState = !isScanning && !isRestoring && groups.length === 0 && !error && progress.total === 0;
+
+  return (
+    <ScreenWrapper style={styles.screen}>
+      <SafeAreaView style={{ flex: 1 }} edges={['bottom', 'left', 'right']}>
+        <View style={styles.headerContainer}>
+          <AppHeader title="Duplicate Files" subtitle="Identical documents, videos, apps and downloads" />
+          {groups.length > 0 && (
+            <View style={styles.categoryBar}>
+              <CategoryFilterBar
+                categories={categories}
+                activeCategory={activeCategory}
+                counts={categoryCounts}
+                onCategoryChange={setActiveCategory}
+              />
+            </View>
+          )}
+        </View>
+        <DuplicateFilterBar
+          selectionState={selectionState}
+          selectAllActionLabel={selectAllActionLabel}
+          selectAllHint={selectAllHint}
+          selectAllDisabled={selectAllDisabled}
+          smartFiltering={smartFiltering}
+          onSelectAll={handleSelectAll}
+          onSmartFilterToggle={handleSmartFilteringToggle}
+        />
+        <ScrollView
+          contentContainerStyle={[
+            styles.content,
+            !isScanning && duplicateFiles.length > 0 && styles.contentWithFixedButton,
+          ]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={isScanning}
+              onRefresh={startScan}
+              tintColor={theme.colors.primary}
+            />
+          }
+        >
+          {error && (
+            <View style={[styles.errorCard, styles.sectionSpacing]}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          {showResults && (
+            <View style={[styles.resultsContainer, styles.sectionSpacing]}>
+              {visibleGroups.map((group) => {
+                const groupFiles = duplicateFiles.filter((file) => file.groupHash === group.hash);
+                const groupTotalSize = groupFiles.reduce((sum, file) => sum + file.size, 0);
+                return (
+                  <View key={group.hash} style={styles.groupContainer}>
+                    <DuplicateGroupHeader
+                      itemCount={groupFiles.length}
+                      totalSize={groupTotalSize}
+                      onSelectAll={() => handleGroupSelectAll(group.hash)}
+                    />
+                    {groupFiles.map((file: DuplicateFileItem) => (
+                      <DuplicateFileItemComponent
+                        key={file.id}
+                        file={file}
+                        isSelected={selectedFileIds.has(file.id)}
+                        hasLoadError={imageLoadErrors.has(file.path)}
+                        previewable={isImageFile(file.path)}
+                        icon={getFileTypeIcon(file.path)}
+                        onToggleSelect={() => toggleFileSelection(file.id)}
+                        onPreview={handlePreview}
+                        onImageError={() => setImageLoadErrors((prev) => new Set(prev).add(file.path))}
+                      />
+                    ))}
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          {showNoResultsSummary && (
+            <View style={styles.sectionSpacing}>
+              <DuplicateSummaryCard
+                isCancelled={progress.currentFile === 'Cancelled'}
+                scannedCount={progress.scannedFiles || progress.current || 0}
+                totalScanned={progress.total}
+              />
+            </View>
+          )}
+
+          {showEmptyState && (
+            <View style={styles.sectionSpacing}>
+              <EmptyState
+                icon="file-multiple-outline"
+                title="no duplicate files yet"
+                description="Pull down to refresh and scan for duplicate files"
+              />
+            </View>
+          )}
+        </ScrollView>
+
+        {!isScanning && duplicateFiles.length > 0 && !deleteDisabled && (
+          <View style={styles.fixedDeleteButtonContainer}>
+            <DeleteButton
+              items={selectedStats.items}
+              size={selectedStats.size}
+              disabled={deleteDisabled || deleting}
+              onPress={handleDelete}
+            />
+          </View>
+        )}
+
+        <ImagePreviewModal
+          visible={!!previewFile}
+          imagePath={previewFile?.path || null}
+          onClose={() => setPreviewFile(null)}
+        />
+      </SafeAreaView>
+    </ScreenWrapper>
+  );
+}
+
+const createStyles = (theme: DefaultTheme) =>
+  StyleSheet.create({
+    screen: { flex: 1 },
+    headerContainer: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+    },
+    categoryBar: {
+      marginTop: theme.spacing.md,
+    },
+    content: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.md,
+      paddingBottom: theme.spacing.xl * 1.5,
+    },
+    contentWithFixedButton: {
+      paddingBottom: theme.spacing.xl * 3,
+    },
+    sectionSpacing: {
+      marginBottom: theme.spacing.lg,
+    },
+    errorCard: {
+      backgroundColor: `${theme.colors.error}11`,
+      borderRadius: theme.radii.lg,
+      padding: theme.spacing.md,
+      borderWidth: 1,
+      borderColor: `${theme.colors.error}55`,
+    },
+    errorText: {
+      color: theme.colors.error,
+      fontSize: theme.fontSize.sm,
+      textAlign: 'center',
+    },
+    resultsContainer: {
+      gap: theme.spacing.lg,
+    },
+    groupContainer: {
+      marginBottom: theme.spacing.lg,
+    },
+    fixedDeleteButtonContainer: {
+      position: 'absolute',
+      bottom: 0,
+      left: 0,
+      right: 0,
+      paddingHorizontal: theme.spacing.lg,
+      backgroundColor: theme.colors.background,
+      borderTopWidth: 1,
+      borderTopColor: theme.mode === 'dark' ? `${theme.colors.surfaceAlt}33` : `${theme.colors.surfaceAlt}22`,
+    },
+  });
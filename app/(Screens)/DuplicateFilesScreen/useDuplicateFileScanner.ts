@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { initDatabase, loadDuplicateFileGroups, saveDuplicateFileGroups } from '../../../utils/db';
+import { deleteDuplicateFiles, type DuplicateDeleteResult, type DuplicateGroup } from '../../../utils/duplicateFinder';
+import { scanAllDuplicateFiles, type ScanProgress } from './DuplicateFileScanner';
+
+export const useDuplicateFileScanner = () => {
+  const [isScanning, setIsScanning] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [progress, setProgress] = useState<ScanProgress>({ total: 0, current: 0 });
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRef = useRef(false);
+
+  // Load saved results on mount so UI can render immediately with prior scan data
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadSavedResults = async () => {
+      try {
+        await initDatabase();
+        const savedGroups = await loadDuplicateFileGroups();
+        if (isMounted && savedGroups.length > 0) {
+          setGroups(savedGroups);
+          // Mark progress as complete so summary / rescan logic behaves like other screens
+          setProgress((prev) => ({
+            ...prev,
+            total: savedGroups.length,
+            current: savedGroups.length,
+            stage: 'restored',
+          }));
+        }
+      } catch (error) {
+        console.error('Failed to load saved duplicate file groups:', error);
+      } finally {
+        if (isMounted) {
+          setIsRestoring(false);
+        }
+      }
+    };
+
+    loadSavedResults();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const startScan = useCallback(async () => {
+    if (isScanning) {
+      return;
+    }
+
+    setIsScanning(true);
+    setProgress({ total: 0, current: 0 });
+    setGroups([]);
+    setError(null);
+    cancelRef.current = false;
+
+    try {
+      const results = await scanAllDuplicateFiles(
+        (prog) => {
+          if (!cancelRef.current) {
+            setProgress(prog);
+          }
+        },
+        cancelRef,
+      );
+
+      if (!cancelRef.current) {
+        setGroups(results);
+        setProgress((prev) => ({ ...prev, stage: 'complete' }));
+
+        // Save results to database (an empty list clears old results)
+        try {
+          await initDatabase();
+          await saveDuplicateFileGroups(results);
+          console.log(`Saved ${results.length} duplicate file groups to database`);
+        } catch (dbError) {
+          console.error('Failed to save duplicate file groups to database:', dbError);
+          // Don't throw - allow scan to complete even if save fails
+        }
+      } else {
+        setProgress((prev) => ({ ...prev, stage: 'cancelled', currentFile: 'Cancelled' }));
+      }
+    } catch (err) {
+      if (!cancelRef.current) {
+        const message = err instanceof Error ? err.message : 'Failed to scan for duplicate files';
+        setError(message);
+      }
+    } finally {
+      setIsScanning(false);
+    }
+  }, [isScanning]);
+
+  const deleteFiles = useCallback(async (paths: string[]): Promise<DuplicateDeleteResult> => {
+    const result = await deleteDuplicateFiles(groups, paths);
+    setGroups(result.groups);
+    try {
+      await initDatabase();
+      await saveDuplicateFileGroups(result.groups);
+    } catch (dbError) {
+      console.error('Failed to save duplicate file groups to database:', dbError);
+    }
+    return result;
+  }, [groups]);
+
+  const stopScan = useCallback(() => {
+    cancelRef.current = true;
+    setIsScanning(false);
+    setProgress((prev) => ({ ...prev, currentFile: 'Cancelled' }));
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      cancelRef.current = true;
+    };
+  }, []);
+
+  return {
+    isScanning,
+    isRestoring,
+    progress,
+    groups,
+    error,
+    startScan,
+    stopScan,
+    deleteFiles,
+  };
+};
+
+// Default export to satisfy expo-router while keeping this as a non-route module
+export default function UseDuplicateFileScannerRoute(): null {
+  return null;
+}
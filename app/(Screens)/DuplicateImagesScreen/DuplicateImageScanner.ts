@@ -1,26 +1,41 @@
-import CryptoJS from 'crypto-js';
 import type { ReactNode } from 'react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type { Permission } from 'react-native';
 import { PermissionsAndroid, Platform } from 'react-native';
 import RNFS from 'react-native-fs';
-import { getCachedFile, initDatabase, loadDuplicateGroups, saveDuplicateGroups, saveFileCache } from '../../../utils/db';
+import { useDispatch, useSelector } from 'react-redux';
+import { markResultsFresh } from '../../../redux-code/action';
+import type { RootState } from '../../../redux-code/store';
+import {
+  getCachedFile,
+  initDatabase,
+  loadDuplicateGroups,
+  loadSimilarImageGroups,
+  saveDuplicateGroups,
+  savePerceptualHash,
+  saveSimilarImageGroups,
+  toCacheMtime,
+} from '../../../utils/db';
+import {
+  createThrottledProgress,
+  deleteDuplicateFiles,
+  findDuplicateGroups,
+  type DuplicateDeleteResult,
+  type DuplicateFile,
+  type DuplicateGroup,
+  type DuplicateScanMode,
+} from '../../../utils/duplicateFinder';
 import { fastScan, createExtensionFilter, createSizeFilter, type ScanProgress } from '../../../utils/fastScanner';
+import { HammingIndex, PERCEPTUAL_HASH_BITS, computeDifferenceHash, hammingDistance } from '../../../utils/perceptualHash';
+import { DEFAULT_SCAN_SETTINGS } from '../../../utils/scanSettings';
 
-export interface ImageFile {
-  path: string;
-  size: number;
-  modifiedDate: number;
-}
+export type ImageFile = DuplicateFile;
+export type { DuplicateDeleteResult, DuplicateGroup, DuplicateScanMode };
 
-export interface DuplicateGroup {
-  hash: string;
-  files: ImageFile[];
-}
-
-const HASH_BATCH_SIZE = 50; // Increased for parallel hashing
-const MIN_IMAGE_SIZE_BYTES = 10 * 1024; // Skip tiny thumbnails to cut scan time
-const QUICK_HASH_SIZE = 2 * 1024; // Use first 2KB for quick hash (reduced for speed)
+export const DEFAULT_SIMILARITY_DISTANCE = DEFAULT_SCAN_SETTINGS.similarityMaxDistance;
+const PERCEPTUAL_HASH_CONCURRENCY = 4; // Decoding is far heavier than MD5, keep it modest
+// Formats the image manipulator can decode
+const SIMILAR_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.heic', '.heif', '.bmp', '.gif'];
 const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg', '.ico',
   '.tiff', '.tif', '.heic', '.heif', '.raw', '.cr2', '.nef', '.orf',
   '.sr2', '.arw', '.dng', '.psd', '.ai', '.eps', '.pcx', '.tga'];
@@ -70,8 +85,9 @@ const ensurePerms = async (): Promise<boolean> => {
 };
 
 const collectImageFiles = async (
-  onProgress?: (progress: ScanProgress) => void,
-  cancelRef?: { current: boolean },
+  onProgress: ((progress: ScanProgress) => void) | undefined,
+  cancelRef: { current: boolean } | undefined,
+  minImageSizeBytes: number,
 ): Promise<ImageFile[]> => {
   const hasAccess = await ensurePerms();
   if (!hasAccess) {
@@ -80,7 +96,7 @@ const collectImageFiles = async (
 
   const rootPaths = buildImageRootPaths();
   const imageFilter = createExtensionFilter(IMAGE_EXTENSIONS);
-  const sizeFilter = createSizeFilter(MIN_IMAGE_SIZE_BYTES);
+  const sizeFilter = createSizeFilter(minImageSizeBytes);
   
   const combinedFilter = (entry: RNFS.ReadDirItem) => {
     return imageFilter(entry) && sizeFilter(entry);
@@ -89,8 +105,6 @@ const collectImageFiles = async (
   const entries = await fastScan<RNFS.ReadDirItem>({
     rootPaths,
     fileFilter: combinedFilter,
-    maxConcurrentDirs: 10,
-    batchSize: 100,
     onProgress: (progress) => {
       onProgress?.({
         ...progress,
@@ -111,336 +125,222 @@ const collectImageFiles = async (
   });
 };
 
-// Optimized quick hash: Use first 2KB + middle 2KB + size for better accuracy without reading whole file
-const computeQuickHash = async (filePath: string, fileSize: number): Promise<string> => {
-  try {
-    // For small files, hash the entire file (fast)
-    if (fileSize <= QUICK_HASH_SIZE) {
-      const content = await RNFS.readFile(filePath, 'base64');
-      const wordArray = CryptoJS.enc.Base64.parse(content);
-      return CryptoJS.MD5(wordArray).toString();
-    } else {
-      // For larger files, use size-based identifier (very fast, no I/O)
-      // Only compute hash for files with matching sizes (done in findDuplicates)
-      // This avoids reading files unnecessarily
-      return `size_${fileSize}`;
-    }
-  } catch {
-    return '';
+export const scanDuplicateImages = async (
+  onProgress?: (progress: ScanProgress) => void,
+  cancelRef?: { current: boolean },
+  minImageSizeBytes: number = DEFAULT_SCAN_SETTINGS.minImageSizeBytes,
+): Promise<DuplicateGroup[]> => {
+  const startedAt = Date.now();
+  const files = await collectImageFiles(onProgress, cancelRef, minImageSizeBytes);
+  const collectedAt = Date.now();
+  if (cancelRef?.current || files.length === 0) {
+    console.log('[DuplicateScan] skipped - no files or cancelled');
+    return [];
   }
+
+  await initDatabase();
+  const duplicates = await findDuplicateGroups(files, onProgress, cancelRef);
+  onProgress?.({ total: files.length, current: files.length, scannedFiles: files.length, stage: 'complete' });
+  const finishedAt = Date.now();
+
+  console.log(
+    `[DuplicateScan] files=${files.length} groups=${duplicates.length} collectMs=${collectedAt - startedAt} ` +
+      `hashMs=${finishedAt - collectedAt} totalMs=${finishedAt - startedAt}`,
+  );
+
+  return duplicates;
 };
 
-const computeMD5Hash = async (filePath: string): Promise<string> => {
-  // Always try native hash first (much faster)
-  try {
-    if (typeof (RNFS as any).hash === 'function') {
-      const hash = await (RNFS as any).hash(filePath, 'md5');
-      if (hash && hash.length > 0) {
-        return hash;
-      }
-    }
-  } catch (error) {
-    // If native hash fails, fall through to manual hashing
-    console.warn(`[DuplicateScan] Native hash failed for ${filePath}, using manual hash:`, error);
+/**
+ * Scan duplicates from pre-collected image files (faster - skips file collection)
+ */
+export const scanForDuplicatesFromImages = async (
+  imageFiles: ImageFile[],
+  onProgress?: (progress: ScanProgress) => void,
+  cancelRef?: { current: boolean },
+): Promise<DuplicateGroup[]> => {
+  const startedAt = Date.now();
+  if (cancelRef?.current || imageFiles.length === 0) {
+    console.log('[DuplicateScan] skipped - no files or cancelled');
+    return [];
   }
 
-  // Fallback to manual hashing (slower but works)
-  try {
-    const content = await RNFS.readFile(filePath, 'base64');
-    const wordArray = CryptoJS.enc.Base64.parse(content);
-    return CryptoJS.MD5(wordArray).toString();
-  } catch {
-    return '';
-  }
+  await initDatabase();
+  const duplicates = await findDuplicateGroups(imageFiles, onProgress, cancelRef);
+  onProgress?.({ total: imageFiles.length, current: imageFiles.length, scannedFiles: imageFiles.length, stage: 'complete' });
+  const finishedAt = Date.now();
+
+  console.log(
+    `[DuplicateScan] files=${imageFiles.length} groups=${duplicates.length} hashMs=${finishedAt - startedAt} totalMs=${finishedAt - startedAt}`,
+  );
+
+  return duplicates;
 };
 
-const getOrComputeHash = async (file: ImageFile, useQuickHash: boolean = false): Promise<string> => {
+export const scanForDuplicates = scanDuplicateImages;
+
+const getOrComputePerceptualHash = async (file: ImageFile): Promise<string | null> => {
   try {
     const cached = await getCachedFile(file.path);
     if (
-      cached &&
+      cached?.perceptualHash &&
       cached.size === file.size &&
-      cached.modifiedDate === file.modifiedDate
+      cached.modifiedDate === toCacheMtime(file.modifiedDate)
     ) {
-      // Return quick hash if available and requested
-      if (useQuickHash && cached.partialHash) {
-        // For old size-based quick hash, regenerate with new format
-        if (cached.partialHash.startsWith('size_')) {
-          // Recompute with new 4KB hash format
-          return await computeQuickHash(file.path, file.size);
-        }
-        return cached.partialHash;
-      }
-      if (cached.fullHash) {
-        return cached.fullHash;
-      }
-      // If we have partial but need full, compute full hash
-      if (cached.partialHash && !useQuickHash) {
-        const fullHash = await computeMD5Hash(file.path);
-        if (fullHash) {
-          try {
-            await saveFileCache({
-              path: file.path,
-              size: file.size,
-              partialHash: cached.partialHash,
-              fullHash,
-              modifiedDate: file.modifiedDate,
-            });
-          } catch {
-            // Cache failures should not break scanning
-          }
-        }
-        return fullHash;
-      }
+      return cached.perceptualHash;
     }
   } catch {
     // ignore cache errors, fall back to hashing
   }
 
-  // Compute hash based on type requested
-  const hash = useQuickHash 
-    ? await computeQuickHash(file.path, file.size)
-    : await computeMD5Hash(file.path);
-
+  const hash = await computeDifferenceHash(file.path);
   if (hash) {
-    // Persist hash so future scans can skip hashing unchanged files
     try {
-      const fullHash = useQuickHash ? null : hash;
-      const partialHash = useQuickHash ? hash : hash.slice(0, 12) || hash;
-      
-      await saveFileCache({
-        path: file.path,
-        size: file.size,
-        partialHash,
-        fullHash,
-        modifiedDate: file.modifiedDate,
-      });
+      await savePerceptualHash(file, hash);
     } catch {
       // Cache failures should not break scanning
     }
   }
-
   return hash;
 };
 
-const createThrottledProgress = (onProgress?: (progress: ScanProgress) => void) => {
-  let lastEmit = 0;
-  const PROGRESS_THROTTLE_MS = 200;
-  return (progress: ScanProgress) => {
-    const now = Date.now();
-    if (now - lastEmit >= PROGRESS_THROTTLE_MS) {
-      lastEmit = now;
-      onProgress?.(progress);
-    }
-  };
-};
-
-const findDuplicates = async (
+const findSimilarImages = async (
   files: ImageFile[],
+  maxDistance: number,
   onProgress?: (progress: ScanProgress) => void,
   cancelRef?: { current: boolean },
 ): Promise<DuplicateGroup[]> => {
   const emitProgress = createThrottledProgress(onProgress);
-  if (files.length === 0) {
+  const candidates = files.filter((file) => {
+    const lower = file.path.toLowerCase();
+    return SIMILAR_IMAGE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+  });
+  if (candidates.length < 2) {
     return [];
   }
 
-  emitProgress({ total: files.length, current: 0, stage: 'grouping', currentFile: 'analyzing sizes' });
-
-  // Phase 1: Group by size (fast, no I/O)
-  const sizeGroups = new Map<number, ImageFile[]>();
-  for (const file of files) {
-    const existing = sizeGroups.get(file.size) || [];
-    sizeGroups.set(file.size, [...existing, file]);
-  }
-
-  const candidates: ImageFile[] = [];
-  for (const [, group] of sizeGroups) {
-    if (group.length > 1) {
-      candidates.push(...group);
+  // Phase 1: perceptual hash of every candidate (cached in file_cache)
+  const hashes: (string | null)[] = new Array(candidates.length).fill(null);
+  let hashed = 0;
+  for (let i = 0; i < candidates.length; i += PERCEPTUAL_HASH_CONCURRENCY) {
+    if (cancelRef?.current) {
+      return [];
     }
-  }
-
-  if (candidates.length === 0) {
-    return [];
-  }
-
-  emitProgress({ total: candidates.length, current: 0, stage: 'quick-hashing', currentFile: 'computing quick hashes' });
-
-  // Phase 2: Quick hash (first 4KB + size) for fast filtering with parallel processing
-  const quickHashGroups = new Map<string, ImageFile[]>();
-  let quickHashed = 0;
-
-  const batches: ImageFile[][] = [];
-  for (let i = 0; i < candidates.length; i += HASH_BATCH_SIZE) {
-    batches.push(candidates.slice(i, i + HASH_BATCH_SIZE));
-  }
-
-  // Process batches in parallel with higher concurrency
-  const processBatch = async (batch: ImageFile[]) => {
-    await Promise.allSettled(
-      batch.map(async (file) => {
-        if (cancelRef?.current) {
-          return;
-        }
-
-        // Use size as quick hash (very fast, no I/O)
-        // Only files with matching sizes need full hash
-        const quickHash = `size_${file.size}`;
-        const existing = quickHashGroups.get(quickHash) || [];
-        quickHashGroups.set(quickHash, [...existing, file]);
-
-        quickHashed += 1;
+    const batch = candidates.slice(i, i + PERCEPTUAL_HASH_CONCURRENCY);
+    await Promise.all(
+      batch.map(async (file, offset) => {
+        hashes[i + offset] = await getOrComputePerceptualHash(file);
+        hashed += 1;
         emitProgress({
           total: candidates.length,
-          current: quickHashed,
-          scannedFiles: quickHashed,
-          stage: 'quick-hashing',
+          current: hashed,
+          scannedFiles: hashed,
+          stage: 'perceptual-hashing',
           currentFile: file.path.split('/').pop() || file.path,
         });
       }),
     );
-  };
-
-  // Process multiple batches concurrently (up to 8 at a time for hashing)
-  const maxConcurrentBatches = 8;
-  for (let i = 0; i < batches.length; i += maxConcurrentBatches) {
-    if (cancelRef?.current) {
-      break;
-    }
-    const batchGroup = batches.slice(i, i + maxConcurrentBatches);
-    await Promise.all(batchGroup.map(processBatch));
   }
 
-  // Phase 3: Full hash only for files with matching quick hashes
-  emitProgress({ total: candidates.length, current: quickHashed, stage: 'full-hashing', currentFile: 'computing full hashes' });
-
-  const fullHashGroups = new Map<string, ImageFile[]>();
-  let fullHashed = 0;
-  let totalToFullHash = 0;
-
-  // Count files that need full hashing (groups with >1 file)
-  for (const [, group] of quickHashGroups) {
-    if (group.length > 1) {
-      totalToFullHash += group.length;
-    }
-  }
+  // Phase 2: grow each group from a seed, admitting only images within maxDistance of every member.
+  // Linking any close pair would chain A~B~C together even when A and C look nothing alike.
+  emitProgress({ total: candidates.length, current: 0, stage: 'clustering', currentFile: 'grouping similar images' });
+  const index = new HammingIndex();
+  hashes.forEach((hash, i) => {
+    if (hash) index.add(hash, i);
+  });
 
-  // Process full hash groups in parallel
-  const fullHashBatches: ImageFile[][] = [];
-  for (const [, group] of quickHashGroups) {
-    if (group.length > 1) {
-      for (let i = 0; i < group.length; i += HASH_BATCH_SIZE) {
-        fullHashBatches.push(group.slice(i, i + HASH_BATCH_SIZE));
+  const grouped = new Set<number>();
+  const clusters: { seed: number; members: number[] }[] = [];
+  hashes.forEach((hash, seed) => {
+    if (!hash || grouped.has(seed)) return;
+    const members = [seed];
+    grouped.add(seed);
+    // Closest first, so a borderline image cannot crowd out a near-identical one
+    const matches = index
+      .search(hash, maxDistance)
+      .filter((match) => !grouped.has(match.index))
+      .sort((a, b) => a.distance - b.distance);
+    for (const match of matches) {
+      const candidateHash = hashes[match.index]!;
+      if (members.every((member) => hammingDistance(hashes[member]!, candidateHash) <= maxDistance)) {
+        members.push(match.index);
+        grouped.add(match.index);
       }
     }
-  }
-
-  const processFullHashBatch = async (batch: ImageFile[]) => {
-    await Promise.allSettled(
-      batch.map(async (file) => {
-        if (cancelRef?.current) {
-          return;
-        }
-
-        const fullHash = await getOrComputeHash(file, false);
-        if (fullHash) {
-          const existing = fullHashGroups.get(fullHash) || [];
-          fullHashGroups.set(fullHash, [...existing, file]);
-        }
-
-        fullHashed += 1;
-        emitProgress({
-          total: totalToFullHash || candidates.length,
-          current: fullHashed,
-          scannedFiles: fullHashed,
-          stage: 'full-hashing',
-          currentFile: file.path.split('/').pop() || file.path,
-        });
-      }),
-    );
-  };
-
-  // Process full hash batches with higher concurrency (up to 10 at a time)
-  for (let i = 0; i < fullHashBatches.length; i += 10) {
-    if (cancelRef?.current) {
-      break;
-    }
-    const batchGroup = fullHashBatches.slice(i, i + 10);
-    await Promise.all(batchGroup.map(processFullHashBatch));
-  }
+    clusters.push({ seed, members });
+  });
 
-  // Build final duplicate groups
-  const duplicates: DuplicateGroup[] = [];
-  for (const [hash, group] of fullHashGroups) {
-    if (group.length > 1) {
-      duplicates.push({ hash, files: group });
-    }
+  // Score each cluster by the mean distance of its members to the first one
+  const groups: DuplicateGroup[] = [];
+  for (const { seed, members } of clusters) {
+    if (members.length < 2) continue;
+    const anchorHash = hashes[members[0]]!;
+    const distanceSum = members
+      .slice(1)
+      .reduce((sum, member) => sum + hammingDistance(anchorHash, hashes[member]!), 0);
+    const meanDistance = distanceSum / (members.length - 1);
+    groups.push({
+      hash: `similar_${anchorHash}_${seed}`,
+      files: members.map((member) => candidates[member]),
+      kind: 'similar',
+      similarity: Math.round((1 - meanDistance / PERCEPTUAL_HASH_BITS) * 100) / 100,
+    });
   }
 
-  return duplicates;
+  return groups.sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0));
 };
 
-export const scanDuplicateImages = async (
+/**
+ * Find re-saved, resized or re-compressed copies of the same photo using perceptual hashes.
+ */
+export const scanSimilarImages = async (
   onProgress?: (progress: ScanProgress) => void,
   cancelRef?: { current: boolean },
+  maxDistance: number = DEFAULT_SIMILARITY_DISTANCE,
+  minImageSizeBytes: number = DEFAULT_SCAN_SETTINGS.minImageSizeBytes,
 ): Promise<DuplicateGroup[]> => {
   const startedAt = Date.now();
-  const files = await collectImageFiles(onProgress, cancelRef);
+  const files = await collectImageFiles(onProgress, cancelRef, minImageSizeBytes);
   const collectedAt = Date.now();
   if (cancelRef?.current || files.length === 0) {
-    console.log('[DuplicateScan] skipped - no files or cancelled');
+    console.log('[SimilarScan] skipped - no files or cancelled');
     return [];
   }
 
   await initDatabase();
-  const duplicates = await findDuplicates(files, onProgress, cancelRef);
+  const groups = await findSimilarImages(files, maxDistance, onProgress, cancelRef);
   onProgress?.({ total: files.length, current: files.length, scannedFiles: files.length, stage: 'complete' });
   const finishedAt = Date.now();
 
   console.log(
-    `[DuplicateScan] files=${files.length} groups=${duplicates.length} collectMs=${collectedAt - startedAt} ` +
-      `hashMs=${finishedAt - collectedAt} totalMs=${finishedAt - startedAt}`,
-  );
-
-  return duplicates;
-};
-
-/**
- * Scan duplicates from pre-collected image files (faster - skips file collection)
- */
-export const scanForDuplicatesFromImages = async (
-  imageFiles: ImageFile[],
-  onProgress?: (progress: ScanProgress) => void,
-  cancelRef?: { current: boolean },
-): Promise<DuplicateGroup[]> => {
-  const startedAt = Date.now();
-  if (cancelRef?.current || imageFiles.length === 0) {
-    console.log('[DuplicateScan] skipped - no files or cancelled');
-    return [];
-  }
-
-  await initDatabase();
-  const duplicates = await findDuplicates(imageFiles, onProgress, cancelRef);
-  onProgress?.({ total: imageFiles.length, current: imageFiles.length, scannedFiles: imageFiles.length, stage: 'complete' });
-  const finishedAt = Date.now();
-
-  console.log(
-    `[DuplicateScan] files=${imageFiles.length} groups=${duplicates.length} hashMs=${finishedAt - startedAt} totalMs=${finishedAt - startedAt}`,
+    `[SimilarScan] files=${files.length} groups=${groups.length} maxDistance=${maxDistance} ` +
+      `collectMs=${collectedAt - startedAt} hashMs=${finishedAt - collectedAt} totalMs=${finishedAt - startedAt}`,
   );
 
-  return duplicates;
+  return groups;
 };
 
-export const scanForDuplicates = scanDuplicateImages;
+const saveGroupsForMode = (mode: DuplicateScanMode, groups: DuplicateGroup[]): Promise<void> =>
+  mode === 'similar' ? saveSimilarImageGroups(groups) : saveDuplicateGroups(groups);
 
 export const useScanner = () => {
+  const dispatch = useDispatch();
+  const minImageSizeBytes = useSelector((state: RootState) => state.settings.scan.minImageSizeBytes);
+  const similarityMaxDistance = useSelector(
+    (state: RootState) => state.settings.scan.similarityMaxDistance ?? DEFAULT_SIMILARITY_DISTANCE
+  );
   const [isScanning, setIsScanning] = useState(false);
   const [isRestoring, setIsRestoring] = useState(true);
   const [progress, setProgress] = useState<ScanProgress>({ total: 0, current: 0 });
-  const [duplicates, setDuplicates] = useState<DuplicateGroup[]>([]);
+  const [mode, setMode] = useState<DuplicateScanMode>('exact');
+  const [groupsByMode, setGroupsByMode] = useState<Record<DuplicateScanMode, DuplicateGroup[]>>({
+    exact: [],
+    similar: [],
+  });
   const [error, setError] = useState<string | null>(null);
   const cancelRef = useRef(false);
+  const duplicates = groupsByMode[mode];
 
   // Load saved results on mount so UI can render immediately with prior scan data
   useEffect(() => {
@@ -449,14 +349,16 @@ export const useScanner = () => {
     const loadSavedResults = async () => {
       try {
         await initDatabase();
-        const savedResults = await loadDuplicateGroups();
-        if (isMounted && savedResults.length > 0) {
-          setDuplicates(savedResults);
+        const [savedExact, savedSimilar] = await Promise.all([loadDuplicateGroups(), loadSimilarImageGroups()]);
+        if (isMounted) {
+          setGroupsByMode({ exact: savedExact, similar: savedSimilar });
+        }
+        if (isMounted && savedExact.length > 0) {
           // Mark progress as complete so summary / rescan logic behaves like other screens
           setProgress((prev) => ({
             ...prev,
-            total: savedResults.length,
-            current: savedResults.length,
+            total: savedExact.length,
+            current: savedExact.length,
             stage: 'restored',
           }));
         }
@@ -481,44 +383,38 @@ export const useScanner = () => {
       return;
     }
 
+    const scanMode = mode;
     setIsScanning(true);
     setProgress({ total: 0, current: 0 });
-    setDuplicates([]);
+    setGroupsByMode((prev) => ({ ...prev, [scanMode]: [] }));
     setError(null);
     cancelRef.current = false;
 
     try {
-      const results = await scanDuplicateImages(
-        (prog) => {
-          if (!cancelRef.current) {
-            setProgress(prog);
-          }
-        },
-        cancelRef,
-      );
+      const onScanProgress = (prog: ScanProgress) => {
+        if (!cancelRef.current) {
+          setProgress(prog);
+        }
+      };
+      const results = scanMode === 'similar'
+        ? await scanSimilarImages(onScanProgress, cancelRef, similarityMaxDistance, minImageSizeBytes)
+        : await scanDuplicateImages(onScanProgress, cancelRef, minImageSizeBytes);
 
       if (!cancelRef.current) {
-        setDuplicates(results);
+        setGroupsByMode((prev) => ({ ...prev, [scanMode]: results }));
+        if (scanMode === 'exact') {
+          dispatch(markResultsFresh(['duplicates']));
+        }
         setProgress((prev) => ({ ...prev, stage: 'complete' }));
         
-        // Save results to database
-        if (results.length > 0) {
-          try {
-            await initDatabase();
-            await saveDuplicateGroups(results);
-            console.log(`Saved ${results.length} duplicate groups to database`);
-          } catch (dbError) {
-            console.error('Failed to save duplicate groups to database:', dbError);
-            // Don't throw - allow scan to complete even if save fails
-          }
-        } else {
-          // Even if no duplicates, clear old results
-          try {
-            await initDatabase();
-            await saveDuplicateGroups([]);
-          } catch (dbError) {
-            console.error('Failed to clear duplicate groups in database:', dbError);
-          }
+        // Save results to database (an empty list clears old results)
+        try {
+          await initDatabase();
+          await saveGroupsForMode(scanMode, results);
+          console.log(`Saved ${results.length} ${scanMode} duplicate groups to database`);
+        } catch (dbError) {
+          console.error('Failed to save duplicate groups to database:', dbError);
+          // Don't throw - allow scan to complete even if save fails
         }
       } else {
         setProgress((prev) => ({ ...prev, stage: 'cancelled', currentFile: 'Cancelled' }));
@@ -531,7 +427,19 @@ export const useScanner = () => {
     } finally {
       setIsScanning(false);
     }
-  }, [isScanning]);
+  }, [isScanning, mode, dispatch, minImageSizeBytes, similarityMaxDistance]);
+
+  const deleteFiles = useCallback(async (paths: string[]): Promise<DuplicateDeleteResult> => {
+    const result = await deleteDuplicateFiles(duplicates, paths);
+    setGroupsByMode((prev) => ({ ...prev, [mode]: result.groups }));
+    try {
+      await initDatabase();
+      await saveGroupsForMode(mode, result.groups);
+    } catch (dbError) {
+      console.error('Failed to save duplicate groups to database:', dbError);
+    }
+    return result;
+  }, [duplicates, mode]);
 
   const stopScan = useCallback(() => {
     cancelRef.current = true;
@@ -550,9 +458,13 @@ export const useScanner = () => {
     isRestoring,
     progress,
     duplicates,
+    groupCounts: { exact: groupsByMode.exact.length, similar: groupsByMode.similar.length },
+    mode,
+    setMode,
     error,
     startScan,
     stopScan,
+    deleteFiles,
   };
 };
 
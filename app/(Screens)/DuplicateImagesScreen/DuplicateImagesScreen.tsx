@@ -1,8 +1,10 @@
-﻿import React, { useMemo, useState } from 'react';
-import { RefreshControl, ScrollView, StyleSheet, Text, View } from 'react-native';
+﻿import React, { useCallback, useMemo, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useDispatch } from 'react-redux';
 import { DefaultTheme, useTheme } from 'styled-components/native';
 import AppHeader from '../../../components/AppHeader';
+import CategoryFilterBar from '../../../components/CategoryFilterBar';
 import DeleteButton from '../../../components/DeleteButton';
 import { DuplicateFileItem } from '../../../components/DuplicateCard';
 import DuplicateFileItemComponent from '../../../components/DuplicateFileItem';
@@ -12,20 +14,40 @@ import DuplicateSummaryCard from '../../../components/DuplicateSummaryCard';
 import EmptyState from '../../../components/EmptyState';
 import ImagePreviewModal from '../../../components/ImagePreviewModal';
 import ScreenWrapper from '../../../components/ScreenWrapper';
-import { useScanner } from './DuplicateImageScanner';
-import { useDuplicateSelection } from './useDuplicateSelection';
+import formatBytes from '../../../constants/formatBytes';
+import { setDuplicateResults } from '../../../redux-code/action';
+import { findFullyDeletedGroups } from '../../../utils/duplicateFinder';
+import { showCleanupResult } from '../../../utils/showCleanupResult';
+import { TRASH_RETENTION_DAYS, describeDeletionFailures } from '../../../utils/trash';
+import { DuplicateScanMode, useScanner } from './DuplicateImageScanner';
+import { getDuplicateFileId, useDuplicateSelection } from './useDuplicateSelection';
+
+const SCAN_MODES: DuplicateScanMode[] = ['exact', 'similar'];
 
 export default function DuplicateImagesScreen() {
-  const { isScanning, isRestoring, progress, duplicates, error, startScan } = useScanner();
+  const {
+    isScanning,
+    isRestoring,
+    progress,
+    duplicates,
+    groupCounts,
+    mode,
+    setMode,
+    error,
+    startScan,
+    deleteFiles,
+  } = useScanner();
+  const dispatch = useDispatch();
   const theme = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
   const [previewFile, setPreviewFile] = useState<DuplicateFileItem | null>(null);
+  const [deleting, setDeleting] = useState(false);
   const [imageLoadErrors, setImageLoadErrors] = useState<Set<string>>(() => new Set());
 
   const duplicateFiles = useMemo<DuplicateFileItem[]>(() => {
     return duplicates.flatMap((group) =>
-      group.files.map((file, idx) => ({
-        id: `${group.hash}-${idx}-${file.path}`,
+      group.files.map((file) => ({
+        id: getDuplicateFileId(group.hash, file.path),
         path: file.path,
         size: file.size,
         modifiedDate: file.modifiedDate,
@@ -49,6 +71,61 @@ export default function DuplicateImagesScreen() {
   } = useDuplicateSelection(duplicates, duplicateFiles);
 
   const deleteDisabled = selectedStats.items === 0;
+
+  const handleDelete = useCallback(() => {
+    if (deleteDisabled || deleting) {
+      return;
+    }
+
+    const selectedPaths = duplicateFiles
+      .filter((file) => selectedFileIds.has(file.id))
+      .map((file) => file.path);
+    const fullySelectedGroups = findFullyDeletedGroups(duplicates, new Set(selectedPaths));
+    if (fullySelectedGroups.length > 0) {
+      Alert.alert(
+        'Keep One Copy',
+        `Every copy is selected in ${fullySelectedGroups.length} group${fullySelectedGroups.length !== 1 ? 's' : ''}. Deselect at least one file in each group before deleting.`
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Delete Duplicates?',
+      `This will move ${selectedStats.items} file${selectedStats.items !== 1 ? 's' : ''} (${formatBytes(selectedStats.size)}) to the trash. Trashed files are permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setDeleting(true);
+            try {
+              const result = await deleteFiles(selectedPaths);
+              if (mode === 'exact') {
+                dispatch(setDuplicateResults(result.groups));
+              }
+              if (result.failed.length > 0) {
+                Alert.alert('Delete Failed', describeDeletionFailures(result));
+              } else {
+                showCleanupResult(result);
+              }
+            } catch (err) {
+              console.warn('Delete duplicates failed', err);
+              Alert.alert('Delete Failed', err instanceof Error ? err.message : 'Some files could not be deleted.');
+            } finally {
+              setDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [deleteDisabled, deleting, duplicateFiles, selectedFileIds, duplicates, selectedStats, deleteFiles, mode, dispatch]);
+
+  const handleModeChange = useCallback((category: string) => {
+    if (!isScanning) {
+      setMode(category as DuplicateScanMode);
+    }
+  }, [isScanning, setMode]);
   const showResults = !isScanning && duplicateFiles.length > 0;
   const showNoResultsSummary = !isScanning && !isRestoring && duplicateFiles.length === 0 && !error && progress.total > 0;
   const showEmptyState = !isScanning && !isRestoring && duplicateFiles.length === 0 && !error && progress.total === 0;
@@ -57,7 +134,18 @@ export default function DuplicateImagesScreen() {
     <ScreenWrapper style={styles.screen}>
       <SafeAreaView style={{ flex: 1 }} edges={['bottom', 'left', 'right']}>
         <View style={styles.headerContainer}>
-          <AppHeader title="Duplicate Images" subtitle="Review and clean identical photos quickly" />
+          <AppHeader
+            title="Duplicate Images"
+            subtitle={mode === 'similar' ? 'Review resized and re-saved copies of photos' : 'Review and clean identical photos quickly'}
+          />
+          <View style={styles.modeBar}>
+            <CategoryFilterBar
+              categories={SCAN_MODES}
+              activeCategory={mode}
+              counts={groupCounts}
+              onCategoryChange={handleModeChange}
+            />
+          </View>
         </View>
         <DuplicateFilterBar
           selectionState={selectionState}
@@ -98,6 +186,7 @@ export default function DuplicateImagesScreen() {
                     <DuplicateGroupHeader
                       itemCount={groupFiles.length}
                       totalSize={groupTotalSize}
+                      similarity={group.kind === 'similar' ? group.similarity : undefined}
                       onSelectAll={() => handleGroupSelectAll(group.hash)}
                     />
                     {groupFiles.map((file: DuplicateFileItem) => (
@@ -131,8 +220,8 @@ export default function DuplicateImagesScreen() {
             <View style={styles.sectionSpacing}>
               <EmptyState
                 icon="image-outline"
-                title="no duplicate images yet"
-                description="Pull down to refresh and scan for duplicate images"
+                title={mode === 'similar' ? 'no similar images yet' : 'no duplicate images yet'}
+                description={`Pull down to refresh and scan for ${mode === 'similar' ? 'similar' : 'duplicate'} images`}
               />
             </View>
           )}
@@ -140,7 +229,12 @@ export default function DuplicateImagesScreen() {
 
         {!isScanning && duplicateFiles.length > 0 && !deleteDisabled && (
           <View style={styles.fixedDeleteButtonContainer}>
-            <DeleteButton items={selectedStats.items} size={selectedStats.size} disabled={deleteDisabled} />
+            <DeleteButton
+              items={selectedStats.items}
+              size={selectedStats.size}
+              disabled={deleteDisabled || deleting}
+              onPress={handleDelete}
+            />
           </View>
         )}
 
@@ -161,6 +255,9 @@ const createStyles = (theme: DefaultTheme) =>
       paddingHorizontal: theme.spacing.lg,
       paddingTop: theme.spacing.lg,
     },
+    modeBar: {
+      marginTop: theme.spacing.md,
+    },
     content: {
       paddingHorizontal: theme.spacing.lg,
       paddingTop: theme.spacing.md,
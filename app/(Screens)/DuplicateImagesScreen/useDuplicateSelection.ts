@@ -7,6 +7,12 @@ interface DuplicateGroup {
   files: { path: string }[];
 }
 
+/**
+ * Selection id of a file within its group. Built from the path rather than the row index,
+ * so a selection still points at the same files after a delete shifts the rows of a group.
+ */
+export const getDuplicateFileId = (groupHash: string, path: string): string => `${groupHash}:${path}`;
+
 export function useDuplicateSelection(duplicates: DuplicateGroup[], duplicateFiles: DuplicateFileItem[]) {
   const [selectedFileIds, setSelectedFileIds] = useState<Set<string>>(() => new Set());
   const [smartFiltering, setSmartFiltering] = useState(false);
@@ -0,0 +1,282 @@
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { DefaultTheme, useTheme } from "styled-components/native";
+import AppHeader from "../../../components/AppHeader";
+import EmptyState from "../../../components/EmptyState";
+import ErrorBanner from "../../../components/ErrorBanner";
+import ScreenWrapper from "../../../components/ScreenWrapper";
+import {
+  addExclusion,
+  getExclusionRules,
+  removeExclusion,
+  type ExclusionRule,
+  type ExclusionRuleType,
+} from "../../../utils/exclusions";
+
+const RULE_TYPES: { type: ExclusionRuleType; label: string; icon: string; placeholder: string }[] = [
+  { type: "prefix", label: "folder", icon: "folder-lock-outline", placeholder: "DCIM/Camera" },
+  { type: "glob", label: "pattern", icon: "asterisk", placeholder: "**/Work/*.pdf" },
+  { type: "file", label: "file", icon: "pin-outline", placeholder: "Download/contract.pdf" },
+];
+
+const ExclusionsScreen: React.FC = () => {
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const [rules, setRules] = useState<ExclusionRule[]>([]);
+  const [ruleType, setRuleType] = useState<ExclusionRuleType>("prefix");
+  const [pattern, setPattern] = useState("");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeType = RULE_TYPES.find((option) => option.type === ruleType) ?? RULE_TYPES[0];
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await getExclusionRules());
+    } catch (err) {
+      console.error("Failed to load exclusion rules:", err);
+      setError(err instanceof Error ? err.message : "unable to load exclusions");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleAdd = useCallback(async () => {
+    if (working) {
+      return;
+    }
+    setWorking(true);
+    setError(null);
+    try {
+      await addExclusion(ruleType, pattern);
+      setPattern("");
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "unable to add exclusion");
+    } finally {
+      setWorking(false);
+    }
+  }, [working, ruleType, pattern, loadRules]);
+
+  const handleRemove = useCallback(async (rule: ExclusionRule) => {
+    setError(null);
+    try {
+      await removeExclusion(rule.id);
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "unable to remove exclusion");
+    }
+  }, [loadRules]);
+
+  return (
+    <ScreenWrapper style={styles.screen}>
+      <SafeAreaView style={{ flex: 1 }} edges={["bottom", "left", "right"]}>
+        <View style={styles.headerContainer}>
+          <AppHeader title="Protected Files" />
+        </View>
+        <ScrollView
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {error && (
+            <View style={styles.sectionSpacing}>
+              <ErrorBanner error={error} />
+            </View>
+          )}
+
+          <View style={[styles.section, styles.sectionSpacing]}>
+            <Text style={styles.sectionDescription}>
+              Protected folders and files are skipped by every scan and can never be deleted by the app.
+              Paths without a leading slash are relative to shared storage.
+            </Text>
+            <View style={styles.typeRow}>
+              {RULE_TYPES.map((option) => {
+                const isActive = option.type === ruleType;
+                return (
+                  <TouchableOpacity
+                    key={option.type}
+                    style={[styles.typeChip, isActive && styles.typeChipActive]}
+                    onPress={() => setRuleType(option.type)}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.typeChipText, isActive && styles.typeChipTextActive]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                value={pattern}
+                onChangeText={setPattern}
+                placeholder={activeType.placeholder}
+                placeholderTextColor={theme.colors.textMuted}
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="done"
+                onSubmitEditing={handleAdd}
+              />
+              <TouchableOpacity
+                style={[styles.addButton, (!pattern.trim() || working) && styles.addButtonDisabled]}
+                onPress={handleAdd}
+                disabled={!pattern.trim() || working}
+                accessibilityRole="button"
+                accessibilityLabel="add exclusion"
+                activeOpacity={0.85}
+              >
+                <MaterialCommunityIcons name="plus" size={22} color={theme.colors.white} />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {rules.length === 0 ? (
+            <EmptyState
+              icon="shield-check-outline"
+              title="nothing protected yet"
+              description="Add a folder, pattern or file to keep it out of scan results"
+            />
+          ) : (
+            <View style={styles.rulesContainer}>
+              {rules.map((rule) => {
+                const option = RULE_TYPES.find((candidate) => candidate.type === rule.type) ?? RULE_TYPES[0];
+                return (
+                  <View key={rule.id} style={styles.ruleRow}>
+                    <MaterialCommunityIcons name={option.icon as any} size={20} color={theme.colors.primary} />
+                    <View style={styles.ruleContent}>
+                      <Text style={styles.rulePattern} numberOfLines={2}>{rule.pattern}</Text>
+                      <Text style={styles.ruleType}>{option.label}</Text>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => handleRemove(rule)}
+                      hitSlop={12}
+                      accessibilityRole="button"
+                      accessibilityLabel={`remove exclusion ${rule.pattern}`}
+                      activeOpacity={0.85}
+                    >
+                      <MaterialCommunityIcons name="close" size={20} color={theme.colors.textMuted} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </ScreenWrapper>
+  );
+};
+
+export default ExclusionsScreen;
+
+const createStyles = (theme: DefaultTheme) =>
+  StyleSheet.create({
+    screen: {
+      flex: 1,
+    },
+    headerContainer: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+    },
+    content: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+      paddingBottom: theme.spacing.xl * 1.5,
+    },
+    sectionSpacing: {
+      marginBottom: theme.spacing.lg,
+    },
+    section: {
+      padding: theme.spacing.md,
+      borderRadius: theme.radii.lg,
+      backgroundColor: theme.colors.surface,
+    },
+    sectionDescription: {
+      color: theme.colors.textMuted,
+      fontSize: theme.fontSize.sm,
+    },
+    typeRow: {
+      flexDirection: "row",
+      gap: theme.spacing.xs,
+      marginTop: theme.spacing.md,
+    },
+    typeChip: {
+      paddingVertical: theme.spacing.xs,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: `${theme.colors.surfaceAlt}55`,
+      backgroundColor: theme.colors.background,
+    },
+    typeChipActive: {
+      borderColor: theme.colors.primary,
+      backgroundColor: `${theme.colors.primary}22`,
+    },
+    typeChipText: {
+      color: theme.colors.text,
+      fontSize: 12,
+      fontWeight: "600",
+      textTransform: "capitalize",
+    },
+    typeChipTextActive: {
+      color: theme.colors.primary,
+    },
+    inputRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.sm,
+      marginTop: theme.spacing.md,
+    },
+    input: {
+      flex: 1,
+      paddingVertical: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: theme.radii.lg,
+      borderWidth: 1,
+      borderColor: `${theme.colors.surfaceAlt}55`,
+      backgroundColor: theme.colors.background,
+      color: theme.colors.text,
+      fontSize: theme.fontSize.sm,
+    },
+    addButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: theme.colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    addButtonDisabled: {
+      backgroundColor: `${theme.colors.surfaceAlt}55`,
+    },
+    rulesContainer: {
+      gap: theme.spacing.xs,
+    },
+    ruleRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.md,
+      padding: theme.spacing.md,
+      borderRadius: theme.radii.lg,
+      backgroundColor: theme.colors.surface,
+    },
+    ruleContent: {
+      flex: 1,
+    },
+    rulePattern: {
+      color: theme.colors.text,
+      fontSize: theme.fontSize.sm,
+      fontWeight: "600",
+    },
+    ruleType: {
+      marginTop: 2,
+      color: theme.colors.textMuted,
+      fontSize: 12,
+      textTransform: "capitalize",
+    },
+  });
@@ -1,6 +1,7 @@
+import { MaterialCommunityIcons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
 import React from "react";
-import { Alert, ScrollView, StyleSheet, View } from "react-native";
+import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
 
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useDispatch, useSelector } from "react-redux";
@@ -9,41 +10,33 @@ import ModuleCard from "../../../components/ModuleCard";
 import ScreenWrapper from "../../../components/ScreenWrapper";
 import StorageIndicatorCard from "../../../components/StorageIndicatorCard";
 import {
-  setAPKResults,
-  setAudiosResults,
-  setCachesResults,
-  setDocumentsResults,
-  setDuplicateResults,
+  markResultsFresh,
   setFeatureProgress,
-  setImagesResults,
-  setLargeFileResults,
-  setOldFileResults,
   setStorageInfo,
-  setVideosResults,
-  setWhatsappResults,
 } from "../../../redux-code/action";
 import type { RootState } from "../../../redux-code/store";
 import { appRoutes } from "../../../routes";
 import {
   initDatabase,
-  loadAllScanResults,
-  saveAPKResults,
-  saveAudiosResults,
-  saveDocumentsResults,
-  saveDuplicateGroups,
-  saveImagesResults,
-  saveLargeFileResults,
-  saveOldFileResults,
-  saveVideosResults,
-  saveWhatsAppResults,
+  loadScanSummaries,
+  sumReclaimableScanBytes,
+  type ScanItemScanner,
+  type ScanItemSummary,
 } from "../../../utils/db";
-import { calculateFeatureStats } from "../../../utils/featureStatsCalculator";
-import { calculateProgressFromSnapshot } from "../../../utils/homeScreenHelpers";
+import type { FeatureStats } from "../../../utils/featureStatsCalculator";
+import { calculateProgressFromSummaries } from "../../../utils/homeScreenHelpers";
 import { requestAllSmartScanPermissions } from "../../../utils/permissions";
+import {
+  SCANNERS,
+  UNIFIED_SCANNERS,
+  runScanners,
+  withUnifiedSiblings,
+  type ScannerPlugin,
+} from "../../../utils/scanners/registry";
 import { getStorageInfo } from "../../../utils/storage";
-import { unifiedFileScan } from "../../../utils/unifiedFileScanner";
-import { scanDuplicateImages } from "../DuplicateImagesScreen/DuplicateImageScanner";
-import { scanWhatsApp } from "../WhatsAppRemoverScreen/WhatsAppScanner";
+
+// Scanners that can be run on their own from a card, next to the Storage Analyzer
+const CARD_SCANNERS = SCANNERS.filter((scanner) => scanner.homeCard);
 
 const HomeScreen = () => {
   const router = useRouter();
@@ -51,109 +44,41 @@ const HomeScreen = () => {
   const theme = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
   
-  const featureProgress = useSelector((state: RootState) => state.appState.featureProgress);
   const storageInfo = useSelector((state: RootState) => state.appState.storageInfo);
-  const largeFileResults = useSelector((state: RootState) => state.appState.largeFileResults);
-  const oldFileResults = useSelector((state: RootState) => state.appState.oldFileResults);
-  const whatsappResults = useSelector((state: RootState) => state.appState.whatsappResults);
-  const duplicateResults = useSelector((state: RootState) => state.appState.duplicateResults);
-  const apkResults = useSelector((state: RootState) => state.appState.apkResults);
-  const cachesResults = useSelector((state: RootState) => state.appState.cachesResults);
-  const videosResults = useSelector((state: RootState) => state.appState.videosResults);
-  const imagesResults = useSelector((state: RootState) => state.appState.imagesResults);
-  const audiosResults = useSelector((state: RootState) => state.appState.audiosResults);
-  const documentsResults = useSelector((state: RootState) => state.appState.documentsResults);
-  
-  // Calculate feature stats from scan results
-  const featureStats = React.useMemo(() => {
-    return calculateFeatureStats({
-      whatsappResults,
-      duplicateResults,
-      largeFileResults,
-      oldFileResults,
-      apkResults,
-      cachesResults,
-    });
-  }, [whatsappResults, duplicateResults, largeFileResults, oldFileResults, apkResults, cachesResults]);
-
-  // Calculate Storage Analyzer stats (aggregate all file categories)
-  const storageAnalyzerStats = React.useMemo(() => {
-    let totalCount = 0;
-    let totalSize = 0;
-
-    // Add counts and sizes from all categories
-    if (largeFileResults) {
-      totalCount += largeFileResults.length;
-      totalSize += largeFileResults.reduce((sum, f) => sum + f.size, 0);
-    }
-    if (oldFileResults) {
-      totalCount += oldFileResults.length;
-      totalSize += oldFileResults.reduce((sum, f) => sum + f.size, 0);
-    }
-    if (videosResults) {
-      totalCount += videosResults.length;
-      totalSize += videosResults.reduce((sum, f) => sum + f.size, 0);
-    }
-    if (imagesResults) {
-      totalCount += imagesResults.length;
-      totalSize += imagesResults.reduce((sum, f) => sum + f.size, 0);
-    }
-    if (audiosResults) {
-      totalCount += audiosResults.length;
-      totalSize += audiosResults.reduce((sum, f) => sum + f.size, 0);
-    }
-    if (documentsResults) {
-      totalCount += documentsResults.length;
-      totalSize += documentsResults.reduce((sum, f) => sum + f.size, 0);
-    }
-    if (apkResults) {
-      totalCount += apkResults.length;
-      totalSize += apkResults.reduce((sum, f) => sum + f.size, 0);
-    }
-
-    return { count: totalCount, size: totalSize };
-  }, [largeFileResults, oldFileResults, videosResults, imagesResults, audiosResults, documentsResults, apkResults]);
-
-  // Calculate Duplicate Images stats
-  const duplicateStats = React.useMemo(() => {
-    const stats = featureStats.duplicate;
-    return {
-      count: stats?.count ?? 0,
-      size: stats?.size ?? 0,
-    };
-  }, [featureStats.duplicate]);
+  const scanSettings = useSelector((state: RootState) => state.settings.scan);
+  // Card totals are summed in SQL, so the home screen never decodes the saved results themselves
+  const [summaries, setSummaries] = React.useState<Partial<Record<ScanItemScanner, ScanItemSummary>>>({});
+  const [storageReclaimable, setStorageReclaimable] = React.useState(0);
+
+  const summarize = React.useCallback(
+    (scanner: ScannerPlugin): FeatureStats => summaries[scanner.id] ?? { count: 0, size: 0 },
+    [summaries]
+  );
 
-  // Calculate WhatsApp Cleaner stats
-  const whatsappStats = React.useMemo(() => {
-    const stats = featureStats.whatsapp;
-    return {
-      count: stats?.count ?? 0,
-      size: stats?.size ?? 0,
-    };
-  }, [featureStats.whatsapp]);
+  // Calculate Storage Analyzer stats (aggregate all file categories of the unified walk)
+  const storageAnalyzerStats = React.useMemo(
+    () => ({
+      count: UNIFIED_SCANNERS.reduce((total, scanner) => total + summarize(scanner).count, 0),
+      // A file listed by several categories only frees its bytes once
+      size: storageReclaimable,
+    }),
+    [summarize, storageReclaimable]
+  );
 
   const refreshHomeState = React.useCallback(async () => {
     try {
       await initDatabase();
-      const [snapshot, storage] = await Promise.all([
-        loadAllScanResults(),
+      const [nextSummaries, reclaimable, storage] = await Promise.all([
+        loadScanSummaries(),
+        sumReclaimableScanBytes(UNIFIED_SCANNERS.map((scanner) => scanner.id)),
         getStorageInfo(),
       ]);
 
-      dispatch(setWhatsappResults(snapshot.whatsappResults));
-      dispatch(setLargeFileResults(snapshot.largeFileResults));
-      dispatch(setOldFileResults(snapshot.oldFileResults));
-      dispatch(setDuplicateResults(snapshot.duplicateResults));
-      dispatch(setVideosResults(snapshot.videosResults));
-      dispatch(setImagesResults(snapshot.imagesResults));
-      dispatch(setAudiosResults(snapshot.audiosResults));
-      dispatch(setDocumentsResults(snapshot.documentsResults));
-      dispatch(setAPKResults(snapshot.apkResults));
-      dispatch(setCachesResults(snapshot.cachesResults));
-
+      setSummaries(nextSummaries);
+      setStorageReclaimable(reclaimable);
       dispatch(
         setFeatureProgress(
-          calculateProgressFromSnapshot(snapshot)
+          calculateProgressFromSummaries(nextSummaries)
         )
       );
       dispatch(setStorageInfo(storage));
@@ -162,19 +87,16 @@ const HomeScreen = () => {
     }
   }, [dispatch]);
 
-
-  const [scanningStates, setScanningStates] = React.useState({
-    storage: false,
-    duplicate: false,
-    whatsapp: false,
-  });
+  // Keyed by "storage" or by the id of a card's scanner
+  const [scanningStates, setScanningStates] = React.useState<Record<string, boolean>>({});
 
   React.useEffect(() => {
     refreshHomeState();
   }, [refreshHomeState, dispatch]);
 
-  const handleStorageScan = React.useCallback(async () => {
-    if (scanningStates.storage) return;
+  const handleScan = React.useCallback(async (key: string, requested: ScannerPlugin[]) => {
+    if (scanningStates[key]) return;
+    const scanners = withUnifiedSiblings(requested);
 
     const hasPermissions = await requestAllSmartScanPermissions();
     if (!hasPermissions) {
@@ -185,97 +107,20 @@ const HomeScreen = () => {
       return;
     }
 
-    setScanningStates((prev) => ({ ...prev, storage: true }));
-    try {
-      await initDatabase();
-      const results = await unifiedFileScan();
-      
-      // Save all results
-      await Promise.all([
-        saveLargeFileResults(results.largeFiles),
-        saveOldFileResults(results.oldFiles),
-        saveVideosResults(results.videos),
-        saveImagesResults(results.images),
-        saveAudiosResults(results.audios),
-        saveDocumentsResults(results.documents),
-        saveAPKResults(results.apkFiles),
-      ]);
-
-      // Dispatch results
-      dispatch(setLargeFileResults(results.largeFiles));
-      dispatch(setOldFileResults(results.oldFiles));
-      dispatch(setVideosResults(results.videos));
-      dispatch(setImagesResults(results.images));
-      dispatch(setAudiosResults(results.audios));
-      dispatch(setDocumentsResults(results.documents));
-      dispatch(setAPKResults(results.apkFiles));
-
-      await refreshHomeState();
-    } catch (error) {
-      console.error("Storage scan error:", error);
-      Alert.alert("Scan Error", (error as Error).message || "An error occurred during the scan.");
-    } finally {
-      setScanningStates((prev) => ({ ...prev, storage: false }));
-    }
-  }, [scanningStates.storage, dispatch, refreshHomeState]);
-
-  const handleDuplicateScan = React.useCallback(async () => {
-    if (scanningStates.duplicate) return;
-
-    const hasPermissions = await requestAllSmartScanPermissions();
-    if (!hasPermissions) {
-      Alert.alert(
-        "Permissions Required",
-        "Storage permissions are required to scan for duplicates. Please grant the permissions and try again.",
-      );
-      return;
-    }
-
-    setScanningStates((prev) => ({ ...prev, duplicate: true }));
+    setScanningStates((prev) => ({ ...prev, [key]: true }));
     try {
-      await initDatabase();
-      const results = await scanDuplicateImages(
-        () => {}, // Progress callback
-        { current: false } // Cancel ref
-      );
-      
-      await saveDuplicateGroups(results);
-      dispatch(setDuplicateResults(results));
+      await runScanners(scanners, { settings: scanSettings });
+      dispatch(markResultsFresh(scanners.map((scanner) => scanner.id)));
       await refreshHomeState();
     } catch (error) {
-      console.error("Duplicate scan error:", error);
+      console.error(`${key} scan error:`, error);
       Alert.alert("Scan Error", (error as Error).message || "An error occurred during the scan.");
     } finally {
-      setScanningStates((prev) => ({ ...prev, duplicate: false }));
+      setScanningStates((prev) => ({ ...prev, [key]: false }));
     }
-  }, [scanningStates.duplicate, dispatch, refreshHomeState]);
+  }, [scanningStates, dispatch, refreshHomeState, scanSettings]);
 
-  const handleWhatsAppScan = React.useCallback(async () => {
-    if (scanningStates.whatsapp) return;
-
-    const hasPermissions = await requestAllSmartScanPermissions();
-    if (!hasPermissions) {
-      Alert.alert(
-        "Permissions Required",
-        "Storage permissions are required to scan WhatsApp files. Please grant the permissions and try again.",
-      );
-      return;
-    }
-
-    setScanningStates((prev) => ({ ...prev, whatsapp: true }));
-    try {
-      await initDatabase();
-      const results = await scanWhatsApp();
-      await saveWhatsAppResults(results);
-      dispatch(setWhatsappResults(results));
-      await refreshHomeState();
-    } catch (error) {
-      console.error("WhatsApp scan error:", error);
-      Alert.alert("Scan Error", (error as Error).message || "An error occurred during the scan.");
-    } finally {
-      setScanningStates((prev) => ({ ...prev, whatsapp: false }));
-    }
-  }, [scanningStates.whatsapp, dispatch, refreshHomeState]);
+  const handleStorageScan = React.useCallback(() => handleScan("storage", UNIFIED_SCANNERS), [handleScan]);
 
   return (
     <ScreenWrapper style={styles.screen}>
@@ -284,6 +129,19 @@ const HomeScreen = () => {
           contentContainerStyle={styles.scrollContent} 
           showsVerticalScrollIndicator={false}
         >
+          <View style={styles.topBar}>
+            <TouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => router.push(appRoutes.settings)}
+              hitSlop={12}
+              accessibilityRole="button"
+              accessibilityLabel="open settings"
+              activeOpacity={0.85}
+            >
+              <MaterialCommunityIcons name="cog-outline" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          </View>
+
           <View style={styles.indicatorCard}>
             <StorageIndicatorCard storageInfo={storageInfo} />
           </View>
@@ -298,35 +156,29 @@ const HomeScreen = () => {
               iconAccent={theme.colors.info}
               onView={() => router.push(appRoutes.storageAnalyzer)}
               onScan={handleStorageScan}
-              isScanning={scanningStates.storage}
+              isScanning={!!scanningStates.storage}
               description="Find out what taking up space on your device."
             />
 
-            <ModuleCard
-              title="Duplicate Images"
-              icon="image-multiple-outline"
-              itemsCount={duplicateStats.count}
-              sizeCanFree={duplicateStats.size}
-              itemsLabel="duplicate images found"
-              iconAccent="#7E57C2"
-              onView={() => router.push(appRoutes.duplicates)}
-              onScan={handleDuplicateScan}
-              isScanning={scanningStates.duplicate}
-              description="Find and remove duplicate images."
-            />
-
-            <ModuleCard
-              title="WhatsApp Cleaner"
-              icon="whatsapp"
-              itemsCount={whatsappStats.count}
-              sizeCanFree={whatsappStats.size}
-              itemsLabel="expendable items found"
-              iconAccent="#25D366"
-              onView={() => router.push(appRoutes.whatsapp)}
-              onScan={handleWhatsAppScan}
-              isScanning={scanningStates.whatsapp}
-              description="Clean up WhatsApp media files."
-            />
+            {CARD_SCANNERS.map((scanner) => {
+              const card = scanner.homeCard!;
+              const stats = summarize(scanner);
+              return (
+                <ModuleCard
+                  key={scanner.id}
+                  title={card.title}
+                  icon={card.icon}
+                  itemsCount={stats.count}
+                  sizeCanFree={stats.size}
+                  itemsLabel={card.itemsLabel}
+                  iconAccent={card.accent}
+                  onView={() => router.push(card.route)}
+                  onScan={() => handleScan(scanner.id, [scanner])}
+                  isScanning={!!scanningStates[scanner.id]}
+                  description={card.description}
+                />
+              );
+            })}
           </View>
         </ScrollView>
       </SafeAreaView>
@@ -345,6 +197,16 @@ const createStyles = (theme: DefaultTheme) =>
       paddingHorizontal: theme.spacing.lg,
       paddingBottom: theme.spacing.xl * 2,
     },
+    topBar: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      paddingTop: theme.spacing.md,
+      marginBottom: theme.spacing.sm,
+    },
+    settingsButton: {
+      padding: theme.spacing.xs,
+      borderRadius: 999,
+    },
     indicatorCard: {
       alignItems: "center",
       padding: theme.spacing.lg,
@@ -3,63 +3,53 @@ import { useDispatch, useSelector } from "react-redux";
 import React from "react";
 import {
   clearScanProgress,
+  markResultsFresh,
   setLoading,
   setScanProgress,
-  setWhatsappResults,
-  setLargeFileResults,
-  setOldFileResults,
-  setDuplicateResults,
-  setVideosResults,
-  setImagesResults,
-  setAudiosResults,
-  setDocumentsResults,
   setFeatureProgress,
 } from "../../../redux-code/action";
 import type { RootState } from "../../../redux-code/store";
-import { runSmartScan, type SmartScanResultsUpdate } from "../../../utils/smartScan";
+import { getResumableSmartScan, runSmartScan, type SmartScanResultsUpdate } from "../../../utils/smartScan";
 import { requestAllSmartScanPermissions } from "../../../utils/permissions";
-import { loadAllScanResults } from "../../../utils/db";
-import { calculateProgressFromSnapshot } from "../../../utils/homeScreenHelpers";
+import { loadScanSummaries, type SmartScanStatus } from "../../../utils/db";
+import { calculateProgressFromSummaries } from "../../../utils/homeScreenHelpers";
 
 export const useSmartScan = (onScanComplete: () => Promise<void>) => {
   const dispatch = useDispatch();
   const isScanningRedux = useSelector((state: RootState) => state.appState.loadingStates.smartScan);
+  const scanSettings = useSelector((state: RootState) => state.settings.scan);
   const [localIsScanning, setLocalIsScanning] = React.useState(false);
+  // Checkpoint of a run that was cancelled or cut short by the app being killed
+  const [resumableScan, setResumableScan] = React.useState<SmartScanStatus | null>(null);
   const scanCancelledRef = React.useRef(false);
 
   React.useEffect(() => {
     setLocalIsScanning(isScanningRedux);
   }, [isScanningRedux]);
 
+  const refreshResumableScan = React.useCallback(async () => {
+    try {
+      setResumableScan(await getResumableSmartScan());
+    } catch (error) {
+      console.error("Failed to load smart scan checkpoint:", error);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    refreshResumableScan();
+  }, [refreshResumableScan]);
+
   const updateResultsIncrementally = React.useCallback(async (update: SmartScanResultsUpdate) => {
     if (scanCancelledRef.current) return;
 
     try {
-      // Dispatch scanner-specific results immediately
-      if (update.results.whatsappResults !== undefined) {
-        dispatch(setWhatsappResults(update.results.whatsappResults));
-      }
-      if (update.results.duplicateResults !== undefined) {
-        dispatch(setDuplicateResults(update.results.duplicateResults));
-      }
-      if (update.results.largeFileResults !== undefined) {
-        dispatch(setLargeFileResults(update.results.largeFileResults));
-      }
-      if (update.results.oldFileResults !== undefined) {
-        dispatch(setOldFileResults(update.results.oldFileResults));
-      }
+      dispatch(markResultsFresh([update.scannerType]));
 
-      // Load current snapshot from DB to get all results (including previously completed scanners)
-      const snapshot = await loadAllScanResults();
-      
-      // Dispatch category results
-      dispatch(setVideosResults(snapshot.videosResults));
-      dispatch(setImagesResults(snapshot.imagesResults));
-      dispatch(setAudiosResults(snapshot.audiosResults));
-      dispatch(setDocumentsResults(snapshot.documentsResults));
+      // Saved totals cover scanners that completed earlier without loading their rows
+      const summaries = await loadScanSummaries();
       
       // Calculate and dispatch updated feature progress
-      const progress = calculateProgressFromSnapshot(snapshot);
+      const progress = calculateProgressFromSummaries(summaries);
       dispatch(setFeatureProgress(progress));
     } catch (error) {
       console.error("Failed to update results incrementally:", error);
@@ -67,7 +57,7 @@ export const useSmartScan = (onScanComplete: () => Promise<void>) => {
     }
   }, [dispatch]);
 
-  const handleSmartScan = React.useCallback(async () => {
+  const startScan = React.useCallback(async (resume: boolean) => {
     if (localIsScanning) return;
 
     // Request all permissions upfront before starting the scan
@@ -86,7 +76,7 @@ export const useSmartScan = (onScanComplete: () => Promise<void>) => {
     scanCancelledRef.current = false;
 
     try {
-      await runSmartScan(
+      const outcome = await runSmartScan(
         (progress) => {
           if (!scanCancelledRef.current) {
             dispatch(setScanProgress(progress));
@@ -96,9 +86,14 @@ export const useSmartScan = (onScanComplete: () => Promise<void>) => {
           if (!scanCancelledRef.current) {
             updateResultsIncrementally(resultsUpdate);
           }
-        }
+        },
+        scanSettings,
+        scanCancelledRef,
+        resume
       );
-      await onScanComplete();
+      if (outcome === "completed") {
+        await onScanComplete();
+      }
     } catch (error) {
       if (!scanCancelledRef.current) {
         console.error("Smart scan error:", error);
@@ -109,8 +104,13 @@ export const useSmartScan = (onScanComplete: () => Promise<void>) => {
       dispatch(setLoading("smartScan", false));
       dispatch(clearScanProgress());
       scanCancelledRef.current = false;
+      await refreshResumableScan();
     }
-  }, [localIsScanning, onScanComplete, dispatch, updateResultsIncrementally]);
+  }, [localIsScanning, onScanComplete, dispatch, updateResultsIncrementally, scanSettings, refreshResumableScan]);
+
+  const handleSmartScan = React.useCallback(() => startScan(false), [startScan]);
+
+  const handleResumeScan = React.useCallback(() => startScan(true), [startScan]);
 
   const handleStopScan = React.useCallback(() => {
     setLocalIsScanning(false);
@@ -121,7 +121,9 @@ export const useSmartScan = (onScanComplete: () => Promise<void>) => {
 
   return {
     isScanning: localIsScanning,
+    resumableScan,
     handleSmartScan,
+    handleResumeScan,
     handleStopScan,
   };
 };
@@ -3,8 +3,8 @@ import { PermissionsAndroid, Platform } from 'react-native';
 import RNFS from 'react-native-fs';
 import { createExtensionFilter, createSizeFilter, fastScan, type ScanProgress } from '../../../utils/fastScanner';
 import type { CategoryFile } from '../../../utils/fileCategoryCalculator';
+import { DEFAULT_SCAN_SETTINGS } from '../../../utils/scanSettings';
 
-const MIN_IMAGE_SIZE_BYTES = 10 * 1024; // Skip tiny thumbnails
 const IMAGE_EXTENSIONS = [
   '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg', '.ico',
   '.tiff', '.tif', '.heic', '.heif', '.raw', '.cr2', '.nef', '.orf',
@@ -55,9 +55,23 @@ const ensurePerms = async (): Promise<boolean> => {
   return permissions.every((permission) => results[permission] === PermissionsAndroid.RESULTS.GRANTED);
 };
 
+const toImageFile = (entry: RNFS.ReadDirItem): CategoryFile => {
+  const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
+  const modifiedDate = entry.mtime ? entry.mtime.getTime() : Date.now();
+
+  return {
+    path: entry.path,
+    size,
+    modified: modifiedDate,
+    category: 'Images',
+  };
+};
+
 export const scanImages = async (
   onProgress?: (progress: ScanProgress) => void,
   cancelRef?: { current: boolean },
+  minImageSizeBytes: number = DEFAULT_SCAN_SETTINGS.minImageSizeBytes,
+  onChunk?: (chunk: CategoryFile[]) => void,
 ): Promise<CategoryFile[]> => {
   const startedAt = Date.now();
   const hasAccess = await ensurePerms();
@@ -67,32 +81,20 @@ export const scanImages = async (
 
   const rootPaths = buildImageRootPaths();
   const imageFilter = createExtensionFilter(IMAGE_EXTENSIONS);
-  const sizeFilter = createSizeFilter(MIN_IMAGE_SIZE_BYTES);
+  const sizeFilter = createSizeFilter(minImageSizeBytes);
   
   // Combine filters: must be image extension AND meet size requirement
   const combinedFilter = (entry: RNFS.ReadDirItem) => {
     return imageFilter(entry) && sizeFilter(entry);
   };
 
-  const entries = await fastScan<RNFS.ReadDirItem>({
+  const results = await fastScan<CategoryFile>({
     rootPaths,
     fileFilter: combinedFilter,
-    maxConcurrentDirs: 10,
-    batchSize: 100,
     onProgress,
     cancelRef,
-  });
-
-  const results: CategoryFile[] = entries.map((entry) => {
-    const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
-    const modifiedDate = entry.mtime ? entry.mtime.getTime() : Date.now();
-
-    return {
-      path: entry.path,
-      size,
-      modified: modifiedDate,
-      category: 'Images',
-    };
+    transform: toImageFile,
+    onChunk,
   });
 
   const finishedAt = Date.now();
@@ -1,5 +1,5 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
-import { FlatList, RefreshControl, StyleSheet, Text, View } from "react-native";
+import React, { useCallback, useMemo, useState } from "react";
+import { Alert, FlatList, RefreshControl, StyleSheet, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useDispatch, useSelector } from "react-redux";
 import { DefaultTheme, useTheme } from "styled-components/native";
@@ -8,15 +8,19 @@ import CategoryFileListItem from "../../../components/CategoryFileListItem";
 import DeleteButton from "../../../components/DeleteButton";
 import EmptyState from "../../../components/EmptyState";
 import ScreenWrapper from "../../../components/ScreenWrapper";
+import formatBytes from "../../../constants/formatBytes";
 import {
   clearSelections,
   setSelectedItems,
-  setImagesResults,
   toggleItemSelection,
 } from "../../../redux-code/action";
 import type { RootState } from "../../../redux-code/store";
 import type { CategoryFile } from "../../../utils/fileCategoryCalculator";
-import { saveImagesResults } from "../../../utils/db";
+import { showCleanupResult } from "../../../utils/showCleanupResult";
+import { TRASH_RETENTION_DAYS, describeDeletionFailures, getRemovedPaths } from "../../../utils/trash";
+import { queryScanResultsByPath, removeScanResults } from "../../../utils/db";
+import { deleteCategoryFiles } from "../../../utils/deleteCategoryFiles";
+import { usePagedScanResults } from "../../../utils/usePagedScanResults";
 import { useImagesScanner } from "./useImagesScanner";
 
 const ImagesScreen: React.FC = () => {
@@ -24,36 +28,31 @@ const ImagesScreen: React.FC = () => {
   const theme = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
   
-  const { isScanning, isRestoring, error, startScan } = useImagesScanner();
+  const { isScanning, error, startScan } = useImagesScanner();
   
   const imagesResults = useSelector((state: RootState) => state.appState.imagesResults);
   const selectedFilePathsArray = useSelector((state: RootState) => state.appState.selectedItems.images);
   const selectedFilePaths = useMemo(() => new Set(selectedFilePathsArray), [selectedFilePathsArray]);
+  const {
+    items: savedFiles,
+    summary,
+    isLoading,
+    loadMore,
+    reload,
+    selectAll,
+    selection: selectedStats,
+    isAllSelected,
+  } = usePagedScanResults("images", selectedFilePathsArray, { orderBy: "size", descending: true });
   
   const [clearing, setClearing] = useState(false);
 
-  // Use images results directly from Redux and sort once
-  const sortedFiles = useMemo(() => {
-    return [...imagesResults].sort((a, b) => b.size - a.size);
-  }, [imagesResults]);
-  const totalBytes = useMemo(() => sortedFiles.reduce((sum, file) => sum + file.size, 0), [sortedFiles]);
-  const resultsAvailable = sortedFiles.length > 0;
-
-  const selectedStats = useMemo(() => {
-    let items = 0, size = 0;
-    sortedFiles.forEach((f) => {
-      if (selectedFilePaths.has(f.path)) {
-        items += 1;
-        size += f.size;
-      }
-    });
-    return { items, size };
-  }, [selectedFilePaths, sortedFiles]);
-
-  const isAllSelected = useMemo(() => 
-    sortedFiles.length > 0 && sortedFiles.every((f) => selectedFilePaths.has(f.path)),
-    [sortedFiles, selectedFilePaths]
+  // A running scan streams into Redux before anything is saved, so show that until it finishes
+  const streamedFiles = useMemo(
+    () => (isScanning ? [...imagesResults].sort((a, b) => b.size - a.size) : []),
+    [isScanning, imagesResults]
   );
+  const files = isScanning ? streamedFiles : savedFiles;
+  const resultsAvailable = files.length > 0;
 
   const toggleFileSelection = useCallback((path: string) => {
     dispatch(toggleItemSelection("images", path));
@@ -71,53 +70,66 @@ const ImagesScreen: React.FC = () => {
 
   const ItemSeparator = useCallback(() => <View style={{ height: theme.spacing.xs }} />, [theme]);
 
-  const toggleSelectAll = useCallback(() => {
+  const toggleSelectAll = useCallback(async () => {
     if (isAllSelected) {
       dispatch(clearSelections("images"));
-    } else {
-      const allPaths = sortedFiles.map((f) => f.path);
-      dispatch(setSelectedItems("images", allPaths));
+      return;
+    }
+    try {
+      dispatch(setSelectedItems("images", await selectAll()));
+    } catch (error) {
+      console.error("Failed to select all images:", error);
     }
-  }, [isAllSelected, sortedFiles, dispatch]);
+  }, [isAllSelected, selectAll, dispatch]);
 
-  const handleDelete = useCallback(async () => {
+  const handleDelete = useCallback(() => {
     if (selectedStats.items === 0 || clearing) {
       return;
     }
-    console.log("Deleting files:", Array.from(selectedFilePaths));
-    setClearing(true);
-    try {
-      // Update category results by removing deleted files
-      const remainingImages = imagesResults.filter(
-        (f) => !selectedFilePaths.has(f.path)
-      );
 
-      dispatch(setImagesResults(remainingImages));
-      dispatch(clearSelections("images"));
-      
-      // Update database
-      try {
-        await saveImagesResults(remainingImages);
-      } catch (error) {
-        console.error("Failed to save images results to database:", error);
-      }
-    } finally {
-      setClearing(false);
-    }
-  }, [selectedFilePaths, selectedStats.items, clearing, imagesResults, dispatch]);
-
-  useEffect(() => {
-    if (selectedFilePathsArray.length === 0) return;
-    const availablePaths = new Set(sortedFiles.map((f) => f.path));
-    const validSelections = selectedFilePathsArray.filter((p) => availablePaths.has(p));
-    if (validSelections.length !== selectedFilePathsArray.length) {
-      dispatch(setSelectedItems("images", validSelections));
-    }
-  }, [sortedFiles, selectedFilePathsArray, dispatch]);
+    Alert.alert(
+      "Delete Images?",
+      `This will move ${selectedStats.items} file${selectedStats.items !== 1 ? 's' : ''} (${formatBytes(selectedStats.size)}) to the trash. Trashed files are permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            setClearing(true);
+            try {
+              const filesToDelete = await queryScanResultsByPath("images", selectedStats.paths);
+              const result = await deleteCategoryFiles(filesToDelete, "images");
+
+              // Only drop files that were really removed from disk
+              const removedPaths = getRemovedPaths(result);
+              dispatch(setSelectedItems("images", result.failed.map((f) => f.path)));
+
+              try {
+                await removeScanResults("images", [...removedPaths]);
+              } catch (error) {
+                console.error("Failed to save images results to database:", error);
+              }
+              await reload();
+
+              if (result.failed.length > 0) {
+                Alert.alert("Delete Failed", describeDeletionFailures(result));
+              } else {
+                showCleanupResult(result);
+              }
+            } finally {
+              setClearing(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [selectedStats, clearing, reload, dispatch]);
 
   const onRefresh = useCallback(async () => {
     await startScan();
-  }, [startScan]);
+    await reload();
+  }, [startScan, reload]);
 
   return (
     <ScreenWrapper style={styles.screen}>
@@ -126,11 +138,11 @@ const ImagesScreen: React.FC = () => {
           <AppHeader 
             title="Images" 
             subtitle="Manage image files"
-            totalSize={resultsAvailable ? totalBytes : undefined}
-            totalFiles={resultsAvailable ? sortedFiles.length : undefined}
-            isAllSelected={resultsAvailable ? isAllSelected : undefined}
-            onSelectAllPress={resultsAvailable ? toggleSelectAll : undefined}
-            selectAllDisabled={resultsAvailable ? !sortedFiles.length : undefined}
+            totalSize={summary.count > 0 ? summary.size : undefined}
+            totalFiles={summary.count > 0 ? summary.count : undefined}
+            isAllSelected={summary.count > 0 ? isAllSelected : undefined}
+            onSelectAllPress={summary.count > 0 && !isScanning ? toggleSelectAll : undefined}
+            selectAllDisabled={summary.count > 0 ? isScanning : undefined}
           />
         </View>
         {error && (
@@ -141,7 +153,7 @@ const ImagesScreen: React.FC = () => {
 
         {resultsAvailable ? (
           <FlatList
-            data={sortedFiles}
+            data={files}
             renderItem={renderItem}
             keyExtractor={keyExtractor}
             ItemSeparatorComponent={ItemSeparator}
@@ -155,6 +167,8 @@ const ImagesScreen: React.FC = () => {
             updateCellsBatchingPeriod={50}
             initialNumToRender={15}
             windowSize={10}
+            onEndReached={isScanning ? undefined : loadMore}
+            onEndReachedThreshold={0.5}
             refreshControl={
               <RefreshControl
                 refreshing={isScanning}
@@ -163,7 +177,7 @@ const ImagesScreen: React.FC = () => {
               />
             }
           />
-        ) : !isScanning && !isRestoring ? (
+        ) : !isScanning && !isLoading ? (
           <View style={styles.sectionSpacing}>
             <EmptyState
               icon="image-outline"
@@ -1,54 +1,18 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { useDispatch } from 'react-redux';
-import { initDatabase, loadImagesResults, saveImagesResults } from '../../../utils/db';
-import { setImagesResults } from '../../../redux-code/action';
+import { useDispatch, useSelector } from 'react-redux';
+import { initDatabase, saveImagesResults } from '../../../utils/db';
+import { appendImagesResults, clearImagesResults, markResultsFresh } from '../../../redux-code/action';
+import type { RootState } from '../../../redux-code/store';
 import { scanImages, type ScanProgress } from './ImagesScanner';
-import type { CategoryFile } from '../../../utils/fileCategoryCalculator';
 
 export const useImagesScanner = () => {
   const dispatch = useDispatch();
+  const minImageSizeBytes = useSelector((state: RootState) => state.settings.scan.minImageSizeBytes);
   const [isScanning, setIsScanning] = useState(false);
-  const [isRestoring, setIsRestoring] = useState(true);
   const [progress, setProgress] = useState<ScanProgress>({ total: 0, current: 0 });
-  const [images, setImages] = useState<CategoryFile[]>([]);
   const [error, setError] = useState<string | null>(null);
   const cancelRef = useRef(false);
 
-  // Load saved results on mount so UI can render immediately with prior scan data
-  useEffect(() => {
-    let isMounted = true;
-
-    const loadSavedResults = async () => {
-      try {
-        await initDatabase();
-        const savedResults = await loadImagesResults();
-        if (isMounted && savedResults.length > 0) {
-          setImages(savedResults);
-          dispatch(setImagesResults(savedResults));
-          // Mark progress as complete so summary / rescan logic behaves like other screens
-          setProgress((prev) => ({
-            ...prev,
-            total: savedResults.length,
-            current: savedResults.length,
-            stage: 'restored',
-          }));
-        }
-      } catch (error) {
-        console.error('Failed to load saved images results:', error);
-      } finally {
-        if (isMounted) {
-          setIsRestoring(false);
-        }
-      }
-    };
-
-    loadSavedResults();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [dispatch]);
-
   const startScan = useCallback(async () => {
     if (isScanning) {
       return;
@@ -56,9 +20,9 @@ export const useImagesScanner = () => {
 
     setIsScanning(true);
     setProgress({ total: 0, current: 0 });
-    setImages([]);
     setError(null);
     cancelRef.current = false;
+    dispatch(clearImagesResults());
 
     try {
       const results = await scanImages(
@@ -68,11 +32,16 @@ export const useImagesScanner = () => {
           }
         },
         cancelRef,
+        minImageSizeBytes,
+        (chunk) => {
+          if (!cancelRef.current) {
+            dispatch(appendImagesResults(chunk));
+          }
+        },
       );
 
       if (!cancelRef.current) {
-        setImages(results);
-        dispatch(setImagesResults(results));
+        dispatch(markResultsFresh(['images']));
         setProgress((prev) => ({ ...prev, stage: 'complete' }));
         
         // Save results to database
@@ -103,9 +72,11 @@ export const useImagesScanner = () => {
         setError(message);
       }
     } finally {
+      // Redux only holds the streamed list of a running scan; the screen pages the saved results
+      dispatch(clearImagesResults());
       setIsScanning(false);
     }
-  }, [isScanning, dispatch]);
+  }, [isScanning, dispatch, minImageSizeBytes]);
 
   const stopScan = useCallback(() => {
     cancelRef.current = true;
@@ -121,9 +92,7 @@ export const useImagesScanner = () => {
 
   return {
     isScanning,
-    isRestoring,
     progress,
-    images,
     error,
     startScan,
     stopScan,
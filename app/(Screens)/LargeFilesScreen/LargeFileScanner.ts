@@ -1,7 +1,10 @@
 import type { Permission } from 'react-native';
 import { PermissionsAndroid, Platform } from 'react-native';
 import RNFS from 'react-native-fs';
-import { createSizeFilter, fastScan } from '../../../utils/fastScanner';
+import { createSizeFilter, fastScan, type ScanProgress } from '../../../utils/fastScanner';
+import { canonicalizePath } from '../../../utils/pathIdentity';
+import { DEFAULT_SCAN_SETTINGS } from '../../../utils/scanSettings';
+import { moveFilesToTrash, type DeletionResult } from '../../../utils/trash';
 
 export type LargeFileSource = 'recursive' | 'media' | 'extension' | 'old-large';
 
@@ -39,7 +42,6 @@ const PHASE_OFFSETS = PHASE_ORDER.reduce<Record<ScanPhase, number>>((acc, phase,
   return acc;
 }, {} as Record<ScanPhase, number>);
 
-const DEFAULT_THRESHOLD = 10 * 1024 * 1024; // 10 MB
 const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
 
 const ROOT_DIRECTORIES = [
@@ -50,7 +52,7 @@ const ROOT_DIRECTORIES = [
 ].filter(Boolean) as string[];
 
 export const scanLargeFiles = async (
-  threshold: number = DEFAULT_THRESHOLD,
+  threshold: number = DEFAULT_SCAN_SETTINGS.largeFileThresholdBytes,
   onProgress?: (snapshot: ScanProgressSnapshot) => void,
 ): Promise<LargeFileResult[]> => {
   const startedAt = Date.now();
@@ -85,8 +87,8 @@ const scanFileSystem = async (
   reportProgress?: (progress: number, detail?: string) => void,
 ): Promise<LargeFileResult[]> => {
   let lastProgress = 0;
-  const onProgress = (progress: { current: number; total: number; currentFile?: string }) => {
-    const ratio = progress.total > 0 ? Math.min(progress.current / progress.total, 0.99) : 0;
+  const onProgress = (progress: ScanProgress) => {
+    const ratio = Math.min(progress.progress ?? 0, 0.99);
     if (ratio > lastProgress + 0.01) {
       lastProgress = ratio;
       reportProgress?.(ratio, progress.currentFile);
@@ -97,9 +99,8 @@ const scanFileSystem = async (
   const entries = await fastScan<RNFS.ReadDirItem>({
     rootPaths: ROOT_DIRECTORIES,
     fileFilter: sizeFilter,
-    maxConcurrentDirs: 10,
-    batchSize: 100,
     onProgress,
+    incremental: true,
   });
 
   return entries.map((entry) => 
@@ -111,9 +112,11 @@ const scanFileSystem = async (
 const dedupeResults = (items: LargeFileResult[]): LargeFileResult[] => {
   const seen = new Map<string, LargeFileResult>();
   for (const item of items) {
-    const existing = seen.get(item.path);
+    // /sdcard and /storage/emulated/0 name the same file
+    const key = canonicalizePath(item.path);
+    const existing = seen.get(key);
     if (!existing || existing.size < item.size) {
-      seen.set(item.path, item);
+      seen.set(key, item);
     }
   }
   return Array.from(seen.values());
@@ -237,6 +240,10 @@ const ensurePerms = async (): Promise<boolean> => {
   return permissions.every((permission) => results[permission] === PermissionsAndroid.RESULTS.GRANTED);
 };
 
+export const deleteLargeFiles = async (files: LargeFileResult[]): Promise<DeletionResult> => {
+  return moveFilesToTrash(files, 'largeFiles');
+};
+
 export default function LargeFileScannerPlaceholder() {
   return null;
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
-import { RefreshControl, ScrollView, StyleSheet, View } from "react-native";
+import React, { useCallback, useMemo, useState } from "react";
+import { Alert, FlatList, RefreshControl, StyleSheet, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useDispatch, useSelector } from "react-redux";
 import { DefaultTheme, useTheme } from "styled-components/native";
@@ -8,16 +8,21 @@ import DeleteButton from "../../../components/DeleteButton";
 import EmptyState from "../../../components/EmptyState";
 import LargeFileListItem from "../../../components/LargeFileListItem";
 import ScreenWrapper from "../../../components/ScreenWrapper";
+import formatBytes from "../../../constants/formatBytes";
 import {
   clearSelections,
+  markResultsFresh,
   setLargeFileResults,
   setLoading,
   setSelectedItems,
   toggleItemSelection,
 } from "../../../redux-code/action";
 import type { RootState } from "../../../redux-code/store";
-import { initDatabase, loadLargeFileResults, saveLargeFileResults } from "../../../utils/db";
-import { scanLargeFiles } from "./LargeFileScanner";
+import { queryScanResultsByPath, removeScanResults, saveLargeFileResults } from "../../../utils/db";
+import { showCleanupResult } from "../../../utils/showCleanupResult";
+import { TRASH_RETENTION_DAYS, describeDeletionFailures, getRemovedPaths } from "../../../utils/trash";
+import { usePagedScanResults } from "../../../utils/usePagedScanResults";
+import { deleteLargeFiles, scanLargeFiles, type LargeFileResult } from "./LargeFileScanner";
 
 const LargeFilesScreen: React.FC = () => {
   const dispatch = useDispatch();
@@ -27,75 +32,79 @@ const LargeFilesScreen: React.FC = () => {
   const files = useSelector((state: RootState) => state.appState.largeFileResults);
   const loading = useSelector((state: RootState) => state.appState.loadingStates.large);
   const selectedFilePathsArray = useSelector((state: RootState) => state.appState.selectedItems.large);
+  const thresholdBytes = useSelector((state: RootState) => state.settings.scan.largeFileThresholdBytes);
   const selectedFilePaths = useMemo(() => new Set(selectedFilePathsArray), [selectedFilePathsArray]);
+  const {
+    items: sortedFiles,
+    summary,
+    isLoading,
+    loadMore,
+    reload,
+    selectAll,
+    selection: selectedStats,
+    isAllSelected,
+  } = usePagedScanResults("largeFiles", selectedFilePathsArray, { orderBy: "size", descending: true });
   
   const [clearing, setClearing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [hasDatabaseResults, setHasDatabaseResults] = useState<boolean>(false);
 
-  const sortedFiles = useMemo(() => [...files].sort((a, b) => b.size - a.size), [files]);
-  const totalBytes = useMemo(() => files.reduce((sum, file) => sum + file.size, 0), [files]);
-  const resultsAvailable = sortedFiles.length > 0;
-
-  const selectedStats = useMemo(() => {
-    let items = 0, size = 0;
-    sortedFiles.forEach((f) => {
-      if (selectedFilePaths.has(f.path)) {
-        items += 1;
-        size += f.size;
-      }
-    });
-    return { items, size };
-  }, [selectedFilePaths, sortedFiles]);
-
-  const isAllSelected = useMemo(() => 
-    sortedFiles.length > 0 && sortedFiles.every((f) => selectedFilePaths.has(f.path)),
-    [sortedFiles, selectedFilePaths]
-  );
+  const resultsAvailable = summary.count > 0;
 
   const toggleFileSelection = useCallback((path: string) => {
     dispatch(toggleItemSelection("large", path));
   }, [dispatch]);
 
-  const toggleSelectAll = useCallback(() => {
+  const toggleSelectAll = useCallback(async () => {
     if (isAllSelected) {
       dispatch(clearSelections("large"));
-    } else {
-      const allPaths = sortedFiles.map((f) => f.path);
-      dispatch(setSelectedItems("large", allPaths));
+      return;
+    }
+    try {
+      dispatch(setSelectedItems("large", await selectAll()));
+    } catch (err) {
+      console.error("Failed to select all large files:", err);
     }
-  }, [isAllSelected, sortedFiles, dispatch]);
+  }, [isAllSelected, selectAll, dispatch]);
 
-  const handleDelete = useCallback(async () => {
+  const handleDelete = useCallback(() => {
     if (selectedStats.items === 0 || clearing) {
       return;
     }
-    console.log("Deleting files:", Array.from(selectedFilePaths));
-    setClearing(true);
-    try {
-      const remainingFiles = files.filter((f) => !selectedFilePaths.has(f.path));
-      dispatch(setLargeFileResults(remainingFiles));
-      dispatch(clearSelections("large"));
-    } finally {
-      setClearing(false);
-    }
-  }, [selectedFilePaths, selectedStats.items, clearing, files, dispatch]);
 
-  useEffect(() => {
-    (async () => {
-      try {
-        await initDatabase();
-        const savedResults = await loadLargeFileResults();
-        setHasDatabaseResults(savedResults.length > 0);
-        if (savedResults.length > 0) {
-          dispatch(setLargeFileResults(savedResults));
-        }
-      } catch (error) {
-        console.error("Failed to load saved large file results:", error);
-        setHasDatabaseResults(false);
-      }
-    })();
-  }, [dispatch]);
+    Alert.alert(
+      "Delete Large Files?",
+      `This will move ${selectedStats.items} file${selectedStats.items !== 1 ? 's' : ''} (${formatBytes(selectedStats.size)}) to the trash. Trashed files are permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            setClearing(true);
+            try {
+              const filesToDelete = await queryScanResultsByPath("largeFiles", selectedStats.paths);
+              const result = await deleteLargeFiles(filesToDelete);
+              const removedPaths = getRemovedPaths(result);
+              dispatch(setLargeFileResults(files.filter((f) => !removedPaths.has(f.path))));
+              dispatch(setSelectedItems("large", result.failed.map((f) => f.path)));
+              await removeScanResults("largeFiles", [...removedPaths]);
+              await reload();
+              if (result.failed.length > 0) {
+                Alert.alert("Delete Failed", describeDeletionFailures(result));
+              } else {
+                showCleanupResult(result);
+              }
+            } catch (err) {
+              console.error("Failed to delete large files:", err);
+              setError(err instanceof Error ? err.message : "Failed to delete files");
+            } finally {
+              setClearing(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [selectedStats, clearing, files, reload, dispatch]);
 
   const handleScan = useCallback(async () => {
     if (loading) {
@@ -104,11 +113,12 @@ const LargeFilesScreen: React.FC = () => {
     dispatch(setLoading("large", true));
     setError(null);
     try {
-      const results = await scanLargeFiles(512 * 1024 * 1024, () => {});
+      const results = await scanLargeFiles(thresholdBytes, () => {});
       dispatch(setLargeFileResults(results));
+      dispatch(markResultsFresh(["largeFiles"]));
       dispatch(clearSelections("large"));
       await saveLargeFileResults(results);
-      setHasDatabaseResults(results.length > 0);
+      await reload();
       if (results.length === 0) {
         setError("no large files detected yet. grant storage permission in settings for more coverage.");
       }
@@ -117,15 +127,21 @@ const LargeFilesScreen: React.FC = () => {
     } finally {
       dispatch(setLoading("large", false));
     }
-  }, [loading, dispatch]);
+  }, [loading, dispatch, thresholdBytes, reload]);
 
-  useEffect(() => {
-    const availablePaths = new Set(sortedFiles.map((f) => f.path));
-    const validSelections = selectedFilePathsArray.filter((p) => availablePaths.has(p));
-    if (validSelections.length !== selectedFilePathsArray.length) {
-      dispatch(setSelectedItems("large", validSelections));
-    }
-  }, [sortedFiles, selectedFilePathsArray, dispatch]);
+  const renderItem = useCallback(({ item }: { item: LargeFileResult }) => (
+    <LargeFileListItem
+      item={item}
+      selected={selectedFilePaths.has(item.path)}
+      onPress={() => toggleFileSelection(item.path)}
+    />
+  ), [selectedFilePaths, toggleFileSelection]);
+
+  const keyExtractor = useCallback((item: LargeFileResult) => item.path, []);
+
+  const ItemSeparator = useCallback(() => <View style={{ height: theme.spacing.xs }} />, [theme]);
+
+  const showEmptyState = !loading && !isLoading && !resultsAvailable;
 
   return (
     <ScreenWrapper style={styles.screen}>
@@ -134,19 +150,25 @@ const LargeFilesScreen: React.FC = () => {
           <AppHeader 
             title="Large Files" 
             subtitle="Find and manage storage hogs"
-            totalSize={resultsAvailable ? totalBytes : undefined}
-            totalFiles={resultsAvailable ? sortedFiles.length : undefined}
+            totalSize={resultsAvailable ? summary.size : undefined}
+            totalFiles={resultsAvailable ? summary.count : undefined}
             isAllSelected={resultsAvailable ? isAllSelected : undefined}
             onSelectAllPress={resultsAvailable ? toggleSelectAll : undefined}
             selectAllDisabled={resultsAvailable ? !sortedFiles.length : undefined}
           />
         </View>
-        <ScrollView 
+        <FlatList
+          data={loading ? [] : sortedFiles}
+          renderItem={renderItem}
+          keyExtractor={keyExtractor}
+          ItemSeparatorComponent={ItemSeparator}
           contentContainerStyle={[
             styles.content,
             selectedStats.items > 0 && resultsAvailable ? { paddingBottom: theme.spacing.xl * 3 } : {}
           ]} 
           showsVerticalScrollIndicator={false}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
           refreshControl={
             <RefreshControl
               refreshing={loading}
@@ -154,42 +176,25 @@ const LargeFilesScreen: React.FC = () => {
               tintColor={theme.colors.primary}
             />
           }
-        >
-          {!loading && resultsAvailable && (
-            <>
-              <View style={[styles.resultsContainer, styles.sectionSpacing]}>
-                {sortedFiles.map((f) => (
-                  <LargeFileListItem
-                    key={f.path}
-                    item={f}
-                    selected={selectedFilePaths.has(f.path)}
-                    onPress={() => toggleFileSelection(f.path)}
+          ListEmptyComponent={
+            showEmptyState ? (
+              <View style={styles.sectionSpacing}>
+                {error ? (
+                  <EmptyState
+                    icon="alert-circle-outline"
+                    title={error}
                   />
-                ))}
+                ) : (
+                  <EmptyState
+                    icon="file-search-outline"
+                    title="no large files detected"
+                    description="Pull down to refresh and scan for large files"
+                  />
+                )}
               </View>
-
-            </>
-          )}
-
-          {!loading && !resultsAvailable && error && (
-            <View style={styles.sectionSpacing}>
-              <EmptyState
-                icon="alert-circle-outline"
-                title={error}
-              />
-            </View>
-          )}
-
-          {!loading && !resultsAvailable && !error && (
-            <View style={styles.sectionSpacing}>
-              <EmptyState
-                icon="file-search-outline"
-                title="no large files detected"
-                description="Pull down to refresh and scan for large files"
-              />
-            </View>
-          )}
-        </ScrollView>
+            ) : null
+          }
+        />
         {selectedStats.items > 0 && resultsAvailable && (
           <View style={styles.fixedDeleteButtonContainer}>
             <DeleteButton
@@ -1,5 +1,7 @@
 import RNFS from "react-native-fs";
-import { fastScan, createDateFilter } from '../../../utils/fastScanner';
+import { fastScan, createDateFilter, type ScanProgress } from '../../../utils/fastScanner';
+import { DEFAULT_SCAN_SETTINGS } from '../../../utils/scanSettings';
+import { moveFilesToTrash, type DeletionResult } from '../../../utils/trash';
 
 export interface OldFileInfo {
   path: string;
@@ -8,7 +10,6 @@ export interface OldFileInfo {
   ageDays: number;
 }
 
-const DEFAULT_THRESHOLD_DAYS = 30;
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 const ROOT_DIRECTORIES = [
   RNFS.ExternalStorageDirectoryPath,
@@ -17,7 +18,10 @@ const ROOT_DIRECTORIES = [
   RNFS.DocumentDirectoryPath,
 ].filter(Boolean) as string[];
 
-export const scanOldFiles = async (thresholdDays = DEFAULT_THRESHOLD_DAYS): Promise<OldFileInfo[]> => {
+export const scanOldFiles = async (
+  thresholdDays = DEFAULT_SCAN_SETTINGS.oldFileThresholdDays,
+  onProgress?: (progress: ScanProgress) => void,
+): Promise<OldFileInfo[]> => {
   const startedAt = Date.now();
   const thresholdMs = thresholdDays * MS_PER_DAY;
   const now = Date.now();
@@ -26,8 +30,8 @@ export const scanOldFiles = async (thresholdDays = DEFAULT_THRESHOLD_DAYS): Prom
   const entries = await fastScan<RNFS.ReadDirItem>({
     rootPaths: ROOT_DIRECTORIES,
     fileFilter: dateFilter,
-    maxConcurrentDirs: 10,
-    batchSize: 100,
+    onProgress,
+    incremental: true,
   });
 
   const results: OldFileInfo[] = entries.map((entry) => {
@@ -49,17 +53,8 @@ export const scanOldFiles = async (thresholdDays = DEFAULT_THRESHOLD_DAYS): Prom
   return results.sort((a, b) => b.ageDays - a.ageDays);
 };
 
-export const deleteOldFiles = async (files: OldFileInfo[]): Promise<void> => {
-  await Promise.allSettled(
-    files.map(async (file) => {
-      try {
-        await RNFS.unlink(file.path);
-      } catch (error) {
-        console.warn(`Failed to delete ${file.path}:`, error);
-        throw error;
-      }
-    })
-  );
+export const deleteOldFiles = async (files: OldFileInfo[]): Promise<DeletionResult> => {
+  return moveFilesToTrash(files, 'oldFiles');
 };
 
 export default scanOldFiles;
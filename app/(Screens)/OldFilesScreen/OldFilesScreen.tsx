@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import { FlatList, ListRenderItem, RefreshControl, StyleSheet, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useDispatch, useSelector } from "react-redux";
@@ -11,10 +11,10 @@ import OldFilesEmptyState from "../../../components/OldFilesEmptyState";
 import ScreenWrapper from "../../../components/ScreenWrapper";
 import { clearSelections, setSelectedItems, toggleItemSelection } from "../../../redux-code/action";
 import type { RootState } from "../../../redux-code/store";
+import { usePagedScanResults } from "../../../utils/usePagedScanResults";
 import { OldFileInfo } from "./OldFilesScanner";
 import { useOldFilesActions } from "./useOldFilesActions";
-import { useOldFilesSelection } from "./useOldFilesSelection";
-import { FILTER_TYPES, type FileCategory, useOldFilesSummary } from "./useOldFilesSummary";
+import { FILTER_TYPES, type FileCategory, getCategoryFilter, useOldFilesSummary } from "./useOldFilesSummary";
 
 const OldFilesScreen = () => {
   const theme = useTheme();
@@ -27,10 +27,20 @@ const OldFilesScreen = () => {
   const selectedFilePaths = useMemo(() => new Set(selectedFilePathsArray), [selectedFilePathsArray]);
   
   const [filterType, setFilterType] = useState<FileCategory>('All');
-  const { hasSavedResults, handleScan, handleDelete } = useOldFilesActions(oldFiles, selectedFilePaths);
+  const {
+    items: filteredFiles,
+    loadMore,
+    reload,
+    selectAll,
+    selection: selectedStats,
+    isAllSelected,
+  } = usePagedScanResults("oldFiles", selectedFilePathsArray, getCategoryFilter(filterType));
+  const { fileSummary, categoryCounts, refresh } = useOldFilesSummary();
 
-  const { totalSize, filteredFiles, categoryCounts } = useOldFilesSummary(oldFiles, filterType);
-  const { selectedStats, isAllSelected } = useOldFilesSelection(filteredFiles, selectedFilePaths);
+  const onResultsChanged = useCallback(async () => {
+    await Promise.all([reload(), refresh()]);
+  }, [reload, refresh]);
+  const { scanProgress, handleScan, handleDelete } = useOldFilesActions(oldFiles, onResultsChanged);
 
   const deleteDisabled = selectedStats.items === 0;
 
@@ -38,25 +48,20 @@ const OldFilesScreen = () => {
     dispatch(toggleItemSelection("old", path));
   }, [dispatch]);
 
-  const toggleSelectAll = useCallback(() => {
+  const toggleSelectAll = useCallback(async () => {
     if (isAllSelected) {
       dispatch(clearSelections("old"));
-    } else {
-      const allPaths = filteredFiles.map((file) => file.path);
-      dispatch(setSelectedItems("old", allPaths));
+      return;
     }
-  }, [isAllSelected, filteredFiles, dispatch]);
+    try {
+      dispatch(setSelectedItems("old", await selectAll()));
+    } catch (error) {
+      console.error("Failed to select all old files:", error);
+    }
+  }, [isAllSelected, selectAll, dispatch]);
 
   const onDelete = useCallback(() => handleDelete(selectedStats), [handleDelete, selectedStats]);
 
-  useEffect(() => {
-    const availablePaths = new Set(oldFiles.map((file) => file.path));
-    const validSelections = selectedFilePathsArray.filter((path) => availablePaths.has(path));
-    if (validSelections.length !== selectedFilePathsArray.length) {
-      dispatch(setSelectedItems("old", validSelections));
-    }
-  }, [oldFiles, selectedFilePathsArray, dispatch]);
-
   const renderFileItem = useCallback<ListRenderItem<OldFileInfo>>(
     ({ item: file }) => (
       <OldFileListItem
@@ -77,7 +82,7 @@ const OldFilesScreen = () => {
     paddingBottom: !deleteDisabled && filteredFiles.length > 0 ? theme.spacing.xl * 3 : theme.spacing.xl,
   }), [theme.spacing, deleteDisabled, filteredFiles.length]);
 
-  const hasFiles = oldFiles.length > 0;
+  const hasFiles = fileSummary.All.count > 0;
   const hasFilteredFiles = filteredFiles.length > 0;
 
   return (
@@ -86,8 +91,8 @@ const OldFilesScreen = () => {
         <View style={styles.headerContainer}>
           <AppHeader 
             title="Old Files" 
-            totalSize={hasFiles ? totalSize : undefined}
-            totalFiles={hasFiles ? oldFiles.length : undefined}
+            totalSize={hasFiles ? fileSummary.All.size : undefined}
+            totalFiles={hasFiles ? fileSummary.All.count : undefined}
             isAllSelected={hasFilteredFiles ? isAllSelected : undefined}
             onSelectAllPress={hasFilteredFiles ? toggleSelectAll : undefined}
             selectAllDisabled={!hasFilteredFiles}
@@ -99,7 +104,7 @@ const OldFilesScreen = () => {
           counts={categoryCounts}
           onCategoryChange={(category) => setFilterType(category as FileCategory)}
           loading={loading}
-          hasSavedResults={hasSavedResults}
+          hasSavedResults={hasFiles}
         />
         <FlatList
           data={filteredFiles}
@@ -107,6 +112,8 @@ const OldFilesScreen = () => {
           renderItem={renderFileItem}
           contentContainerStyle={listContentInset}
           showsVerticalScrollIndicator={false}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
           refreshControl={
             <RefreshControl
               refreshing={loading}
@@ -118,7 +125,8 @@ const OldFilesScreen = () => {
             <OldFilesEmptyState
               loading={loading}
               hasFiles={hasFiles}
-              hasSavedResults={hasSavedResults}
+              hasSavedResults={hasFiles}
+              progress={scanProgress}
             />
           }
           ListFooterComponent={<View style={styles.footerSpacer} />}
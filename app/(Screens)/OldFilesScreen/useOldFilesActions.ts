@@ -1,61 +1,52 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useState } from "react";
 import { Alert } from "react-native";
-import { useDispatch } from "react-redux";
+import { useDispatch, useSelector } from "react-redux";
 import formatBytes from "../../../constants/formatBytes";
-import { clearSelections, setLoading, setOldFileResults, setSelectedItems } from "../../../redux-code/action";
-import { initDatabase, loadOldFileResults, saveOldFileResults } from "../../../utils/db";
+import { clearSelections, markResultsFresh, setLoading, setOldFileResults, setSelectedItems } from "../../../redux-code/action";
+import type { RootState } from "../../../redux-code/store";
+import { queryScanResultsByPath, removeScanResults, saveOldFileResults } from "../../../utils/db";
+import { showCleanupResult } from "../../../utils/showCleanupResult";
+import { TRASH_RETENTION_DAYS, describeDeletionFailures, getRemovedPaths } from "../../../utils/trash";
+import type { ScanProgress } from "../../../utils/fastScanner";
 import { deleteOldFiles, type OldFileInfo } from "./OldFilesScanner";
 import { scanOldFiles } from "./OldFilesScanner";
 
+/**
+ * Scan and delete for the old files list. `onResultsChanged` reloads the saved list and its totals.
+ */
 export const useOldFilesActions = (
   oldFiles: OldFileInfo[],
-  selectedFilePaths: Set<string>
+  onResultsChanged: () => Promise<void>
 ) => {
   const dispatch = useDispatch();
+  const thresholdDays = useSelector((state: RootState) => state.settings.scan.oldFileThresholdDays);
   const [clearing, setClearing] = useState(false);
-  const [hasSavedResults, setHasSavedResults] = useState(false);
-
-  useEffect(() => {
-    const loadSavedResults = async () => {
-      try {
-        await initDatabase();
-        const savedResults = await loadOldFileResults();
-        if (savedResults.length > 0) {
-          dispatch(setOldFileResults(savedResults));
-          setHasSavedResults(true);
-        } else {
-          setHasSavedResults(false);
-        }
-      } catch (error) {
-        console.error("Failed to load saved old file results:", error);
-        setHasSavedResults(false);
-      }
-    };
-    loadSavedResults();
-  }, [dispatch]);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
 
   const handleScan = useCallback(async () => {
     dispatch(setLoading("old", true));
     dispatch(clearSelections("old"));
+    setScanProgress(null);
     try {
-      const files = await scanOldFiles(90);
+      const files = await scanOldFiles(thresholdDays, setScanProgress);
       dispatch(setOldFileResults(files));
+      dispatch(markResultsFresh(["oldFiles"]));
       await saveOldFileResults(files);
-      setHasSavedResults(files.length > 0);
+      await onResultsChanged();
     } catch (error) {
       console.warn("OldFiles scan failed", error);
     } finally {
       dispatch(setLoading("old", false));
+      setScanProgress(null);
     }
-  }, [dispatch]);
+  }, [dispatch, thresholdDays, onResultsChanged]);
 
-  const handleDelete = useCallback(async (selectedStats: { items: number; size: number }) => {
+  const handleDelete = useCallback(async (selectedStats: { paths: string[]; items: number; size: number }) => {
     if (selectedStats.items === 0 || clearing) return;
 
-    const filesToDelete = oldFiles.filter((file) => selectedFilePaths.has(file.path));
     Alert.alert(
       "Delete Old Files?",
-      `This will permanently delete ${selectedStats.items} file${selectedStats.items !== 1 ? 's' : ''} (${formatBytes(selectedStats.size)}).`,
+      `This will move ${selectedStats.items} file${selectedStats.items !== 1 ? 's' : ''} (${formatBytes(selectedStats.size)}) to the trash. Trashed files are permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -64,11 +55,18 @@ export const useOldFilesActions = (
           onPress: async () => {
             setClearing(true);
             try {
-              await deleteOldFiles(filesToDelete);
-              const remainingFiles = oldFiles.filter((file) => !selectedFilePaths.has(file.path));
-              dispatch(setOldFileResults(remainingFiles));
-              dispatch(clearSelections("old"));
-              await saveOldFileResults(remainingFiles);
+              const filesToDelete = await queryScanResultsByPath("oldFiles", selectedStats.paths);
+              const result = await deleteOldFiles(filesToDelete);
+              const removedPaths = getRemovedPaths(result);
+              dispatch(setOldFileResults(oldFiles.filter((file) => !removedPaths.has(file.path))));
+              dispatch(setSelectedItems("old", result.failed.map((f) => f.path)));
+              await removeScanResults("oldFiles", [...removedPaths]);
+              await onResultsChanged();
+              if (result.failed.length > 0) {
+                Alert.alert("Delete Failed", describeDeletionFailures(result));
+              } else {
+                showCleanupResult(result);
+              }
             } catch (error) {
               console.warn("Delete old files failed", error);
               Alert.alert("Delete Failed", "Some files could not be deleted.");
@@ -79,9 +77,9 @@ export const useOldFilesActions = (
         },
       ]
     );
-  }, [dispatch, selectedFilePaths, clearing, oldFiles]);
+  }, [dispatch, clearing, oldFiles, onResultsChanged]);
 
-  return { hasSavedResults, handleScan, handleDelete, clearing };
+  return { scanProgress, handleScan, handleDelete, clearing };
 };
 
 // Default export to satisfy expo-router while keeping this as a non-route module
@@ -1,19 +1,19 @@
-import { useMemo } from "react";
-import type { OldFileInfo } from "./OldFilesScanner";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { initDatabase, summarizeScanResults, type ScanItemSummary } from "../../../utils/db";
+import type { ScanResultsFilter } from "../../../utils/usePagedScanResults";
 
 export type FileCategory = 'All' | 'Images' | 'Videos' | 'Documents' | 'Audio' | 'Archives' | 'Other';
 
-export const categorizeFile = (path: string): FileCategory => {
-  const lower = path.toLowerCase();
-  
-  if (lower.match(/\.(jpg|jpeg|png|gif|webp|heic|heif|bmp|svg)$/)) return 'Images';
-  if (lower.match(/\.(mp4|mkv|avi|mov|wmv|flv|webm|3gp)$/)) return 'Videos';
-  if (lower.match(/\.(pdf|doc|docx|xls|xlsx|ppt|pptx|txt|rtf|odt)$/)) return 'Documents';
-  if (lower.match(/\.(mp3|m4a|aac|wav|flac|ogg|wma)$/)) return 'Audio';
-  if (lower.match(/\.(zip|rar|7z|tar|gz|bz2|obb)$/)) return 'Archives';
-  return 'Other';
+const CATEGORY_EXTENSIONS: Record<Exclude<FileCategory, 'All' | 'Other'>, string[]> = {
+  Images: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'heif', 'bmp', 'svg'],
+  Videos: ['mp4', 'mkv', 'avi', 'mov', 'wmv', 'flv', 'webm', '3gp'],
+  Documents: ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'rtf', 'odt'],
+  Audio: ['mp3', 'm4a', 'aac', 'wav', 'flac', 'ogg', 'wma'],
+  Archives: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'obb'],
 };
 
+const KNOWN_EXTENSIONS = Object.values(CATEGORY_EXTENSIONS).flat();
+
 export const FILTER_TYPES: FileCategory[] = [
   'All',
   'Images',
@@ -24,44 +24,47 @@ export const FILTER_TYPES: FileCategory[] = [
   'Other',
 ];
 
-export const useOldFilesSummary = (oldFiles: OldFileInfo[], filterType: FileCategory) => {
-  const totalSize = useMemo(() => oldFiles.reduce((sum, file) => sum + file.size, 0), [oldFiles]);
+// Saved old files of one category, matched by extension in SQL
+export const getCategoryFilter = (category: FileCategory): ScanResultsFilter => {
+  if (category === 'All') return {};
+  if (category === 'Other') return { excludeExtensions: KNOWN_EXTENSIONS };
+  return { extensions: CATEGORY_EXTENSIONS[category] };
+};
 
-  const filteredFiles = useMemo(() => {
-    if (filterType === 'All') return oldFiles;
-    return oldFiles.filter((file) => categorizeFile(file.path) === filterType);
-  }, [oldFiles, filterType]);
+const EMPTY_SUMMARY = Object.fromEntries(
+  FILTER_TYPES.map((type) => [type, { count: 0, size: 0 }])
+) as Record<FileCategory, ScanItemSummary>;
 
-  const fileSummary = useMemo(() => {
-    const summary: Record<FileCategory, { count: number; size: number }> = {
-      All: { count: oldFiles.length, size: totalSize },
-      Images: { count: 0, size: 0 },
-      Videos: { count: 0, size: 0 },
-      Documents: { count: 0, size: 0 },
-      Audio: { count: 0, size: 0 },
-      Archives: { count: 0, size: 0 },
-      Other: { count: 0, size: 0 },
-    };
+export const useOldFilesSummary = () => {
+  const [fileSummary, setFileSummary] = useState(EMPTY_SUMMARY);
 
-    oldFiles.forEach((file) => {
-      const category = categorizeFile(file.path);
-      summary[category].count += 1;
-      summary[category].size += file.size;
-    });
+  const refresh = useCallback(async () => {
+    try {
+      await initDatabase();
+      const summaries = await Promise.all(
+        FILTER_TYPES.map((type) => summarizeScanResults('oldFiles', getCategoryFilter(type)))
+      );
+      setFileSummary(
+        Object.fromEntries(FILTER_TYPES.map((type, index) => [type, summaries[index]])) as Record<FileCategory, ScanItemSummary>
+      );
+    } catch (error) {
+      console.error("Failed to summarize saved old files:", error);
+    }
+  }, []);
 
-    return summary;
-  }, [oldFiles, totalSize]);
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
 
-  const categoryCounts = useMemo(() => 
-    Object.fromEntries(FILTER_TYPES.map(type => [type, fileSummary[type].count])),
+  const categoryCounts = useMemo(() =>
+    Object.fromEntries(FILTER_TYPES.map((type) => [type, fileSummary[type].count])),
     [fileSummary]
   );
 
-  return { totalSize, filteredFiles, categoryCounts, fileSummary };
+  return { fileSummary, categoryCounts, refresh };
 };
 
 // Default export to satisfy expo-router while keeping this as a non-route module
 export default function OldFilesSummaryRoute(): null {
   return null;
 }
-
@@ -1,7 +1,6 @@
 ﻿import { MaterialCommunityIcons } from "@expo/vector-icons";
-import { router } from "expo-router";
+import { router, useLocalSearchParams } from "expo-router";
 import { MotiView } from "moti";
-import type { ComponentProps } from "react";
 import React from "react";
 import { ScrollView, StyleSheet, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
@@ -9,18 +8,90 @@ import { DefaultTheme, useTheme } from "styled-components/native";
 import ResultStatCard from "../../../components/ResultStatCard";
 import ScanButton from "../../../components/ScanButton";
 import ScreenWrapper from "../../../components/ScreenWrapper";
-import {
-  cleanResultBreakdown,
-  cleanResultInsights,
-  cleanResultStats,
-} from "../../../dummydata/cleanResults";
+import formatBytes from "../../../constants/formatBytes";
 import { appRoutes } from "../../../routes";
+import {
+  getCleanupEntry,
+  getCleanupTotals,
+  getLatestCleanup,
+  getLifetimeCleanupTotals,
+  type CleanupLedgerEntry,
+  type CleanupTotals,
+} from "../../../utils/cleanupLedger";
+import { findScanner } from "../../../utils/scanners/registry";
+
+type CleanupOutcome = {
+  entry: CleanupLedgerEntry | null;
+  week: CleanupTotals;
+  month: CleanupTotals;
+  lifetime: CleanupTotals;
+};
 
-type IconName = ComponentProps<typeof MaterialCommunityIcons>["name"];
+const MAX_LISTED_FOLDERS = 4;
+
+// Folders the cleanup touched, most files first
+const groupPathsByFolder = (paths: string[]) => {
+  const counts = new Map<string, number>();
+  for (const path of paths) {
+    const plainPath = path.replace(/^file:\/\//, "");
+    const folder = plainPath.substring(0, plainPath.lastIndexOf("/")) || "/";
+    counts.set(folder, (counts.get(folder) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_LISTED_FOLDERS)
+    .map(([folder, count]) => ({ folder, name: folder.split("/").pop() || folder, count }));
+};
 
 const ResultAnimationScreen = () => {
   const theme = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
+  const { cleanupId } = useLocalSearchParams<{ cleanupId?: string }>();
+  const [outcome, setOutcome] = React.useState<CleanupOutcome | null>(null);
+
+  React.useEffect(() => {
+    let isMounted = true;
+
+    const loadOutcome = async () => {
+      try {
+        const [entry, week, month, lifetime] = await Promise.all([
+          cleanupId ? getCleanupEntry(cleanupId) : getLatestCleanup(),
+          getCleanupTotals("week"),
+          getCleanupTotals("month"),
+          getLifetimeCleanupTotals(),
+        ]);
+        if (isMounted) {
+          setOutcome({ entry, week, month, lifetime });
+        }
+      } catch (error) {
+        console.error("Failed to load cleanup results:", error);
+      }
+    };
+
+    loadOutcome();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [cleanupId]);
+
+  const entry = outcome?.entry ?? null;
+
+  // Ledger bytes are what went into the trash; the space only comes back once the trash is emptied
+  const stats = [
+    { id: "space", label: "Moved to trash", value: formatBytes(entry?.bytes ?? 0), accent: theme.colors.primary },
+    { id: "files", label: "Files trashed", value: `${entry?.fileCount ?? 0}`, accent: theme.colors.secondary },
+    { id: "lifetime", label: "Trashed so far", value: formatBytes(outcome?.lifetime.bytes ?? 0), accent: theme.colors.warning },
+  ];
+
+  const folders = React.useMemo(() => groupPathsByFolder(entry?.paths ?? []), [entry]);
+
+  const insights = [
+    { id: "week", label: "this week", value: formatBytes(outcome?.week.bytes ?? 0), accent: theme.colors.primary },
+    { id: "month", label: "this month", value: formatBytes(outcome?.month.bytes ?? 0), accent: theme.colors.secondary },
+    { id: "cleanups", label: "cleanups run", value: `${outcome?.lifetime.operations ?? 0}`, accent: theme.colors.warning },
+    { id: "files", label: "files trashed", value: `${outcome?.lifetime.fileCount ?? 0}`, accent: theme.colors.accent },
+  ];
 
   return (
     <ScreenWrapper style={styles.screen}>
@@ -56,12 +127,18 @@ const ResultAnimationScreen = () => {
         </View>
 
         <View style={styles.header}>
-          <Text style={styles.title}>cleanup complete</Text>
-          <Text style={styles.subtitle}>device is refreshed and running cooler</Text>
+          <Text style={styles.title}>{entry || !outcome ? "cleanup complete" : "nothing cleaned yet"}</Text>
+          <Text style={styles.subtitle}>
+            {entry
+              ? `${findScanner(entry.scanner)?.itemsLabel ?? entry.scanner} moved to the trash, freed once it is emptied`
+              : outcome
+                ? "deleted files will show up here"
+                : "loading results..."}
+          </Text>
         </View>
 
         <View style={styles.statsGrid}>
-          {cleanResultStats.map((stat) => (
+          {stats.map((stat) => (
             <ResultStatCard
               key={stat.id}
               label={stat.label}
@@ -72,26 +149,24 @@ const ResultAnimationScreen = () => {
         </View>
 
         <View style={styles.highlights}>
-          {cleanResultBreakdown.map((item) => (
-            <View key={item.id} style={styles.highlightCard}>
-              <View style={[styles.highlightIcon, { backgroundColor: `${item.accent}22` }]}>
-                <MaterialCommunityIcons
-                  name={item.icon as IconName}
-                  size={24}
-                  color={item.accent}
-                />
+          {folders.map((item) => (
+            <View key={item.folder} style={styles.highlightCard}>
+              <View style={[styles.highlightIcon, { backgroundColor: `${theme.colors.primary}22` }]}>
+                <MaterialCommunityIcons name="folder-outline" size={24} color={theme.colors.primary} />
               </View>
               <View style={styles.highlightTextWrap}>
-                <Text style={styles.highlightLabel}>{item.label}</Text>
-                <Text style={styles.highlightMeta}>{item.description}</Text>
+                <Text style={styles.highlightLabel} numberOfLines={1}>{item.name}</Text>
+                <Text style={styles.highlightMeta} numberOfLines={1}>{item.folder}</Text>
               </View>
-              <Text style={[styles.highlightValue, { color: item.accent }]}>{item.value}</Text>
+              <Text style={[styles.highlightValue, { color: theme.colors.primary }]}>
+                {item.count} {item.count === 1 ? "file" : "files"}
+              </Text>
             </View>
           ))}
         </View>
 
         <View style={styles.insightRow}>
-          {cleanResultInsights.map((insight) => (
+          {insights.map((insight) => (
             <View key={insight.id} style={[styles.insightPill, { backgroundColor: `${insight.accent}15` }]}>
               <Text style={styles.insightLabel}>{insight.label}</Text>
               <Text style={[styles.insightValue, { color: insight.accent }]}>{insight.value}</Text>
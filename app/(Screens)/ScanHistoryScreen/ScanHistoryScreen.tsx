@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { RefreshControl, ScrollView, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { DefaultTheme, useTheme } from "styled-components/native";
+import AppHeader from "../../../components/AppHeader";
+import EmptyState from "../../../components/EmptyState";
+import ErrorBanner from "../../../components/ErrorBanner";
+import ScreenWrapper from "../../../components/ScreenWrapper";
+import WeeklyBarChart from "../../../components/WeeklyBarChart";
+import formatBytes from "../../../constants/formatBytes";
+import { formatDate } from "../../../utils/fileUtils";
+import {
+  getScanRuns,
+  getStorageTrend,
+  type ScanRunSummary,
+  type StorageTrendPoint,
+} from "../../../utils/scanHistory";
+
+const TREND_WEEKS = 12;
+
+const SOURCE_LABELS: Record<ScanRunSummary["source"], string> = {
+  smartScan: "smart scan",
+  manual: "quick scan",
+};
+
+const formatDuration = (durationMs: number): string => {
+  const seconds = Math.round(durationMs / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const ScanHistoryScreen: React.FC = () => {
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const [trend, setTrend] = useState<StorageTrendPoint[]>([]);
+  const [runs, setRuns] = useState<ScanRunSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [nextTrend, nextRuns] = await Promise.all([getStorageTrend(TREND_WEEKS), getScanRuns()]);
+      setTrend(nextTrend);
+      setRuns(nextRuns);
+    } catch (err) {
+      console.error("Failed to load scan history:", err);
+      setError(err instanceof Error ? err.message : "unable to load scan history");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const junkPoints = useMemo(
+    () => trend.map((point) => ({ weekStart: point.weekStart, value: point.junkBytes })),
+    [trend]
+  );
+  const reclaimedPoints = useMemo(
+    () => trend.map((point) => ({ weekStart: point.weekStart, value: point.reclaimedBytes })),
+    [trend]
+  );
+  const freePoints = useMemo(
+    () => trend.map((point) => ({ weekStart: point.weekStart, value: point.freeBytes })),
+    [trend]
+  );
+
+  const showEmptyState = !loading && !error && runs.length === 0;
+
+  return (
+    <ScreenWrapper style={styles.screen}>
+      <SafeAreaView style={{ flex: 1 }} edges={["bottom", "left", "right"]}>
+        <View style={styles.headerContainer}>
+          <AppHeader title="Scan History" subtitle={`Last ${TREND_WEEKS} weeks`} />
+        </View>
+        <ScrollView
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={loading} onRefresh={loadHistory} tintColor={theme.colors.primary} />
+          }
+        >
+          {error && (
+            <View style={styles.sectionSpacing}>
+              <ErrorBanner error={error} />
+            </View>
+          )}
+
+          {showEmptyState ? (
+            <EmptyState
+              icon="chart-bar"
+              title="no scans recorded yet"
+              description="Run a scan to start tracking how junk and free space change over time"
+            />
+          ) : (
+            <>
+              <View style={styles.sectionSpacing}>
+                <WeeklyBarChart title="Junk found" points={junkPoints} color={theme.colors.warning} />
+              </View>
+              <View style={styles.sectionSpacing}>
+                <WeeklyBarChart
+                  title="Space reclaimed"
+                  points={reclaimedPoints}
+                  color={theme.colors.success}
+                  emptyLabel="nothing yet"
+                />
+              </View>
+              <View style={styles.sectionSpacing}>
+                <WeeklyBarChart title="Free space" points={freePoints} color={theme.colors.primary} />
+              </View>
+
+              <Text style={styles.sectionTitle}>Recent scans</Text>
+              <View style={styles.runsContainer}>
+                {runs.map((run) => (
+                  <View key={run.runId} style={styles.runRow}>
+                    <View style={styles.runContent}>
+                      <Text style={styles.runTitle}>
+                        {formatDate(run.startedAt)} • {SOURCE_LABELS[run.source]}
+                      </Text>
+                      <Text style={styles.runStats}>
+                        {formatBytes(run.junkBytes)} junk • {run.entries.length} scanners • {formatDuration(run.durationMs)}
+                      </Text>
+                    </View>
+                    {run.freeBytes !== null && (
+                      <Text style={styles.runFree}>{formatBytes(run.freeBytes)} free</Text>
+                    )}
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </ScreenWrapper>
+  );
+};
+
+export default ScanHistoryScreen;
+
+const createStyles = (theme: DefaultTheme) =>
+  StyleSheet.create({
+    screen: {
+      flex: 1,
+    },
+    headerContainer: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+    },
+    content: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+      paddingBottom: theme.spacing.xl * 1.5,
+    },
+    sectionSpacing: {
+      marginBottom: theme.spacing.lg,
+    },
+    sectionTitle: {
+      marginBottom: theme.spacing.sm,
+      color: theme.colors.text,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.bold,
+    },
+    runsContainer: {
+      gap: theme.spacing.xs,
+    },
+    runRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.md,
+      padding: theme.spacing.md,
+      borderRadius: theme.radii.lg,
+      backgroundColor: theme.colors.surface,
+    },
+    runContent: {
+      flex: 1,
+    },
+    runTitle: {
+      color: theme.colors.text,
+      fontSize: theme.fontSize.sm,
+      fontWeight: "600",
+      textTransform: "capitalize",
+    },
+    runStats: {
+      marginTop: 2,
+      color: theme.colors.textMuted,
+      fontSize: 12,
+    },
+    runFree: {
+      color: theme.colors.textMuted,
+      fontSize: 12,
+    },
+  });
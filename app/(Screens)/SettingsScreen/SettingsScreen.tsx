@@ -0,0 +1,337 @@
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useCallback, useMemo } from "react";
+import { Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useDispatch, useSelector } from "react-redux";
+import { DefaultTheme, useTheme } from "styled-components/native";
+import AppHeader from "../../../components/AppHeader";
+import ScreenWrapper from "../../../components/ScreenWrapper";
+import formatBytes from "../../../constants/formatBytes";
+import { resetScanSettings, setRetentionPolicies, setScanSettings } from "../../../redux-code/action";
+import type { RootState } from "../../../redux-code/store";
+import { appRoutes } from "../../../routes";
+import { DEFAULT_RETENTION_POLICIES, type RetentionPolicies } from "../../../utils/retentionPolicies";
+import { DEFAULT_SCAN_SETTINGS, type ScanSettings } from "../../../utils/scanSettings";
+import type { ScannerType } from "../../../utils/smartScan";
+
+type ThresholdOption = {
+  key: keyof ScanSettings;
+  title: string;
+  description: string;
+  presets: number[];
+  format: (value: number) => string;
+};
+
+const MB = 1024 * 1024;
+
+const THRESHOLD_OPTIONS: ThresholdOption[] = [
+  {
+    key: "largeFileThresholdBytes",
+    title: "Large file size",
+    description: "Files at or above this size are listed as large files.",
+    presets: [50 * MB, 100 * MB, 256 * MB, 512 * MB, 1024 * MB],
+    format: (value) => formatBytes(value),
+  },
+  {
+    key: "oldFileThresholdDays",
+    title: "Old file age",
+    description: "Files not modified for this many days are listed as old files.",
+    presets: [30, 60, 90, 180, 365],
+    format: (value) => `${value} days`,
+  },
+  {
+    key: "minImageSizeBytes",
+    title: "Minimum image size",
+    description: "Smaller images are skipped by the image and duplicate scans.",
+    presets: [1024, 10 * 1024, 50 * 1024, 100 * 1024],
+    format: (value) => formatBytes(value),
+  },
+  {
+    key: "similarityMaxDistance",
+    title: "Similar image tolerance",
+    description: "How many of the 64 fingerprint bits two photos may differ by to count as similar. Lower is stricter.",
+    presets: [4, 6, 8, 10, 12],
+    format: (value) => `${value} bits`,
+  },
+];
+
+type RetentionOption = {
+  key: keyof RetentionPolicies;
+  title: string;
+  description: string;
+  // null turns the rule off
+  presets: (number | null)[];
+  format: (value: number) => string;
+};
+
+const RETENTION_OPTIONS: RetentionOption[] = [
+  {
+    key: "statusMaxAgeDays",
+    title: "Keep statuses for",
+    description: "Viewed WhatsApp statuses older than this are removed when policies run.",
+    presets: [null, 1, 7, 14, 30],
+    format: (value) => `${value} ${value === 1 ? "day" : "days"}`,
+  },
+  {
+    key: "keepNewestBackups",
+    title: "Keep database backups",
+    description: "Only the newest dated msgstore backups are kept; the live backup is never removed.",
+    presets: [null, 1, 2, 3, 5],
+    format: (value) => `newest ${value}`,
+  },
+  {
+    key: "voiceNoteMaxAgeDays",
+    title: "Keep voice notes for",
+    description: "WhatsApp voice notes older than this are removed when policies run.",
+    presets: [null, 30, 90, 180, 365],
+    format: (value) => `${value} days`,
+  },
+];
+
+const SCANNER_LABELS: Partial<Record<ScannerType, string>> = {
+  largeFiles: "large files",
+  oldFiles: "old files",
+  images: "images",
+  duplicates: "duplicate images",
+};
+
+const SettingsScreen: React.FC = () => {
+  const dispatch = useDispatch();
+  const router = useRouter();
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const storedScanSettings = useSelector((state: RootState) => state.settings.scan);
+  // Settings persisted before a threshold existed lack it
+  const scanSettings = useMemo(() => ({ ...DEFAULT_SCAN_SETTINGS, ...storedScanSettings }), [storedScanSettings]);
+  const staleScanners = useSelector((state: RootState) => state.settings.staleScanners);
+  const retention = useSelector((state: RootState) => state.settings.retention ?? DEFAULT_RETENTION_POLICIES);
+
+  const isDefault = THRESHOLD_OPTIONS.every(({ key }) => scanSettings[key] === DEFAULT_SCAN_SETTINGS[key]);
+
+  const handleSelect = useCallback((key: keyof ScanSettings, value: number) => {
+    if (scanSettings[key] === value) {
+      return;
+    }
+    dispatch(setScanSettings({ [key]: value }));
+  }, [dispatch, scanSettings]);
+
+  const handleRetentionSelect = useCallback((key: keyof RetentionPolicies, value: number | null) => {
+    if (retention[key] === value) {
+      return;
+    }
+    dispatch(setRetentionPolicies({ [key]: value }));
+  }, [dispatch, retention]);
+
+  const handleReset = useCallback(() => {
+    Alert.alert(
+      "Reset Thresholds?",
+      "All scan thresholds will go back to their default values.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Reset", style: "destructive", onPress: () => dispatch(resetScanSettings()) },
+      ]
+    );
+  }, [dispatch]);
+
+  return (
+    <ScreenWrapper style={styles.screen}>
+      <SafeAreaView style={{ flex: 1 }} edges={["bottom", "left", "right"]}>
+        <View style={styles.headerContainer}>
+          <AppHeader title="Settings" />
+        </View>
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          {staleScanners.length > 0 && (
+            <View style={[styles.staleCard, styles.sectionSpacing]}>
+              <Text style={styles.staleText}>
+                {`Saved results for ${staleScanners
+                  .map((scanner) => SCANNER_LABELS[scanner] ?? scanner)
+                  .join(", ")} were found with different thresholds. Rescan to refresh them.`}
+              </Text>
+            </View>
+          )}
+
+          {THRESHOLD_OPTIONS.map((option) => (
+            <View key={option.key} style={[styles.section, styles.sectionSpacing]}>
+              <Text style={styles.sectionTitle}>{option.title}</Text>
+              <Text style={styles.sectionDescription}>{option.description}</Text>
+              <View style={styles.presetRow}>
+                {option.presets.map((value) => {
+                  const isActive = scanSettings[option.key] === value;
+                  return (
+                    <TouchableOpacity
+                      key={value}
+                      style={[styles.presetChip, isActive && styles.presetChipActive]}
+                      onPress={() => handleSelect(option.key, value)}
+                      activeOpacity={0.8}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isActive }}
+                    >
+                      <Text style={[styles.presetChipText, isActive && styles.presetChipTextActive]}>
+                        {option.format(value)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+
+          <Text style={styles.groupTitle}>WhatsApp retention</Text>
+          {RETENTION_OPTIONS.map((option) => (
+            <View key={option.key} style={[styles.section, styles.sectionSpacing]}>
+              <Text style={styles.sectionTitle}>{option.title}</Text>
+              <Text style={styles.sectionDescription}>{option.description}</Text>
+              <View style={styles.presetRow}>
+                {option.presets.map((value) => {
+                  const isActive = retention[option.key] === value;
+                  return (
+                    <TouchableOpacity
+                      key={value ?? "off"}
+                      style={[styles.presetChip, isActive && styles.presetChipActive]}
+                      onPress={() => handleRetentionSelect(option.key, value)}
+                      activeOpacity={0.8}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isActive }}
+                    >
+                      <Text style={[styles.presetChipText, isActive && styles.presetChipTextActive]}>
+                        {value === null ? "off" : option.format(value)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.section, styles.sectionSpacing, styles.linkRow]}
+            onPress={() => router.push(appRoutes.exclusions)}
+            activeOpacity={0.85}
+          >
+            <View style={styles.linkContent}>
+              <Text style={styles.sectionTitle}>Protected folders and files</Text>
+              <Text style={styles.sectionDescription}>Keep folders, patterns or single files out of every scan.</Text>
+            </View>
+            <MaterialCommunityIcons name="chevron-right" size={24} color={theme.colors.textMuted} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.resetButton, isDefault && styles.resetButtonDisabled]}
+            onPress={handleReset}
+            disabled={isDefault}
+            activeOpacity={0.85}
+          >
+            <Text style={styles.resetButtonText}>reset to defaults</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </ScreenWrapper>
+  );
+};
+
+export default SettingsScreen;
+
+const createStyles = (theme: DefaultTheme) =>
+  StyleSheet.create({
+    screen: {
+      flex: 1,
+    },
+    headerContainer: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+    },
+    content: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+      paddingBottom: theme.spacing.xl * 1.5,
+    },
+    sectionSpacing: {
+      marginBottom: theme.spacing.lg,
+    },
+    section: {
+      padding: theme.spacing.md,
+      borderRadius: theme.radii.lg,
+      backgroundColor: theme.colors.surface,
+    },
+    sectionTitle: {
+      color: theme.colors.text,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.bold,
+    },
+    groupTitle: {
+      marginBottom: theme.spacing.sm,
+      color: theme.colors.textMuted,
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.bold,
+      textTransform: "uppercase",
+    },
+    sectionDescription: {
+      marginTop: theme.spacing.xs,
+      color: theme.colors.textMuted,
+      fontSize: theme.fontSize.sm,
+    },
+    presetRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: theme.spacing.xs,
+      marginTop: theme.spacing.md,
+    },
+    presetChip: {
+      paddingVertical: theme.spacing.xs,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: `${theme.colors.surfaceAlt}55`,
+      backgroundColor: theme.colors.background,
+    },
+    presetChipActive: {
+      borderColor: theme.colors.primary,
+      backgroundColor: `${theme.colors.primary}22`,
+    },
+    presetChipText: {
+      color: theme.colors.text,
+      fontSize: 12,
+      fontWeight: "600",
+    },
+    presetChipTextActive: {
+      color: theme.colors.primary,
+    },
+    linkRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.md,
+    },
+    linkContent: {
+      flex: 1,
+    },
+    staleCard: {
+      backgroundColor: `${theme.colors.warning}11`,
+      borderRadius: theme.radii.lg,
+      padding: theme.spacing.md,
+      borderWidth: 1,
+      borderColor: `${theme.colors.warning}55`,
+    },
+    staleText: {
+      color: theme.colors.text,
+      fontSize: theme.fontSize.sm,
+    },
+    resetButton: {
+      borderRadius: theme.radii.xl,
+      paddingVertical: theme.spacing.md,
+      paddingHorizontal: theme.spacing.lg,
+      backgroundColor: theme.colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    resetButtonDisabled: {
+      backgroundColor: `${theme.colors.surfaceAlt}55`,
+    },
+    resetButtonText: {
+      color: theme.colors.white,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.bold,
+      textTransform: "capitalize",
+    },
+  });
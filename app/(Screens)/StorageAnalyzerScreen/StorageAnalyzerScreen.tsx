@@ -1,18 +1,31 @@
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { ScrollView, StyleSheet, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { useSelector } from "react-redux";
 import { DefaultTheme, useTheme } from "styled-components/native";
 import AppHeader from "../../../components/AppHeader";
 import NeumorphicContainer from "../../../components/NeumorphicContainer";
 import ScreenWrapper from "../../../components/ScreenWrapper";
 import formatBytes from "../../../constants/formatBytes";
-import type { RootState } from "../../../redux-code/store";
 import { appRoutes } from "../../../routes";
-import { calculateFeatureStats } from "../../../utils/featureStatsCalculator";
+import {
+  loadDuplicateFileGroups,
+  loadScanSummaries,
+  type ScanItemScanner,
+  type ScanItemSummary,
+} from "../../../utils/db";
+import type { DuplicateGroup } from "../../../utils/duplicateFinder";
 import { calculateFileCategoryFeatures } from "../../../utils/fileCategoryCalculator";
+import { SCANNERS } from "../../../utils/scanners/registry";
+import { getTrashSummary, type TrashSummary } from "../../../utils/trash";
+
+// Category feature id -> the scanner whose saved totals its card shows
+const CATEGORY_SCANNERS = new Map<string, ScanItemScanner>(
+  SCANNERS.flatMap((scanner) =>
+    scanner.category ? [[`category-${scanner.category.toLowerCase()}`, scanner.id] as const] : []
+  )
+);
 
 type CategoryCard = {
   id: string;
@@ -29,45 +42,32 @@ const StorageAnalyzerScreen: React.FC = () => {
   const theme = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
 
-  // Get all scan results from Redux
-  const largeFileResults = useSelector((state: RootState) => state.appState.largeFileResults);
-  const oldFileResults = useSelector((state: RootState) => state.appState.oldFileResults);
-  const videosResults = useSelector((state: RootState) => state.appState.videosResults);
-  const imagesResults = useSelector((state: RootState) => state.appState.imagesResults);
-  const audiosResults = useSelector((state: RootState) => state.appState.audiosResults);
-  const documentsResults = useSelector((state: RootState) => state.appState.documentsResults);
-  const apkResults = useSelector((state: RootState) => state.appState.apkResults);
-
-  // Calculate stats for each category
-  const featureStats = useMemo(() => {
-    return calculateFeatureStats({
-      largeFileResults,
-      oldFileResults,
-      apkResults,
-    });
-  }, [largeFileResults, oldFileResults, apkResults]);
-
-  const fileCategoryFeatures = useMemo(() => {
-    return calculateFileCategoryFeatures(
-      {
-        largeFileResults,
-        oldFileResults,
-        videosResults,
-        imagesResults,
-        audiosResults,
-        documentsResults,
-        apkResults,
-      },
-      theme
-    );
-  }, [largeFileResults, oldFileResults, videosResults, imagesResults, audiosResults, documentsResults, apkResults, theme]);
+  // Totals of the saved results, summed in SQL rather than decoded
+  const [summaries, setSummaries] = useState<Partial<Record<ScanItemScanner, ScanItemSummary>>>({});
+  const [trashSummary, setTrashSummary] = useState<TrashSummary>({ count: 0, size: 0 });
+  const [duplicateFileGroups, setDuplicateFileGroups] = useState<DuplicateGroup[]>([]);
+
+  useEffect(() => {
+    loadScanSummaries()
+      .then(setSummaries)
+      .catch((error) => console.error("Failed to load scan summaries:", error));
+    getTrashSummary()
+      .then(setTrashSummary)
+      .catch((error) => console.error("Failed to load trash summary:", error));
+    loadDuplicateFileGroups()
+      .then(setDuplicateFileGroups)
+      .catch((error) => console.error("Failed to load duplicate file groups:", error));
+  }, []);
+
+  // Only the title, icon, route and accent of each category are used; the totals come from the summaries
+  const fileCategoryFeatures = useMemo(() => calculateFileCategoryFeatures({}, theme), [theme]);
 
   // Build category cards
   const categoryCards = useMemo<CategoryCard[]>(() => {
     const cards: CategoryCard[] = [];
 
     // Large Files
-    const largeStats = featureStats.large;
+    const largeStats = summaries.largeFiles;
     cards.push({
       id: "large",
       title: "Large Files",
@@ -79,7 +79,7 @@ const StorageAnalyzerScreen: React.FC = () => {
     });
 
     // Old Files
-    const oldStats = featureStats.old;
+    const oldStats = summaries.oldFiles;
     cards.push({
       id: "old",
       title: "Old Files",
@@ -92,37 +92,22 @@ const StorageAnalyzerScreen: React.FC = () => {
 
     // File Categories (Videos, Images, Audios, Documents)
     fileCategoryFeatures.forEach((feature) => {
-      let count = 0;
-      let size = 0;
-
-      // Calculate directly from results arrays
-      if (feature.id.includes("videos") || feature.title === "Videos") {
-        count = videosResults.length;
-        size = videosResults.reduce((sum, f) => sum + f.size, 0);
-      } else if (feature.id.includes("images") || feature.title === "Images") {
-        count = imagesResults.length;
-        size = imagesResults.reduce((sum, f) => sum + f.size, 0);
-      } else if (feature.id.includes("audio") || feature.title === "Audio") {
-        count = audiosResults.length;
-        size = audiosResults.reduce((sum, f) => sum + f.size, 0);
-      } else if (feature.id.includes("documents") || feature.title === "Documents") {
-        count = documentsResults.length;
-        size = documentsResults.reduce((sum, f) => sum + f.size, 0);
-      }
+      const scanner = CATEGORY_SCANNERS.get(feature.id);
+      const stats = scanner ? summaries[scanner] : undefined;
 
       cards.push({
         id: feature.id,
         title: feature.title,
         icon: feature.icon,
         route: feature.route,
-        count,
-        size,
+        count: stats?.count ?? 0,
+        size: stats?.size ?? 0,
         accent: feature.accent,
       });
     });
 
     // APKs
-    const apkStats = featureStats.apk;
+    const apkStats = summaries.apk;
     cards.push({
       id: "apk",
       title: "APKs",
@@ -133,8 +118,31 @@ const StorageAnalyzerScreen: React.FC = () => {
       accent: "#00D1FF",
     });
 
+    // Duplicate files of every type; only the extra copies count as reclaimable
+    const duplicateCopies = duplicateFileGroups.flatMap((group) => group.files.slice(1));
+    cards.push({
+      id: "duplicateFiles",
+      title: "Duplicate Files",
+      icon: "file-multiple-outline",
+      route: appRoutes.duplicateFiles,
+      count: duplicateCopies.length,
+      size: duplicateCopies.reduce((sum, file) => sum + file.size, 0),
+      accent: "#7E57C2",
+    });
+
+    // Trash
+    cards.push({
+      id: "trash",
+      title: "Trash",
+      icon: "delete-restore",
+      route: appRoutes.trash,
+      count: trashSummary.count,
+      size: trashSummary.size,
+      accent: "#FF6B6B",
+    });
+
     return cards;
-  }, [featureStats, fileCategoryFeatures, videosResults, imagesResults, audiosResults, documentsResults]);
+  }, [summaries, fileCategoryFeatures, duplicateFileGroups, trashSummary]);
 
   const handleCategoryPress = (route: string) => {
     router.push(route as any);
@@ -150,6 +158,23 @@ const StorageAnalyzerScreen: React.FC = () => {
           contentContainerStyle={styles.scrollContent}
           showsVerticalScrollIndicator={false}
         >
+          <NeumorphicContainer
+            onPress={() => router.push(appRoutes.scanHistory)}
+            padding={theme.spacing.lg}
+            style={styles.categoryCard}
+          >
+            <View style={styles.categoryCardContent}>
+              <View style={[styles.iconContainer, { backgroundColor: `${theme.colors.primary}22` }]}>
+                <MaterialCommunityIcons name="chart-bar" size={24} color={theme.colors.primary} />
+              </View>
+              <View style={styles.categoryInfo}>
+                <Text style={styles.categoryTitle}>Scan History</Text>
+                <Text style={styles.categoryStats}>Junk growth and space reclaimed per week</Text>
+              </View>
+              <MaterialCommunityIcons name="chevron-right" size={24} color={theme.colors.textMuted} />
+            </View>
+          </NeumorphicContainer>
+
           {categoryCards.map((card) => (
             <NeumorphicContainer
               key={card.id}
@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Alert, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { DefaultTheme, useTheme } from "styled-components/native";
+import AppHeader from "../../../components/AppHeader";
+import DeleteButton from "../../../components/DeleteButton";
+import EmptyState from "../../../components/EmptyState";
+import ErrorBanner from "../../../components/ErrorBanner";
+import ScreenWrapper from "../../../components/ScreenWrapper";
+import TrashFileListItem from "../../../components/TrashFileListItem";
+import formatBytes from "../../../constants/formatBytes";
+import type { TrashItem } from "../../../utils/db";
+import {
+  TRASH_RETENTION_DAYS,
+  getTrashItems,
+  purgeExpiredTrash,
+  purgeTrashItem,
+  restoreTrashItem,
+} from "../../../utils/trash";
+
+const TrashScreen: React.FC = () => {
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const totalBytes = useMemo(() => items.reduce((sum, item) => sum + item.size, 0), [items]);
+  const resultsAvailable = items.length > 0;
+
+  const selectedItems = useMemo(
+    () => items.filter((item) => selectedIds.has(item.id)),
+    [items, selectedIds]
+  );
+  const selectedStats = useMemo(
+    () => ({
+      items: selectedItems.length,
+      size: selectedItems.reduce((sum, item) => sum + item.size, 0),
+    }),
+    [selectedItems]
+  );
+
+  const isAllSelected = resultsAvailable && selectedItems.length === items.length;
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      await purgeExpiredTrash();
+      const trashItems = await getTrashItems();
+      setItems(trashItems);
+      setSelectedIds((prev) => {
+        const available = new Set(trashItems.map((item) => item.id));
+        return new Set([...prev].filter((id) => available.has(id)));
+      });
+    } catch (err) {
+      console.error("Failed to load trash:", err);
+      setError(err instanceof Error ? err.message : "unable to load trash");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const toggleSelection = useCallback((id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleSelectAll = useCallback(() => {
+    setSelectedIds(isAllSelected ? new Set() : new Set(items.map((item) => item.id)));
+  }, [isAllSelected, items]);
+
+  const runOnSelected = useCallback(
+    async (action: (item: TrashItem) => Promise<void>, failureMessage: string) => {
+      setWorking(true);
+      setError(null);
+      try {
+        const results = await Promise.allSettled(selectedItems.map((item) => action(item)));
+        const failures = results.filter((result) => result.status === "rejected");
+        if (failures.length > 0) {
+          console.warn(failureMessage, failures);
+          setError(`${failureMessage} (${failures.length} of ${results.length})`);
+        }
+      } finally {
+        await loadTrash();
+        setWorking(false);
+      }
+    },
+    [selectedItems, loadTrash]
+  );
+
+  const handleRestore = useCallback(() => {
+    if (selectedStats.items === 0 || working) {
+      return;
+    }
+    runOnSelected(restoreTrashItem, "some files could not be restored");
+  }, [selectedStats.items, working, runOnSelected]);
+
+  const handlePurge = useCallback(() => {
+    if (selectedStats.items === 0 || working) {
+      return;
+    }
+    Alert.alert(
+      "Delete Permanently?",
+      `This will permanently delete ${selectedStats.items} file${selectedStats.items !== 1 ? "s" : ""} (${formatBytes(selectedStats.size)}). This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => runOnSelected(purgeTrashItem, "some files could not be deleted"),
+        },
+      ]
+    );
+  }, [selectedStats, working, runOnSelected]);
+
+  return (
+    <ScreenWrapper style={styles.screen}>
+      <SafeAreaView style={{ flex: 1 }} edges={['bottom', 'left', 'right']}>
+        <View style={styles.headerContainer}>
+          <AppHeader
+            title="Trash"
+            subtitle="Restore or permanently delete files"
+            totalSize={resultsAvailable ? totalBytes : undefined}
+            totalFiles={resultsAvailable ? items.length : undefined}
+            isAllSelected={resultsAvailable ? isAllSelected : undefined}
+            onSelectAllPress={resultsAvailable ? toggleSelectAll : undefined}
+            selectAllDisabled={resultsAvailable ? working : undefined}
+          />
+        </View>
+        <ScrollView
+          contentContainerStyle={[
+            styles.content,
+            selectedStats.items > 0 ? { paddingBottom: theme.spacing.xl * 5 } : {},
+          ]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={loading}
+              onRefresh={loadTrash}
+              tintColor={theme.colors.primary}
+            />
+          }
+        >
+          {error ? (
+            <View style={styles.sectionSpacing}>
+              <ErrorBanner error={error} onDismiss={() => setError(null)} />
+            </View>
+          ) : null}
+
+          {resultsAvailable && (
+            <>
+              <Text style={[styles.retentionNote, styles.sectionSpacing]}>
+                Files are permanently deleted {TRASH_RETENTION_DAYS} days after being moved to the trash.
+              </Text>
+              <View style={[styles.resultsContainer, styles.sectionSpacing]}>
+                {items.map((item) => (
+                  <TrashFileListItem
+                    key={item.id}
+                    item={item}
+                    selected={selectedIds.has(item.id)}
+                    retentionDays={TRASH_RETENTION_DAYS}
+                    onPress={() => toggleSelection(item.id)}
+                  />
+                ))}
+              </View>
+            </>
+          )}
+
+          {!loading && !resultsAvailable && (
+            <View style={styles.sectionSpacing}>
+              <EmptyState
+                icon="delete-empty-outline"
+                title="trash is empty"
+                description="Deleted files stay here so you can restore them"
+              />
+            </View>
+          )}
+        </ScrollView>
+        {selectedStats.items > 0 && (
+          <View style={styles.fixedActionContainer}>
+            <TouchableOpacity
+              style={[styles.restoreButton, working && styles.restoreButtonDisabled]}
+              disabled={working}
+              activeOpacity={working ? 1 : 0.9}
+              onPress={handleRestore}
+            >
+              <Text style={styles.restoreButtonText}>
+                restore {selectedStats.items} item{selectedStats.items !== 1 ? "s" : ""}
+              </Text>
+            </TouchableOpacity>
+            <DeleteButton
+              items={selectedStats.items}
+              size={selectedStats.size}
+              disabled={working}
+              onPress={handlePurge}
+            />
+          </View>
+        )}
+      </SafeAreaView>
+    </ScreenWrapper>
+  );
+};
+
+export default TrashScreen;
+
+const createStyles = (theme: DefaultTheme) =>
+  StyleSheet.create({
+    screen: {
+      flex: 1,
+    },
+    headerContainer: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+    },
+    content: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+      paddingBottom: theme.spacing.xl * 1.5,
+    },
+    sectionSpacing: {
+      marginBottom: theme.spacing.lg,
+    },
+    resultsContainer: {
+      gap: theme.spacing.xs,
+    },
+    retentionNote: {
+      color: theme.colors.textMuted,
+      fontSize: theme.fontSize.sm,
+    },
+    fixedActionContainer: {
+      position: "absolute",
+      bottom: 0,
+      left: 0,
+      right: 0,
+      paddingHorizontal: theme.spacing.lg,
+      backgroundColor: theme.colors.background,
+      borderTopWidth: 1,
+      borderTopColor: theme.mode === "dark" ? `${theme.colors.surfaceAlt}33` : `${theme.colors.surfaceAlt}22`,
+    },
+    restoreButton: {
+      marginTop: theme.spacing.md,
+      borderRadius: theme.radii.xl,
+      paddingVertical: theme.spacing.md,
+      paddingHorizontal: theme.spacing.lg,
+      backgroundColor: theme.colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    restoreButtonDisabled: {
+      backgroundColor: `${theme.colors.surfaceAlt}55`,
+    },
+    restoreButtonText: {
+      color: theme.colors.white,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.bold,
+      textTransform: "capitalize",
+    },
+  });
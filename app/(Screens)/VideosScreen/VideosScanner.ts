@@ -56,9 +56,22 @@ const ensurePerms = async (): Promise<boolean> => {
   return permissions.every((permission) => results[permission] === PermissionsAndroid.RESULTS.GRANTED);
 };
 
+const toVideoFile = (entry: RNFS.ReadDirItem): CategoryFile => {
+  const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
+  const modifiedDate = entry.mtime ? entry.mtime.getTime() : Date.now();
+
+  return {
+    path: entry.path,
+    size,
+    modified: modifiedDate,
+    category: 'Videos',
+  };
+};
+
 export const scanVideos = async (
   onProgress?: (progress: ScanProgress) => void,
   cancelRef?: { current: boolean },
+  onChunk?: (chunk: CategoryFile[]) => void,
 ): Promise<CategoryFile[]> => {
   const startedAt = Date.now();
   const hasAccess = await ensurePerms();
@@ -69,25 +82,13 @@ export const scanVideos = async (
   const rootPaths = buildVideoRootPaths();
   const videoFilter = createExtensionFilter(VIDEO_EXTENSIONS);
 
-  const entries = await fastScan<RNFS.ReadDirItem>({
+  const results = await fastScan<CategoryFile>({
     rootPaths,
     fileFilter: videoFilter,
-    maxConcurrentDirs: 10,
-    batchSize: 100,
     onProgress,
     cancelRef,
-  });
-
-  const results: CategoryFile[] = entries.map((entry) => {
-    const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
-    const modifiedDate = entry.mtime ? entry.mtime.getTime() : Date.now();
-
-    return {
-      path: entry.path,
-      size,
-      modified: modifiedDate,
-      category: 'Videos',
-    };
+    transform: toVideoFile,
+    onChunk,
   });
 
   const finishedAt = Date.now();
@@ -1,54 +1,16 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useDispatch } from 'react-redux';
-import { initDatabase, loadVideosResults, saveVideosResults } from '../../../utils/db';
-import { setVideosResults } from '../../../redux-code/action';
+import { initDatabase, saveVideosResults } from '../../../utils/db';
+import { appendVideosResults, clearVideosResults } from '../../../redux-code/action';
 import { scanVideos, type ScanProgress } from './VideosScanner';
-import type { CategoryFile } from '../../../utils/fileCategoryCalculator';
 
 export const useVideosScanner = () => {
   const dispatch = useDispatch();
   const [isScanning, setIsScanning] = useState(false);
-  const [isRestoring, setIsRestoring] = useState(true);
   const [progress, setProgress] = useState<ScanProgress>({ total: 0, current: 0 });
-  const [videos, setVideos] = useState<CategoryFile[]>([]);
   const [error, setError] = useState<string | null>(null);
   const cancelRef = useRef(false);
 
-  // Load saved results on mount so UI can render immediately with prior scan data
-  useEffect(() => {
-    let isMounted = true;
-
-    const loadSavedResults = async () => {
-      try {
-        await initDatabase();
-        const savedResults = await loadVideosResults();
-        if (isMounted && savedResults.length > 0) {
-          setVideos(savedResults);
-          dispatch(setVideosResults(savedResults));
-          // Mark progress as complete so summary / rescan logic behaves like other screens
-          setProgress((prev) => ({
-            ...prev,
-            total: savedResults.length,
-            current: savedResults.length,
-            stage: 'restored',
-          }));
-        }
-      } catch (error) {
-        console.error('Failed to load saved videos results:', error);
-      } finally {
-        if (isMounted) {
-          setIsRestoring(false);
-        }
-      }
-    };
-
-    loadSavedResults();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [dispatch]);
-
   const startScan = useCallback(async () => {
     if (isScanning) {
       return;
@@ -56,9 +18,9 @@ export const useVideosScanner = () => {
 
     setIsScanning(true);
     setProgress({ total: 0, current: 0 });
-    setVideos([]);
     setError(null);
     cancelRef.current = false;
+    dispatch(clearVideosResults());
 
     try {
       const results = await scanVideos(
@@ -68,11 +30,14 @@ export const useVideosScanner = () => {
           }
         },
         cancelRef,
+        (chunk) => {
+          if (!cancelRef.current) {
+            dispatch(appendVideosResults(chunk));
+          }
+        },
       );
 
       if (!cancelRef.current) {
-        setVideos(results);
-        dispatch(setVideosResults(results));
         setProgress((prev) => ({ ...prev, stage: 'complete' }));
         
         // Save results to database
@@ -103,6 +68,8 @@ export const useVideosScanner = () => {
         setError(message);
       }
     } finally {
+      // Redux only holds the streamed list of a running scan; the screen pages the saved results
+      dispatch(clearVideosResults());
       setIsScanning(false);
     }
   }, [isScanning, dispatch]);
@@ -121,9 +88,7 @@ export const useVideosScanner = () => {
 
   return {
     isScanning,
-    isRestoring,
     progress,
-    videos,
     error,
     startScan,
     stopScan,
@@ -1,17 +1,19 @@
 ﻿import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { FlatList, ListRenderItem, RefreshControl, StyleSheet, View } from 'react-native';
+import { Alert, FlatList, ListRenderItem, RefreshControl, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useDispatch, useSelector } from 'react-redux';
 import { DefaultTheme, useTheme } from 'styled-components/native';
 import AppHeader from '../../../components/AppHeader';
+import CategoryFilterBar from '../../../components/CategoryFilterBar';
 import ErrorBanner from '../../../components/ErrorBanner';
 import FilterContainer from '../../../components/FilterContainer';
 import FixedDeleteButton from '../../../components/FixedDeleteButton';
+import RetentionPreviewModal from '../../../components/RetentionPreviewModal';
 import ScreenWrapper from '../../../components/ScreenWrapper';
 import WhatsAppEmptyState from '../../../components/WhatsAppEmptyState';
 import WhatsAppFileListItem from '../../../components/WhatsAppFileListItem';
+import formatBytes from '../../../constants/formatBytes';
 import {
-  clearSelections,
   setLoading,
   setSelectedItems,
   setWhatsappResults,
@@ -19,15 +21,28 @@ import {
 } from '../../../redux-code/action';
 import type { RootState } from '../../../redux-code/store';
 import { initDatabase, loadWhatsAppResults, saveWhatsAppResults } from '../../../utils/db';
+import {
+  DEFAULT_RETENTION_POLICIES,
+  hasActiveRetentionPolicy,
+  previewRetentionPolicies,
+  type RetentionRulePreview,
+} from '../../../utils/retentionPolicies';
+import { showCleanupResult } from '../../../utils/showCleanupResult';
+import { TRASH_RETENTION_DAYS, describeDeletionFailures, getRemovedPaths } from '../../../utils/trash';
 import {
   deleteSelected,
+  getRedundantBackupPaths,
+  isLiveBackup,
   scanWhatsApp,
   summarizeWhatsApp,
   WhatsAppFileType,
   WhatsAppScanResult,
 } from './WhatsAppScanner';
+import { DEFAULT_MESSENGER_ID, MESSENGER_PROFILES } from './messengerProfiles';
 
-type FilterType = 'All' | WhatsAppFileType;
+// Besides the file types: what the user sent, hidden chats, and media already kept outside the messenger
+type OriginFilter = 'Sent' | 'Private' | 'Saved Elsewhere';
+type FilterType = 'All' | WhatsAppFileType | OriginFilter;
 
 const FILTER_TYPES: FilterType[] = [
   'All',
@@ -38,8 +53,30 @@ const FILTER_TYPES: FilterType[] = [
   'VoiceNotes',
   'Statuses',
   'Junk',
+  // Message database generations, where a fresh scan pre-selects the redundant ones
+  'Backups',
+  'Sent',
+  'Private',
+  'Saved Elsewhere',
 ];
 
+const ALL_APPS = 'All Apps';
+
+const matchesFilter = (file: WhatsAppScanResult, filter: FilterType): boolean => {
+  switch (filter) {
+    case 'All':
+      return true;
+    case 'Sent':
+      return file.direction === 'sent';
+    case 'Private':
+      return file.direction === 'private';
+    case 'Saved Elsewhere':
+      return Boolean(file.copyPath);
+    default:
+      return file.type === filter;
+  }
+};
+
 const WhatsAppRemoverScreen = () => {
   const dispatch = useDispatch();
   const theme = useTheme();
@@ -48,10 +85,16 @@ const WhatsAppRemoverScreen = () => {
   const isScanning = useSelector((state: RootState) => state.appState.loadingStates.whatsapp);
   const selectedArray = useSelector((state: RootState) => state.appState.selectedItems.whatsapp);
   const selected = useMemo(() => new Set(selectedArray), [selectedArray]);
+  const retention = useSelector((state: RootState) => state.settings.retention ?? DEFAULT_RETENTION_POLICIES);
   const [error, setError] = useState<string | null>(null);
   const [filterType, setFilterType] = useState<FilterType>('All');
+  // Messenger profile id, or ALL_APPS
+  const [appFilter, setAppFilter] = useState<string>(ALL_APPS);
   const [thumbnailFallbacks, setThumbnailFallbacks] = useState<Record<string, boolean>>({});
   const [hasSavedResults, setHasSavedResults] = useState(false);
+  // Frozen when the preview opens, so the files deleted are exactly the ones shown
+  const [retentionPreview, setRetentionPreview] = useState<RetentionRulePreview[] | null>(null);
+  const [runningPolicies, setRunningPolicies] = useState(false);
 
   useEffect(() => {
     (async () => {
@@ -63,7 +106,7 @@ const WhatsAppRemoverScreen = () => {
           setHasSavedResults(true);
         }
       } catch (error) {
-        console.error('Failed to load saved WhatsApp results:', error);
+        console.error('Failed to load saved messenger results:', error);
       }
     })();
   }, [dispatch]);
@@ -75,7 +118,8 @@ const WhatsAppRemoverScreen = () => {
     try {
       const results = await scanWhatsApp();
       dispatch(setWhatsappResults(results));
-      dispatch(clearSelections("whatsapp"));
+      // Older backup generations are pre-selected; the rest is up to the user
+      dispatch(setSelectedItems("whatsapp", getRedundantBackupPaths(results)));
       await saveWhatsAppResults(results);
       setHasSavedResults(true);
     } catch (err) {
@@ -85,18 +129,36 @@ const WhatsAppRemoverScreen = () => {
     }
   }, [dispatch]);
 
-  const toggleSelect = useCallback((path: string) => {
-    dispatch(toggleItemSelection("whatsapp", path));
+  const toggleSelect = useCallback((file: WhatsAppScanResult) => {
+    if (isLiveBackup(file)) return;
+    dispatch(toggleItemSelection("whatsapp", file.path));
   }, [dispatch]);
 
+  const appSummary = useMemo(() => summarizeWhatsApp(files).byApp, [files]);
+  // Only the messengers something was found for, in profile order
+  const foundProfiles = useMemo(
+    () => MESSENGER_PROFILES.filter((profile) => (appSummary[profile.id]?.count ?? 0) > 0),
+    [appSummary],
+  );
+
+  const appFiles = useMemo(
+    () =>
+      appFilter === ALL_APPS
+        ? files
+        : files.filter((file) => (file.app ?? DEFAULT_MESSENGER_ID) === appFilter),
+    [files, appFilter],
+  );
+
   const filteredFiles = useMemo(
-    () => (filterType === 'All' ? files : files.filter((file) => file.type === filterType)),
-    [files, filterType],
+    () => (filterType === 'All' ? appFiles : appFiles.filter((file) => matchesFilter(file, filterType))),
+    [appFiles, filterType],
   );
 
-  const summary = useMemo(() => summarizeWhatsApp(files), [files]);
+  const summary = useMemo(() => summarizeWhatsApp(appFiles), [appFiles]);
+  // The live backup can never be selected, so "all" means everything else
+  const selectableFiles = useMemo(() => filteredFiles.filter((file) => !isLiveBackup(file)), [filteredFiles]);
   const isAllFilteredSelected =
-    filteredFiles.length > 0 && filteredFiles.every((file) => selected.has(file.path));
+    selectableFiles.length > 0 && selectableFiles.every((file) => selected.has(file.path));
 
   const selectedStats = useMemo(() => {
     const stats = { items: 0, size: 0 };
@@ -113,7 +175,7 @@ const WhatsAppRemoverScreen = () => {
 
   const toggleSelectAllFiltered = useCallback(() => {
     const currentSelected = new Set(selectedArray);
-    filteredFiles.forEach((file) => {
+    selectableFiles.forEach((file) => {
       if (isAllFilteredSelected) {
         currentSelected.delete(file.path);
       } else {
@@ -121,34 +183,113 @@ const WhatsAppRemoverScreen = () => {
       }
     });
     dispatch(setSelectedItems("whatsapp", Array.from(currentSelected)));
-  }, [filteredFiles, isAllFilteredSelected, selectedArray, dispatch]);
+  }, [selectableFiles, isAllFilteredSelected, selectedArray, dispatch]);
 
   const recordThumbnailError = useCallback((path: string) => {
     setThumbnailFallbacks((prev) => (prev[path] ? prev : { ...prev, [path]: true }));
   }, []);
 
-  const handleDelete = useCallback(async () => {
+  const handleDelete = useCallback(() => {
     if (selectedStats.items === 0) return;
     const filesToDelete = filteredFiles.filter((file) => selected.has(file.path));
+    // Backups are pre-selected, so say so before they go
+    const backupCount = filesToDelete.filter((file) => file.backup).length;
+    const backupNote = backupCount > 0
+      ? ` This includes ${backupCount} chat backup${backupCount !== 1 ? 's' : ''}.`
+      : '';
+    Alert.alert(
+      'Delete Messenger Files?',
+      `This will move ${selectedStats.items} file${selectedStats.items !== 1 ? 's' : ''} (${formatBytes(selectedStats.size)}) to the trash.${backupNote} Trashed files are permanently deleted after ${TRASH_RETENTION_DAYS} days.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const result = await deleteSelected(filesToDelete);
+              const removedPaths = getRemovedPaths(result);
+              const remaining = files.filter((file) => !removedPaths.has(file.path));
+              dispatch(setWhatsappResults(remaining));
+              // Selections outside the current filter stay, like the pre-selected backups
+              dispatch(setSelectedItems("whatsapp", selectedArray.filter((path) => !removedPaths.has(path))));
+              await saveWhatsAppResults(remaining);
+              if (result.failed.length > 0) {
+                setError(describeDeletionFailures(result));
+              } else {
+                showCleanupResult(result);
+              }
+            } catch (err) {
+              setError((err as Error).message || 'delete failed');
+            }
+          },
+        },
+      ],
+    );
+  }, [selectedStats, filteredFiles, selected, selectedArray, files, dispatch]);
+
+  const openRetentionPreview = useCallback(() => {
+    setRetentionPreview(previewRetentionPolicies(files, retention));
+  }, [files, retention]);
+
+  const runRetentionPolicies = useCallback(async () => {
+    if (!retentionPreview) return;
+    const byPath = new Map<string, WhatsAppScanResult>();
+    retentionPreview.forEach((preview) => preview.files.forEach((file) => byPath.set(file.path, file)));
+    setRunningPolicies(true);
     try {
-      await deleteSelected(filesToDelete);
-      const remaining = files.filter((file) => !selected.has(file.path));
+      const result = await deleteSelected([...byPath.values()]);
+      const removedPaths = getRemovedPaths(result);
+      const remaining = files.filter((file) => !removedPaths.has(file.path));
       dispatch(setWhatsappResults(remaining));
-      dispatch(clearSelections("whatsapp"));
+      dispatch(setSelectedItems("whatsapp", selectedArray.filter((path) => !removedPaths.has(path))));
       await saveWhatsAppResults(remaining);
+      if (result.failed.length > 0) {
+        setError(describeDeletionFailures(result));
+      } else {
+        showCleanupResult(result);
+      }
     } catch (err) {
       setError((err as Error).message || 'delete failed');
+    } finally {
+      setRunningPolicies(false);
+      setRetentionPreview(null);
     }
-  }, [selectedStats.items, filteredFiles, selected, files, dispatch]);
+  }, [retentionPreview, files, selectedArray, dispatch]);
 
   const filterCounts = useMemo(() => {
     const counts: Record<string, number> = { All: summary.totalCount };
     FILTER_TYPES.filter((t) => t !== 'All').forEach((type) => {
       counts[type] = summary.byType[type as WhatsAppFileType]?.count ?? 0;
     });
+    counts.Sent = summary.byDirection.sent.count;
+    counts.Private = summary.byDirection.private.count;
+    counts['Saved Elsewhere'] = summary.copies.count;
     return counts;
   }, [summary]);
 
+  const appCategories = useMemo(
+    () => [ALL_APPS, ...foundProfiles.map((profile) => profile.name)],
+    [foundProfiles],
+  );
+
+  const appCounts = useMemo(() => {
+    const counts: Record<string, number> = { [ALL_APPS]: files.length };
+    foundProfiles.forEach((profile) => {
+      counts[profile.name] = appSummary[profile.id].count;
+    });
+    return counts;
+  }, [files.length, foundProfiles, appSummary]);
+
+  const activeAppName = foundProfiles.find((profile) => profile.id === appFilter)?.name ?? ALL_APPS;
+
+  const handleAppChange = useCallback(
+    (name: string) => {
+      setAppFilter(foundProfiles.find((profile) => profile.name === name)?.id ?? ALL_APPS);
+    },
+    [foundProfiles],
+  );
+
   const listContentInset = useMemo(
     () => ({
       paddingTop: theme.spacing.md,
@@ -163,7 +304,7 @@ const WhatsAppRemoverScreen = () => {
       <WhatsAppFileListItem
         item={item}
         selected={selected.has(item.path)}
-        onPress={() => toggleSelect(item.path)}
+        onPress={() => toggleSelect(item)}
         onThumbnailError={() => recordThumbnailError(item.path)}
         thumbnailFallback={thumbnailFallbacks[item.path] ?? false}
       />
@@ -176,12 +317,12 @@ const WhatsAppRemoverScreen = () => {
       <SafeAreaView style={styles.screen} edges={['bottom', 'left', 'right']}>
         <View style={styles.headerContainer}>
           <AppHeader
-            title="Whatsapp Scanner"
+            title={activeAppName === ALL_APPS ? 'Messenger Cleaner' : activeAppName}
             totalSize={summary.totalSize}
             totalFiles={summary.totalCount}
             isAllSelected={isAllFilteredSelected}
             onSelectAllPress={toggleSelectAllFiltered}
-            selectAllDisabled={!filteredFiles.length}
+            selectAllDisabled={!selectableFiles.length}
           />
         </View>
         <FilterContainer
@@ -191,7 +332,26 @@ const WhatsAppRemoverScreen = () => {
           onCategoryChange={(category) => setFilterType(category as FilterType)}
           loading={isScanning}
           hasSavedResults={hasSavedResults}
-        />
+        >
+          {foundProfiles.length > 1 && (
+            <CategoryFilterBar
+              categories={appCategories}
+              activeCategory={activeAppName}
+              counts={appCounts}
+              onCategoryChange={handleAppChange}
+            />
+          )}
+          {hasActiveRetentionPolicy(retention) && files.length > 0 && (
+            <TouchableOpacity
+              style={styles.policyButton}
+              onPress={openRetentionPreview}
+              disabled={isScanning}
+              activeOpacity={0.85}
+            >
+              <Text style={styles.policyButtonText}>run policies</Text>
+            </TouchableOpacity>
+          )}
+        </FilterContainer>
         {error && <View style={styles.errorContainer}><ErrorBanner error={error} /></View>}
         <FlatList
           data={filteredFiles}
@@ -222,6 +382,13 @@ const WhatsAppRemoverScreen = () => {
           onPress={handleDelete}
           visible={!deleteDisabled && filteredFiles.length > 0}
         />
+        <RetentionPreviewModal
+          visible={retentionPreview !== null}
+          previews={retentionPreview ?? []}
+          running={runningPolicies}
+          onCancel={() => setRetentionPreview(null)}
+          onConfirm={runRetentionPolicies}
+        />
       </SafeAreaView>
     </ScreenWrapper>
   );
@@ -240,6 +407,19 @@ const createStyles = (theme: DefaultTheme) =>
       paddingHorizontal: theme.spacing.lg,
       paddingBottom: theme.spacing.sm,
     },
+    policyButton: {
+      alignSelf: 'flex-start',
+      paddingVertical: theme.spacing.xs,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: theme.colors.primary,
+    },
+    policyButtonText: {
+      color: theme.colors.primary,
+      fontSize: 12,
+      fontWeight: '600',
+    },
     footerSpacer: {
       height: theme.spacing.xl,
     },
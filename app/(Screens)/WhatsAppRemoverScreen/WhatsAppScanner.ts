@@ -1,4 +1,11 @@
 import * as FileSystem from 'expo-file-system/legacy';
+import RNFS from 'react-native-fs';
+import { findDuplicateGroups, type DuplicateFile } from '../../../utils/duplicateFinder';
+import { getExclusionMatcher } from '../../../utils/exclusions';
+import { fastScan } from '../../../utils/fastScanner';
+import { runAdaptivePool } from '../../../utils/scanScheduler';
+import { moveFilesToTrash, type DeletionResult } from '../../../utils/trash';
+import { DEFAULT_MESSENGER_ID, MESSENGER_PROFILES, type MessengerProfile } from './messengerProfiles';
 
 export type WhatsAppFileType =
   | 'Statuses'
@@ -12,54 +19,134 @@ export type WhatsAppFileType =
   | 'Junk'
   | 'Other';
 
+export type WhatsAppDirection = 'received' | 'sent' | 'private';
+
+export type WhatsAppBackupStatus = 'live' | 'latest' | 'redundant';
+
+export interface WhatsAppBackupInfo {
+  // Day the generation was written, from its name; the live backup has none
+  date: string | null;
+  cryptVersion: number;
+  status: WhatsAppBackupStatus;
+}
+
 export interface WhatsAppScanResult {
   path: string;
   size: number;
   modified: number | null;
   type: WhatsAppFileType;
+  // Id of the messenger profile the file was found under; missing on results saved before profiles
+  app?: string;
+  // Media only; WhatsApp keeps what the user sent and hidden chats in Sent and Private subfolders
+  direction?: WhatsAppDirection;
+  // A file with the same content in the camera, pictures or download folders
+  copyPath?: string;
+  // Message database backups only
+  backup?: WhatsAppBackupInfo;
 }
 
 export interface WhatsAppSummary {
   totalCount: number;
   totalSize: number;
   byType: Record<WhatsAppFileType, { count: number; size: number }>;
+  byDirection: Record<WhatsAppDirection, { count: number; size: number }>;
+  byApp: Record<string, { count: number; size: number }>;
+  copies: { count: number; size: number };
 }
 
-const BASES: string[] = [
-  // Android 11+ (scoped storage) paths
-  'file:///storage/emulated/0/Android/media/com.whatsapp/WhatsApp',
-  'file:///storage/emulated/0/Android/media/com.whatsapp.w4b/WhatsApp Business',
-  // Legacy path (Android 10 and below or devices with broad storage access)
-  'file:///storage/emulated/0/WhatsApp',
-];
-const TARGETS: string[] = [
-  'Media/.Statuses',
-  'Media/WhatsApp Images',
-  'Media/WhatsApp Video',
-  'Media/WhatsApp Voice Notes',
-  'Media/WhatsApp Audio',
-  'Media/WhatsApp Documents',
-  'Media/WhatsApp Stickers',
-  'Backups',
-];
+// Folders people save chat media into; a messenger file with a copy there can go
+const COPY_ROOTS = [
+  RNFS.ExternalStorageDirectoryPath && `${RNFS.ExternalStorageDirectoryPath}/DCIM`,
+  RNFS.ExternalStorageDirectoryPath && `${RNFS.ExternalStorageDirectoryPath}/Pictures`,
+  RNFS.DownloadDirectoryPath,
+].filter(Boolean) as string[];
+const COPYABLE_TYPES: WhatsAppFileType[] = ['Images', 'Video', 'Audio', 'Documents'];
+// Sent and Private sit one level down; anything much deeper is not the messenger's own layout
+const MAX_TARGET_DEPTH = 4;
 
 const joinPath = (root: string, child: string) =>
   `${root.replace(/\/+$/, '')}/${child.replace(/^\/+/, '')}`;
 
-const classify = (path: string): WhatsAppFileType => {
+// Files take the type of the folder they were found in, except the leftovers every messenger writes
+const classify = (path: string, targetType: WhatsAppFileType): WhatsAppFileType => {
   const normalized = path.toLowerCase();
-  if (normalized.includes('.statuses')) return 'Statuses';
-  if (normalized.includes('images')) return 'Images';
-  if (normalized.includes('video')) return 'Video';
-  if (normalized.includes('voice')) return 'VoiceNotes';
-  if (normalized.includes('audio')) return 'Audio';
-  if (normalized.includes('documents')) return 'Documents';
-  if (normalized.includes('stickers')) return 'Stickers';
-  if (normalized.includes('backups')) return 'Backups';
-  if (normalized.endsWith('.tmp') || normalized.includes('.nomedia')) return 'Junk';
-  return 'Other';
+  if (normalized.endsWith('.tmp') || normalized.endsWith('.nomedia')) return 'Junk';
+  return targetType;
+};
+
+const getDirection = (
+  relativePath: string,
+  directionFolders: NonNullable<MessengerProfile['directionFolders']>,
+): WhatsAppDirection => {
+  // Folder names only, so a file that happens to be called "sent" does not count
+  const segments = relativePath.toLowerCase().split('/').slice(0, -1);
+  const directions = segments
+    .map((segment) => directionFolders[segment])
+    .filter((direction): direction is WhatsAppDirection => Boolean(direction));
+  // A private chat's sent media is still private
+  if (directions.includes('private')) return 'private';
+  return directions[0] ?? 'received';
+};
+
+// msgstore.db.crypt14 is the live backup; msgstore-2024-05-01.1.db.crypt14 an older generation
+const BACKUP_NAME_PATTERN = /^msgstore(?:-(\d{4}-\d{2}-\d{2})(?:\.\d+)?)?\.db\.crypt(\d+)$/i;
+
+const LIVE_BACKUP_REASON = 'the live WhatsApp backup is protected';
+
+const parseBackupName = (path: string): Omit<WhatsAppBackupInfo, 'status'> | null => {
+  const match = BACKUP_NAME_PATTERN.exec(path.slice(path.lastIndexOf('/') + 1));
+  return match ? { date: match[1] ?? null, cryptVersion: Number(match[2]) } : null;
+};
+
+/**
+ * Newest generation first: by the day it was written, then by crypt version for two from the same day.
+ * Both the generation marking and the keep-newest retention rule rank backups with this.
+ */
+export const compareBackupGenerations = (
+  a: Pick<WhatsAppBackupInfo, 'date' | 'cryptVersion'>,
+  b: Pick<WhatsAppBackupInfo, 'date' | 'cryptVersion'>,
+): number => (b.date ?? '').localeCompare(a.date ?? '') || b.cryptVersion - a.cryptVersion;
+
+/**
+ * Sort the message database backups of each Backups folder into generations.
+ * The live backup is protected, the newest dated generation kept as a fallback and every older one,
+ * or one written with an older crypt version on the same day, is redundant.
+ */
+const markBackupGenerations = (results: WhatsAppScanResult[]) => {
+  const folders = new Map<string, { file: WhatsAppScanResult; info: Omit<WhatsAppBackupInfo, 'status'> }[]>();
+  results.forEach((file) => {
+    const info = file.type === 'Backups' ? parseBackupName(file.path) : null;
+    if (!info) {
+      return;
+    }
+    const folder = file.path.slice(0, file.path.lastIndexOf('/'));
+    folders.set(folder, [...(folders.get(folder) ?? []), { file, info }]);
+  });
+
+  folders.forEach((backups) => {
+    const generations = backups
+      .filter(({ info }) => info.date !== null)
+      .sort((a, b) => compareBackupGenerations(a.info, b.info));
+    backups.forEach(({ file, info }) => {
+      let status: WhatsAppBackupStatus = 'redundant';
+      if (info.date === null) {
+        status = 'live';
+      } else if (generations[0].file === file) {
+        status = 'latest';
+      }
+      file.backup = { ...info, status };
+    });
+  });
 };
 
+export const isLiveBackup = (file: WhatsAppScanResult): boolean => file.backup?.status === 'live';
+
+// Older backup generations, which a fresh scan pre-selects
+export const getRedundantBackupPaths = (files: WhatsAppScanResult[]): string[] =>
+  files.filter((file) => file.backup?.status === 'redundant').map((file) => file.path);
+
+const toPlainPath = (path: string) => path.replace(/^file:\/\//, '');
+
 const listFiles = async (dir: string) => {
   try {
     return await FileSystem.readDirectoryAsync(dir);
@@ -76,86 +163,185 @@ const statPath = async (path: string) => {
   }
 };
 
-export async function scanWhatsApp(): Promise<WhatsAppScanResult[]> {
+/**
+ * Mark media that has an identical copy in the camera, pictures or download folders.
+ * Only files that share a size with messenger media are hashed, through the duplicate finder's hash cache.
+ */
+const markCopiesElsewhere = async (
+  results: WhatsAppScanResult[],
+  cancelRef?: { current: boolean },
+): Promise<number> => {
+  const media = new Map<string, WhatsAppScanResult>();
+  results.forEach((file) => {
+    if (COPYABLE_TYPES.includes(file.type) && file.size > 0) {
+      media.set(toPlainPath(file.path), file);
+    }
+  });
+  if (!media.size || !COPY_ROOTS.length) {
+    return 0;
+  }
+
+  const sizes = new Set([...media.values()].map((file) => file.size));
+  const candidates = await fastScan<RNFS.ReadDirItem>({
+    rootPaths: COPY_ROOTS,
+    fileFilter: (entry) => sizes.has(entry.size) && !media.has(entry.path),
+    cancelRef,
+  });
+  if (cancelRef?.current || !candidates.length) {
+    return 0;
+  }
+
+  const files: DuplicateFile[] = [
+    ...[...media.entries()].map(([path, file]) => ({
+      path,
+      size: file.size,
+      // expo-file-system reports seconds; the hash cache truncates both sources to whole seconds
+      modifiedDate: (file.modified ?? 0) * 1000,
+    })),
+    ...candidates.map((entry) => ({
+      path: entry.path,
+      size: entry.size,
+      modifiedDate: entry.mtime ? entry.mtime.getTime() : 0,
+    })),
+  ];
+
+  let marked = 0;
+  const groups = await findDuplicateGroups(files, undefined, cancelRef);
+  for (const group of groups) {
+    const copy = group.files.find((file) => !media.has(file.path));
+    if (!copy) {
+      continue;
+    }
+    group.files.forEach((file) => {
+      const result = media.get(file.path);
+      if (result) {
+        result.copyPath = copy.path;
+        marked += 1;
+      }
+    });
+  }
+  return marked;
+};
+
+interface WalkItem {
+  profile: MessengerProfile;
+  targetPath: string;
+  targetType: WhatsAppFileType;
+  dir: string;
+  depth: number;
+}
+
+/**
+ * List the media and backups of every messenger profile, walking into Sent, Private and any other
+ * subfolder of each target. Media that also exists outside the messenger is marked with the path of that copy.
+ * Stops once cancelRef is set and returns what was found so far.
+ */
+export async function scanWhatsApp(
+  cancelRef?: { current: boolean },
+  profiles: MessengerProfile[] = MESSENGER_PROFILES,
+): Promise<WhatsAppScanResult[]> {
   const startedAt = Date.now();
   const results: WhatsAppScanResult[] = [];
-  
-  // Check all bases in parallel
+  const exclusions = await getExclusionMatcher();
+
+  // Check all bases in parallel; a messenger that is not installed simply has none
   const existingBases = await Promise.all(
-    BASES.map(async (base) => {
-      const info = await statPath(base);
-      return info.exists && info.isDirectory ? base : null;
-    }),
+    profiles.flatMap((profile) =>
+      profile.bases.map(async (base) => {
+        const info = await statPath(base);
+        return info.exists && info.isDirectory ? { profile, base } : null;
+      }),
+    ),
+  );
+  const activeBases = existingBases.filter((entry): entry is { profile: MessengerProfile; base: string } =>
+    Boolean(entry),
   );
-  const activeBases = existingBases.filter((base): base is string => Boolean(base));
 
   if (!activeBases.length) {
-    throw new Error('whatsapp storage folder not found or inaccessible');
+    throw new Error('messenger storage folders not found or inaccessible');
   }
 
-  // Process all bases and targets in parallel batches
-  const allTargetPaths: Array<{ base: string; target: string }> = [];
-  for (const base of activeBases) {
-    for (const target of TARGETS) {
-      allTargetPaths.push({ base, target });
+  // Every target of every base starts the walk; subfolders join the same queue
+  const queue: WalkItem[] = [];
+  for (const { profile, base } of activeBases) {
+    for (const [target, targetType] of Object.entries(profile.targets)) {
+      const targetPath = joinPath(base, target);
+      queue.push({ profile, targetPath, targetType, dir: targetPath, depth: 0 });
     }
   }
 
-  // Process targets in parallel batches (up to 6 at a time)
-  const BATCH_SIZE = 6;
-  for (let i = 0; i < allTargetPaths.length; i += BATCH_SIZE) {
-    const batch = allTargetPaths.slice(i, i + BATCH_SIZE);
-    await Promise.all(
-      batch.map(async ({ base, target }) => {
-        const targetPath = joinPath(base, target);
-        const entries = await listFiles(targetPath);
-        if (!entries.length) {
-          return;
-        }
+  const poolStats = await runAdaptivePool(
+    queue,
+    async (item) => {
+      const readStartedAt = Date.now();
+      const entries = await listFiles(item.dir);
+      const snapshots = await Promise.all(
+        entries.map(async (entry) => {
+          const fullPath = joinPath(item.dir, entry);
+          const info = await statPath(fullPath);
+          return { fullPath, info };
+        }),
+      );
+      const readMs = Date.now() - readStartedAt;
 
-        // Batch stat operations
-        const snapshots = await Promise.all(
-          entries.map(async (entry) => {
-            const fullPath = joinPath(targetPath, entry);
-            const info = await statPath(fullPath);
-            return { fullPath, info };
-          }),
-        );
-
-        for (const { fullPath, info } of snapshots) {
-          if (!info.exists || info.isDirectory) {
-            continue;
-          }
-          const type = classify(fullPath);
-          if (target.includes('Media') && type === 'Other') {
-            continue;
+      for (const { fullPath, info } of snapshots) {
+        if (!info.exists || exclusions.isExcluded(fullPath)) {
+          continue;
+        }
+        if (info.isDirectory) {
+          if (item.depth < MAX_TARGET_DEPTH) {
+            queue.push({ ...item, dir: fullPath, depth: item.depth + 1 });
           }
-          results.push({
-            path: fullPath,
-            size: info.size ?? 0,
-            modified: info.modificationTime ?? null,
-            type,
-          });
+          continue;
         }
-      }),
-    );
+        const { directionFolders } = item.profile;
+        const isMedia = item.targetType !== 'Backups';
+        results.push({
+          path: fullPath,
+          size: info.size ?? 0,
+          modified: info.modificationTime ?? null,
+          type: classify(fullPath, item.targetType),
+          app: item.profile.id,
+          ...(isMedia && directionFolders
+            ? { direction: getDirection(fullPath.slice(item.targetPath.length), directionFolders) }
+            : {}),
+        });
+      }
+      return readMs;
+    },
+    { cancelRef },
+  );
+
+  markBackupGenerations(results);
+
+  let copies = 0;
+  if (!cancelRef?.current) {
+    try {
+      copies = await markCopiesElsewhere(results, cancelRef);
+    } catch (error) {
+      // The listing is still useful without the cross-reference
+      console.warn('[MessengerScan] Failed to look for copies outside the messengers:', error);
+    }
   }
 
   const finishedAt = Date.now();
   console.log(
-    `[WhatsAppScan] files=${results.length} durationMs=${finishedAt - startedAt}`,
+    `[MessengerScan] apps=${new Set(activeBases.map(({ profile }) => profile.id)).size} ` +
+      `files=${results.length} directories=${poolStats.completed} copies=${copies} ` +
+      `durationMs=${finishedAt - startedAt}`,
   );
 
   return results.sort((a, b) => b.size - a.size);
 }
 
-export async function deleteSelected(files: WhatsAppScanResult[]): Promise<void> {
-  if (!files.length) {
-    return;
+/**
+ * Move the selected files to the trash. Refuses to run when the selection includes a live backup.
+ */
+export async function deleteSelected(files: WhatsAppScanResult[]): Promise<DeletionResult> {
+  if (files.some(isLiveBackup)) {
+    throw new Error(LIVE_BACKUP_REASON);
   }
-  await Promise.all(
-    files.map((file) => FileSystem.deleteAsync(file.path, { idempotent: true })),
-  );
+  return moveFilesToTrash(files, 'whatsapp');
 }
 
 export const summarizeWhatsApp = (files: WhatsAppScanResult[]): WhatsAppSummary => {
@@ -172,18 +358,43 @@ export const summarizeWhatsApp = (files: WhatsAppScanResult[]): WhatsAppSummary
     Other: { count: 0, size: 0 },
   };
 
+  const byDirection: WhatsAppSummary['byDirection'] = {
+    received: { count: 0, size: 0 },
+    sent: { count: 0, size: 0 },
+    private: { count: 0, size: 0 },
+  };
+  const copies = { count: 0, size: 0 };
+  const byApp: WhatsAppSummary['byApp'] = {};
+
   let totalSize = 0;
   files.forEach((file) => {
     const bucket = base[file.type];
     bucket.count += 1;
     bucket.size += file.size;
     totalSize += file.size;
+    if (file.direction) {
+      byDirection[file.direction].count += 1;
+      byDirection[file.direction].size += file.size;
+    }
+    if (file.copyPath) {
+      copies.count += 1;
+      copies.size += file.size;
+    }
+    const app = file.app ?? DEFAULT_MESSENGER_ID;
+    if (!byApp[app]) {
+      byApp[app] = { count: 0, size: 0 };
+    }
+    byApp[app].count += 1;
+    byApp[app].size += file.size;
   });
 
   return {
     totalCount: files.length,
     totalSize,
     byType: base,
+    byDirection,
+    byApp,
+    copies,
   };
 };
 
@@ -0,0 +1,122 @@
+import type { WhatsAppDirection, WhatsAppFileType } from './WhatsAppScanner';
+
+/**
+ * Where one messenger keeps its files and what each of those folders holds.
+ * Supporting another app means adding a profile here; the scanner and screen read them all.
+ */
+export interface MessengerProfile {
+  id: string;
+  name: string;
+  // App folders to look in, newest storage layout first; the ones that do not exist are skipped
+  bases: string[];
+  // Folder under a base, relative to it, and the type of every file inside it
+  targets: Record<string, WhatsAppFileType>;
+  // Subfolder names (lowercase) that say who a file came from; the rest is received
+  directionFolders?: Record<string, WhatsAppDirection>;
+}
+
+const STORAGE_ROOT = 'file:///storage/emulated/0';
+
+const WHATSAPP_DIRECTION_FOLDERS: Record<string, WhatsAppDirection> = {
+  sent: 'sent',
+  private: 'private',
+};
+
+const whatsappTargets = (prefix: string): Record<string, WhatsAppFileType> => ({
+  'Media/.Statuses': 'Statuses',
+  [`Media/${prefix} Images`]: 'Images',
+  [`Media/${prefix} Video`]: 'Video',
+  [`Media/${prefix} Voice Notes`]: 'VoiceNotes',
+  [`Media/${prefix} Audio`]: 'Audio',
+  [`Media/${prefix} Documents`]: 'Documents',
+  [`Media/${prefix} Stickers`]: 'Stickers',
+  Backups: 'Backups',
+});
+
+export const MESSENGER_PROFILES: MessengerProfile[] = [
+  {
+    id: 'whatsapp',
+    name: 'WhatsApp',
+    bases: [
+      // Android 11+ (scoped storage)
+      `${STORAGE_ROOT}/Android/media/com.whatsapp/WhatsApp`,
+      // Android 10 and below, or devices with broad storage access
+      `${STORAGE_ROOT}/WhatsApp`,
+    ],
+    targets: whatsappTargets('WhatsApp'),
+    directionFolders: WHATSAPP_DIRECTION_FOLDERS,
+  },
+  {
+    id: 'whatsappBusiness',
+    name: 'WhatsApp Business',
+    bases: [
+      `${STORAGE_ROOT}/Android/media/com.whatsapp.w4b/WhatsApp Business`,
+      `${STORAGE_ROOT}/WhatsApp Business`,
+    ],
+    targets: whatsappTargets('WhatsApp Business'),
+    directionFolders: WHATSAPP_DIRECTION_FOLDERS,
+  },
+  {
+    id: 'telegram',
+    name: 'Telegram',
+    bases: [
+      `${STORAGE_ROOT}/Android/media/org.telegram.messenger/Telegram`,
+      `${STORAGE_ROOT}/Telegram`,
+    ],
+    targets: {
+      'Telegram Images': 'Images',
+      'Telegram Video': 'Video',
+      'Telegram Audio': 'Audio',
+      'Telegram Documents': 'Documents',
+      'Telegram Stories': 'Statuses',
+    },
+  },
+  {
+    id: 'signal',
+    name: 'Signal',
+    // Signal keeps attachments private; only saved media and backups are on shared storage
+    bases: [STORAGE_ROOT],
+    targets: {
+      'Pictures/Signal': 'Images',
+      'Movies/Signal': 'Video',
+      'Music/Signal': 'Audio',
+      'Download/Signal': 'Documents',
+      'Signal/Backups': 'Backups',
+    },
+  },
+  {
+    id: 'viber',
+    name: 'Viber',
+    bases: [
+      `${STORAGE_ROOT}/Android/media/com.viber.voip/Viber`,
+      `${STORAGE_ROOT}/viber`,
+    ],
+    targets: {
+      'media/Viber Images': 'Images',
+      'media/Viber Videos': 'Video',
+      'media/Viber Voice Messages': 'VoiceNotes',
+      'media/Viber Files': 'Documents',
+      'media/.stickers': 'Stickers',
+    },
+  },
+  {
+    id: 'messenger',
+    name: 'Messenger',
+    bases: [STORAGE_ROOT],
+    targets: {
+      'Pictures/Messenger': 'Images',
+      'Movies/Messenger': 'Video',
+    },
+  },
+];
+
+// Results saved before profiles existed were all WhatsApp
+export const DEFAULT_MESSENGER_ID = 'whatsapp';
+
+export const getMessengerName = (id: string | undefined): string =>
+  MESSENGER_PROFILES.find((profile) => profile.id === (id ?? DEFAULT_MESSENGER_ID))?.name ?? id ?? '';
+
+// Default export to satisfy expo-router while keeping this as a non-route module
+export default function MessengerProfilesRoute(): null {
+  return null;
+}
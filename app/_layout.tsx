@@ -1,12 +1,15 @@
 ﻿import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
-import React from "react";
+import React, { useEffect } from "react";
+import { Alert } from "react-native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { SafeAreaProvider, SafeAreaView } from "react-native-safe-area-context";
 import { Provider } from "react-redux";
 import { PersistGate } from "redux-persist/integration/react";
 import { ThemeModeProvider, useThemeMode } from "../context/ThemeContext";
 import { persistor, store } from "../redux-code/store";
+import { getMigrationFailure, initDatabase } from "../utils/db";
+import { purgeExpiredTrash } from "../utils/trash";
 import { ScannerProvider } from "./(Screens)/DuplicateImagesScreen/DuplicateImageScanner";
 
 const LayoutContent = () => {
@@ -28,6 +31,24 @@ const LayoutContent = () => {
 };
 
 export default function RootLayout() {
+  // A failed migration is reported once here; trashed files past their retention are removed
+  // on every launch, not only when the trash is opened
+  useEffect(() => {
+    initDatabase().then(
+      () => purgeExpiredTrash().catch((error) => console.error("Failed to purge expired trash:", error)),
+      (error) => {
+        console.error("Failed to open the database:", error);
+        const failure = getMigrationFailure();
+        if (failure) {
+          Alert.alert(
+            "Database Update Failed",
+            `Saved data could not be updated to version ${failure.version} (${failure.description}). Scan results and history are unavailable until the app is updated.\n\n${failure.message}`
+          );
+        }
+      }
+    );
+  }, []);
+
   return (
     <Provider store={store}>
       <PersistGate loading={null} persistor={persistor}>
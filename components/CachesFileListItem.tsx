@@ -3,11 +3,25 @@ import React from "react";
 import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
 import { DefaultTheme, useTheme } from "styled-components/native";
 import { withOpacity } from "../theme/theme";
-import type { CacheItem } from "../app/(Screens)/CachesScreen/CachesScanner";
+import type { CacheItem, RuleCacheItem } from "../app/(Screens)/CachesScreen/CachesScanner";
 import formatBytes from "../constants/formatBytes";
 import { formatTimestamp } from "../utils/fileUtils";
 import NeumorphicContainer from "./NeumorphicContainer";
 
+const RULE_CATEGORY_LABELS: Record<RuleCacheItem['category'], string> = {
+  thumbnails: 'THUMBNAILS',
+  logs: 'LOGS',
+  appCache: 'APP CACHE',
+  downloadTemp: 'TEMP DOWNLOAD',
+  gameUpdate: 'GAME UPDATE',
+};
+
+const getTypeLabel = (item: CacheItem): string => {
+  if (item.type === 'corpse') return 'CORPSE';
+  if (item.type === 'rule') return RULE_CATEGORY_LABELS[item.category];
+  return 'CACHE';
+};
+
 type CachesFileListItemProps = {
   item: CacheItem;
   selected: boolean;
@@ -22,9 +36,12 @@ const CachesFileListItem: React.FC<CachesFileListItemProps> = ({
   const theme = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
 
-  const displayName = item.packageName || item.path.split("/").pop() || item.path;
-  const typeLabel = item.type === 'corpse' ? 'CORPSE' : 'CACHE';
+  const displayName =
+    item.type === 'rule' ? item.label : item.packageName || item.path.split("/").pop() || item.path;
+  const typeLabel = getTypeLabel(item);
   const typeColor = item.type === 'corpse' ? theme.colors.error : theme.colors.warning;
+  // Rule hits that may hold something the user still wants
+  const needsReview = item.type === 'rule' && item.safety === 'review';
 
   return (
     <TouchableOpacity
@@ -68,6 +85,11 @@ const CachesFileListItem: React.FC<CachesFileListItemProps> = ({
                   {typeLabel}
                 </Text>
               </View>
+              {needsReview && (
+                <Text style={[styles.metaText, styles.reviewText]}>
+                  check before deleting
+                </Text>
+              )}
               {item.packageName && (
                 <Text style={styles.metaText} numberOfLines={1}>
                   {item.packageName}
@@ -175,6 +197,9 @@ const createStyles = (theme: DefaultTheme) =>
       color: theme.colors.textMuted,
       fontSize: theme.fontSize.xs,
     },
+    reviewText: {
+      color: theme.colors.error,
+    },
   });
 
 export default CachesFileListItem;
@@ -2,6 +2,7 @@ import LottieView from "lottie-react-native";
 import React from "react";
 import { StyleSheet, Text, View } from "react-native";
 import { DefaultTheme, useTheme } from "styled-components/native";
+import formatEta from "../constants/formatEta";
 import type { SmartScanProgress } from "../utils/smartScan";
 
 type Props = {
@@ -41,6 +42,12 @@ const CircularLoadingIndicator: React.FC<Props> = ({ scanProgress, size = 200 })
       <Text style={styles.scanningText}>
         Scanning... {scanProgress.scannerName}
       </Text>
+      {scanProgress.scannerProgress !== undefined && (
+        <Text style={styles.detailText}>
+          {Math.round(scanProgress.scannerProgress * 100)}%
+          {scanProgress.etaMs != null && scanProgress.etaMs > 0 ? ` • ${formatEta(scanProgress.etaMs)}` : ""}
+        </Text>
+      )}
     </>
   );
 };
@@ -69,5 +76,12 @@ const createStyles = (theme: DefaultTheme) =>
       fontWeight: "500",
       alignSelf: "center",
     },
+    detailText: {
+      marginTop: theme.spacing.xxs,
+      fontSize: theme.fontSize.sm,
+      color: theme.colors.textMuted,
+      textAlign: "center",
+      alignSelf: "center",
+    },
   });
 
@@ -14,6 +14,8 @@ interface DuplicateFileItemProps {
   onToggleSelect: () => void;
   onPreview: (file: DuplicateFileItem) => void;
   onImageError?: () => void;
+  previewable?: boolean;
+  icon?: string;
 }
 
 export default function DuplicateFileItemComponent({
@@ -23,11 +25,13 @@ export default function DuplicateFileItemComponent({
   onToggleSelect,
   onPreview,
   onImageError,
+  previewable = true,
+  icon = 'image-outline',
 }: DuplicateFileItemProps) {
   const theme = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
   const imageUri = ensurePreviewUri(file.path);
-  const showImage = !!imageUri && !hasLoadError;
+  const showImage = previewable && !!imageUri && !hasLoadError;
 
   return (
     <TouchableOpacity 
@@ -48,7 +52,7 @@ export default function DuplicateFileItemComponent({
           </View>
         ) : (
           <View style={styles.fileIcon}>
-            <MaterialCommunityIcons name="image-outline" size={24} color={theme.colors.primary} />
+            <MaterialCommunityIcons name={icon as any} size={24} color={theme.colors.primary} />
           </View>
         )}
         <View style={styles.fileInfo}>
@@ -7,9 +7,10 @@ interface DuplicateGroupHeaderProps {
   itemCount: number;
   totalSize: number;
   onSelectAll: () => void;
+  similarity?: number;
 }
 
-export default function DuplicateGroupHeader({ itemCount, totalSize, onSelectAll }: DuplicateGroupHeaderProps) {
+export default function DuplicateGroupHeader({ itemCount, totalSize, onSelectAll, similarity }: DuplicateGroupHeaderProps) {
   const theme = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
 
@@ -17,6 +18,9 @@ export default function DuplicateGroupHeader({ itemCount, totalSize, onSelectAll
     <View style={styles.header}>
       <Text style={styles.headerText}>
         {itemCount} item{itemCount !== 1 ? 's' : ''}, {formatBytes(totalSize)}
+        {similarity !== undefined && similarity < 1 ? (
+          <Text style={styles.similarityText}> · {Math.round(similarity * 100)}% similar</Text>
+        ) : null}
       </Text>
       <TouchableOpacity onPress={onSelectAll} activeOpacity={0.85} style={styles.selectAllButton}>
         <Text style={styles.selectAllText}>Select all</Text>
@@ -39,6 +43,10 @@ const createStyles = (theme: DefaultTheme) =>
       fontSize: theme.fontSize.sm,
       fontWeight: theme.fontWeight.semibold,
     },
+    similarityText: {
+      color: theme.colors.textMuted,
+      fontWeight: theme.fontWeight.medium,
+    },
     selectAllButton: {
       paddingVertical: theme.spacing.xs / 2,
       paddingHorizontal: theme.spacing.sm,
@@ -10,6 +10,8 @@ type FilterContainerProps = {
   onCategoryChange: (category: string) => void;
   loading: boolean;
   hasSavedResults: boolean;
+  // Extra filter rows shown under the categories
+  children?: React.ReactNode;
 };
 
 const FilterContainer: React.FC<FilterContainerProps> = ({
@@ -19,6 +21,7 @@ const FilterContainer: React.FC<FilterContainerProps> = ({
   onCategoryChange,
   loading,
   hasSavedResults,
+  children,
 }) => {
   const theme = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
@@ -31,6 +34,7 @@ const FilterContainer: React.FC<FilterContainerProps> = ({
         counts={counts}
         onCategoryChange={onCategoryChange}
       />
+      {children}
     </View>
   );
 };
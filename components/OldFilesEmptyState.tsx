@@ -2,18 +2,21 @@ import React from "react";
 import { StyleSheet, Text, View } from "react-native";
 import { DefaultTheme, useTheme } from "styled-components/native";
 import ScanActionButton from "./ScanActionButton";
+import type { ScanProgress } from "../utils/fastScanner";
 import ScanProgressCard from "./ScanProgressCard";
 
 type OldFilesEmptyStateProps = {
   loading: boolean;
   hasFiles: boolean;
   hasSavedResults: boolean;
+  progress?: ScanProgress | null;
 };
 
 const OldFilesEmptyState: React.FC<OldFilesEmptyStateProps> = ({
   loading,
   hasFiles,
   hasSavedResults,
+  progress = null,
 }) => {
   const theme = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
@@ -21,7 +24,12 @@ const OldFilesEmptyState: React.FC<OldFilesEmptyStateProps> = ({
   return (
     <View style={styles.emptyCard}>
       {loading ? (
-        <ScanProgressCard title="Scanning for old files..." subtitle="Hang tight while we gather results." />
+        <ScanProgressCard
+          title="Scanning for old files..."
+          subtitle="Hang tight while we gather results."
+          progress={progress?.progress != null ? progress.progress * 100 : null}
+          etaMs={progress?.etaMs}
+        />
       ) : (
         <>
           <Text style={styles.emptyTitle}>
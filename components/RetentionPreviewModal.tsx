@@ -0,0 +1,151 @@
+import React from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { DefaultTheme, useTheme } from 'styled-components/native';
+import formatBytes from '../constants/formatBytes';
+import type { RetentionRulePreview } from '../utils/retentionPolicies';
+
+interface RetentionPreviewModalProps {
+  visible: boolean;
+  previews: RetentionRulePreview[];
+  running: boolean;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+const getFileName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+/**
+ * Lists every file each retention rule would remove, so nothing goes before the user has seen it.
+ */
+export default function RetentionPreviewModal({
+  visible,
+  previews,
+  running,
+  onCancel,
+  onConfirm,
+}: RetentionPreviewModalProps) {
+  const theme = useTheme();
+  const styles = React.useMemo(() => createStyles(theme), [theme]);
+  const totalCount = previews.reduce((sum, preview) => sum + preview.files.length, 0);
+  const totalSize = previews.reduce((sum, preview) => sum + preview.size, 0);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Run retention policies</Text>
+          <ScrollView style={styles.rules} showsVerticalScrollIndicator={false}>
+            {previews.map((preview) => (
+              <View key={preview.rule} style={styles.rule}>
+                <Text style={styles.ruleTitle}>{preview.title}</Text>
+                <Text style={styles.ruleStats}>
+                  {preview.files.length} files · {formatBytes(preview.size)}
+                </Text>
+                {preview.files.map((file) => (
+                  <Text key={file.path} style={styles.fileName} numberOfLines={1}>
+                    {getFileName(file.path)}
+                  </Text>
+                ))}
+              </View>
+            ))}
+          </ScrollView>
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={running} activeOpacity={0.85}>
+              <Text style={styles.cancelText}>cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.confirmButton, (totalCount === 0 || running) && styles.confirmButtonDisabled]}
+              onPress={onConfirm}
+              disabled={totalCount === 0 || running}
+              activeOpacity={0.85}
+            >
+              {running ? (
+                <ActivityIndicator color={theme.colors.white} />
+              ) : (
+                <Text style={styles.confirmText}>
+                  {totalCount === 0 ? 'nothing to remove' : `remove ${totalCount} · ${formatBytes(totalSize)}`}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: DefaultTheme) =>
+  StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'center',
+      padding: theme.spacing.lg,
+      backgroundColor: theme.colors.overlay,
+    },
+    sheet: {
+      maxHeight: '80%',
+      borderRadius: theme.radii.lg,
+      padding: theme.spacing.lg,
+      backgroundColor: theme.colors.surface,
+    },
+    title: {
+      marginBottom: theme.spacing.md,
+      color: theme.colors.text,
+      fontSize: theme.fontSize.lg,
+      fontWeight: theme.fontWeight.bold,
+    },
+    rules: {
+      flexGrow: 0,
+    },
+    rule: {
+      marginBottom: theme.spacing.md,
+    },
+    ruleTitle: {
+      color: theme.colors.text,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+    },
+    ruleStats: {
+      marginBottom: theme.spacing.xs,
+      color: theme.colors.textMuted,
+      fontSize: theme.fontSize.sm,
+    },
+    fileName: {
+      color: theme.colors.textMuted,
+      fontSize: theme.fontSize.xs,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: theme.spacing.sm,
+      marginTop: theme.spacing.md,
+    },
+    cancelButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: theme.spacing.md,
+      borderRadius: theme.radii.xl,
+      backgroundColor: `${theme.colors.surfaceAlt}55`,
+    },
+    cancelText: {
+      color: theme.colors.text,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.bold,
+    },
+    confirmButton: {
+      flex: 2,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: theme.spacing.md,
+      borderRadius: theme.radii.xl,
+      backgroundColor: theme.colors.error,
+    },
+    confirmButtonDisabled: {
+      backgroundColor: `${theme.colors.surfaceAlt}55`,
+    },
+    confirmText: {
+      color: theme.colors.white,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.bold,
+    },
+  });
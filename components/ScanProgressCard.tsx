@@ -1,6 +1,7 @@
 import React from "react";
 import { ActivityIndicator, StyleSheet, Text, View, ViewStyle } from "react-native";
 import { DefaultTheme, useTheme } from "styled-components/native";
+import formatEta from "../constants/formatEta";
 
 type Props = {
   title: string;
@@ -9,6 +10,7 @@ type Props = {
   accentColor?: string;
   style?: ViewStyle;
   footnote?: string;
+  etaMs?: number | null;
 };
 
 const ScanProgressCard: React.FC<Props> = ({
@@ -18,6 +20,7 @@ const ScanProgressCard: React.FC<Props> = ({
   accentColor,
   style,
   footnote,
+  etaMs = null,
 }) => {
   const theme = useTheme();
   const styles = React.useMemo(() => createStyles(theme), [theme]);
@@ -32,6 +35,7 @@ const ScanProgressCard: React.FC<Props> = ({
         ) : (
           <ActivityIndicator color={accent} size="small" />
         )}
+        {etaMs != null && etaMs > 0 ? <Text style={styles.eta}>{formatEta(etaMs)}</Text> : null}
       </View>
       <Text style={styles.title}>{title}</Text>
       {subtitle ? <Text style={styles.subtitle}>{subtitle}</Text> : null}
@@ -61,6 +65,10 @@ const createStyles = (theme: DefaultTheme) =>
       fontSize: theme.fontSize.lg,
       fontWeight: theme.fontWeight.bold,
     },
+    eta: {
+      fontSize: theme.fontSize.sm,
+      color: theme.colors.textMuted,
+    },
     title: {
       fontSize: theme.fontSize.md,
       fontWeight: theme.fontWeight.semibold,
@@ -0,0 +1,172 @@
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { DefaultTheme, useTheme } from "styled-components/native";
+import formatBytes from "../constants/formatBytes";
+import type { TrashItem } from "../utils/db";
+import { formatTimestamp, getFileTypeIcon } from "../utils/fileUtils";
+import NeumorphicContainer from "./NeumorphicContainer";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TrashFileListItemProps = {
+  item: TrashItem;
+  selected: boolean;
+  retentionDays: number;
+  onPress: () => void;
+};
+
+const TrashFileListItem: React.FC<TrashFileListItemProps> = ({
+  item,
+  selected,
+  retentionDays,
+  onPress,
+}) => {
+  const theme = useTheme();
+  const styles = React.useMemo(() => createStyles(theme), [theme]);
+
+  const filename = item.originalPath.split("/").pop() || item.originalPath;
+  const daysLeft = Math.max(0, Math.ceil((item.deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  return (
+    <TouchableOpacity
+      style={styles.itemWrapper}
+      onPress={onPress}
+      activeOpacity={0.85}
+    >
+      <NeumorphicContainer
+        padding={theme.spacing.md}
+        style={selected ? styles.itemSelected : undefined}
+      >
+        <View style={styles.itemInner}>
+          <View style={styles.iconWrapper}>
+            <View style={styles.iconContainer}>
+              <MaterialCommunityIcons
+                name={getFileTypeIcon(item.originalPath) as any}
+                size={24}
+                color={theme.colors.primary}
+              />
+            </View>
+            {selected && (
+              <View style={styles.selectionBadge}>
+                <MaterialCommunityIcons
+                  name="check"
+                  size={16}
+                  color={theme.colors.white}
+                />
+              </View>
+            )}
+          </View>
+          <View style={styles.infoColumn}>
+            <View style={styles.fileHeader}>
+              <Text style={styles.fileName} numberOfLines={1}>
+                {filename}
+              </Text>
+              <Text style={styles.fileSize}>{formatBytes(item.size)}</Text>
+            </View>
+            <View style={styles.badgeRow}>
+              <Text style={styles.tag}>{item.source}</Text>
+              <Text style={styles.metaText}>deleted {formatTimestamp(item.deletedAt)}</Text>
+              <Text style={styles.metaText}>
+                {daysLeft > 0 ? `${daysLeft} day${daysLeft !== 1 ? "s" : ""} left` : "expiring"}
+              </Text>
+            </View>
+          </View>
+        </View>
+      </NeumorphicContainer>
+    </TouchableOpacity>
+  );
+};
+
+const createStyles = (theme: DefaultTheme) =>
+  StyleSheet.create({
+    itemWrapper: {
+      marginVertical: 0,
+    },
+    itemInner: {
+      width: "100%",
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.sm,
+    },
+    itemSelected: {
+      borderWidth: 1,
+      borderColor: theme.colors.primary,
+    },
+    iconWrapper: {
+      width: 56,
+      height: 56,
+      borderRadius: 18,
+      overflow: "hidden",
+      backgroundColor: `${theme.colors.surfaceAlt}cc`,
+      alignItems: "center",
+      justifyContent: "center",
+      position: "relative",
+    },
+    iconContainer: {
+      width: "100%",
+      height: "100%",
+      alignItems: "center",
+      justifyContent: "center",
+      backgroundColor: `${theme.colors.primary}18`,
+    },
+    selectionBadge: {
+      position: "absolute",
+      top: 6,
+      right: 6,
+      width: 22,
+      height: 22,
+      borderRadius: 11,
+      backgroundColor: theme.colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+      shadowColor: "rgba(0, 0, 0, 0.25)",
+      shadowOpacity: 0.3,
+      shadowRadius: 4,
+      shadowOffset: { width: 0, height: 2 },
+      elevation: 4,
+    },
+    infoColumn: {
+      flex: 1,
+      gap: theme.spacing.xs / 2,
+    },
+    fileHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "baseline",
+    },
+    fileName: {
+      flex: 1,
+      color: theme.colors.text,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.bold,
+    },
+    fileSize: {
+      color: theme.colors.accent,
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.bold,
+    },
+    badgeRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      alignItems: "center",
+      gap: theme.spacing.xs,
+    },
+    tag: {
+      paddingHorizontal: theme.spacing.sm,
+      paddingVertical: theme.spacing.xs / 2,
+      borderRadius: theme.radii.lg,
+      backgroundColor: `${theme.colors.surfaceAlt}66`,
+      color: theme.colors.text,
+      fontSize: theme.fontSize.xs,
+      textTransform: "uppercase",
+      letterSpacing: 0.6,
+    },
+    metaText: {
+      color: theme.colors.textMuted,
+      fontSize: theme.fontSize.xs,
+    },
+  });
+
+export default TrashFileListItem;
+
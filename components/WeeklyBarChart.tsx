@@ -0,0 +1,115 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { DefaultTheme, useTheme } from 'styled-components/native';
+import formatBytes from '../constants/formatBytes';
+
+export interface WeeklyBarChartPoint {
+  weekStart: number;
+  value: number | null;
+}
+
+interface WeeklyBarChartProps {
+  title: string;
+  points: WeeklyBarChartPoint[];
+  color: string;
+  emptyLabel?: string;
+}
+
+const CHART_HEIGHT = 120;
+
+function formatWeekLabel(weekStart: number): string {
+  const date = new Date(weekStart);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+}
+
+export default function WeeklyBarChart({ title, points, color, emptyLabel = 'no data yet' }: WeeklyBarChartProps) {
+  const theme = useTheme();
+  const styles = React.useMemo(() => createStyles(theme), [theme]);
+
+  const maxValue = Math.max(0, ...points.map((point) => point.value ?? 0));
+  const latest = [...points].reverse().find((point) => point.value !== null);
+  // Label every other week so the dates do not collide on narrow screens
+  const labelEvery = points.length > 8 ? 2 : 1;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={[styles.latest, { color }]}>
+          {latest?.value !== null && latest?.value !== undefined ? formatBytes(latest.value) : emptyLabel}
+        </Text>
+      </View>
+      <View style={styles.chart}>
+        {points.map((point, index) => {
+          const ratio = maxValue > 0 && point.value ? point.value / maxValue : 0;
+          return (
+            <View key={point.weekStart} style={styles.column}>
+              <View style={styles.barTrack}>
+                {point.value !== null && (
+                  <View
+                    style={[
+                      styles.bar,
+                      { height: Math.max(ratio * CHART_HEIGHT, 2), backgroundColor: color },
+                    ]}
+                  />
+                )}
+              </View>
+              <Text style={styles.axisLabel} numberOfLines={1}>
+                {index % labelEvery === (points.length - 1) % labelEvery ? formatWeekLabel(point.weekStart) : ''}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (theme: DefaultTheme) =>
+  StyleSheet.create({
+    card: {
+      padding: theme.spacing.md,
+      borderRadius: theme.radii.lg,
+      backgroundColor: theme.colors.surface,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: theme.spacing.md,
+    },
+    title: {
+      color: theme.colors.text,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.bold,
+    },
+    latest: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: '600',
+    },
+    chart: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      gap: 4,
+    },
+    column: {
+      flex: 1,
+      alignItems: 'center',
+    },
+    barTrack: {
+      width: '100%',
+      height: CHART_HEIGHT,
+      justifyContent: 'flex-end',
+      borderRadius: 4,
+      backgroundColor: `${theme.colors.surfaceAlt}22`,
+      overflow: 'hidden',
+    },
+    bar: {
+      width: '100%',
+    },
+    axisLabel: {
+      marginTop: theme.spacing.xs,
+      color: theme.colors.textMuted,
+      fontSize: 10,
+    },
+  });
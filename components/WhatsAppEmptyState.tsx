@@ -22,13 +22,13 @@ const WhatsAppEmptyState: React.FC<WhatsAppEmptyStateProps> = ({
     <View style={styles.emptyCard}>
       {loading ? (
         <ScanProgressCard
-          title="scanning whatsapp folders"
+          title="scanning messenger folders"
           subtitle="sit tight while we index your chats and media."
         />
       ) : (
         <>
           <Text style={styles.emptyTitle}>
-            {hasFiles ? 'no files in this filter' : 'ready to clean whatsapp clutter'}
+            {hasFiles ? 'no files in this filter' : 'ready to clean messenger clutter'}
           </Text>
           <Text style={styles.emptySubtitle}>
             {hasFiles
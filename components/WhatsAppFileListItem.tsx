@@ -50,6 +50,28 @@ const getFilename = (path: string) => {
   return parts[parts.length - 1] || path;
 };
 
+// Where the file came from, and the folder of a copy kept outside WhatsApp
+const getOriginLabel = (item: WhatsAppScanResult): string | null => {
+  const labels: string[] = [];
+  if (item.direction === 'sent') labels.push('Sent');
+  if (item.direction === 'private') labels.push('Private chat');
+  if (item.copyPath) {
+    const folder = item.copyPath.split('/').slice(-2, -1)[0];
+    labels.push(folder ? `Also in ${folder}` : 'Saved elsewhere');
+  }
+  return labels.length ? labels.join(' • ') : null;
+};
+
+// Which generation of the message database a backup is
+const getBackupLabel = (item: WhatsAppScanResult): string | null => {
+  const { backup } = item;
+  if (!backup) return null;
+  const version = `crypt${backup.cryptVersion}`;
+  if (backup.status === 'live') return `Live backup • ${version} • protected`;
+  if (backup.status === 'latest') return `Newest generation • ${backup.date} • ${version}`;
+  return `Older generation • ${backup.date} • ${version}`;
+};
+
 const isPreviewableMedia = (path: string) => {
   const lower = path.toLowerCase();
   return PREVIEWABLE_EXTENSIONS.some((ext) => lower.endsWith(ext));
@@ -77,12 +99,16 @@ const WhatsAppFileListItem: React.FC<WhatsAppFileListItemProps> = ({
   const previewable = isPreviewableMedia(item.path) && !thumbnailFallback;
   const iconName = getFileIcon(item.path, item.type);
   const showThumbnail = previewable && (item.type === 'Images' || item.type === 'Video' || item.type === 'Statuses');
+  const originLabel = getOriginLabel(item);
+  const backupLabel = getBackupLabel(item);
+  const isLiveBackup = item.backup?.status === 'live';
   
   return (
     <TouchableOpacity
       activeOpacity={0.85}
       style={[styles.fileRow, selected && styles.fileRowSelected]}
       onPress={onPress}
+      disabled={isLiveBackup}
     >
       <View style={styles.thumbWrapper}>
         {showThumbnail ? (
@@ -111,6 +137,23 @@ const WhatsAppFileListItem: React.FC<WhatsAppFileListItemProps> = ({
       <View style={styles.fileMeta}>
         <Text style={styles.fileName} numberOfLines={1}>{filename}</Text>
         <Text style={styles.fileSize}>{formatBytes(item.size)}</Text>
+        {originLabel ? (
+          <Text style={[styles.originLabel, !!item.copyPath && styles.originLabelCopy]} numberOfLines={1}>
+            {originLabel}
+          </Text>
+        ) : null}
+        {backupLabel ? (
+          <Text
+            style={[
+              styles.originLabel,
+              isLiveBackup && styles.backupLabelLive,
+              item.backup?.status === 'redundant' && styles.backupLabelRedundant,
+            ]}
+            numberOfLines={1}
+          >
+            {backupLabel}
+          </Text>
+        ) : null}
       </View>
     </TouchableOpacity>
   );
@@ -165,6 +208,20 @@ const createStyles = (theme: DefaultTheme) =>
       fontSize: 13,
       marginTop: 4,
     },
+    originLabel: {
+      color: theme.colors.textMuted,
+      fontSize: 12,
+      marginTop: 2,
+    },
+    originLabelCopy: {
+      color: theme.colors.primary,
+    },
+    backupLabelLive: {
+      color: theme.colors.success,
+    },
+    backupLabelRedundant: {
+      color: theme.colors.warning,
+    },
     selectionBadge: {
       position: 'absolute',
       top: 6,
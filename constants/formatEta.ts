@@ -0,0 +1,9 @@
+const formatEta = (etaMs: number): string => {
+  const seconds = Math.max(1, Math.ceil(etaMs / 1000));
+  if (seconds < 60) {
+    return `about ${seconds}s left`;
+  }
+  return `about ${Math.round(seconds / 60)} min left`;
+};
+
+export default formatEta;
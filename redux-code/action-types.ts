@@ -1,29 +1,9 @@
 export enum ActionTypes {
   
     
-    // Scanner results
-    SET_WHATSAPP_RESULTS = "SET_WHATSAPP_RESULTS",
-    SET_LARGE_FILE_RESULTS = "SET_LARGE_FILE_RESULTS",
-    SET_OLD_FILE_RESULTS = "SET_OLD_FILE_RESULTS",
-    SET_DUPLICATE_RESULTS = "SET_DUPLICATE_RESULTS",
-    SET_VIDEOS_RESULTS = "SET_VIDEOS_RESULTS",
-    SET_IMAGES_RESULTS = "SET_IMAGES_RESULTS",
-    SET_AUDIOS_RESULTS = "SET_AUDIOS_RESULTS",
-    SET_DOCUMENTS_RESULTS = "SET_DOCUMENTS_RESULTS",
-    SET_APK_RESULTS = "SET_APK_RESULTS",
-    SET_CACHES_RESULTS = "SET_CACHES_RESULTS",
-    
-    // Clear results
-    CLEAR_WHATSAPP_RESULTS = "CLEAR_WHATSAPP_RESULTS",
-    CLEAR_LARGE_FILE_RESULTS = "CLEAR_LARGE_FILE_RESULTS",
-    CLEAR_OLD_FILE_RESULTS = "CLEAR_OLD_FILE_RESULTS",
-    CLEAR_DUPLICATE_RESULTS = "CLEAR_DUPLICATE_RESULTS",
-    CLEAR_VIDEOS_RESULTS = "CLEAR_VIDEOS_RESULTS",
-    CLEAR_IMAGES_RESULTS = "CLEAR_IMAGES_RESULTS",
-    CLEAR_AUDIOS_RESULTS = "CLEAR_AUDIOS_RESULTS",
-    CLEAR_DOCUMENTS_RESULTS = "CLEAR_DOCUMENTS_RESULTS",
-    CLEAR_APK_RESULTS = "CLEAR_APK_RESULTS",
-    CLEAR_CACHES_RESULTS = "CLEAR_CACHES_RESULTS",
+    // Results of any registered scanner, keyed by its results list
+    SET_SCANNER_RESULTS = "SET_SCANNER_RESULTS",
+    APPEND_SCANNER_RESULTS = "APPEND_SCANNER_RESULTS",
     
     // Selected items
     SET_SELECTED_ITEMS = "SET_SELECTED_ITEMS",
@@ -40,6 +20,12 @@ export enum ActionTypes {
     // Storage and system info
     SET_STORAGE_INFO = "SET_STORAGE_INFO",
     SET_FEATURE_PROGRESS = "SET_FEATURE_PROGRESS",
+
+    // Settings
+    SET_SCAN_SETTINGS = "SET_SCAN_SETTINGS",
+    RESET_SCAN_SETTINGS = "RESET_SCAN_SETTINGS",
+    MARK_RESULTS_FRESH = "MARK_RESULTS_FRESH",
+    SET_RETENTION_POLICIES = "SET_RETENTION_POLICIES",
 }
 
 export default {};
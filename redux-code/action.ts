@@ -1,3 +1,8 @@
+import type { CacheItem } from "../app/(Screens)/CachesScreen/CachesScanner";
+import type { RetentionPolicies } from "../utils/retentionPolicies";
+import type { ScannerResultsKey } from "../utils/scanners/registry";
+import type { ScanSettings } from "../utils/scanSettings";
+import type { ScannerType } from "../utils/smartScan";
 import { ActionTypes } from "./action-types";
 
 export const reduxAction = (payload: any, type: ActionTypes) => ({
@@ -7,29 +12,44 @@ export const reduxAction = (payload: any, type: ActionTypes) => ({
 
 
 
+// Results of any registered scanner
+export const setScannerResults = (key: ScannerResultsKey, results: unknown[]) =>
+  reduxAction({ key, results }, ActionTypes.SET_SCANNER_RESULTS);
+export const appendScannerResults = (key: ScannerResultsKey, results: unknown[]) =>
+  reduxAction({ key, results }, ActionTypes.APPEND_SCANNER_RESULTS);
+
 // Scanner results
-export const setWhatsappResults = (payload: any[]) => reduxAction(payload, ActionTypes.SET_WHATSAPP_RESULTS);
-export const setLargeFileResults = (payload: any[]) => reduxAction(payload, ActionTypes.SET_LARGE_FILE_RESULTS);
-export const setOldFileResults = (payload: any[]) => reduxAction(payload, ActionTypes.SET_OLD_FILE_RESULTS);
-export const setDuplicateResults = (payload: any[]) => reduxAction(payload, ActionTypes.SET_DUPLICATE_RESULTS);
-export const setVideosResults = (payload: any[]) => reduxAction(payload, ActionTypes.SET_VIDEOS_RESULTS);
-export const setImagesResults = (payload: any[]) => reduxAction(payload, ActionTypes.SET_IMAGES_RESULTS);
-export const setAudiosResults = (payload: any[]) => reduxAction(payload, ActionTypes.SET_AUDIOS_RESULTS);
-export const setDocumentsResults = (payload: any[]) => reduxAction(payload, ActionTypes.SET_DOCUMENTS_RESULTS);
-export const setAPKResults = (payload: any[]) => reduxAction(payload, ActionTypes.SET_APK_RESULTS);
-export const setCachesResults = (payload: CacheItem[]) => reduxAction(payload, ActionTypes.SET_CACHES_RESULTS);
+export const setWhatsappResults = (payload: any[]) => setScannerResults('whatsappResults', payload);
+export const setLargeFileResults = (payload: any[]) => setScannerResults('largeFileResults', payload);
+export const setOldFileResults = (payload: any[]) => setScannerResults('oldFileResults', payload);
+export const setDuplicateResults = (payload: any[]) => setScannerResults('duplicateResults', payload);
+export const setVideosResults = (payload: any[]) => setScannerResults('videosResults', payload);
+export const setImagesResults = (payload: any[]) => setScannerResults('imagesResults', payload);
+export const setAudiosResults = (payload: any[]) => setScannerResults('audiosResults', payload);
+export const setDocumentsResults = (payload: any[]) => setScannerResults('documentsResults', payload);
+export const setAPKResults = (payload: any[]) => setScannerResults('apkResults', payload);
+export const setCachesResults = (payload: CacheItem[]) => setScannerResults('cachesResults', payload);
 
 // Clear results
-export const clearWhatsappResults = () => ({ type: ActionTypes.CLEAR_WHATSAPP_RESULTS });
-export const clearLargeFileResults = () => ({ type: ActionTypes.CLEAR_LARGE_FILE_RESULTS });
-export const clearOldFileResults = () => ({ type: ActionTypes.CLEAR_OLD_FILE_RESULTS });
-export const clearDuplicateResults = () => ({ type: ActionTypes.CLEAR_DUPLICATE_RESULTS });
-export const clearVideosResults = () => ({ type: ActionTypes.CLEAR_VIDEOS_RESULTS });
-export const clearImagesResults = () => ({ type: ActionTypes.CLEAR_IMAGES_RESULTS });
-export const clearAudiosResults = () => ({ type: ActionTypes.CLEAR_AUDIOS_RESULTS });
-export const clearDocumentsResults = () => ({ type: ActionTypes.CLEAR_DOCUMENTS_RESULTS });
-export const clearAPKResults = () => ({ type: ActionTypes.CLEAR_APK_RESULTS });
-export const clearCachesResults = () => ({ type: ActionTypes.CLEAR_CACHES_RESULTS });
+export const clearWhatsappResults = () => setScannerResults('whatsappResults', []);
+export const clearLargeFileResults = () => setScannerResults('largeFileResults', []);
+export const clearOldFileResults = () => setScannerResults('oldFileResults', []);
+export const clearDuplicateResults = () => setScannerResults('duplicateResults', []);
+export const clearVideosResults = () => setScannerResults('videosResults', []);
+export const clearImagesResults = () => setScannerResults('imagesResults', []);
+export const clearAudiosResults = () => setScannerResults('audiosResults', []);
+export const clearDocumentsResults = () => setScannerResults('documentsResults', []);
+export const clearAPKResults = () => setScannerResults('apkResults', []);
+export const clearCachesResults = () => setScannerResults('cachesResults', []);
+
+// Append streamed results
+export const appendLargeFileResults = (payload: any[]) => appendScannerResults('largeFileResults', payload);
+export const appendOldFileResults = (payload: any[]) => appendScannerResults('oldFileResults', payload);
+export const appendVideosResults = (payload: any[]) => appendScannerResults('videosResults', payload);
+export const appendImagesResults = (payload: any[]) => appendScannerResults('imagesResults', payload);
+export const appendAudiosResults = (payload: any[]) => appendScannerResults('audiosResults', payload);
+export const appendDocumentsResults = (payload: any[]) => appendScannerResults('documentsResults', payload);
+export const appendAPKResults = (payload: any[]) => appendScannerResults('apkResults', payload);
 
 // Selected items
 export const setSelectedItems = (screen: string, items: string[]) => 
@@ -53,4 +73,13 @@ export const setStorageInfo = (payload: { total: number; used: number; free: num
 export const setFeatureProgress = (payload: Record<string, number>) => 
   reduxAction(payload, ActionTypes.SET_FEATURE_PROGRESS);
 
+// Settings
+export const setScanSettings = (payload: Partial<ScanSettings>) =>
+  reduxAction(payload, ActionTypes.SET_SCAN_SETTINGS);
+export const resetScanSettings = () => ({ type: ActionTypes.RESET_SCAN_SETTINGS });
+export const markResultsFresh = (scanners: ScannerType[]) =>
+  reduxAction(scanners, ActionTypes.MARK_RESULTS_FRESH);
+export const setRetentionPolicies = (payload: Partial<RetentionPolicies>) =>
+  reduxAction(payload, ActionTypes.SET_RETENTION_POLICIES);
+
 export default {};
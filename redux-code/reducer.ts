@@ -1,26 +1,9 @@
-import type { DuplicateGroup } from "../app/(Screens)/DuplicateImagesScreen/DuplicateImageScanner";
-import type { LargeFileResult } from "../app/(Screens)/LargeFilesScreen/LargeFileScanner";
-import type { OldFileInfo } from "../app/(Screens)/OldFilesScreen/OldFilesScanner";
-import type { WhatsAppScanResult } from "../app/(Screens)/WhatsAppRemoverScreen/WhatsAppScanner";
-import type { APKFileInfo } from "../app/(Screens)/APKCleanerScreen/APKCleanerScanner";
-import type { CacheItem } from "../app/(Screens)/CachesScreen/CachesScanner";
+import { SCANNERS, type ScanDataSnapshot, type ScannerResultsKey } from "../utils/scanners/registry";
 import type { SmartScanProgress } from "../utils/smartScan";
-import type { CategoryFile } from "../utils/fileCategoryCalculator";
 import { ActionTypes } from "./action-types";
 
-export interface AppState {
-  // Scanner results
-  whatsappResults: WhatsAppScanResult[];
-  largeFileResults: LargeFileResult[];
-  oldFileResults: OldFileInfo[];
-  duplicateResults: DuplicateGroup[];
-  videosResults: CategoryFile[];
-  imagesResults: CategoryFile[];
-  audiosResults: CategoryFile[];
-  documentsResults: CategoryFile[];
-  apkResults: APKFileInfo[];
-  cachesResults: CacheItem[];
-  
+// Scanner results come from the registry, one list per scanner's resultsKey
+export interface AppState extends ScanDataSnapshot {
   // Selected items per screen (keyed by screen name) - stored as arrays for persistence
   selectedItems: {
     whatsapp: string[];
@@ -68,16 +51,7 @@ export interface AppState {
 }
 
 const initialState: AppState = {
-  whatsappResults: [],
-  largeFileResults: [],
-  oldFileResults: [],
-  duplicateResults: [],
-  videosResults: [],
-  imagesResults: [],
-  audiosResults: [],
-  documentsResults: [],
-  apkResults: [],
-  cachesResults: [],
+  ...(Object.fromEntries(SCANNERS.map((scanner) => [scanner.resultsKey, []])) as ScanDataSnapshot),
   selectedItems: {
     whatsapp: [],
     large: [],
@@ -117,49 +91,15 @@ const appReducer = (state: AppState | undefined = initialState, action: any): Ap
   }
   switch (action.type) {
     
-    // Scanner results
-    case ActionTypes.SET_WHATSAPP_RESULTS:
-      return { ...state, whatsappResults: action.payload };
-    case ActionTypes.SET_LARGE_FILE_RESULTS:
-      return { ...state, largeFileResults: action.payload };
-    case ActionTypes.SET_OLD_FILE_RESULTS:
-      return { ...state, oldFileResults: action.payload };
-    case ActionTypes.SET_DUPLICATE_RESULTS:
-      return { ...state, duplicateResults: action.payload };
-    case ActionTypes.SET_VIDEOS_RESULTS:
-      return { ...state, videosResults: action.payload };
-    case ActionTypes.SET_IMAGES_RESULTS:
-      return { ...state, imagesResults: action.payload };
-    case ActionTypes.SET_AUDIOS_RESULTS:
-      return { ...state, audiosResults: action.payload };
-    case ActionTypes.SET_DOCUMENTS_RESULTS:
-      return { ...state, documentsResults: action.payload };
-    case ActionTypes.SET_APK_RESULTS:
-      return { ...state, apkResults: action.payload };
-    case ActionTypes.SET_CACHES_RESULTS:
-      return { ...state, cachesResults: action.payload };
-    
-    // Clear results
-    case ActionTypes.CLEAR_WHATSAPP_RESULTS:
-      return { ...state, whatsappResults: [] };
-    case ActionTypes.CLEAR_LARGE_FILE_RESULTS:
-      return { ...state, largeFileResults: [] };
-    case ActionTypes.CLEAR_OLD_FILE_RESULTS:
-      return { ...state, oldFileResults: [] };
-    case ActionTypes.CLEAR_DUPLICATE_RESULTS:
-      return { ...state, duplicateResults: [] };
-    case ActionTypes.CLEAR_VIDEOS_RESULTS:
-      return { ...state, videosResults: [] };
-    case ActionTypes.CLEAR_IMAGES_RESULTS:
-      return { ...state, imagesResults: [] };
-    case ActionTypes.CLEAR_AUDIOS_RESULTS:
-      return { ...state, audiosResults: [] };
-    case ActionTypes.CLEAR_DOCUMENTS_RESULTS:
-      return { ...state, documentsResults: [] };
-    case ActionTypes.CLEAR_APK_RESULTS:
-      return { ...state, apkResults: [] };
-    case ActionTypes.CLEAR_CACHES_RESULTS:
-      return { ...state, cachesResults: [] };
+    // Results of any registered scanner
+    case ActionTypes.SET_SCANNER_RESULTS: {
+      const { key, results } = action.payload;
+      return { ...state, [key]: results };
+    }
+    case ActionTypes.APPEND_SCANNER_RESULTS: {
+      const key: ScannerResultsKey = action.payload.key;
+      return { ...state, [key]: [...state[key], ...action.payload.results] };
+    }
     
     // Selected items
     case ActionTypes.SET_SELECTED_ITEMS: {
@@ -0,0 +1,54 @@
+import { DEFAULT_RETENTION_POLICIES, type RetentionPolicies } from "../utils/retentionPolicies";
+import { DEFAULT_SCAN_SETTINGS, getStaleScanners, type ScanSettings } from "../utils/scanSettings";
+import type { ScannerType } from "../utils/smartScan";
+import { ActionTypes } from "./action-types";
+
+export interface SettingsState {
+  scan: ScanSettings;
+  // Scanners whose saved results were computed with different thresholds
+  staleScanners: ScannerType[];
+  // Missing in settings persisted before retention rules existed
+  retention?: RetentionPolicies;
+}
+
+const initialState: SettingsState = {
+  scan: DEFAULT_SCAN_SETTINGS,
+  staleScanners: [],
+  retention: DEFAULT_RETENTION_POLICIES,
+};
+
+const applyScanSettings = (state: SettingsState, next: ScanSettings): SettingsState => {
+  const newlyStale = getStaleScanners(state.scan, next);
+  return {
+    ...state,
+    scan: next,
+    staleScanners: Array.from(new Set([...state.staleScanners, ...newlyStale])),
+  };
+};
+
+const settingsReducer = (state: SettingsState | undefined = initialState, action: any): SettingsState => {
+  switch (action.type) {
+    case ActionTypes.SET_SCAN_SETTINGS:
+      // Settings persisted before a threshold existed lack it, so defaults fill the gaps
+      return applyScanSettings(state, { ...DEFAULT_SCAN_SETTINGS, ...state.scan, ...action.payload });
+    case ActionTypes.RESET_SCAN_SETTINGS:
+      return applyScanSettings(state, DEFAULT_SCAN_SETTINGS);
+    case ActionTypes.MARK_RESULTS_FRESH: {
+      const fresh = new Set<ScannerType>(action.payload);
+      return {
+        ...state,
+        staleScanners: state.staleScanners.filter((scanner) => !fresh.has(scanner)),
+      };
+    }
+    case ActionTypes.SET_RETENTION_POLICIES:
+      return {
+        ...state,
+        retention: { ...DEFAULT_RETENTION_POLICIES, ...state.retention, ...action.payload },
+      };
+
+    default:
+      return state;
+  }
+};
+
+export default settingsReducer;
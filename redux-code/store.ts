@@ -2,6 +2,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { combineReducers, createStore } from "redux";
 import { persistReducer, persistStore } from 'redux-persist';
 import appReducer from "./reducer";
+import settingsReducer from "./settingsReducer";
 
 // Configure persistence
 const persistConfig = {
@@ -46,6 +47,7 @@ const persistConfig = {
 // Combine reducers
 const rootReducer = combineReducers({
   appState: appReducer,
+  settings: settingsReducer,
 });
 
 // Create persisted reducer
@@ -7,6 +7,7 @@
   largeFiles: "/(Screens)/LargeFilesScreen/LargeFilesScreen",
   whatsapp: "/(Screens)/WhatsAppRemoverScreen/WhatsAppRemoverScreen",
   duplicates: "/(Screens)/DuplicateImagesScreen/DuplicateImagesScreen",
+  duplicateFiles: "/(Screens)/DuplicateFilesScreen/DuplicateFilesScreen",
   resultAnimation: "/(Screens)/ResultAnimationScreen/ResultAnimationScreen",
   reminder: "/(Screens)/NotificationReminderScreen/NotificationReminderScreen",
   videos: "/(Screens)/VideosScreen/VideosScreen",
@@ -16,6 +17,10 @@
   apkCleaner: "/(Screens)/APKCleanerScreen/APKCleanerScreen",
   caches: "/(Screens)/CachesScreen/CachesScreen",
   storageAnalyzer: "/(Screens)/StorageAnalyzerScreen/StorageAnalyzerScreen",
+  trash: "/(Screens)/TrashScreen/TrashScreen",
+  settings: "/(Screens)/SettingsScreen/SettingsScreen",
+  exclusions: "/(Screens)/ExclusionsScreen/ExclusionsScreen",
+  scanHistory: "/(Screens)/ScanHistoryScreen/ScanHistoryScreen",
 } as const;
 
 export type AppRoute = (typeof appRoutes)[keyof typeof appRoutes];
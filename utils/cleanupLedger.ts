@@ -0,0 +1,120 @@
+import {
+  addCleanupLedgerEntry,
+  loadCleanupLedger,
+  loadCleanupLedgerEntry,
+  summarizeCleanupLedger,
+  type CleanupLedgerEntry,
+  type CleanupTotals,
+} from './db';
+import type { ScannerType } from './smartScan';
+
+export type { CleanupLedgerEntry, CleanupTotals };
+
+export type CleanupPeriod = 'day' | 'week' | 'month';
+
+const createLedgerId = (): string =>
+  `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Local midnight at the start of the day, week (Monday) or month containing `time`.
+ */
+export const getPeriodStart = (period: CleanupPeriod, time: number = Date.now()): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week') {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  } else if (period === 'month') {
+    date.setDate(1);
+  }
+  return date.getTime();
+};
+
+/**
+ * Start of the period `count` periods after the one starting at `periodStart`.
+ */
+export const addPeriods = (period: CleanupPeriod, periodStart: number, count: number): number => {
+  const date = new Date(periodStart);
+  if (period === 'month') {
+    date.setMonth(date.getMonth() + count);
+  } else {
+    date.setDate(date.getDate() + count * (period === 'week' ? 7 : 1));
+  }
+  return date.getTime();
+};
+
+/**
+ * Append one delete operation to the ledger. Returns null when nothing was removed.
+ * The ledger is bookkeeping only, so a failed write is logged and never fails the delete.
+ */
+export const recordCleanup = async (
+  scanner: ScannerType,
+  paths: string[],
+  bytes: number,
+): Promise<CleanupLedgerEntry | null> => {
+  if (!paths.length) {
+    return null;
+  }
+
+  const entry: CleanupLedgerEntry = {
+    id: createLedgerId(),
+    scanner,
+    fileCount: paths.length,
+    bytes,
+    createdAt: Date.now(),
+    paths,
+  };
+
+  try {
+    await addCleanupLedgerEntry(entry);
+    return entry;
+  } catch (error) {
+    console.warn('Failed to record cleanup:', error);
+    return null;
+  }
+};
+
+export const getCleanupEntry = async (id: string): Promise<CleanupLedgerEntry | null> =>
+  loadCleanupLedgerEntry(id);
+
+/**
+ * Most recent delete operation, if any.
+ */
+export const getLatestCleanup = async (): Promise<CleanupLedgerEntry | null> => {
+  const [latest] = await loadCleanupLedger();
+  return latest ?? null;
+};
+
+export const getCleanupHistory = async (since: number = 0): Promise<CleanupLedgerEntry[]> =>
+  loadCleanupLedger(since);
+
+export const getLifetimeCleanupTotals = async (): Promise<CleanupTotals> => summarizeCleanupLedger();
+
+/**
+ * Totals for the current day, week or month.
+ */
+export const getCleanupTotals = async (period: CleanupPeriod, now: number = Date.now()): Promise<CleanupTotals> =>
+  summarizeCleanupLedger(getPeriodStart(period, now));
+
+/**
+ * Totals for each of the last `count` periods, oldest first.
+ */
+export const getCleanupTotalsByPeriod = async (
+  period: CleanupPeriod,
+  count: number,
+  now: number = Date.now(),
+): Promise<({ periodStart: number } & CleanupTotals)[]> => {
+  const firstPeriod = addPeriods(period, getPeriodStart(period, now), -(count - 1));
+  const entries = await loadCleanupLedger(firstPeriod);
+
+  return Array.from({ length: count }, (_, index) => {
+    const periodStart = addPeriods(period, firstPeriod, index);
+    const periodEnd = addPeriods(period, periodStart, 1);
+    const inPeriod = entries.filter((entry) => entry.createdAt >= periodStart && entry.createdAt < periodEnd);
+    return {
+      periodStart,
+      operations: inPeriod.length,
+      fileCount: inPeriod.reduce((sum, entry) => sum + entry.fileCount, 0),
+      bytes: inPeriod.reduce((sum, entry) => sum + entry.bytes, 0),
+    };
+  });
+};
@@ -4,8 +4,19 @@ import type { LargeFileResult } from '../app/(Screens)/LargeFilesScreen/LargeFil
 import type { OldFileInfo } from '../app/(Screens)/OldFilesScreen/OldFilesScanner';
 import type { WhatsAppScanResult } from '../app/(Screens)/WhatsAppRemoverScreen/WhatsAppScanner';
 import type { APKFileInfo } from '../app/(Screens)/APKCleanerScreen/APKCleanerScanner';
-import type { CacheItem } from '../app/(Screens)/CachesScreen/CachesScanner';
+import type { CacheItem, RuleCacheItem } from '../app/(Screens)/CachesScreen/CachesScanner';
 import type { CategoryFile } from './fileCategoryCalculator';
+import type { ScanSettings } from './scanSettings';
+import type { ScannerType } from './smartScan';
+
+export interface TrashItem {
+  id: string;
+  originalPath: string;
+  trashPath: string;
+  size: number;
+  deletedAt: number;
+  source: ScannerType;
+}
 
 export interface FileCacheEntry {
   path: string;
@@ -13,96 +24,384 @@ export interface FileCacheEntry {
   partialHash: string;
   fullHash: string | null;
   modifiedDate: number;
+  perceptualHash?: string | null;
 }
 
-let db: SQLite.SQLiteDatabase | null = null;
+export type ExclusionRuleType = 'prefix' | 'glob' | 'file';
 
-export async function initDatabase(): Promise<void> {
-  if (db) return;
+export interface ExclusionRule {
+  id: string;
+  type: ExclusionRuleType;
+  pattern: string;
+  createdAt: number;
+}
 
-  db = await SQLite.openDatabaseAsync('duplicate_finder.db');
+export type ScanRunSource = 'smartScan' | 'manual';
+
+export interface ScanHistoryEntry {
+  runId: string;
+  scanner: ScanItemScanner;
+  source: ScanRunSource;
+  startedAt: number;
+  durationMs: number;
+  itemCount: number;
+  totalBytes: number;
+  freeBytes: number | null;
+  // Reclaimable bytes across every junk scanner's saved results when the run finished, each path
+  // counted once; null for runs recorded before it was tracked
+  junkBytes: number | null;
+}
 
-  await db.execAsync(`
-    CREATE TABLE IF NOT EXISTS file_cache (
-      path TEXT PRIMARY KEY,
-      size INTEGER NOT NULL,
-      partialHash TEXT NOT NULL,
-      fullHash TEXT,
-      modifiedDate INTEGER NOT NULL
-    );
+export interface CleanupLedgerEntry {
+  id: string;
+  scanner: ScannerType;
+  fileCount: number;
+  bytes: number;
+  createdAt: number;
+  paths: string[];
+}
 
-    CREATE INDEX IF NOT EXISTS idx_size ON file_cache(size);
-    CREATE INDEX IF NOT EXISTS idx_partialHash ON file_cache(partialHash);
-    CREATE INDEX IF NOT EXISTS idx_fullHash ON file_cache(fullHash);
+export interface CleanupTotals {
+  operations: number;
+  fileCount: number;
+  bytes: number;
+}
 
-    CREATE TABLE IF NOT EXISTS duplicate_groups (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      groups_data TEXT NOT NULL
-    );
+export interface DirectorySnapshotEntry {
+  name: string;
+  path: string;
+  size: number;
+  mtime: number | null;
+  isDirectory: boolean;
+}
 
-    CREATE TABLE IF NOT EXISTS whatsapp_scan_results (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      results_data TEXT NOT NULL
-    );
+export interface DirectorySnapshot {
+  path: string;
+  mtime: number;
+  scannedAt: number;
+  entries: DirectorySnapshotEntry[];
+}
 
-    CREATE TABLE IF NOT EXISTS large_file_scan_results (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      results_data TEXT NOT NULL
-    );
+// Totals of the last finished walk over one set of root paths, used to estimate the next one
+export interface ScanWalkStats {
+  scanKey: string;
+  directoryCount: number;
+  fileCount: number;
+  totalBytes: number;
+  usedBytes: number | null;
+  durationMs: number;
+  finishedAt: number;
+}
 
-    CREATE TABLE IF NOT EXISTS old_file_scan_results (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      results_data TEXT NOT NULL
-    );
+const DATABASE_NAME = 'duplicate_finder.db';
 
-    CREATE TABLE IF NOT EXISTS smart_scan_status (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      completed_at INTEGER NOT NULL,
-      status_data TEXT NOT NULL
-    );
+let db: SQLite.SQLiteDatabase | null = null;
+let initPromise: Promise<void> | null = null;
 
-    CREATE TABLE IF NOT EXISTS videos_scan_results (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      results_data TEXT NOT NULL
-    );
+// withTransactionAsync cannot nest, so transactions from concurrent saves queue up behind each other
+let transactionQueue: Promise<void> = Promise.resolve();
 
-    CREATE TABLE IF NOT EXISTS images_scan_results (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      results_data TEXT NOT NULL
-    );
+const runTransaction = (task: () => Promise<void>): Promise<void> => {
+  const run = transactionQueue.then(() => db!.withTransactionAsync(task));
+  transactionQueue = run.catch(() => undefined);
+  return run;
+};
 
-    CREATE TABLE IF NOT EXISTS audios_scan_results (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      results_data TEXT NOT NULL
-    );
+export interface Migration {
+  version: number;
+  description: string;
+  up: (database: SQLite.SQLiteDatabase) => Promise<void>;
+}
 
-    CREATE TABLE IF NOT EXISTS documents_scan_results (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      results_data TEXT NOT NULL
-    );
+/**
+ * Schema history, applied in order on top of `PRAGMA user_version`.
+ * Steps must stay idempotent: databases created before versioning already hold some of these tables.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'base schema',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS file_cache (
+          path TEXT PRIMARY KEY,
+          size INTEGER NOT NULL,
+          partialHash TEXT NOT NULL,
+          fullHash TEXT,
+          modifiedDate INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_size ON file_cache(size);
+        CREATE INDEX IF NOT EXISTS idx_partialHash ON file_cache(partialHash);
+        CREATE INDEX IF NOT EXISTS idx_fullHash ON file_cache(fullHash);
+
+        CREATE TABLE IF NOT EXISTS smart_scan_status (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          completed_at INTEGER NOT NULL,
+          status_data TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS trash_items (
+          id TEXT PRIMARY KEY,
+          original_path TEXT NOT NULL,
+          trash_path TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          deleted_at INTEGER NOT NULL,
+          source TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_trash_deleted_at ON trash_items(deleted_at);
+
+        CREATE TABLE IF NOT EXISTS directory_snapshots (
+          path TEXT PRIMARY KEY,
+          mtime INTEGER NOT NULL,
+          scanned_at INTEGER NOT NULL,
+          entries_data TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS exclusion_rules (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          pattern TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          UNIQUE (type, pattern)
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'perceptual hash column for similar image detection',
+    up: async (database) => {
+      const columns = await database.getAllAsync<{ name: string }>('PRAGMA table_info(file_cache)');
+      if (!columns.some((column) => column.name === 'perceptualHash')) {
+        await database.execAsync('ALTER TABLE file_cache ADD COLUMN perceptualHash TEXT');
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'normalized scan_item results',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS scan_item (
+          scanner TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          path TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          mtime INTEGER,
+          category TEXT,
+          group_key TEXT NOT NULL DEFAULT '',
+          extra TEXT,
+          PRIMARY KEY (scanner, position)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_scan_item_size ON scan_item(scanner, size);
+        CREATE INDEX IF NOT EXISTS idx_scan_item_mtime ON scan_item(scanner, mtime);
+        CREATE INDEX IF NOT EXISTS idx_scan_item_category ON scan_item(scanner, category);
+        CREATE INDEX IF NOT EXISTS idx_scan_item_path ON scan_item(path);
+      `);
+      await migrateLegacyResultTables(database);
+    },
+  },
+  {
+    version: 4,
+    description: 'scan history for storage trends',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS scan_history (
+          run_id TEXT NOT NULL,
+          scanner TEXT NOT NULL,
+          source TEXT NOT NULL,
+          started_at INTEGER NOT NULL,
+          duration_ms INTEGER NOT NULL,
+          item_count INTEGER NOT NULL,
+          total_bytes INTEGER NOT NULL,
+          free_bytes INTEGER,
+          PRIMARY KEY (run_id, scanner)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_scan_history_started_at ON scan_history(started_at);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'cleanup ledger',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS cleanup_ledger (
+          id TEXT PRIMARY KEY NOT NULL,
+          scanner TEXT NOT NULL,
+          file_count INTEGER NOT NULL,
+          bytes INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          paths_data TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_cleanup_ledger_created_at ON cleanup_ledger(created_at);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'walk totals for progress estimation',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS scan_walk_stats (
+          scan_key TEXT PRIMARY KEY NOT NULL,
+          directory_count INTEGER NOT NULL,
+          file_count INTEGER NOT NULL,
+          total_bytes INTEGER NOT NULL,
+          used_bytes INTEGER,
+          duration_ms INTEGER NOT NULL,
+          finished_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'deduplicated junk total per scan run',
+    up: async (database) => {
+      const columns = await database.getAllAsync<{ name: string }>('PRAGMA table_info(scan_history)');
+      if (!columns.some((column) => column.name === 'junk_bytes')) {
+        await database.execAsync('ALTER TABLE scan_history ADD COLUMN junk_bytes INTEGER');
+      }
+    },
+  },
+];
+
+export interface MigrationFailure {
+  version: number;
+  description: string;
+  message: string;
+  failedAt: number;
+}
 
-    CREATE TABLE IF NOT EXISTS apk_scan_results (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      results_data TEXT NOT NULL
-    );
+// Set when a step fails, so the rest of the session reports it instead of running the step again
+let migrationFailure: MigrationFailure | null = null;
 
-    CREATE TABLE IF NOT EXISTS caches_scan_results (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      saved_at INTEGER NOT NULL,
-      results_data TEXT NOT NULL
+const migrationFailureError = ({ version, description, message }: MigrationFailure): Error =>
+  new Error(`Database migration to v${version} (${description}) failed: ${message}`);
+
+export async function getSchemaVersion(database: SQLite.SQLiteDatabase): Promise<number> {
+  const row = await database.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+}
+
+/**
+ * Keep the failed step in a table of its own, outside the schema the migrations build,
+ * so the failure survives the rolled back transaction.
+ */
+async function recordMigrationFailure(database: SQLite.SQLiteDatabase, failure: MigrationFailure): Promise<void> {
+  await database.execAsync(`
+    CREATE TABLE IF NOT EXISTS migration_failure (
+      version INTEGER PRIMARY KEY NOT NULL,
+      description TEXT NOT NULL,
+      message TEXT NOT NULL,
+      failed_at INTEGER NOT NULL
     );
   `);
+  await database.runAsync(
+    'INSERT OR REPLACE INTO migration_failure (version, description, message, failed_at) VALUES (?, ?, ?, ?)',
+    [failure.version, failure.description, failure.message, failure.failedAt]
+  );
 }
 
+/**
+ * Apply every migration newer than the database's `user_version`, each in its own transaction.
+ * Returns the resulting schema version. A failing step is recorded in `migration_failure` and
+ * rethrown with its version; the steps before it stay applied.
+ */
+export async function runMigrations(
+  database: SQLite.SQLiteDatabase,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> {
+  let version = await getSchemaVersion(database);
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => migration.version > version);
+
+  for (const migration of pending) {
+    try {
+      await database.withTransactionAsync(async () => {
+        await migration.up(database);
+        // user_version is part of the database header, so it commits or rolls back with the step
+        await database.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      const failure: MigrationFailure = {
+        version: migration.version,
+        description: migration.description,
+        message: error instanceof Error ? error.message : String(error),
+        failedAt: Date.now(),
+      };
+      try {
+        await recordMigrationFailure(database, failure);
+      } catch (recordError) {
+        console.error('Failed to record database migration failure:', recordError);
+      }
+      migrationFailure = failure;
+      throw migrationFailureError(failure);
+    }
+    version = migration.version;
+    console.log(`[DB] migrated to v${version}: ${migration.description}`);
+  }
+
+  return version;
+}
+
+/**
+ * The migration step that failed this session, if any.
+ */
+export function getMigrationFailure(): MigrationFailure | null {
+  return migrationFailure;
+}
+
+/**
+ * Open and migrate the database once. Pass ':memory:' to work against a throwaway database.
+ * After a failed migration every call rejects with that failure until the app restarts.
+ */
+export function initDatabase(databaseName: string = DATABASE_NAME): Promise<void> {
+  if (migrationFailure) {
+    return Promise.reject(migrationFailureError(migrationFailure));
+  }
+  if (!initPromise) {
+    initPromise = (async () => {
+      const database = await SQLite.openDatabaseAsync(databaseName);
+      try {
+        await runMigrations(database);
+      } catch (error) {
+        await database.closeAsync();
+        throw error;
+      }
+      db = database;
+    })().catch((error) => {
+      initPromise = null;
+      throw error;
+    });
+  }
+  return initPromise;
+}
+
+/**
+ * Close the open database so the next call to initDatabase starts fresh.
+ */
+export async function closeDatabase(): Promise<void> {
+  const database = db;
+  db = null;
+  initPromise = null;
+  await database?.closeAsync();
+}
+
+/**
+ * file_cache keys files on their mtime in whole seconds. RNFS and expo-file-system both start from
+ * seconds and reach milliseconds through different float maths, so their sub-second digits disagree.
+ * Every cache write goes through this, and so does every comparison against a cached row.
+ */
+export const toCacheMtime = (milliseconds: number): number => Math.floor(milliseconds / 1000) * 1000;
+
 export async function getCachedFile(path: string): Promise<FileCacheEntry | null> {
   if (!db) await initDatabase();
 
@@ -117,10 +416,43 @@ export async function getCachedFile(path: string): Promise<FileCacheEntry | null
 export async function saveFileCache(entry: FileCacheEntry): Promise<void> {
   if (!db) await initDatabase();
 
+  // Keep the perceptual hash of an unchanged file when its content hashes are refreshed
+  await db!.runAsync(
+    `INSERT INTO file_cache (path, size, partialHash, fullHash, modifiedDate)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(path) DO UPDATE SET
+       perceptualHash = CASE
+         WHEN file_cache.size = excluded.size AND file_cache.modifiedDate = excluded.modifiedDate
+         THEN file_cache.perceptualHash ELSE NULL END,
+       size = excluded.size,
+       partialHash = excluded.partialHash,
+       fullHash = excluded.fullHash,
+       modifiedDate = excluded.modifiedDate`,
+    [entry.path, entry.size, entry.partialHash, entry.fullHash, toCacheMtime(entry.modifiedDate)]
+  );
+}
+
+export async function savePerceptualHash(
+  entry: Pick<FileCacheEntry, 'path' | 'size' | 'modifiedDate'>,
+  perceptualHash: string
+): Promise<void> {
+  if (!db) await initDatabase();
+
+  // Content hashes of a changed file are stale, an unchanged file keeps them
   await db!.runAsync(
-    `INSERT OR REPLACE INTO file_cache (path, size, partialHash, fullHash, modifiedDate)
-     VALUES (?, ?, ?, ?, ?)`,
-    [entry.path, entry.size, entry.partialHash, entry.fullHash, entry.modifiedDate]
+    `INSERT INTO file_cache (path, size, partialHash, fullHash, modifiedDate, perceptualHash)
+     VALUES (?, ?, '', NULL, ?, ?)
+     ON CONFLICT(path) DO UPDATE SET
+       partialHash = CASE
+         WHEN file_cache.size = excluded.size AND file_cache.modifiedDate = excluded.modifiedDate
+         THEN file_cache.partialHash ELSE '' END,
+       fullHash = CASE
+         WHEN file_cache.size = excluded.size AND file_cache.modifiedDate = excluded.modifiedDate
+         THEN file_cache.fullHash ELSE NULL END,
+       size = excluded.size,
+       modifiedDate = excluded.modifiedDate,
+       perceptualHash = excluded.perceptualHash`,
+    [entry.path, entry.size, toCacheMtime(entry.modifiedDate), perceptualHash]
   );
 }
 
@@ -139,6 +471,19 @@ export async function updateFullHash(path: string, fullHash: string): Promise<vo
   );
 }
 
+export async function removeFileCacheEntries(paths: string[]): Promise<void> {
+  if (!db) await initDatabase();
+  if (!paths.length) return;
+
+  // Stay well below SQLite's bound-parameter limit
+  const CHUNK_SIZE = 500;
+  for (let i = 0; i < paths.length; i += CHUNK_SIZE) {
+    const chunk = paths.slice(i, i + CHUNK_SIZE);
+    const placeholders = chunk.map(() => '?').join(', ');
+    await db!.runAsync(`DELETE FROM file_cache WHERE path IN (${placeholders})`, chunk);
+  }
+}
+
 export async function getFilesByPartialHash(partialHash: string): Promise<FileCacheEntry[]> {
   if (!db) await initDatabase();
 
@@ -157,189 +502,644 @@ export async function getFilesByFullHash(fullHash: string): Promise<FileCacheEnt
   );
 }
 
-export async function saveDuplicateGroups(groups: DuplicateGroup[]): Promise<void> {
-  if (!db) await initDatabase();
+// Scan Results (normalized, one scan_item row per file)
+export type ScanItemScanner = ScannerType | 'similarImages' | 'duplicateFiles';
 
-  try {
-    // Clear old saved duplicates
-    await db!.runAsync('DELETE FROM duplicate_groups');
-    
-    // Save new duplicates
-    const groupsData = JSON.stringify(groups);
-    await db!.runAsync(
-      'INSERT INTO duplicate_groups (saved_at, groups_data) VALUES (?, ?)',
-      [Date.now(), groupsData]
-    );
-  } catch (error) {
-    console.error('Failed to persist duplicate groups:', error);
-    throw error;
-  }
+const GROUP_SCANNERS = ['duplicates', 'similarImages', 'duplicateFiles'] as const;
+
+type GroupScanner = (typeof GROUP_SCANNERS)[number];
+
+interface ScanResultTypes {
+  whatsapp: WhatsAppScanResult;
+  largeFiles: LargeFileResult;
+  oldFiles: OldFileInfo;
+  videos: CategoryFile;
+  images: CategoryFile;
+  audios: CategoryFile;
+  documents: CategoryFile;
+  apk: APKFileInfo;
+  caches: CacheItem;
 }
 
-export async function loadDuplicateGroups(): Promise<DuplicateGroup[]> {
-  if (!db) await initDatabase();
+export type ListScanner = keyof ScanResultTypes;
+
+export type ScanResult<S extends ListScanner> = ScanResultTypes[S];
+
+export interface ScanItemQuery {
+  limit?: number;
+  offset?: number;
+  category?: string;
+  minSize?: number;
+  modifiedBefore?: number;
+  pathPrefix?: string;
+  // Lower-case file extensions without the dot; a path must end in one of `extensions` and in none of `excludeExtensions`
+  extensions?: string[];
+  excludeExtensions?: string[];
+  orderBy?: 'position' | 'size' | 'mtime' | 'path';
+  descending?: boolean;
+}
 
-  const result = await db!.getFirstAsync<{ groups_data: string }>(
-    'SELECT groups_data FROM duplicate_groups ORDER BY saved_at DESC LIMIT 1'
-  );
+export interface ScanItemSummary {
+  count: number;
+  size: number;
+}
 
-  if (!result) {
-    return [];
+type ScanItemRow = {
+  scanner: ScanItemScanner;
+  position: number;
+  path: string;
+  size: number;
+  mtime: number | null;
+  category: string | null;
+  group_key: string;
+  extra: string | null;
+};
+
+type ScanItemFields = Omit<ScanItemRow, 'scanner' | 'position'>;
+
+type ScanItemCodec<T> = {
+  toFields: (item: T) => ScanItemFields;
+  fromRow: (row: ScanItemRow) => T;
+};
+
+// 8 bound parameters per row keeps each insert under SQLite's 999 parameter limit
+const SCAN_ITEM_INSERT_CHUNK = 100;
+
+// Lookups by path bind one parameter per path, plus the scanner
+const SCAN_ITEM_PATH_CHUNK = 500;
+
+const ORDER_COLUMNS: Record<NonNullable<ScanItemQuery['orderBy']>, string> = {
+  position: 'position',
+  size: 'size',
+  mtime: 'mtime',
+  path: 'path',
+};
+
+const encodeExtra = (extra: Record<string, unknown>): string | null => {
+  const defined = Object.entries(extra).filter(([, value]) => value !== undefined);
+  return defined.length ? JSON.stringify(Object.fromEntries(defined)) : null;
+};
+
+const decodeExtra = <T>(row: ScanItemRow): Partial<T> => {
+  if (!row.extra) {
+    return {};
   }
-
   try {
-    return JSON.parse(result.groups_data) as DuplicateGroup[];
+    return JSON.parse(row.extra) as Partial<T>;
   } catch (error) {
-    console.error('Failed to parse saved duplicate groups:', error);
-    return [];
+    console.error(`Failed to parse scan item details for ${row.path}:`, error);
+    return {};
+  }
+};
+
+const categoryFileCodec: ScanItemCodec<CategoryFile> = {
+  toFields: (file) => ({
+    path: file.path,
+    size: file.size,
+    mtime: file.modified ?? null,
+    category: file.category ?? null,
+    group_key: '',
+    extra: null,
+  }),
+  fromRow: (row) => ({
+    path: row.path,
+    size: row.size,
+    modified: row.mtime,
+    category: row.category ?? undefined,
+  }),
+};
+
+const SCAN_RESULT_CODECS: { [S in ListScanner]: ScanItemCodec<ScanResultTypes[S]> } = {
+  whatsapp: {
+    toFields: (file) => ({
+      path: file.path,
+      size: file.size,
+      mtime: file.modified,
+      category: file.type,
+      group_key: '',
+      extra: encodeExtra({
+        app: file.app,
+        direction: file.direction,
+        copyPath: file.copyPath,
+        backup: file.backup,
+      }),
+    }),
+    fromRow: (row) => {
+      const extra = decodeExtra<WhatsAppScanResult>(row);
+      return {
+        path: row.path,
+        size: row.size,
+        modified: row.mtime,
+        type: row.category as WhatsAppScanResult['type'],
+        app: extra.app,
+        direction: extra.direction,
+        copyPath: extra.copyPath,
+        backup: extra.backup,
+      };
+    },
+  },
+  largeFiles: {
+    toFields: (file) => ({
+      path: file.path,
+      size: file.size,
+      mtime: file.modified,
+      category: file.category,
+      group_key: '',
+      extra: encodeExtra({ source: file.source }),
+    }),
+    fromRow: (row) => ({
+      path: row.path,
+      size: row.size,
+      modified: row.mtime,
+      category: row.category ?? 'Other',
+      source: decodeExtra<LargeFileResult>(row).source ?? 'recursive',
+    }),
+  },
+  oldFiles: {
+    toFields: (file) => ({
+      path: file.path,
+      size: file.size,
+      mtime: file.modifiedDate,
+      category: null,
+      group_key: '',
+      extra: encodeExtra({ ageDays: file.ageDays }),
+    }),
+    fromRow: (row) => ({
+      path: row.path,
+      size: row.size,
+      modifiedDate: row.mtime ?? 0,
+      ageDays: decodeExtra<OldFileInfo>(row).ageDays ?? 0,
+    }),
+  },
+  videos: categoryFileCodec,
+  images: categoryFileCodec,
+  audios: categoryFileCodec,
+  documents: categoryFileCodec,
+  apk: {
+    toFields: (file) => ({
+      path: file.path,
+      size: file.size,
+      mtime: file.modifiedDate,
+      category: null,
+      group_key: '',
+      extra: encodeExtra({ ageDays: file.ageDays, packageName: file.packageName }),
+    }),
+    fromRow: (row) => {
+      const extra = decodeExtra<APKFileInfo>(row);
+      return {
+        path: row.path,
+        size: row.size,
+        modifiedDate: row.mtime ?? 0,
+        ageDays: extra.ageDays ?? 0,
+        packageName: extra.packageName,
+      };
+    },
+  },
+  caches: {
+    toFields: (item) => ({
+      path: item.path,
+      size: item.size,
+      mtime: item.modifiedDate ?? null,
+      category: item.type,
+      group_key: item.type === 'rule' ? item.ruleId : '',
+      extra: encodeExtra(
+        item.type === 'rule'
+          ? {
+              packageName: item.packageName,
+              ruleVersion: item.ruleVersion,
+              category: item.category,
+              safety: item.safety,
+              label: item.label,
+            }
+          : { packageName: item.packageName },
+      ),
+    }),
+    fromRow: (row) => {
+      const extra = decodeExtra<RuleCacheItem>(row);
+      const base = {
+        path: row.path,
+        size: row.size,
+        packageName: extra.packageName,
+        modifiedDate: row.mtime ?? undefined,
+      };
+      if (row.category === 'rule') {
+        return {
+          ...base,
+          type: 'rule',
+          ruleId: row.group_key,
+          ruleVersion: extra.ruleVersion ?? 0,
+          category: extra.category ?? 'appCache',
+          safety: extra.safety ?? 'review',
+          label: extra.label ?? row.group_key,
+        };
+      }
+      return { ...base, type: row.category === 'corpse' ? 'corpse' : 'cache' };
+    },
+  },
+};
+
+// Every file of a group shares the group's hash as its key; kind and similarity ride along in `extra`
+const groupToFields = (group: DuplicateGroup): ScanItemFields[] =>
+  group.files.map((file) => ({
+    path: file.path,
+    size: file.size,
+    mtime: file.modifiedDate,
+    category: group.category ?? null,
+    group_key: group.hash,
+    extra: encodeExtra({ kind: group.kind, similarity: group.similarity }),
+  }));
+
+const rowsToGroups = (rows: ScanItemRow[]): DuplicateGroup[] => {
+  const groups = new Map<string, DuplicateGroup>();
+  rows.forEach((row) => {
+    let group = groups.get(row.group_key);
+    if (!group) {
+      const extra = decodeExtra<DuplicateGroup>(row);
+      group = { hash: row.group_key, files: [] };
+      if (extra.kind !== undefined) group.kind = extra.kind;
+      if (extra.similarity !== undefined) group.similarity = extra.similarity;
+      if (row.category !== null) group.category = row.category;
+      groups.set(row.group_key, group);
+    }
+    group.files.push({ path: row.path, size: row.size, modifiedDate: row.mtime ?? 0 });
+  });
+  return Array.from(groups.values());
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+const toExtensionPattern = (extension: string) => `%.${escapeLike(extension)}`;
+
+const buildScanItemFilter = (scanner: ScanItemScanner, query: ScanItemQuery) => {
+  const clauses = ['scanner = ?'];
+  const params: (string | number)[] = [scanner];
+
+  if (query.category !== undefined) {
+    clauses.push('category = ?');
+    params.push(query.category);
+  }
+  if (query.minSize !== undefined) {
+    clauses.push('size >= ?');
+    params.push(query.minSize);
+  }
+  if (query.modifiedBefore !== undefined) {
+    clauses.push('mtime < ?');
+    params.push(query.modifiedBefore);
+  }
+  if (query.pathPrefix) {
+    clauses.push("path LIKE ? ESCAPE '\\'");
+    params.push(`${escapeLike(query.pathPrefix)}%`);
+  }
+  // LIKE ignores ASCII case, so "IMG.JPG" matches "jpg"
+  if (query.extensions) {
+    clauses.push(`(${query.extensions.map(() => "path LIKE ? ESCAPE '\\'").join(' OR ') || '0'})`);
+    params.push(...query.extensions.map(toExtensionPattern));
+  }
+  if (query.excludeExtensions?.length) {
+    clauses.push(`NOT (${query.excludeExtensions.map(() => "path LIKE ? ESCAPE '\\'").join(' OR ')})`);
+    params.push(...query.excludeExtensions.map(toExtensionPattern));
   }
-}
-
-export async function clearDuplicateGroups(): Promise<void> {
-  if (!db) await initDatabase();
 
-  await db!.runAsync('DELETE FROM duplicate_groups');
-}
+  return { where: clauses.join(' AND '), params };
+};
+
+const insertScanItems = async (
+  database: SQLite.SQLiteDatabase,
+  scanner: ScanItemScanner,
+  items: ScanItemFields[]
+): Promise<void> => {
+  for (let i = 0; i < items.length; i += SCAN_ITEM_INSERT_CHUNK) {
+    const chunk = items.slice(i, i + SCAN_ITEM_INSERT_CHUNK);
+    const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
+    const params = chunk.flatMap((item, index) => [
+      scanner,
+      i + index,
+      item.path,
+      item.size,
+      item.mtime,
+      item.category,
+      item.group_key,
+      item.extra,
+    ]);
+    await database.runAsync(
+      `INSERT INTO scan_item (scanner, position, path, size, mtime, category, group_key, extra)
+       VALUES ${placeholders}`,
+      params
+    );
+  }
+};
 
-// WhatsApp Scanner Results
-export async function saveWhatsAppResults(results: WhatsAppScanResult[]): Promise<void> {
+/**
+ * Replace every saved row of a scanner in one transaction.
+ */
+const replaceScanItems = async (scanner: ScanItemScanner, items: ScanItemFields[]): Promise<void> => {
   if (!db) await initDatabase();
 
   try {
-    await db!.runAsync('DELETE FROM whatsapp_scan_results');
-    await db!.runAsync(
-      'INSERT INTO whatsapp_scan_results (saved_at, results_data) VALUES (?, ?)',
-      [Date.now(), JSON.stringify(results)]
-    );
+    await runTransaction(async () => {
+      await db!.runAsync('DELETE FROM scan_item WHERE scanner = ?', [scanner]);
+      await insertScanItems(db!, scanner, items);
+    });
   } catch (error) {
-    console.error('Failed to persist WhatsApp scan results:', error);
+    console.error(`Failed to persist ${scanner} scan results:`, error);
     throw error;
   }
+};
+
+const selectScanItems = async (scanner: ScanItemScanner, query: ScanItemQuery = {}): Promise<ScanItemRow[]> => {
+  if (!db) await initDatabase();
+
+  const { where, params } = buildScanItemFilter(scanner, query);
+  const orderColumn = ORDER_COLUMNS[query.orderBy ?? 'position'];
+  // Position breaks ties so pages of equal sizes or times never overlap
+  let sql = `SELECT * FROM scan_item WHERE ${where} ORDER BY ${orderColumn} ${query.descending ? 'DESC' : 'ASC'}, position`;
+  if (query.limit !== undefined) {
+    sql += ' LIMIT ? OFFSET ?';
+    params.push(query.limit, query.offset ?? 0);
+  }
+
+  return db!.getAllAsync<ScanItemRow>(sql, params);
+};
+
+export async function saveScanResults<S extends ListScanner>(
+  scanner: S,
+  results: ScanResultTypes[S][]
+): Promise<void> {
+  const codec = SCAN_RESULT_CODECS[scanner] as ScanItemCodec<ScanResultTypes[S]>;
+  await replaceScanItems(scanner, results.map(codec.toFields));
 }
 
-export async function loadWhatsAppResults(): Promise<WhatsAppScanResult[]> {
+/**
+ * Saved results of one scanner, optionally filtered and paged. Rows come back in scan order by default.
+ */
+export async function queryScanResults<S extends ListScanner>(
+  scanner: S,
+  query: ScanItemQuery = {}
+): Promise<ScanResultTypes[S][]> {
+  const codec = SCAN_RESULT_CODECS[scanner] as ScanItemCodec<ScanResultTypes[S]>;
+  const rows = await selectScanItems(scanner, query);
+  return rows.map(codec.fromRow);
+}
+
+export async function summarizeScanResults(
+  scanner: ScanItemScanner,
+  query: ScanItemQuery = {}
+): Promise<ScanItemSummary> {
   if (!db) await initDatabase();
 
-  const result = await db!.getFirstAsync<{ results_data: string }>(
-    'SELECT results_data FROM whatsapp_scan_results ORDER BY saved_at DESC LIMIT 1'
+  const { where, params } = buildScanItemFilter(scanner, query);
+  const row = await db!.getFirstAsync<{ count: number; size: number | null }>(
+    `SELECT COUNT(*) AS count, SUM(size) AS size FROM scan_item WHERE ${where}`,
+    params
   );
 
-  if (!result) {
-    return [];
-  }
-
-  try {
-    return JSON.parse(result.results_data) as WhatsAppScanResult[];
-  } catch (error) {
-    console.error('Failed to parse cached WhatsApp scan results:', error);
-    return [];
-  }
+  return { count: row?.count ?? 0, size: row?.size ?? 0 };
 }
 
-export async function clearWhatsAppResults(): Promise<void> {
+/**
+ * Path and size of every saved result matching the query, without decoding the rows.
+ * Enough to select a whole filtered list and total the selection.
+ */
+export async function queryScanResultSizes(
+  scanner: ListScanner,
+  query: ScanItemQuery = {}
+): Promise<{ path: string; size: number }[]> {
   if (!db) await initDatabase();
 
-  await db!.runAsync('DELETE FROM whatsapp_scan_results');
+  const { where, params } = buildScanItemFilter(scanner, query);
+  return db!.getAllAsync<{ path: string; size: number }>(
+    `SELECT path, size FROM scan_item WHERE ${where} ORDER BY position`,
+    params
+  );
 }
 
-// Large Files Scanner Results
-export async function saveLargeFileResults(results: LargeFileResult[]): Promise<void> {
+/**
+ * Saved results of one scanner with the given paths, in scan order within each chunk of paths.
+ */
+export async function queryScanResultsByPath<S extends ListScanner>(
+  scanner: S,
+  paths: string[]
+): Promise<ScanResultTypes[S][]> {
   if (!db) await initDatabase();
 
-  try {
-    await db!.runAsync('DELETE FROM large_file_scan_results');
-    await db!.runAsync(
-      'INSERT INTO large_file_scan_results (saved_at, results_data) VALUES (?, ?)',
-      [Date.now(), JSON.stringify(results)]
+  const codec = SCAN_RESULT_CODECS[scanner] as ScanItemCodec<ScanResultTypes[S]>;
+  const results: ScanResultTypes[S][] = [];
+  for (let i = 0; i < paths.length; i += SCAN_ITEM_PATH_CHUNK) {
+    const chunk = paths.slice(i, i + SCAN_ITEM_PATH_CHUNK);
+    const rows = await db!.getAllAsync<ScanItemRow>(
+      `SELECT * FROM scan_item WHERE scanner = ? AND path IN (${chunk.map(() => '?').join(', ')}) ORDER BY position`,
+      [scanner, ...chunk]
     );
-  } catch (error) {
-    console.error('Failed to persist large file scan results:', error);
-    throw error;
+    results.push(...rows.map(codec.fromRow));
   }
+  return results;
 }
 
-export async function loadLargeFileResults(): Promise<LargeFileResult[]> {
+/**
+ * Drop the saved rows of files that are gone, leaving the rest of the scan in place.
+ */
+export async function removeScanResults(scanner: ListScanner, paths: string[]): Promise<void> {
   if (!db) await initDatabase();
 
-  const result = await db!.getFirstAsync<{ results_data: string }>(
-    'SELECT results_data FROM large_file_scan_results ORDER BY saved_at DESC LIMIT 1'
-  );
+  await runTransaction(async () => {
+    for (let i = 0; i < paths.length; i += SCAN_ITEM_PATH_CHUNK) {
+      const chunk = paths.slice(i, i + SCAN_ITEM_PATH_CHUNK);
+      await db!.runAsync(
+        `DELETE FROM scan_item WHERE scanner = ? AND path IN (${chunk.map(() => '?').join(', ')})`,
+        [scanner, ...chunk]
+      );
+    }
+  });
+}
 
-  if (!result) {
-    return [];
-  }
+/**
+ * File count and total size saved by every scanner, without loading any rows.
+ */
+export async function loadScanSummaries(): Promise<Partial<Record<ScanItemScanner, ScanItemSummary>>> {
+  if (!db) await initDatabase();
 
-  try {
-    return JSON.parse(result.results_data) as LargeFileResult[];
-  } catch (error) {
-    console.error('Failed to parse cached large file scan results:', error);
-    return [];
-  }
+  const rows = await db!.getAllAsync<{ scanner: ScanItemScanner; count: number; size: number | null }>(
+    'SELECT scanner, COUNT(*) AS count, SUM(size) AS size FROM scan_item GROUP BY scanner'
+  );
+
+  return Object.fromEntries(rows.map((row) => [row.scanner, { count: row.count, size: row.size ?? 0 }]));
 }
 
-export async function clearLargeFileResults(): Promise<void> {
+/**
+ * Bytes the saved results of `scanners` could free, counting a path once however many of them list it.
+ * The largest file of each group stays, so only the other copies count, as in the scan history.
+ */
+export async function sumReclaimableScanBytes(scanners: ScanItemScanner[]): Promise<number> {
   if (!db) await initDatabase();
 
-  await db!.runAsync('DELETE FROM large_file_scan_results');
+  const groups = scanners.filter((scanner) => (GROUP_SCANNERS as readonly string[]).includes(scanner));
+  const lists = scanners.filter((scanner) => !groups.includes(scanner));
+  const placeholders = (values: string[]) => values.map(() => '?').join(', ') || 'NULL';
+  const row = await db!.getFirstAsync<{ size: number | null }>(
+    `WITH reclaimable AS (
+       SELECT path, size FROM scan_item WHERE scanner IN (${placeholders(lists)})
+       UNION ALL
+       SELECT path, size FROM (
+         SELECT path, size,
+                ROW_NUMBER() OVER (PARTITION BY scanner, group_key ORDER BY size DESC, position) AS rank
+         FROM scan_item WHERE scanner IN (${placeholders(groups)})
+       ) WHERE rank > 1
+     )
+     SELECT SUM(size) AS size FROM (SELECT MAX(size) AS size FROM reclaimable GROUP BY path)`,
+    [...lists, ...groups]
+  );
+  return row?.size ?? 0;
 }
 
-// Old Files Scanner Results
-export async function saveOldFileResults(results: OldFileInfo[]): Promise<void> {
+export async function clearScanResults(scanner: ScanItemScanner): Promise<void> {
   if (!db) await initDatabase();
 
-  try {
-    await db!.runAsync('DELETE FROM old_file_scan_results');
-    await db!.runAsync(
-      'INSERT INTO old_file_scan_results (saved_at, results_data) VALUES (?, ?)',
-      [Date.now(), JSON.stringify(results)]
+  await db!.runAsync('DELETE FROM scan_item WHERE scanner = ?', [scanner]);
+}
+
+const saveScanGroups = (scanner: GroupScanner, groups: DuplicateGroup[]): Promise<void> =>
+  replaceScanItems(scanner, groups.flatMap(groupToFields));
+
+const loadScanGroups = async (scanner: GroupScanner): Promise<DuplicateGroup[]> =>
+  rowsToGroups(await selectScanItems(scanner));
+
+// Blob tables that held a whole scan as one JSON row before scan_item existed
+const LEGACY_RESULT_TABLES: { table: string; scanner: ScanItemScanner; column: 'results_data' | 'groups_data' }[] = [
+  { table: 'duplicate_groups', scanner: 'duplicates', column: 'groups_data' },
+  { table: 'similar_image_groups', scanner: 'similarImages', column: 'groups_data' },
+  { table: 'duplicate_file_groups', scanner: 'duplicateFiles', column: 'groups_data' },
+  { table: 'whatsapp_scan_results', scanner: 'whatsapp', column: 'results_data' },
+  { table: 'large_file_scan_results', scanner: 'largeFiles', column: 'results_data' },
+  { table: 'old_file_scan_results', scanner: 'oldFiles', column: 'results_data' },
+  { table: 'videos_scan_results', scanner: 'videos', column: 'results_data' },
+  { table: 'images_scan_results', scanner: 'images', column: 'results_data' },
+  { table: 'audios_scan_results', scanner: 'audios', column: 'results_data' },
+  { table: 'documents_scan_results', scanner: 'documents', column: 'results_data' },
+  { table: 'apk_scan_results', scanner: 'apk', column: 'results_data' },
+  { table: 'caches_scan_results', scanner: 'caches', column: 'results_data' },
+];
+
+/**
+ * Move results saved in the old JSON blob tables into scan_item, then drop the blob tables.
+ * Runs inside the v3 migration, so a failed write rolls the whole step back.
+ */
+async function migrateLegacyResultTables(database: SQLite.SQLiteDatabase): Promise<void> {
+  for (const { table, scanner, column } of LEGACY_RESULT_TABLES) {
+    const exists = await database.getFirstAsync<{ name: string }>(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+      [table]
     );
-  } catch (error) {
-    console.error('Failed to persist old file scan results:', error);
-    throw error;
+    if (!exists) {
+      continue;
+    }
+
+    const row = await database.getFirstAsync<Record<string, string>>(
+      `SELECT ${column} FROM ${table} ORDER BY saved_at DESC LIMIT 1`
+    );
+    let parsed: unknown[] = [];
+    try {
+      parsed = row ? (JSON.parse(row[column]) as unknown[]) : [];
+    } catch (error) {
+      console.error(`Discarding unreadable ${table} data during migration:`, error);
+    }
+
+    const items = column === 'groups_data'
+      ? (parsed as DuplicateGroup[]).flatMap(groupToFields)
+      : parsed.map((SCAN_RESULT_CODECS[scanner as ListScanner] as ScanItemCodec<unknown>).toFields);
+    await database.runAsync('DELETE FROM scan_item WHERE scanner = ?', [scanner]);
+    await insertScanItems(database, scanner, items);
+    await database.execAsync(`DROP TABLE ${table}`);
+    console.log(`[DB] migrated ${parsed.length} ${scanner} results from ${table}`);
   }
 }
 
-export async function loadOldFileResults(): Promise<OldFileInfo[]> {
-  if (!db) await initDatabase();
+// Duplicate Groups
+export async function saveDuplicateGroups(groups: DuplicateGroup[]): Promise<void> {
+  await saveScanGroups('duplicates', groups);
+}
 
-  const result = await db!.getFirstAsync<{ results_data: string }>(
-    'SELECT results_data FROM old_file_scan_results ORDER BY saved_at DESC LIMIT 1'
-  );
+export async function loadDuplicateGroups(): Promise<DuplicateGroup[]> {
+  return loadScanGroups('duplicates');
+}
 
-  if (!result) {
-    return [];
-  }
+export async function clearDuplicateGroups(): Promise<void> {
+  await clearScanResults('duplicates');
+}
 
-  try {
-    return JSON.parse(result.results_data) as OldFileInfo[];
-  } catch (error) {
-    console.error('Failed to parse cached old file scan results:', error);
-    return [];
-  }
+// Similar Images Results
+export async function saveSimilarImageGroups(groups: DuplicateGroup[]): Promise<void> {
+  await saveScanGroups('similarImages', groups);
 }
 
-export async function clearOldFileResults(): Promise<void> {
-  if (!db) await initDatabase();
+export async function loadSimilarImageGroups(): Promise<DuplicateGroup[]> {
+  return loadScanGroups('similarImages');
+}
+
+export async function clearSimilarImageGroups(): Promise<void> {
+  await clearScanResults('similarImages');
+}
+
+// Duplicate Files Results (all file types)
+export async function saveDuplicateFileGroups(groups: DuplicateGroup[]): Promise<void> {
+  await saveScanGroups('duplicateFiles', groups);
+}
 
-  await db!.runAsync('DELETE FROM old_file_scan_results');
+export async function loadDuplicateFileGroups(): Promise<DuplicateGroup[]> {
+  return loadScanGroups('duplicateFiles');
+}
+
+export async function clearDuplicateFileGroups(): Promise<void> {
+  await clearScanResults('duplicateFiles');
+}
+
+// WhatsApp Scanner Results
+export async function saveWhatsAppResults(results: WhatsAppScanResult[]): Promise<void> {
+  await saveScanResults('whatsapp', results);
+}
+
+export async function loadWhatsAppResults(): Promise<WhatsAppScanResult[]> {
+  return queryScanResults('whatsapp');
+}
+
+export async function clearWhatsAppResults(): Promise<void> {
+  await clearScanResults('whatsapp');
+}
+
+// Large Files Scanner Results
+export async function saveLargeFileResults(results: LargeFileResult[]): Promise<void> {
+  await saveScanResults('largeFiles', results);
+}
+
+export async function loadLargeFileResults(): Promise<LargeFileResult[]> {
+  return queryScanResults('largeFiles');
+}
+
+export async function clearLargeFileResults(): Promise<void> {
+  await clearScanResults('largeFiles');
+}
+
+// Old Files Scanner Results
+export async function saveOldFileResults(results: OldFileInfo[]): Promise<void> {
+  await saveScanResults('oldFiles', results);
+}
+
+export async function loadOldFileResults(): Promise<OldFileInfo[]> {
+  return queryScanResults('oldFiles');
+}
+
+export async function clearOldFileResults(): Promise<void> {
+  await clearScanResults('oldFiles');
 }
 
 // Smart Scan Status
 export interface SmartScanStatus {
   completed: boolean;
   completedAt: number | null;
-  scannerProgress: {
-    whatsapp: boolean;
-    duplicates: boolean;
-    largeFiles: boolean;
-    oldFiles: boolean;
-    apk: boolean;
-    caches: boolean;
-    videos: boolean;
-    images: boolean;
-    audios: boolean;
-    documents: boolean;
-  };
+  // Checkpoint fields; absent on statuses saved before scans could be resumed
+  startedAt?: number;
+  cancelledAt?: number | null;
+  settings?: ScanSettings;
+  scannerProgress: Partial<Record<ScannerType, boolean>>;
 }
 
 export async function saveSmartScanStatus(status: SmartScanStatus): Promise<void> {
@@ -384,321 +1184,447 @@ export async function clearSmartScanStatus(): Promise<void> {
 
 // Category Results
 export async function saveVideosResults(results: CategoryFile[]): Promise<void> {
-  if (!db) await initDatabase();
-
-  try {
-    await db!.runAsync('DELETE FROM videos_scan_results');
-    await db!.runAsync(
-      'INSERT INTO videos_scan_results (saved_at, results_data) VALUES (?, ?)',
-      [Date.now(), JSON.stringify(results)]
-    );
-  } catch (error) {
-    console.error('Failed to persist videos scan results:', error);
-    throw error;
-  }
+  await saveScanResults('videos', results);
 }
 
 export async function loadVideosResults(): Promise<CategoryFile[]> {
-  if (!db) await initDatabase();
+  return queryScanResults('videos');
+}
 
-  const result = await db!.getFirstAsync<{ results_data: string }>(
-    'SELECT results_data FROM videos_scan_results ORDER BY saved_at DESC LIMIT 1'
-  );
+export async function clearVideosResults(): Promise<void> {
+  await clearScanResults('videos');
+}
 
-  if (!result) {
-    return [];
-  }
+export async function saveImagesResults(results: CategoryFile[]): Promise<void> {
+  await saveScanResults('images', results);
+}
 
-  try {
-    return JSON.parse(result.results_data) as CategoryFile[];
-  } catch (error) {
-    console.error('Failed to parse cached videos scan results:', error);
-    return [];
-  }
+export async function loadImagesResults(): Promise<CategoryFile[]> {
+  return queryScanResults('images');
 }
 
-export async function clearVideosResults(): Promise<void> {
-  if (!db) await initDatabase();
+export async function clearImagesResults(): Promise<void> {
+  await clearScanResults('images');
+}
 
-  await db!.runAsync('DELETE FROM videos_scan_results');
+export async function saveAudiosResults(results: CategoryFile[]): Promise<void> {
+  await saveScanResults('audios', results);
 }
 
-export async function saveImagesResults(results: CategoryFile[]): Promise<void> {
-  if (!db) await initDatabase();
+export async function loadAudiosResults(): Promise<CategoryFile[]> {
+  return queryScanResults('audios');
+}
 
-  try {
-    await db!.runAsync('DELETE FROM images_scan_results');
-    await db!.runAsync(
-      'INSERT INTO images_scan_results (saved_at, results_data) VALUES (?, ?)',
-      [Date.now(), JSON.stringify(results)]
-    );
-  } catch (error) {
-    console.error('Failed to persist images scan results:', error);
-    throw error;
-  }
+export async function clearAudiosResults(): Promise<void> {
+  await clearScanResults('audios');
 }
 
-export async function loadImagesResults(): Promise<CategoryFile[]> {
-  if (!db) await initDatabase();
+export async function saveDocumentsResults(results: CategoryFile[]): Promise<void> {
+  await saveScanResults('documents', results);
+}
 
-  const result = await db!.getFirstAsync<{ results_data: string }>(
-    'SELECT results_data FROM images_scan_results ORDER BY saved_at DESC LIMIT 1'
-  );
+export async function loadDocumentsResults(): Promise<CategoryFile[]> {
+  return queryScanResults('documents');
+}
 
-  if (!result) {
-    return [];
-  }
+export async function clearDocumentsResults(): Promise<void> {
+  await clearScanResults('documents');
+}
 
-  try {
-    return JSON.parse(result.results_data) as CategoryFile[];
-  } catch (error) {
-    console.error('Failed to parse cached images scan results:', error);
-    return [];
-  }
+// APK Scanner Results
+export async function saveAPKResults(results: APKFileInfo[]): Promise<void> {
+  await saveScanResults('apk', results);
 }
 
-export async function clearImagesResults(): Promise<void> {
-  if (!db) await initDatabase();
+export async function loadAPKResults(): Promise<APKFileInfo[]> {
+  return queryScanResults('apk');
+}
 
-  await db!.runAsync('DELETE FROM images_scan_results');
+export async function clearAPKResults(): Promise<void> {
+  await clearScanResults('apk');
 }
 
-export async function saveAudiosResults(results: CategoryFile[]): Promise<void> {
+// Caches Scanner Results
+export async function saveCachesResults(results: CacheItem[]): Promise<void> {
+  await saveScanResults('caches', results);
+}
+
+export async function loadCachesResults(): Promise<CacheItem[]> {
+  return queryScanResults('caches');
+}
+
+export async function clearCachesResults(): Promise<void> {
+  await clearScanResults('caches');
+}
+
+// Trash Index
+type TrashRow = {
+  id: string;
+  original_path: string;
+  trash_path: string;
+  size: number;
+  deleted_at: number;
+  source: ScannerType;
+};
+
+const toTrashItem = (row: TrashRow): TrashItem => ({
+  id: row.id,
+  originalPath: row.original_path,
+  trashPath: row.trash_path,
+  size: row.size,
+  deletedAt: row.deleted_at,
+  source: row.source,
+});
+
+export async function addTrashItem(item: TrashItem): Promise<void> {
   if (!db) await initDatabase();
 
   try {
-    await db!.runAsync('DELETE FROM audios_scan_results');
     await db!.runAsync(
-      'INSERT INTO audios_scan_results (saved_at, results_data) VALUES (?, ?)',
-      [Date.now(), JSON.stringify(results)]
+      `INSERT OR REPLACE INTO trash_items (id, original_path, trash_path, size, deleted_at, source)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [item.id, item.originalPath, item.trashPath, item.size, item.deletedAt, item.source]
     );
   } catch (error) {
-    console.error('Failed to persist audios scan results:', error);
+    console.error('Failed to persist trash item:', error);
     throw error;
   }
 }
 
-export async function loadAudiosResults(): Promise<CategoryFile[]> {
+export async function loadTrashItems(): Promise<TrashItem[]> {
   if (!db) await initDatabase();
 
-  const result = await db!.getFirstAsync<{ results_data: string }>(
-    'SELECT results_data FROM audios_scan_results ORDER BY saved_at DESC LIMIT 1'
+  const rows = await db!.getAllAsync<TrashRow>(
+    'SELECT * FROM trash_items ORDER BY deleted_at DESC'
   );
 
-  if (!result) {
-    return [];
-  }
+  return rows.map(toTrashItem);
+}
 
-  try {
-    return JSON.parse(result.results_data) as CategoryFile[];
-  } catch (error) {
-    console.error('Failed to parse cached audios scan results:', error);
-    return [];
-  }
+export async function loadTrashItemsDeletedBefore(cutoff: number): Promise<TrashItem[]> {
+  if (!db) await initDatabase();
+
+  const rows = await db!.getAllAsync<TrashRow>(
+    'SELECT * FROM trash_items WHERE deleted_at < ? ORDER BY deleted_at ASC',
+    [cutoff]
+  );
+
+  return rows.map(toTrashItem);
 }
 
-export async function clearAudiosResults(): Promise<void> {
+export async function removeTrashItem(id: string): Promise<void> {
   if (!db) await initDatabase();
 
-  await db!.runAsync('DELETE FROM audios_scan_results');
+  await db!.runAsync('DELETE FROM trash_items WHERE id = ?', [id]);
 }
 
-export async function saveDocumentsResults(results: CategoryFile[]): Promise<void> {
+// Directory Snapshots (incremental scans)
+type DirectorySnapshotRow = {
+  path: string;
+  mtime: number;
+  scanned_at: number;
+  entries_data: string;
+};
+
+export async function loadDirectorySnapshots(): Promise<DirectorySnapshot[]> {
   if (!db) await initDatabase();
 
+  const rows = await db!.getAllAsync<DirectorySnapshotRow>('SELECT * FROM directory_snapshots');
+
+  return rows.flatMap((row) => {
+    try {
+      return [{
+        path: row.path,
+        mtime: row.mtime,
+        scannedAt: row.scanned_at,
+        entries: JSON.parse(row.entries_data) as DirectorySnapshotEntry[],
+      }];
+    } catch (error) {
+      console.error(`Failed to parse directory snapshot for ${row.path}:`, error);
+      return [];
+    }
+  });
+}
+
+export async function saveDirectorySnapshots(snapshots: DirectorySnapshot[]): Promise<void> {
+  if (!db) await initDatabase();
+  if (!snapshots.length) return;
+
   try {
-    await db!.runAsync('DELETE FROM documents_scan_results');
-    await db!.runAsync(
-      'INSERT INTO documents_scan_results (saved_at, results_data) VALUES (?, ?)',
-      [Date.now(), JSON.stringify(results)]
-    );
+    await runTransaction(async () => {
+      for (const snapshot of snapshots) {
+        await db!.runAsync(
+          `INSERT OR REPLACE INTO directory_snapshots (path, mtime, scanned_at, entries_data)
+           VALUES (?, ?, ?, ?)`,
+          [snapshot.path, snapshot.mtime, snapshot.scannedAt, JSON.stringify(snapshot.entries)]
+        );
+      }
+    });
   } catch (error) {
-    console.error('Failed to persist documents scan results:', error);
+    console.error('Failed to persist directory snapshots:', error);
     throw error;
   }
 }
 
-export async function loadDocumentsResults(): Promise<CategoryFile[]> {
+export async function removeDirectorySnapshots(paths: string[]): Promise<void> {
   if (!db) await initDatabase();
-
-  const result = await db!.getFirstAsync<{ results_data: string }>(
-    'SELECT results_data FROM documents_scan_results ORDER BY saved_at DESC LIMIT 1'
-  );
-
-  if (!result) {
-    return [];
+  if (!paths.length) return;
+
+  // Stay well below SQLite's bound-parameter limit
+  const CHUNK_SIZE = 500;
+  for (let i = 0; i < paths.length; i += CHUNK_SIZE) {
+    const chunk = paths.slice(i, i + CHUNK_SIZE);
+    const placeholders = chunk.map(() => '?').join(', ');
+    await db!.runAsync(`DELETE FROM directory_snapshots WHERE path IN (${placeholders})`, chunk);
   }
+}
 
-  try {
-    return JSON.parse(result.results_data) as CategoryFile[];
-  } catch (error) {
-    console.error('Failed to parse cached documents scan results:', error);
-    return [];
-  }
+export async function clearDirectorySnapshots(): Promise<void> {
+  if (!db) await initDatabase();
+
+  await db!.runAsync('DELETE FROM directory_snapshots');
 }
 
-export async function clearDocumentsResults(): Promise<void> {
+// Exclusion Rules (protected folders and files)
+type ExclusionRuleRow = {
+  id: string;
+  type: ExclusionRuleType;
+  pattern: string;
+  created_at: number;
+};
+
+export async function loadExclusionRules(): Promise<ExclusionRule[]> {
   if (!db) await initDatabase();
 
-  await db!.runAsync('DELETE FROM documents_scan_results');
+  const rows = await db!.getAllAsync<ExclusionRuleRow>(
+    'SELECT * FROM exclusion_rules ORDER BY created_at DESC'
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    type: row.type,
+    pattern: row.pattern,
+    createdAt: row.created_at,
+  }));
 }
 
-// APK Scanner Results
-export async function saveAPKResults(results: APKFileInfo[]): Promise<void> {
+export async function addExclusionRule(rule: ExclusionRule): Promise<void> {
   if (!db) await initDatabase();
 
   try {
-    await db!.runAsync('DELETE FROM apk_scan_results');
     await db!.runAsync(
-      'INSERT INTO apk_scan_results (saved_at, results_data) VALUES (?, ?)',
-      [Date.now(), JSON.stringify(results)]
+      `INSERT OR IGNORE INTO exclusion_rules (id, type, pattern, created_at)
+       VALUES (?, ?, ?, ?)`,
+      [rule.id, rule.type, rule.pattern, rule.createdAt]
     );
   } catch (error) {
-    console.error('Failed to persist APK scan results:', error);
+    console.error('Failed to persist exclusion rule:', error);
     throw error;
   }
 }
 
-export async function loadAPKResults(): Promise<APKFileInfo[]> {
+export async function removeExclusionRule(id: string): Promise<void> {
   if (!db) await initDatabase();
 
-  const result = await db!.getFirstAsync<{ results_data: string }>(
-    'SELECT results_data FROM apk_scan_results ORDER BY saved_at DESC LIMIT 1'
-  );
+  await db!.runAsync('DELETE FROM exclusion_rules WHERE id = ?', [id]);
+}
 
-  if (!result) {
-    return [];
-  }
+// Scan History (one row per scanner per run)
+type ScanHistoryRow = {
+  run_id: string;
+  scanner: ScanItemScanner;
+  source: ScanRunSource;
+  started_at: number;
+  duration_ms: number;
+  item_count: number;
+  total_bytes: number;
+  free_bytes: number | null;
+  junk_bytes: number | null;
+};
+
+export async function addScanHistoryEntries(entries: ScanHistoryEntry[]): Promise<void> {
+  if (!db) await initDatabase();
+  if (!entries.length) return;
 
   try {
-    return JSON.parse(result.results_data) as APKFileInfo[];
+    await runTransaction(async () => {
+      for (const entry of entries) {
+        await db!.runAsync(
+          `INSERT OR REPLACE INTO scan_history
+             (run_id, scanner, source, started_at, duration_ms, item_count, total_bytes, free_bytes, junk_bytes)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            entry.runId,
+            entry.scanner,
+            entry.source,
+            entry.startedAt,
+            Math.round(entry.durationMs),
+            entry.itemCount,
+            entry.totalBytes,
+            entry.freeBytes,
+            entry.junkBytes,
+          ]
+        );
+      }
+    });
   } catch (error) {
-    console.error('Failed to parse cached APK scan results:', error);
-    return [];
+    console.error('Failed to persist scan history:', error);
+    throw error;
   }
 }
 
-export async function clearAPKResults(): Promise<void> {
+export async function loadScanHistory(since: number = 0): Promise<ScanHistoryEntry[]> {
   if (!db) await initDatabase();
 
-  await db!.runAsync('DELETE FROM apk_scan_results');
+  const rows = await db!.getAllAsync<ScanHistoryRow>(
+    'SELECT * FROM scan_history WHERE started_at >= ? ORDER BY started_at ASC',
+    [since]
+  );
+
+  return rows.map((row) => ({
+    runId: row.run_id,
+    scanner: row.scanner,
+    source: row.source,
+    startedAt: row.started_at,
+    durationMs: row.duration_ms,
+    itemCount: row.item_count,
+    totalBytes: row.total_bytes,
+    freeBytes: row.free_bytes,
+    junkBytes: row.junk_bytes,
+  }));
 }
 
-// Caches Scanner Results
-export async function saveCachesResults(results: CacheItem[]): Promise<void> {
+export async function removeScanHistoryBefore(cutoff: number): Promise<void> {
+  if (!db) await initDatabase();
+
+  await db!.runAsync('DELETE FROM scan_history WHERE started_at < ?', [cutoff]);
+}
+
+// Cleanup Ledger (one row per delete operation)
+type CleanupLedgerRow = {
+  id: string;
+  scanner: ScannerType;
+  file_count: number;
+  bytes: number;
+  created_at: number;
+  paths_data: string;
+};
+
+const toCleanupLedgerEntry = (row: CleanupLedgerRow): CleanupLedgerEntry => {
+  let paths: string[] = [];
+  try {
+    paths = JSON.parse(row.paths_data) as string[];
+  } catch (error) {
+    console.error(`Failed to parse cleanup ledger paths for ${row.id}:`, error);
+  }
+  return {
+    id: row.id,
+    scanner: row.scanner,
+    fileCount: row.file_count,
+    bytes: row.bytes,
+    createdAt: row.created_at,
+    paths,
+  };
+};
+
+export async function addCleanupLedgerEntry(entry: CleanupLedgerEntry): Promise<void> {
   if (!db) await initDatabase();
 
   try {
-    await db!.runAsync('DELETE FROM caches_scan_results');
     await db!.runAsync(
-      'INSERT INTO caches_scan_results (saved_at, results_data) VALUES (?, ?)',
-      [Date.now(), JSON.stringify(results)]
+      `INSERT OR REPLACE INTO cleanup_ledger (id, scanner, file_count, bytes, created_at, paths_data)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [entry.id, entry.scanner, entry.fileCount, entry.bytes, entry.createdAt, JSON.stringify(entry.paths)]
     );
   } catch (error) {
-    console.error('Failed to persist caches scan results:', error);
+    console.error('Failed to persist cleanup ledger entry:', error);
     throw error;
   }
 }
 
-export async function loadCachesResults(): Promise<CacheItem[]> {
+export async function loadCleanupLedger(since: number = 0): Promise<CleanupLedgerEntry[]> {
   if (!db) await initDatabase();
 
-  const result = await db!.getFirstAsync<{ results_data: string }>(
-    'SELECT results_data FROM caches_scan_results ORDER BY saved_at DESC LIMIT 1'
+  const rows = await db!.getAllAsync<CleanupLedgerRow>(
+    'SELECT * FROM cleanup_ledger WHERE created_at >= ? ORDER BY created_at DESC',
+    [since]
   );
 
-  if (!result) {
-    return [];
-  }
-
-  try {
-    return JSON.parse(result.results_data) as CacheItem[];
-  } catch (error) {
-    console.error('Failed to parse cached caches scan results:', error);
-    return [];
-  }
+  return rows.map(toCleanupLedgerEntry);
 }
 
-export async function clearCachesResults(): Promise<void> {
+export async function loadCleanupLedgerEntry(id: string): Promise<CleanupLedgerEntry | null> {
   if (!db) await initDatabase();
 
-  await db!.runAsync('DELETE FROM caches_scan_results');
+  const row = await db!.getFirstAsync<CleanupLedgerRow>('SELECT * FROM cleanup_ledger WHERE id = ?', [id]);
+
+  return row ? toCleanupLedgerEntry(row) : null;
 }
 
-// Empty Folders Scanner Results
-export interface ScanDataSnapshot {
-  whatsappResults: WhatsAppScanResult[];
-  duplicateResults: DuplicateGroup[];
-  largeFileResults: LargeFileResult[];
-  oldFileResults: OldFileInfo[];
-  videosResults: CategoryFile[];
-  imagesResults: CategoryFile[];
-  audiosResults: CategoryFile[];
-  documentsResults: CategoryFile[];
-  apkResults: APKFileInfo[];
-  cachesResults: CacheItem[];
+export async function summarizeCleanupLedger(
+  since: number = 0,
+  until: number = Number.MAX_SAFE_INTEGER
+): Promise<CleanupTotals> {
+  if (!db) await initDatabase();
+
+  const row = await db!.getFirstAsync<{ operations: number; file_count: number; bytes: number }>(
+    `SELECT COUNT(*) AS operations, COALESCE(SUM(file_count), 0) AS file_count, COALESCE(SUM(bytes), 0) AS bytes
+     FROM cleanup_ledger WHERE created_at >= ? AND created_at < ?`,
+    [since, until]
+  );
+
+  return {
+    operations: row?.operations ?? 0,
+    fileCount: row?.file_count ?? 0,
+    bytes: row?.bytes ?? 0,
+  };
 }
 
-/**
- * Load the latest scan data for all scanners in one shot.
- */
-export async function loadAllScanResults(): Promise<ScanDataSnapshot> {
-  if (!db) await initDatabase();
-
-  const [
-    whatsappResults,
-    duplicateResults,
-    largeFileResults,
-    oldFileResults,
-    videosResults,
-    imagesResults,
-    audiosResults,
-    documentsResults,
-    apkResults,
-    cachesResults,
-  ] = await Promise.all([
-    loadWhatsAppResults(),
-    loadDuplicateGroups(),
-    loadLargeFileResults(),
-    loadOldFileResults(),
-    loadVideosResults(),
-    loadImagesResults(),
-    loadAudiosResults(),
-    loadDocumentsResults(),
-    loadAPKResults(),
-    loadCachesResults(),
-  ]);
+// Scan Walk Stats (one row per set of root paths)
+type ScanWalkStatsRow = {
+  scan_key: string;
+  directory_count: number;
+  file_count: number;
+  total_bytes: number;
+  used_bytes: number | null;
+  duration_ms: number;
+  finished_at: number;
+};
+
+export async function loadScanWalkStats(scanKey: string): Promise<ScanWalkStats | null> {
+  if (!db) await initDatabase();
+
+  const row = await db!.getFirstAsync<ScanWalkStatsRow>('SELECT * FROM scan_walk_stats WHERE scan_key = ?', [scanKey]);
+  if (!row) {
+    return null;
+  }
 
   return {
-    whatsappResults,
-    duplicateResults,
-    largeFileResults,
-    oldFileResults,
-    videosResults,
-    imagesResults,
-    audiosResults,
-    documentsResults,
-    apkResults,
-    cachesResults,
+    scanKey: row.scan_key,
+    directoryCount: row.directory_count,
+    fileCount: row.file_count,
+    totalBytes: row.total_bytes,
+    usedBytes: row.used_bytes,
+    durationMs: row.duration_ms,
+    finishedAt: row.finished_at,
   };
 }
 
-/**
- * Check whether any scan data exists in the database.
- */
-export async function hasAnyScanData(): Promise<boolean> {
-  const snapshot = await loadAllScanResults();
-
-  return (
-    snapshot.whatsappResults.length > 0 ||
-    snapshot.duplicateResults.length > 0 ||
-    snapshot.largeFileResults.length > 0 ||
-    snapshot.oldFileResults.length > 0 ||
-    snapshot.videosResults.length > 0 ||
-    snapshot.imagesResults.length > 0 ||
-    snapshot.audiosResults.length > 0 ||
-    snapshot.documentsResults.length > 0 ||
-    snapshot.apkResults.length > 0 ||
-    snapshot.cachesResults.length > 0
+export async function saveScanWalkStats(stats: ScanWalkStats): Promise<void> {
+  if (!db) await initDatabase();
+
+  await db!.runAsync(
+    `INSERT OR REPLACE INTO scan_walk_stats
+       (scan_key, directory_count, file_count, total_bytes, used_bytes, duration_ms, finished_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      stats.scanKey,
+      stats.directoryCount,
+      stats.fileCount,
+      stats.totalBytes,
+      stats.usedBytes,
+      Math.round(stats.durationMs),
+      stats.finishedAt,
+    ]
   );
 }
@@ -0,0 +1,13 @@
+import type { CategoryFile } from './fileCategoryCalculator';
+import type { ScannerType } from './smartScan';
+import { moveFilesToTrash, type DeletionResult } from './trash';
+
+/**
+ * Move category files (videos, images, audios, documents) to the trash.
+ */
+export const deleteCategoryFiles = async (
+  files: CategoryFile[],
+  source: Extract<ScannerType, 'videos' | 'images' | 'audios' | 'documents'>,
+): Promise<DeletionResult> => {
+  return moveFilesToTrash(files, source);
+};
@@ -0,0 +1,367 @@
+import CryptoJS from 'crypto-js';
+import RNFS from 'react-native-fs';
+import { getCachedFile, removeFileCacheEntries, saveFileCache, toCacheMtime, type FileCacheEntry } from './db';
+import { createExtensionFilter, createSizeFilter, fastScan, type ScanProgress } from './fastScanner';
+import { getRemovedPaths, moveFilesToTrash, type DeletionResult } from './trash';
+
+export interface DuplicateFile {
+  path: string;
+  size: number;
+  modifiedDate: number;
+}
+
+export type DuplicateScanMode = 'exact' | 'similar';
+
+export interface DuplicateGroup {
+  hash: string;
+  files: DuplicateFile[];
+  kind?: DuplicateScanMode;
+  similarity?: number; // 0-1, 1 means identical
+  category?: string;
+}
+
+export interface DuplicateDeleteResult extends DeletionResult {
+  groups: DuplicateGroup[];
+}
+
+export type DuplicateScanOptions = {
+  rootPaths: string[];
+  extensions?: string[]; // every file type when omitted
+  minSize?: number;
+  categorize?: (path: string) => string;
+};
+
+const HASH_BATCH_SIZE = 50; // Increased for parallel hashing
+const PARTIAL_HASH_CHUNK_SIZE = 16 * 1024; // Bytes read from each of head, middle and tail
+const PARTIAL_HASH_PREFIX = 'htm1_'; // Marks head+middle+tail hashes; older cache rows hold size_* or truncated MD5s
+const PARTIAL_HASH_CONCURRENT_BATCHES = 4; // Partial hashing does real I/O, keep fewer batches in flight
+const FULL_HASH_CONCURRENT_BATCHES = 10;
+
+type HashStage = 'partial-hashing' | 'full-hashing';
+
+const md5Base64 = (chunks: string[]): string => {
+  const hasher = CryptoJS.algo.MD5.create();
+  chunks.forEach((chunk) => hasher.update(CryptoJS.enc.Base64.parse(chunk)));
+  return hasher.finalize().toString();
+};
+
+// Hash of the first, middle and last chunk; small files are hashed whole so the result doubles as the full MD5
+const computePartialHash = async (filePath: string, fileSize: number): Promise<{ partialHash: string; fullHash: string | null }> => {
+  try {
+    if (fileSize <= PARTIAL_HASH_CHUNK_SIZE * 3) {
+      const fullHash = md5Base64([await RNFS.readFile(filePath, 'base64')]);
+      return { partialHash: `${PARTIAL_HASH_PREFIX}${fullHash}`, fullHash };
+    }
+
+    const offsets = [0, Math.floor((fileSize - PARTIAL_HASH_CHUNK_SIZE) / 2), fileSize - PARTIAL_HASH_CHUNK_SIZE];
+    const chunks = await Promise.all(
+      offsets.map((offset) => RNFS.read(filePath, PARTIAL_HASH_CHUNK_SIZE, offset, 'base64')),
+    );
+    return { partialHash: `${PARTIAL_HASH_PREFIX}${md5Base64(chunks)}`, fullHash: null };
+  } catch {
+    return { partialHash: '', fullHash: null };
+  }
+};
+
+const computeMD5Hash = async (filePath: string): Promise<string> => {
+  // Always try native hash first (much faster)
+  try {
+    if (typeof (RNFS as any).hash === 'function') {
+      const hash = await (RNFS as any).hash(filePath, 'md5');
+      if (hash && hash.length > 0) {
+        return hash;
+      }
+    }
+  } catch (error) {
+    // If native hash fails, fall through to manual hashing
+    console.warn(`[DuplicateScan] Native hash failed for ${filePath}, using manual hash:`, error);
+  }
+
+  // Fallback to manual hashing (slower but works)
+  try {
+    const content = await RNFS.readFile(filePath, 'base64');
+    const wordArray = CryptoJS.enc.Base64.parse(content);
+    return CryptoJS.MD5(wordArray).toString();
+  } catch {
+    return '';
+  }
+};
+
+const getFreshCacheEntry = async (file: DuplicateFile): Promise<FileCacheEntry | null> => {
+  try {
+    const cached = await getCachedFile(file.path);
+    if (cached && cached.size === file.size && cached.modifiedDate === toCacheMtime(file.modifiedDate)) {
+      return cached;
+    }
+  } catch {
+    // ignore cache errors, fall back to hashing
+  }
+  return null;
+};
+
+const persistHashes = async (file: DuplicateFile, partialHash: string, fullHash: string | null) => {
+  // Persist hashes so future scans can skip hashing unchanged files
+  try {
+    await saveFileCache({
+      path: file.path,
+      size: file.size,
+      partialHash,
+      fullHash,
+      modifiedDate: file.modifiedDate,
+    });
+  } catch {
+    // Cache failures should not break scanning
+  }
+};
+
+const getOrComputePartialHash = async (file: DuplicateFile): Promise<string> => {
+  const cached = await getFreshCacheEntry(file);
+  if (cached?.partialHash.startsWith(PARTIAL_HASH_PREFIX)) {
+    return cached.partialHash;
+  }
+
+  const { partialHash, fullHash } = await computePartialHash(file.path, file.size);
+  if (partialHash) {
+    // A full hash from an earlier scan is still valid for an unchanged file
+    await persistHashes(file, partialHash, fullHash ?? cached?.fullHash ?? null);
+  }
+  return partialHash;
+};
+
+const getOrComputeFullHash = async (file: DuplicateFile): Promise<string> => {
+  const cached = await getFreshCacheEntry(file);
+  if (cached?.fullHash) {
+    return cached.fullHash;
+  }
+
+  const fullHash = await computeMD5Hash(file.path);
+  if (fullHash) {
+    await persistHashes(file, cached?.partialHash ?? '', fullHash);
+  }
+  return fullHash;
+};
+
+export const createThrottledProgress = (onProgress?: (progress: ScanProgress) => void) => {
+  let lastEmit = 0;
+  const PROGRESS_THROTTLE_MS = 200;
+  return (progress: ScanProgress) => {
+    const now = Date.now();
+    if (now - lastEmit >= PROGRESS_THROTTLE_MS) {
+      lastEmit = now;
+      onProgress?.(progress);
+    }
+  };
+};
+
+/**
+ * Hash every file in parallel batches and bucket them by hash; files that fail to hash are dropped.
+ */
+const groupByHash = async (
+  files: DuplicateFile[],
+  computeHash: (file: DuplicateFile) => Promise<string>,
+  stage: HashStage,
+  maxConcurrentBatches: number,
+  emitProgress: (progress: ScanProgress) => void,
+  cancelRef?: { current: boolean },
+): Promise<Map<string, DuplicateFile[]>> => {
+  const hashGroups = new Map<string, DuplicateFile[]>();
+  let hashed = 0;
+
+  const batches: DuplicateFile[][] = [];
+  for (let i = 0; i < files.length; i += HASH_BATCH_SIZE) {
+    batches.push(files.slice(i, i + HASH_BATCH_SIZE));
+  }
+
+  const processBatch = async (batch: DuplicateFile[]) => {
+    await Promise.allSettled(
+      batch.map(async (file) => {
+        if (cancelRef?.current) {
+          return;
+        }
+
+        const hash = await computeHash(file);
+        if (hash) {
+          const existing = hashGroups.get(hash) || [];
+          hashGroups.set(hash, [...existing, file]);
+        }
+
+        hashed += 1;
+        emitProgress({
+          total: files.length,
+          current: hashed,
+          scannedFiles: hashed,
+          stage,
+          currentFile: file.path.split('/').pop() || file.path,
+        });
+      }),
+    );
+  };
+
+  for (let i = 0; i < batches.length; i += maxConcurrentBatches) {
+    if (cancelRef?.current) {
+      break;
+    }
+    const batchGroup = batches.slice(i, i + maxConcurrentBatches);
+    await Promise.all(batchGroup.map(processBatch));
+  }
+
+  return hashGroups;
+};
+
+// Files that share a bucket with at least one other file
+const collectCollisions = <K>(groups: Map<K, DuplicateFile[]>): DuplicateFile[] => {
+  const collisions: DuplicateFile[] = [];
+  for (const [, group] of groups) {
+    if (group.length > 1) {
+      collisions.push(...group);
+    }
+  }
+  return collisions;
+};
+
+/**
+ * Group files with identical content in three stages, each narrowing the candidates for the next:
+ * size, a head+middle+tail partial hash, then a full MD5 only for partial-hash collisions.
+ * Both hashes are cached in file_cache.
+ */
+export const findDuplicateGroups = async (
+  files: DuplicateFile[],
+  onProgress?: (progress: ScanProgress) => void,
+  cancelRef?: { current: boolean },
+): Promise<DuplicateGroup[]> => {
+  const emitProgress = createThrottledProgress(onProgress);
+  if (files.length === 0) {
+    return [];
+  }
+
+  emitProgress({ total: files.length, current: 0, stage: 'grouping', currentFile: 'analyzing sizes' });
+
+  // Phase 1: Group by size (fast, no I/O)
+  const sizeGroups = new Map<number, DuplicateFile[]>();
+  for (const file of files) {
+    const existing = sizeGroups.get(file.size) || [];
+    sizeGroups.set(file.size, [...existing, file]);
+  }
+
+  const sizeCandidates = collectCollisions(sizeGroups);
+  if (sizeCandidates.length === 0) {
+    return [];
+  }
+
+  // Phase 2: Partial hash reads a few KB per file to split same-size files apart
+  emitProgress({ total: sizeCandidates.length, current: 0, stage: 'partial-hashing', currentFile: 'computing partial hashes' });
+  const partialHashGroups = await groupByHash(
+    sizeCandidates,
+    getOrComputePartialHash,
+    'partial-hashing',
+    PARTIAL_HASH_CONCURRENT_BATCHES,
+    emitProgress,
+    cancelRef,
+  );
+
+  const partialCandidates = collectCollisions(partialHashGroups);
+  if (cancelRef?.current || partialCandidates.length === 0) {
+    return [];
+  }
+
+  // Phase 3: Full hash only for files with matching partial hashes
+  emitProgress({ total: partialCandidates.length, current: 0, stage: 'full-hashing', currentFile: 'computing full hashes' });
+  const fullHashGroups = await groupByHash(
+    partialCandidates,
+    getOrComputeFullHash,
+    'full-hashing',
+    FULL_HASH_CONCURRENT_BATCHES,
+    emitProgress,
+    cancelRef,
+  );
+
+  console.log(
+    `[DuplicateScan] sizeCandidates=${sizeCandidates.length} partialCandidates=${partialCandidates.length}`,
+  );
+
+  // Build final duplicate groups
+  const duplicates: DuplicateGroup[] = [];
+  for (const [hash, group] of fullHashGroups) {
+    if (group.length > 1) {
+      duplicates.push({ hash, files: group, kind: 'exact', similarity: 1 });
+    }
+  }
+
+  return duplicates;
+};
+
+/**
+ * Collect files under the given roots and group the ones with identical content, labelled by category.
+ */
+export const scanDuplicateFiles = async (
+  options: DuplicateScanOptions,
+  onProgress?: (progress: ScanProgress) => void,
+  cancelRef?: { current: boolean },
+): Promise<DuplicateGroup[]> => {
+  const { rootPaths, extensions, minSize = 0, categorize } = options;
+  const extensionFilter = extensions ? createExtensionFilter(extensions) : null;
+  const sizeFilter = createSizeFilter(minSize);
+
+  const entries = await fastScan<RNFS.ReadDirItem>({
+    rootPaths,
+    fileFilter: (entry) => (!extensionFilter || extensionFilter(entry)) && sizeFilter(entry),
+    onProgress: (progress) => {
+      onProgress?.({
+        ...progress,
+        stage: 'collecting',
+      });
+    },
+    cancelRef,
+  });
+  if (cancelRef?.current) {
+    return [];
+  }
+
+  const files: DuplicateFile[] = entries.map((entry) => ({
+    path: entry.path,
+    size: typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0,
+    modifiedDate: entry.mtime ? entry.mtime.getTime() : Date.now(),
+  }));
+
+  const groups = await findDuplicateGroups(files, onProgress, cancelRef);
+  return categorize
+    ? groups.map((group) => ({ ...group, category: categorize(group.files[0].path) }))
+    : groups;
+};
+
+/**
+ * Groups in which every copy is part of `paths`, i.e. deleting would lose the file entirely.
+ */
+export const findFullyDeletedGroups = (groups: DuplicateGroup[], paths: Set<string>): DuplicateGroup[] =>
+  groups.filter((group) => group.files.length > 0 && group.files.every((file) => paths.has(file.path)));
+
+/**
+ * Move the selected duplicates to the trash and return the groups that remain.
+ * Refuses to run when a selection would remove every copy in a group.
+ */
+export const deleteDuplicateFiles = async (
+  groups: DuplicateGroup[],
+  paths: string[],
+): Promise<DuplicateDeleteResult> => {
+  const selected = new Set(paths);
+  if (findFullyDeletedGroups(groups, selected).length > 0) {
+    throw new Error('keep at least one copy in every duplicate group');
+  }
+
+  const filesToDelete = groups.flatMap((group) => group.files.filter((file) => selected.has(file.path)));
+  const result = await moveFilesToTrash(filesToDelete, 'duplicates');
+
+  const removed = getRemovedPaths(result);
+  const remainingGroups = groups
+    .map((group) => ({ ...group, files: group.files.filter((file) => !removed.has(file.path)) }))
+    .filter((group) => group.files.length > 1);
+
+  // Hashes of removed paths are stale; a future file at the same path must be rehashed
+  try {
+    await removeFileCacheEntries([...removed]);
+  } catch (error) {
+    console.error('Failed to drop file cache rows for deleted duplicates:', error);
+  }
+
+  return { ...result, groups: remainingGroups };
+};
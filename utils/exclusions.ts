@@ -0,0 +1,191 @@
+import RNFS from 'react-native-fs';
+import {
+  addExclusionRule,
+  loadExclusionRules,
+  removeExclusionRule,
+  type ExclusionRule,
+  type ExclusionRuleType,
+} from './db';
+import { canonicalizePath } from './pathIdentity';
+
+export type { ExclusionRule, ExclusionRuleType };
+
+export interface ExclusionMatcher {
+  // True when the path is covered by a rule and must not be listed by a scanner
+  isExcluded: (path: string) => boolean;
+  // True when deleting the path would remove a protected file, including directories that contain one
+  isProtected: (path: string) => boolean;
+  // Glob rules name no fixed path, so only a walk tells whether a folder holds a match
+  hasGlobs: boolean;
+}
+
+// Rules change rarely, so every scan and delete shares one compiled matcher until they do
+let cachedMatcher: Promise<ExclusionMatcher> | null = null;
+
+const createRuleId = (): string =>
+  `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Strip file:// URIs and trailing slashes, resolve relative paths against shared storage and map
+ * storage aliases, so "DCIM/Camera", "/sdcard/DCIM/Camera" and "/storage/emulated/0/DCIM/Camera/"
+ * describe the same folder.
+ */
+export const normalizeExclusionPath = (path: string): string => {
+  const trimmed = path.trim().replace(/^file:\/\//, '').replace(/\/+$/, '');
+  if (trimmed.startsWith('/')) {
+    return canonicalizePath(trimmed);
+  }
+  const base = (RNFS.ExternalStorageDirectoryPath || '').replace(/\/+$/, '');
+  return canonicalizePath(`${base}/${trimmed}`);
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * `*` matches within one path segment, `**` across segments and `?` a single character.
+ * Globs without a leading slash match at any depth, and a matching folder covers everything inside it.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  const pattern = glob.trim().replace(/^file:\/\//, '').replace(/\/+$/, '');
+  let source = '';
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  const anchor = pattern.startsWith('/') ? '^' : '(?:^|/)';
+  return new RegExp(`${anchor}${source}(?:/.*)?$`, 'i');
+};
+
+const isSameOrInside = (path: string, folder: string): boolean =>
+  path === folder || path.startsWith(`${folder}/`);
+
+export const createExclusionMatcher = (rules: ExclusionRule[]): ExclusionMatcher => {
+  // Shared storage ignores case, so DCIM/camera and DCIM/Camera are one folder there
+  const sharedStorage = canonicalizePath(RNFS.ExternalStorageDirectoryPath || '/storage/emulated/0');
+  const toMatchKey = (path: string): string => {
+    const canonical = canonicalizePath(path.replace(/^file:\/\//, ''));
+    return isSameOrInside(canonical, sharedStorage) ? canonical.toLowerCase() : canonical;
+  };
+
+  const folders = rules
+    .filter((rule) => rule.type === 'prefix')
+    .map((rule) => toMatchKey(normalizeExclusionPath(rule.pattern)));
+  const files = new Set(
+    rules.filter((rule) => rule.type === 'file').map((rule) => toMatchKey(normalizeExclusionPath(rule.pattern))),
+  );
+  const globs = rules.filter((rule) => rule.type === 'glob').map((rule) => globToRegExp(rule.pattern));
+  const literalPaths = [...folders, ...files];
+
+  const isExcluded = (path: string): boolean => {
+    if (!rules.length) {
+      return false;
+    }
+    const target = toMatchKey(path);
+    return (
+      files.has(target) ||
+      folders.some((folder) => isSameOrInside(target, folder)) ||
+      globs.some((glob) => glob.test(target))
+    );
+  };
+
+  const isProtected = (path: string): boolean => {
+    if (isExcluded(path)) {
+      return true;
+    }
+    const target = toMatchKey(path);
+    return literalPaths.some((protectedPath) => protectedPath.startsWith(`${target}/`));
+  };
+
+  return { isExcluded, isProtected, hasGlobs: globs.length > 0 };
+};
+
+/**
+ * Like `isProtected`, but also walks a folder that is about to go whole when a glob rule could
+ * match something inside it. A folder that cannot be listed counts as protected, since nothing
+ * inside it could be checked.
+ */
+export const containsProtectedPath = async (matcher: ExclusionMatcher, path: string): Promise<boolean> => {
+  if (matcher.isProtected(path)) {
+    return true;
+  }
+  if (!matcher.hasGlobs) {
+    return false;
+  }
+
+  const root = path.replace(/^file:\/\//, '');
+  if (!(await RNFS.exists(root))) {
+    return false;
+  }
+  try {
+    if (!(await RNFS.stat(root)).isDirectory()) {
+      return false;
+    }
+    const pending = [root];
+    while (pending.length) {
+      const entries = await RNFS.readDir(pending.pop()!);
+      for (const entry of entries) {
+        if (matcher.isExcluded(entry.path)) {
+          return true;
+        }
+        if (entry.isDirectory()) {
+          pending.push(entry.path);
+        }
+      }
+    }
+    return false;
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * Matcher for the persisted rules, compiled once and reused until the rules change.
+ */
+export const getExclusionMatcher = (): Promise<ExclusionMatcher> => {
+  if (!cachedMatcher) {
+    cachedMatcher = loadExclusionRules()
+      .then(createExclusionMatcher)
+      .catch((error) => {
+        cachedMatcher = null;
+        throw error;
+      });
+  }
+  return cachedMatcher;
+};
+
+export const getExclusionRules = async (): Promise<ExclusionRule[]> => loadExclusionRules();
+
+export const addExclusion = async (type: ExclusionRuleType, pattern: string): Promise<ExclusionRule> => {
+  if (!pattern.trim()) {
+    throw new Error('enter a folder, file or pattern to exclude');
+  }
+
+  const value = type === 'glob' ? pattern.trim() : normalizeExclusionPath(pattern);
+
+  const rule: ExclusionRule = { id: createRuleId(), type, pattern: value, createdAt: Date.now() };
+  await addExclusionRule(rule);
+  cachedMatcher = null;
+  return rule;
+};
+
+export const removeExclusion = async (id: string): Promise<void> => {
+  await removeExclusionRule(id);
+  cachedMatcher = null;
+};
+
+/**
+ * Drop results that fall under an exclusion rule.
+ */
+export const filterExcluded = async <T extends { path: string }>(items: T[]): Promise<T[]> => {
+  const matcher = await getExclusionMatcher();
+  return items.filter((item) => !matcher.isExcluded(item.path));
+};
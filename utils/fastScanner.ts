@@ -1,4 +1,22 @@
 import RNFS from 'react-native-fs';
+import {
+  loadDirectorySnapshots,
+  removeDirectorySnapshots,
+  saveDirectorySnapshots,
+  type DirectorySnapshot,
+  type DirectorySnapshotEntry,
+} from './db';
+import { getExclusionMatcher } from './exclusions';
+import {
+  createDirectoryIdentityTracker,
+  dedupeRootPaths,
+  getDirectoryMtime,
+  getFileIdentity,
+  getPathDepth,
+  MAX_DIRECTORY_DEPTH,
+} from './pathIdentity';
+import { createProgressEstimator } from './scanEstimator';
+import { runAdaptivePool, type PoolStats } from './scanScheduler';
 
 export interface ScanProgress {
   total: number;
@@ -6,22 +24,52 @@ export interface ScanProgress {
   scannedFiles?: number;
   currentFile?: string;
   stage?: string;
+  progress?: number; // 0-1 estimate of the whole walk that never moves backwards
+  etaMs?: number | null; // estimated time left, null until there is something to base it on
 }
 
 export interface FastScanOptions<T = RNFS.ReadDirItem> {
   rootPaths: string[];
   fileFilter?: (entry: RNFS.ReadDirItem) => boolean;
   skipPatterns?: RegExp[];
-  maxConcurrentDirs?: number; // 4-8 based on device
-  batchSize?: number; // 50-100
+  minConcurrentDirs?: number; // bounds for the adaptive worker pool
+  maxConcurrentDirs?: number;
+  batchSize?: number;
   onProgress?: (progress: ScanProgress) => void;
   cancelRef?: { current: boolean };
   transform?: (entry: RNFS.ReadDirItem) => T | null;
+  incremental?: boolean; // reuse persisted listings of directories whose mtime has not changed
+  onChanges?: (changes: ScanChanges) => void;
+  onChunk?: (chunk: T[]) => void; // matching entries in batches while the walk is still running
+  onStats?: (stats: FastScanStats) => void;
+}
+
+export interface FastScanStats extends PoolStats {
+  directories: number; // directories actually read; `completed` also counts skipped ones
+  files: number;
+  filesPerSecond: number;
+}
+
+/**
+ * Files that differ from the persisted directory snapshots, after `fileFilter` is applied.
+ * The first incremental run reports every file as added.
+ */
+export interface ScanChanges {
+  added: RNFS.ReadDirItem[];
+  removed: RNFS.ReadDirItem[];
+  changed: RNFS.ReadDirItem[];
 }
 
 const DEFAULT_BATCH_SIZE = 150;
-const DEFAULT_MAX_CONCURRENT = 15;
+const DEFAULT_MIN_CONCURRENT = 2;
+const DEFAULT_MAX_CONCURRENT = 24;
+const INITIAL_CONCURRENT = 8;
 const PROGRESS_THROTTLE_MS = 200;
+const CHUNK_FLUSH_MS = 250;
+// Directory mtimes only have one-second resolution, so a listing taken within that window may miss later writes
+const MTIME_GRANULARITY_MS = 2000;
+// Re-stats are single cheap calls, so fewer of them run at once than directory reads
+const MAX_CONCURRENT_RESTATS = 8;
 
 // Default skip patterns for system directories
 const DEFAULT_SKIP_PATTERNS = [
@@ -47,6 +95,186 @@ const safeReadDir = async (directory: string): Promise<RNFS.ReadDirItem[]> => {
   }
 };
 
+const toSnapshotEntry = (entry: RNFS.ReadDirItem): DirectorySnapshotEntry => ({
+  name: entry.name,
+  path: entry.path,
+  size: entry.size,
+  mtime: entry.mtime ? entry.mtime.getTime() : null,
+  isDirectory: entry.isDirectory(),
+});
+
+const toReadDirItem = (entry: DirectorySnapshotEntry): RNFS.ReadDirItem => ({
+  ctime: undefined,
+  mtime: entry.mtime !== null ? new Date(entry.mtime) : undefined,
+  name: entry.name,
+  path: entry.path,
+  size: entry.size,
+  isFile: () => !entry.isDirectory,
+  isDirectory: () => entry.isDirectory,
+});
+
+// Fresh size and mtime for a file of a reused listing; null when it is gone
+const restatFile = async (entry: RNFS.ReadDirItem): Promise<RNFS.ReadDirItem | null> => {
+  try {
+    const stat = await RNFS.stat(entry.path);
+    return toReadDirItem({
+      ...toSnapshotEntry(entry),
+      size: stat.size,
+      // RNFS.stat hands back a Date at runtime even though it is typed as a number
+      mtime: stat.mtime ? new Date(stat.mtime).getTime() : null,
+    });
+  } catch {
+    return null;
+  }
+};
+
+const getParentPath = (path: string) => path.slice(0, path.lastIndexOf('/'));
+
+const isSameFile = (before: RNFS.ReadDirItem, after: RNFS.ReadDirItem) =>
+  before.size === after.size && (before.mtime?.getTime() ?? null) === (after.mtime?.getTime() ?? null);
+
+/**
+ * Reads directories through the persisted snapshots and tracks what changed since the last run.
+ * An unchanged directory mtime only proves the set of names is the same: editing a file in place
+ * leaves its folder alone. So the files of a reused listing that the scan keeps are stat'ed again
+ * by `verifyFiles` once the walk is done; the others are trusted as they were.
+ */
+const createSnapshotReader = async (fileFilter?: (entry: RNFS.ReadDirItem) => boolean) => {
+  const snapshots = new Map<string, DirectorySnapshot>();
+  try {
+    (await loadDirectorySnapshots()).forEach((snapshot) => snapshots.set(snapshot.path, snapshot));
+  } catch (error) {
+    console.warn('[FastScan] Failed to load directory snapshots, doing a full scan:', error);
+  }
+
+  const updated = new Map<string, DirectorySnapshot>();
+  const stale: string[] = [];
+  const changes: ScanChanges = { added: [], removed: [], changed: [] };
+  const reusedDirectories = new Set<string>();
+  let reread = 0;
+
+  const matchesFilter = (entry: RNFS.ReadDirItem) => entry.isFile() && (!fileFilter || fileFilter(entry));
+
+  // Everything under a deleted directory is gone too
+  const removeDirectoryTree = (directory: string) => {
+    const prefix = `${directory}/`;
+    for (const [path, snapshot] of snapshots) {
+      if (path === directory || path.startsWith(prefix)) {
+        snapshot.entries.map(toReadDirItem).filter(matchesFilter).forEach((entry) => changes.removed.push(entry));
+        stale.push(path);
+      }
+    }
+  };
+
+  const diffListing = (previous: DirectorySnapshotEntry[], current: RNFS.ReadDirItem[]) => {
+    const previousByPath = new Map(previous.map((entry) => [entry.path, entry]));
+    current.forEach((entry) => {
+      const before = previousByPath.get(entry.path);
+      previousByPath.delete(entry.path);
+      if (!matchesFilter(entry)) {
+        return;
+      }
+      if (!before || before.isDirectory) {
+        changes.added.push(entry);
+      } else if (!isSameFile(toReadDirItem(before), entry)) {
+        changes.changed.push(entry);
+      }
+    });
+    previousByPath.forEach((entry) => {
+      if (entry.isDirectory) {
+        removeDirectoryTree(entry.path);
+      } else {
+        const item = toReadDirItem(entry);
+        if (matchesFilter(item)) {
+          changes.removed.push(item);
+        }
+      }
+    });
+  };
+
+  const readDirectory = async (directory: string): Promise<RNFS.ReadDirItem[]> => {
+    const previous = snapshots.get(directory);
+    const mtime = await getDirectoryMtime(directory);
+    if (
+      previous &&
+      mtime !== null &&
+      previous.mtime === mtime &&
+      mtime < previous.scannedAt - MTIME_GRANULARITY_MS
+    ) {
+      reusedDirectories.add(directory);
+      return previous.entries.map(toReadDirItem);
+    }
+
+    const scannedAt = Date.now();
+    const entries = await safeReadDir(directory);
+    reread += 1;
+    diffListing(previous?.entries ?? [], entries);
+    if (mtime !== null) {
+      updated.set(directory, { path: directory, mtime, scannedAt, entries: entries.map(toSnapshotEntry) });
+    }
+    return entries;
+  };
+
+  const isReused = (entry: RNFS.ReadDirItem) => reusedDirectories.has(getParentPath(entry.path));
+
+  // The listing stays trusted, only the entry of a file edited in place or gone is rewritten
+  const patchSnapshot = (entry: RNFS.ReadDirItem, fresh: RNFS.ReadDirItem | null) => {
+    const directory = getParentPath(entry.path);
+    const snapshot = updated.get(directory) ?? snapshots.get(directory);
+    if (!snapshot) {
+      return;
+    }
+    const entries = fresh
+      ? snapshot.entries.map((item) => (item.path === entry.path ? toSnapshotEntry(fresh) : item))
+      : snapshot.entries.filter((item) => item.path !== entry.path);
+    updated.set(directory, { ...snapshot, entries });
+  };
+
+  /**
+   * Stat kept files of reused listings through the bounded pool and resolve with their current
+   * state; files that are gone are left out.
+   */
+  const verifyFiles = async (
+    entries: RNFS.ReadDirItem[],
+    cancelRef?: { current: boolean },
+  ): Promise<RNFS.ReadDirItem[]> => {
+    const verified: RNFS.ReadDirItem[] = [];
+    await runAdaptivePool(
+      [...entries],
+      async (entry) => {
+        const startedAt = Date.now();
+        const fresh = await restatFile(entry);
+        if (!fresh) {
+          changes.removed.push(entry);
+          patchSnapshot(entry, null);
+        } else {
+          if (!isSameFile(entry, fresh)) {
+            changes.changed.push(fresh);
+            patchSnapshot(entry, fresh);
+          }
+          verified.push(fresh);
+        }
+        return Date.now() - startedAt;
+      },
+      { minConcurrency: 1, maxConcurrency: MAX_CONCURRENT_RESTATS, cancelRef },
+    );
+    return verified;
+  };
+
+  const persist = async () => {
+    try {
+      await removeDirectorySnapshots(stale);
+      await saveDirectorySnapshots([...updated.values()]);
+    } catch (error) {
+      // Snapshot failures only cost speed on the next scan
+      console.warn('[FastScan] Failed to persist directory snapshots:', error);
+    }
+    return { reused: reusedDirectories.size, reread, changes };
+  };
+
+  return { readDirectory, isReused, verifyFiles, persist };
+};
+
 const createThrottledProgress = (onProgress?: (progress: ScanProgress) => void) => {
   let lastEmit = 0;
   return (progress: ScanProgress) => {
@@ -59,7 +287,43 @@ const createThrottledProgress = (onProgress?: (progress: ScanProgress) => void)
 };
 
 /**
- * Fast parallel directory scanner with configurable concurrency and batching
+ * Buffers matching entries and hands them out at most every CHUNK_FLUSH_MS.
+ * The first flush is immediate so the UI has something to show right away.
+ */
+const createChunkEmitter = <T>(onChunk?: (chunk: T[]) => void) => {
+  let pending: T[] = [];
+  let lastFlush = 0;
+
+  const flush = () => {
+    if (!onChunk || !pending.length) {
+      return;
+    }
+    const chunk = pending;
+    pending = [];
+    lastFlush = Date.now();
+    onChunk(chunk);
+  };
+
+  return {
+    push: (item: T) => {
+      if (onChunk) {
+        pending.push(item);
+      }
+    },
+    flushIfDue: () => {
+      if (Date.now() - lastFlush >= CHUNK_FLUSH_MS) {
+        flush();
+      }
+    },
+    flush,
+  };
+};
+
+/**
+ * Fast parallel directory scanner. Directories are read by an adaptive worker pool that tunes
+ * its concurrency to the device while the walk runs. Roots are canonicalized so storage aliases
+ * are walked once, directories that loop back through a symlink are skipped, and files listed
+ * again through an alias of a folder elsewhere are dropped.
  */
 export async function fastScan<T = RNFS.ReadDirItem>(
   options: FastScanOptions<T>,
@@ -68,31 +332,96 @@ export async function fastScan<T = RNFS.ReadDirItem>(
     rootPaths,
     fileFilter,
     skipPatterns = DEFAULT_SKIP_PATTERNS,
+    minConcurrentDirs = DEFAULT_MIN_CONCURRENT,
     maxConcurrentDirs = DEFAULT_MAX_CONCURRENT,
     batchSize = DEFAULT_BATCH_SIZE,
     onProgress,
     cancelRef,
     transform,
+    incremental = false,
+    onChanges,
+    onChunk,
+    onStats,
   } = options;
 
   const emitProgress = createThrottledProgress(onProgress);
+  const chunks = createChunkEmitter(onChunk);
+  const roots = dedupeRootPaths(rootPaths);
+  const [exclusions, estimator] = await Promise.all([getExclusionMatcher(), createProgressEstimator(roots)]);
+  const snapshotReader = incremental ? await createSnapshotReader(fileFilter) : null;
+  const findAliasedDirectory = createDirectoryIdentityTracker();
   const results: T[] = [];
-  const queue: string[] = [...rootPaths];
+  const queue: string[] = [...roots];
   const visited = new Set<string>();
   let processed = 0;
+  let aliasedDirectories = 0;
+  let aliasedFiles = 0;
+  let tooDeepDirectories = 0;
   let scannedFiles = 0;
+  // Every file the walk sees, matching or not, for the progress estimate
+  let walkedFiles = 0;
+  let walkedBytes = 0;
+  // Kept files of reused listings, stat'ed again once the walk is done
+  const unverifiedFiles: RNFS.ReadDirItem[] = [];
+
+  const keepFile = (entry: RNFS.ReadDirItem) => {
+    // Transform or use entry directly
+    const transformed = transform ? transform(entry) : (entry as T);
+    if (transformed !== null && transformed !== undefined) {
+      results.push(transformed);
+      chunks.push(transformed);
+      scannedFiles += 1;
+    }
+  };
 
-  emitProgress({ total: 0, current: 0, stage: 'scanning', currentFile: 'initializing' });
+  const getWalkCounts = () => ({
+    directories: processed,
+    queued: queue.length,
+    files: walkedFiles,
+    bytes: walkedBytes,
+  });
 
-  // Process directories in parallel with worker pool
-  const processDirectory = async (dir: string): Promise<void> => {
-    if (cancelRef?.current || visited.has(dir) || shouldSkipPath(dir, skipPatterns)) {
+  emitProgress({
+    total: 0,
+    current: 0,
+    stage: 'scanning',
+    currentFile: 'initializing',
+    ...estimator.estimate(getWalkCounts()),
+  });
+
+  // Resolves with the time spent reading the directory so the pool can watch I/O latency
+  const processDirectory = async (dir: string): Promise<number | void> => {
+    if (
+      cancelRef?.current ||
+      visited.has(dir) ||
+      shouldSkipPath(dir, skipPatterns) ||
+      exclusions.isExcluded(dir)
+    ) {
       return;
     }
 
     visited.add(dir);
 
-    const entries = await safeReadDir(dir);
+    // A symlink loop the fingerprint cannot catch still runs out of depth
+    if (getPathDepth(dir) > MAX_DIRECTORY_DEPTH) {
+      tooDeepDirectories += 1;
+      return;
+    }
+
+    const readStartedAt = Date.now();
+    const entries = snapshotReader ? await snapshotReader.readDirectory(dir) : await safeReadDir(dir);
+    const readMs = Date.now() - readStartedAt;
+
+    // A symlink back up the tree would walk the same files again until the depth limit
+    const match = await findAliasedDirectory(dir, entries);
+    if (match?.kind === 'loop') {
+      aliasedDirectories += 1;
+      return readMs;
+    }
+    // Files of an alias were already listed through the folder it points at
+    const listedElsewhere = match
+      ? new Set((await safeReadDir(match.path)).filter((entry) => entry.isFile()).map(getFileIdentity))
+      : null;
     processed += 1;
 
     // Process entries in batches
@@ -108,8 +437,8 @@ export async function fastScan<T = RNFS.ReadDirItem>(
             return;
           }
 
-          // Early skip pattern check
-          if (shouldSkipPath(entry.path, skipPatterns)) {
+          // Early skip pattern and user exclusion check
+          if (shouldSkipPath(entry.path, skipPatterns) || exclusions.isExcluded(entry.path)) {
             return;
           }
 
@@ -122,22 +451,31 @@ export async function fastScan<T = RNFS.ReadDirItem>(
           }
 
           if (entry.isFile()) {
+            if (listedElsewhere?.has(getFileIdentity(entry))) {
+              aliasedFiles += 1;
+              return;
+            }
+            walkedFiles += 1;
+            walkedBytes += typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
+
             // Apply file filter if provided
             if (fileFilter && !fileFilter(entry)) {
               return;
             }
 
-            // Transform or use entry directly
-            const transformed = transform ? transform(entry) : (entry as T);
-            if (transformed !== null && transformed !== undefined) {
-              results.push(transformed);
-              scannedFiles += 1;
+            // A reused listing may hold a stale size or mtime, so it is checked before it counts
+            if (snapshotReader?.isReused(entry)) {
+              unverifiedFiles.push(entry);
+              return;
             }
+            keepFile(entry);
           }
         }),
       );
     }
 
+    chunks.flushIfDue();
+
     // Emit progress
     const total = processed + queue.length || 1;
     emitProgress({
@@ -146,52 +484,67 @@ export async function fastScan<T = RNFS.ReadDirItem>(
       scannedFiles,
       stage: 'scanning',
       currentFile: dir.split('/').pop() || dir,
+      ...estimator.estimate(getWalkCounts()),
     });
-  };
-
-  // Worker pool: process multiple directories concurrently
-  const workers: Set<Promise<void>> = new Set();
-  let activeWorkers = 0;
 
-  while (queue.length > 0 || activeWorkers > 0) {
-    if (cancelRef?.current) {
-      break;
-    }
+    return readMs;
+  };
 
-    // Start new workers up to max concurrent
-    while (queue.length > 0 && activeWorkers < maxConcurrentDirs) {
-      const dir = queue.shift();
-      if (!dir) {
-        break;
-      }
+  const poolStats = await runAdaptivePool(queue, processDirectory, {
+    minConcurrency: minConcurrentDirs,
+    maxConcurrency: maxConcurrentDirs,
+    initialConcurrency: INITIAL_CONCURRENT,
+    cancelRef,
+  });
+  const stats: FastScanStats = {
+    ...poolStats,
+    directories: processed,
+    files: walkedFiles,
+    filesPerSecond: poolStats.durationMs > 0 ? (walkedFiles * 1000) / poolStats.durationMs : 0,
+  };
+  console.log(
+    `[FastScan] stats dirs=${stats.directories} files=${stats.files} durationMs=${stats.durationMs} ` +
+      `dirsPerSec=${stats.itemsPerSecond.toFixed(1)} filesPerSec=${stats.filesPerSecond.toFixed(1)} ` +
+      `readMs=${stats.avgLatencyMs.toFixed(1)} stallMs=${stats.avgStallMs.toFixed(1)}/${stats.maxStallMs} ` +
+      `concurrency=${stats.initialConcurrency}->${stats.finalConcurrency} peak=${stats.peakConcurrency} ` +
+      `avg=${stats.avgConcurrency.toFixed(1)} adjustments=${stats.adjustments}`,
+  );
+  onStats?.(stats);
+  if (aliasedDirectories || aliasedFiles || tooDeepDirectories) {
+    console.log(
+      `[FastScan] skipped aliased=${aliasedDirectories} aliasedFiles=${aliasedFiles} tooDeep=${tooDeepDirectories}`,
+    );
+  }
 
-      activeWorkers += 1;
-      const worker = processDirectory(dir).finally(() => {
-        activeWorkers -= 1;
-        workers.delete(worker);
-      });
-      workers.add(worker);
-    }
+  if (snapshotReader && unverifiedFiles.length && !cancelRef?.current) {
+    const verified = await snapshotReader.verifyFiles(unverifiedFiles, cancelRef);
+    verified.filter((entry) => !fileFilter || fileFilter(entry)).forEach(keepFile);
+  }
 
-    // Wait for at least one worker to complete before starting more
-    if (activeWorkers >= maxConcurrentDirs && queue.length > 0 && workers.size > 0) {
-      await Promise.race(Array.from(workers));
-    }
+  // A cancelled walk is thrown away by every caller, so its tail is not worth streaming or measuring
+  if (!cancelRef?.current) {
+    chunks.flush();
+    await estimator.finish(getWalkCounts());
+  }
 
-    // Small delay to prevent tight loop when queue is empty but workers are active
-    if (queue.length === 0 && activeWorkers > 0) {
-      await new Promise((resolve) => setTimeout(resolve, 5));
+  if (snapshotReader) {
+    const { reused, reread, changes } = await snapshotReader.persist();
+    console.log(
+      `[FastScan] incremental reused=${reused} reread=${reread} verified=${unverifiedFiles.length} ` +
+        `added=${changes.added.length} removed=${changes.removed.length} changed=${changes.changed.length}`,
+    );
+    if (!cancelRef?.current) {
+      onChanges?.(changes);
     }
   }
 
-  // Wait for all remaining workers
-  await Promise.allSettled(Array.from(workers));
-
   emitProgress({
     total: processed,
     current: processed,
     scannedFiles,
     stage: 'complete',
+    progress: cancelRef?.current ? undefined : 1,
+    etaMs: cancelRef?.current ? null : 0,
   });
 
   return results;
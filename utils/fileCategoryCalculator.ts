@@ -28,7 +28,7 @@ type FileCategoryData = {
   count: number;
 };
 
-const categorizeFile = (path: string, type?: string): string => {
+export const categorizeFile = (path: string, type?: string): string => {
   const lower = path.toLowerCase();
   
   // Check for APK files FIRST (before Documents) to prevent APK files from being categorized as Documents
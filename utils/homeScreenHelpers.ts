@@ -1,4 +1,5 @@
-import type { ScanDataSnapshot } from "./db";
+import type { ScanItemScanner, ScanItemSummary } from "./db";
+import { SCANNERS, type ScanDataSnapshot } from "./scanners/registry";
 
 // Helper function to categorize files (same logic as fileCategoryCalculator)
 const categorizeFile = (path: string, type?: string): string => {
@@ -20,51 +21,33 @@ const categorizeFile = (path: string, type?: string): string => {
 };
 
 export const hasDataInSnapshot = (snapshot: ScanDataSnapshot): boolean => {
-  return (
-    snapshot.whatsappResults.length > 0 ||
-    snapshot.duplicateResults.length > 0 ||
-    snapshot.largeFileResults.length > 0 ||
-    snapshot.oldFileResults.length > 0 ||
-    snapshot.videosResults.length > 0 ||
-    snapshot.imagesResults.length > 0 ||
-    snapshot.audiosResults.length > 0 ||
-    snapshot.documentsResults.length > 0
-  );
+  return SCANNERS.some((scanner) => (snapshot[scanner.resultsKey]?.length ?? 0) > 0);
 };
 
-export const calculateProgressFromSnapshot = (snapshot: ScanDataSnapshot): Record<string, number> => {
+export const calculateProgressFromSummaries = (
+  summaries: Partial<Record<ScanItemScanner, ScanItemSummary>>,
+): Record<string, number> => {
   const clamp = (value: number) => Math.max(0, Math.min(1, value));
-
-  // Calculate sizes for each feature (more meaningful than count for storage impact)
-  const oldSize = snapshot.oldFileResults.reduce((sum, item) => sum + (item.size ?? 0), 0);
-  const duplicateSize = snapshot.duplicateResults.reduce(
-    (sum, group) =>
-      sum + (group.files?.reduce((fileSum, file) => fileSum + (file.size ?? 0), 0) ?? 0),
-    0,
-  );
-  const largeFileSize = snapshot.largeFileResults.reduce((sum, item) => sum + (item.size ?? 0), 0);
-  const whatsappSize = snapshot.whatsappResults.reduce((sum, item) => sum + (item.size ?? 0), 0);
-  const apkSize = snapshot.apkResults.reduce((sum, item) => sum + (item.size ?? 0), 0);
-
-  // Calculate maximum size across all features for relative progress
-  const sizes = [
-    oldSize,
-    duplicateSize,
-    largeFileSize,
-    whatsappSize,
-    apkSize,
-  ];
-  const maxSize = Math.max(...sizes, 1); // Use 1 as minimum to avoid division by zero
-
+  const sizeOf = (scanner: ScanItemScanner) => summaries[scanner]?.size ?? 0;
   const progress: Record<string, number> = {};
 
-  // Calculate progress based on size relative to the maximum size
-  // This ensures the feature with the most storage impact shows 100% progress, and others scale relative to it
-  progress.old = maxSize > 0 ? clamp(oldSize / maxSize) : 0;
-  progress.duplicate = maxSize > 0 ? clamp(duplicateSize / maxSize) : 0;
-  progress.large = maxSize > 0 ? clamp(largeFileSize / maxSize) : 0;
-  progress.whatsapp = maxSize > 0 ? clamp(whatsappSize / maxSize) : 0;
-  progress.apk = maxSize > 0 ? clamp(apkSize / maxSize) : 0;
+  // Relative to the largest size, so the feature with the most storage impact shows 100%
+  const relativeProgress = (sizes: [string, number][]) => {
+    const maxSize = Math.max(...sizes.map(([, size]) => size), 1); // 1 avoids division by zero
+    sizes.forEach(([key, size]) => {
+      progress[key] = clamp(size / maxSize);
+    });
+  };
+
+  // Size is more meaningful than count for storage impact
+  const featureKeys: string[] = [];
+  relativeProgress(
+    SCANNERS.flatMap((scanner) => {
+      if (!scanner.featureKey) return [];
+      featureKeys.push(scanner.featureKey);
+      return [[scanner.featureKey, sizeOf(scanner.id)] as [string, number]];
+    }),
+  );
 
   const averaged = (keys: string[]) =>
     clamp(
@@ -72,39 +55,17 @@ export const calculateProgressFromSnapshot = (snapshot: ScanDataSnapshot): Recor
         Math.max(1, keys.length),
     );
 
-  progress.smart = averaged([
-    "old",
-    "duplicate",
-    "large",
-    "whatsapp",
-    "apk",
-  ]);
+  progress.smart = averaged(featureKeys);
   progress.storage = averaged(["large", "duplicate", "old", "apk"]);
 
-  // Calculate category feature progress (Audio, Images, Videos, Documents) based on size
-  // Use dedicated scanner results directly
-  const videosSize = snapshot.videosResults.reduce((sum, file) => sum + (file.size || 0), 0);
-  const imagesSize = snapshot.imagesResults.reduce((sum, file) => sum + (file.size || 0), 0);
-  const audiosSize = snapshot.audiosResults.reduce((sum, file) => sum + (file.size || 0), 0);
-  const documentsSize = snapshot.documentsResults.reduce((sum, file) => sum + (file.size || 0), 0);
-
-  const categorySizes = {
-    Videos: videosSize,
-    Images: imagesSize,
-    Audio: audiosSize,
-    Documents: documentsSize,
-  };
-
-  const categorySizesArray = Object.values(categorySizes);
-  const maxCategorySize = Math.max(...categorySizesArray, 1);
-
-  // Set progress for each category feature based on size
-  Object.entries(categorySizes).forEach(([categoryName, size]) => {
-    const categoryId = `category-${categoryName.toLowerCase()}`;
-    progress[categoryId] = maxCategorySize > 0 ? clamp(size / maxCategorySize) : 0;
-  });
+  // Category features (Audio, Images, Videos, Documents) use the saved totals of the dedicated scanners
+  relativeProgress(
+    SCANNERS.flatMap((scanner) =>
+      scanner.category
+        ? [[`category-${scanner.category.toLowerCase()}`, sizeOf(scanner.id)] as [string, number]]
+        : [],
+    ),
+  );
 
   return progress;
 };
-
-
@@ -0,0 +1,150 @@
+import RNFS from 'react-native-fs';
+
+// Mount points Android exposes for the primary shared storage next to /storage/emulated/0
+const PRIMARY_STORAGE_ALIASES = ['/sdcard', '/mnt/sdcard', '/storage/self/primary', '/storage/emulated/legacy'];
+// Deeper than any real folder tree; only a symlink loop the fingerprint missed gets here
+export const MAX_DIRECTORY_DEPTH = 48;
+// Listings this small are too alike across unrelated folders to fingerprint safely
+const MIN_FINGERPRINT_ENTRIES = 3;
+const FINGERPRINT_SAMPLE_SIZE = 32;
+
+/**
+ * Resolve `.`, `..`, repeated and trailing slashes without touching the filesystem.
+ */
+export const normalizePath = (path: string): string => {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (!segment || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return `${path.startsWith('/') ? '/' : ''}${segments.join('/')}`;
+};
+
+/**
+ * Normalized path with the aliases of primary shared storage mapped onto one prefix, so
+ * /sdcard/DCIM and /storage/emulated/0/DCIM compare equal.
+ */
+export const canonicalizePath = (path: string): string => {
+  const normalized = normalizePath(path);
+  const primary = RNFS.ExternalStorageDirectoryPath ? normalizePath(RNFS.ExternalStorageDirectoryPath) : '';
+  if (!primary) {
+    return normalized;
+  }
+
+  for (const alias of PRIMARY_STORAGE_ALIASES) {
+    if (normalized === alias || normalized.startsWith(`${alias}/`)) {
+      return `${primary}${normalized.slice(alias.length)}`;
+    }
+  }
+  return normalized;
+};
+
+export const getPathDepth = (path: string): number => path.split('/').filter(Boolean).length;
+
+const isInside = (path: string, root: string): boolean => root === '/' || path.startsWith(`${root}/`);
+
+/**
+ * Canonical, unique roots with every root inside another one dropped, since the walk reaches it anyway.
+ */
+export const dedupeRootPaths = (rootPaths: string[]): string[] => {
+  const unique = [...new Set(rootPaths.filter(Boolean).map(canonicalizePath))].sort(
+    (a, b) => getPathDepth(a) - getPathDepth(b),
+  );
+  return unique.reduce<string[]>((roots, path) => {
+    if (!roots.some((root) => isInside(path, root))) {
+      roots.push(path);
+    }
+    return roots;
+  }, []);
+};
+
+// Two FNV-1a variants together make a 64-bit key, enough to keep unrelated folders apart
+const hashString = (value: string, seed: number): string => {
+  let hash = seed;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const fingerprintListing = (entries: RNFS.ReadDirItem[]): string => {
+  let totalSize = 0;
+  entries.forEach((entry) => {
+    totalSize += typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
+  });
+  const sample = entries
+    .slice(0, FINGERPRINT_SAMPLE_SIZE)
+    .map((entry) => `${entry.name}:${entry.size}:${entry.mtime ? entry.mtime.getTime() : ''}`)
+    .join('/');
+  const signature = `${entries.length}|${totalSize}|${sample}`;
+  return `${hashString(signature, 2166136261)}${hashString(signature, 84696351)}`;
+};
+
+export const getDirectoryMtime = async (directory: string): Promise<number | null> => {
+  try {
+    // RNFS.stat hands back a Date at runtime even though it is typed as a number
+    return new Date((await RNFS.stat(directory)).mtime).getTime();
+  } catch {
+    return null;
+  }
+};
+
+// What a directory's listing matched: one of its own ancestors (a loop) or a folder elsewhere (an alias)
+export interface DirectoryMatch {
+  kind: 'loop' | 'alias';
+  path: string;
+}
+
+/**
+ * Key of a file that stays the same whichever alias of its folder it is listed through.
+ */
+export const getFileIdentity = (entry: RNFS.ReadDirItem): string =>
+  `${entry.name}:${entry.size}:${entry.mtime ? entry.mtime.getTime() : ''}`;
+
+/**
+ * Without inode numbers, a symlink or bind mount is recognised by its listing: same entry count,
+ * total size and leading names, sizes and mtimes as a folder already walked, plus the same
+ * directory mtime. A match with one of its own ancestors is a loop and is not walked. A match
+ * elsewhere is reported as an alias, whose files the walk already listed through the first
+ * folder; real copies (`cp -a`, adb push, a restored backup) rarely keep the directory mtime.
+ * Aliases of the storage root are already folded by `canonicalizePath`.
+ * Resolves with the folder the listing matched, or null.
+ */
+export const createDirectoryIdentityTracker = () => {
+  const seenAt = new Map<string, string[]>();
+
+  return async (path: string, entries: RNFS.ReadDirItem[]): Promise<DirectoryMatch | null> => {
+    if (entries.length < MIN_FINGERPRINT_ENTRIES) {
+      return null;
+    }
+    const fingerprint = fingerprintListing(entries);
+    const candidates = seenAt.get(fingerprint);
+    if (!candidates) {
+      seenAt.set(fingerprint, [path]);
+      return null;
+    }
+
+    const mtime = await getDirectoryMtime(path);
+    if (mtime !== null) {
+      // Ancestors first, so a loop is never mistaken for an alias
+      const ordered = [
+        ...candidates.filter((candidate) => isInside(path, candidate)),
+        ...candidates.filter((candidate) => !isInside(path, candidate)),
+      ];
+      for (const candidate of ordered) {
+        if ((await getDirectoryMtime(candidate)) === mtime) {
+          return { kind: isInside(path, candidate) ? 'loop' : 'alias', path: candidate };
+        }
+      }
+    }
+    candidates.push(path);
+    return null;
+  };
+};
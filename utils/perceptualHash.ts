@@ -0,0 +1,138 @@
+import { Buffer } from 'buffer';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as jpeg from 'jpeg-js';
+import RNFS from 'react-native-fs';
+
+// dHash compares each pixel to its right neighbour on a 9x8 grayscale thumbnail -> 64 bits
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+export const PERCEPTUAL_HASH_BITS = (DHASH_WIDTH - 1) * DHASH_HEIGHT;
+
+const toFileUri = (path: string): string => (path.startsWith('file://') ? path : `file://${path}`);
+
+const popcount32 = (value: number): number => {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+/**
+ * Number of differing bits between two 64-bit hashes encoded as 16 hex chars.
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  const highA = parseInt(a.slice(0, 8), 16);
+  const lowA = parseInt(a.slice(8, 16), 16);
+  const highB = parseInt(b.slice(0, 8), 16);
+  const lowB = parseInt(b.slice(8, 16), 16);
+  return popcount32((highA ^ highB) >>> 0) + popcount32((lowA ^ lowB) >>> 0);
+};
+
+/**
+ * Compute a difference hash (dHash) from a downscaled decode of the image.
+ * Returns null when the image cannot be decoded (unsupported format, corrupt file, ...).
+ */
+export const computeDifferenceHash = async (path: string): Promise<string | null> => {
+  const context = ImageManipulator.manipulate(toFileUri(path));
+  let thumbnailUri: string | null = null;
+
+  try {
+    const image = await context.resize({ width: DHASH_WIDTH, height: DHASH_HEIGHT }).renderAsync();
+    const saved = await image.saveAsync({ format: SaveFormat.JPEG, compress: 1, base64: true });
+    image.release();
+    thumbnailUri = saved.uri;
+    if (!saved.base64) {
+      return null;
+    }
+
+    const { data, width, height } = jpeg.decode(Buffer.from(saved.base64, 'base64'), { useTArray: true });
+    if (width !== DHASH_WIDTH || height !== DHASH_HEIGHT) {
+      return null;
+    }
+
+    const luminance = (x: number, y: number) => {
+      const offset = (y * width + x) * 4;
+      return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+    };
+
+    let high = 0;
+    let low = 0;
+    let bit = 0;
+    for (let y = 0; y < DHASH_HEIGHT; y += 1) {
+      for (let x = 0; x < DHASH_WIDTH - 1; x += 1) {
+        if (luminance(x, y) > luminance(x + 1, y)) {
+          if (bit < 32) {
+            high |= 1 << (31 - bit);
+          } else {
+            low |= 1 << (63 - bit);
+          }
+        }
+        bit += 1;
+      }
+    }
+
+    return (high >>> 0).toString(16).padStart(8, '0') + (low >>> 0).toString(16).padStart(8, '0');
+  } catch (error) {
+    console.warn(`[SimilarScan] Could not compute perceptual hash for ${path}:`, error);
+    return null;
+  } finally {
+    context.release();
+    if (thumbnailUri) {
+      RNFS.unlink(thumbnailUri.replace(/^file:\/\//, '')).catch(() => undefined);
+    }
+  }
+};
+
+type BKNode = {
+  hash: string;
+  indexes: number[];
+  children: Map<number, BKNode>;
+};
+
+/**
+ * BK-tree over Hamming distance so neighbour lookups avoid comparing every pair.
+ */
+export class HammingIndex {
+  private root: BKNode | null = null;
+
+  add(hash: string, index: number): void {
+    if (!this.root) {
+      this.root = { hash, indexes: [index], children: new Map() };
+      return;
+    }
+
+    let node = this.root;
+    for (;;) {
+      const distance = hammingDistance(hash, node.hash);
+      if (distance === 0) {
+        node.indexes.push(index);
+        return;
+      }
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { hash, indexes: [index], children: new Map() });
+        return;
+      }
+      node = child;
+    }
+  }
+
+  search(hash: string, maxDistance: number): { index: number; distance: number }[] {
+    const matches: { index: number; distance: number }[] = [];
+    const stack = this.root ? [this.root] : [];
+
+    while (stack.length) {
+      const node = stack.pop()!;
+      const distance = hammingDistance(hash, node.hash);
+      if (distance <= maxDistance) {
+        node.indexes.forEach((index) => matches.push({ index, distance }));
+      }
+      node.children.forEach((child, edge) => {
+        if (edge >= distance - maxDistance && edge <= distance + maxDistance) {
+          stack.push(child);
+        }
+      });
+    }
+
+    return matches;
+  }
+}
@@ -0,0 +1,107 @@
+import { DEFAULT_MESSENGER_ID } from '../app/(Screens)/WhatsAppRemoverScreen/messengerProfiles';
+import {
+  compareBackupGenerations,
+  type WhatsAppScanResult,
+} from '../app/(Screens)/WhatsAppRemoverScreen/WhatsAppScanner';
+
+/**
+ * How long WhatsApp files are kept before "run policies" removes them. A null rule is off.
+ */
+export interface RetentionPolicies {
+  statusMaxAgeDays: number | null;
+  keepNewestBackups: number | null;
+  voiceNoteMaxAgeDays: number | null;
+}
+
+export type RetentionRule = keyof RetentionPolicies;
+
+// Every rule deletes files, so none runs until the user turns it on
+export const DEFAULT_RETENTION_POLICIES: RetentionPolicies = {
+  statusMaxAgeDays: null,
+  keepNewestBackups: null,
+  voiceNoteMaxAgeDays: null,
+};
+
+export interface RetentionRulePreview {
+  rule: RetentionRule;
+  title: string;
+  files: WhatsAppScanResult[];
+  size: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Other messengers' statuses and voice notes are left alone
+const WHATSAPP_APPS = ['whatsapp', 'whatsappBusiness'];
+
+const getParentPath = (path: string) => path.slice(0, path.lastIndexOf('/'));
+
+// expo-file-system reports seconds; files without a time are never old enough
+const isOlderThan = (file: WhatsAppScanResult, days: number, now: number) =>
+  file.modified !== null && now - file.modified * 1000 > days * DAY_MS;
+
+const olderThan = (files: WhatsAppScanResult[], type: WhatsAppScanResult['type'], days: number, now: number) =>
+  files.filter(
+    (file) =>
+      file.type === type &&
+      WHATSAPP_APPS.includes(file.app ?? DEFAULT_MESSENGER_ID) &&
+      isOlderThan(file, days, now),
+  );
+
+/**
+ * Dated backups beyond the newest `keep` of each Backups folder, so WhatsApp and WhatsApp Business
+ * each keep their own. At least one generation always stays as a fallback for the live backup.
+ */
+const backupsBeyond = (files: WhatsAppScanResult[], keep: number) => {
+  const folders = new Map<string, WhatsAppScanResult[]>();
+  files.forEach((file) => {
+    // Dated generations only; the live backup is never a candidate
+    if (!file.backup?.date) {
+      return;
+    }
+    const folder = getParentPath(file.path);
+    folders.set(folder, [...(folders.get(folder) ?? []), file]);
+  });
+  return [...folders.values()].flatMap((backups) =>
+    backups.sort((a, b) => compareBackupGenerations(a.backup!, b.backup!)).slice(Math.max(1, keep)),
+  );
+};
+
+/**
+ * What each enabled rule would remove from the scan results. Ages are evaluated against `modified`,
+ * backups are ranked like the generations the scan marks.
+ * Nothing is deleted here; the screen shows this as the preview and deletes the same files.
+ */
+export const previewRetentionPolicies = (
+  files: WhatsAppScanResult[],
+  policies: RetentionPolicies,
+  now: number = Date.now(),
+): RetentionRulePreview[] => {
+  const previews: RetentionRulePreview[] = [];
+  const add = (rule: RetentionRule, title: string, matched: WhatsAppScanResult[]) => {
+    previews.push({ rule, title, files: matched, size: matched.reduce((sum, file) => sum + file.size, 0) });
+  };
+
+  if (policies.statusMaxAgeDays !== null) {
+    add(
+      'statusMaxAgeDays',
+      `Statuses older than ${policies.statusMaxAgeDays} days`,
+      olderThan(files, 'Statuses', policies.statusMaxAgeDays, now),
+    );
+  }
+  if (policies.keepNewestBackups !== null) {
+    const keep = Math.max(1, policies.keepNewestBackups);
+    add('keepNewestBackups', `Backups beyond the newest ${keep}`, backupsBeyond(files, keep));
+  }
+  if (policies.voiceNoteMaxAgeDays !== null) {
+    add(
+      'voiceNoteMaxAgeDays',
+      `Voice notes older than ${policies.voiceNoteMaxAgeDays} days`,
+      olderThan(files, 'VoiceNotes', policies.voiceNoteMaxAgeDays, now),
+    );
+  }
+  return previews;
+};
+
+export const hasActiveRetentionPolicy = (policies: RetentionPolicies): boolean =>
+  Object.values(policies).some((value) => value !== null);
@@ -0,0 +1,108 @@
+import { loadScanWalkStats, saveScanWalkStats, type ScanWalkStats } from './db';
+import { getStorageInfo } from './storage';
+
+export interface WalkCounts {
+  directories: number; // directories read so far
+  queued: number; // directories found but not read yet
+  files: number; // every file seen, before any filter
+  bytes: number;
+}
+
+export interface ProgressEstimate {
+  progress: number;
+  etaMs: number | null;
+}
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+// Only the walk itself may report 100%
+const MAX_RUNNING_PROGRESS = 0.99;
+// Below this the elapsed time says too little about the rest of the walk
+const MIN_PROGRESS_FOR_ETA = 0.05;
+
+/**
+ * Walks over the same root paths share their stats, whatever they filter for.
+ */
+export const getScanKey = (rootPaths: string[]): string => [...new Set(rootPaths)].sort().join('|');
+
+const loadPreviousStats = async (scanKey: string): Promise<ScanWalkStats | null> => {
+  try {
+    return await loadScanWalkStats(scanKey);
+  } catch (error) {
+    console.warn('[ScanEstimator] Failed to load previous walk stats:', error);
+    return null;
+  }
+};
+
+const getUsedBytes = async (): Promise<number | null> => {
+  // getStorageInfo reports GB and returns zeros when the device cannot be queried
+  const storage = await getStorageInfo();
+  return storage.total > 0 ? Math.round(storage.used * BYTES_PER_GB) : null;
+};
+
+/**
+ * Progress model for one walk. It blends the directory and file counts of the previous walk over
+ * the same roots with the bytes seen so far against used storage, and never moves backwards.
+ * The first walk has no history, so it leans on the growing directory queue and the storage size.
+ */
+export const createProgressEstimator = async (rootPaths: string[]) => {
+  const scanKey = getScanKey(rootPaths);
+  const startedAt = Date.now();
+  const [previous, usedBytes] = await Promise.all([loadPreviousStats(scanKey), getUsedBytes()]);
+
+  // Last walk's bytes, scaled by how much used storage changed since then
+  const expectedBytes =
+    previous && previous.usedBytes && usedBytes
+      ? previous.totalBytes * (usedBytes / previous.usedBytes)
+      : previous?.totalBytes || usedBytes;
+
+  let lastProgress = 0;
+
+  const estimate = (counts: WalkCounts): ProgressEstimate => {
+    const fractions: number[] = [];
+    const knownDirectories = counts.directories + counts.queued;
+    if (previous?.directoryCount) {
+      fractions.push(counts.directories / Math.max(previous.directoryCount, knownDirectories));
+    } else if (knownDirectories > 0) {
+      fractions.push(counts.directories / knownDirectories);
+    }
+    if (previous?.fileCount) {
+      fractions.push(counts.files / Math.max(previous.fileCount, counts.files));
+    }
+    if (expectedBytes) {
+      fractions.push(Math.min(1, counts.bytes / expectedBytes));
+    }
+
+    const raw = fractions.length ? fractions.reduce((sum, fraction) => sum + fraction, 0) / fractions.length : 0;
+    lastProgress = Math.max(lastProgress, Math.min(raw, MAX_RUNNING_PROGRESS));
+
+    const elapsedMs = Date.now() - startedAt;
+    let etaMs: number | null = null;
+    if (lastProgress >= MIN_PROGRESS_FOR_ETA) {
+      etaMs = Math.round((elapsedMs * (1 - lastProgress)) / lastProgress);
+    } else if (previous) {
+      etaMs = Math.max(0, previous.durationMs - elapsedMs);
+    }
+
+    return { progress: lastProgress, etaMs };
+  };
+
+  // Stats only help the next estimate, so a failed write is logged and never fails the scan
+  const finish = async (counts: WalkCounts): Promise<void> => {
+    const finishedAt = Date.now();
+    try {
+      await saveScanWalkStats({
+        scanKey,
+        directoryCount: counts.directories,
+        fileCount: counts.files,
+        totalBytes: counts.bytes,
+        usedBytes,
+        durationMs: finishedAt - startedAt,
+        finishedAt,
+      });
+    } catch (error) {
+      console.warn('[ScanEstimator] Failed to persist walk stats:', error);
+    }
+  };
+
+  return { estimate, finish };
+};
@@ -0,0 +1,208 @@
+import { addPeriods, getCleanupTotalsByPeriod, getPeriodStart } from './cleanupLedger';
+import {
+  addScanHistoryEntries,
+  loadScanHistory,
+  removeScanHistoryBefore,
+  sumReclaimableScanBytes,
+  type ScanHistoryEntry,
+  type ScanItemScanner,
+  type ScanRunSource,
+} from './db';
+import type { DuplicateGroup } from './duplicateFinder';
+import { getStorageInfo } from './storage';
+
+export type { ScanHistoryEntry, ScanRunSource };
+
+export interface ScanRunEntry {
+  scanner: ScanItemScanner;
+  itemCount: number;
+  totalBytes: number;
+  durationMs: number;
+}
+
+export interface ScanRunSummary {
+  runId: string;
+  source: ScanRunSource;
+  startedAt: number;
+  durationMs: number;
+  freeBytes: number | null;
+  junkBytes: number;
+  entries: ScanHistoryEntry[];
+}
+
+export interface StorageTrendPoint {
+  weekStart: number;
+  // Latest known reclaimable bytes across the junk scanners, null before the first scan
+  junkBytes: number | null;
+  // Free space at the last scan of the week, null when nothing was scanned that week
+  freeBytes: number | null;
+  reclaimedBytes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+const HISTORY_RETENTION_DAYS = 365;
+
+// Media lists are an inventory of the device, not something to clean, so they stay out of the junk total
+const JUNK_SCANNERS: ScanItemScanner[] = [
+  'whatsapp',
+  'caches',
+  'apk',
+  'largeFiles',
+  'oldFiles',
+  'duplicates',
+  'similarImages',
+  'duplicateFiles',
+];
+
+const createRunId = (): string =>
+  `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * History entry for a scanner that returns a flat file list.
+ */
+export const toScanRunEntry = (
+  scanner: ScanItemScanner,
+  items: { size: number }[],
+  durationMs: number
+): ScanRunEntry => ({
+  scanner,
+  itemCount: items.length,
+  totalBytes: items.reduce((sum, item) => sum + (item.size || 0), 0),
+  durationMs,
+});
+
+/**
+ * History entry for a grouping scanner. Only the copies beyond the largest file in each group
+ * count, since that is what deleting duplicates can free.
+ */
+export const toGroupScanRunEntry = (
+  scanner: ScanItemScanner,
+  groups: DuplicateGroup[],
+  durationMs: number
+): ScanRunEntry => {
+  let itemCount = 0;
+  let totalBytes = 0;
+  for (const group of groups) {
+    if (group.files.length < 2) {
+      continue;
+    }
+    const sizes = group.files.map((file) => file.size || 0);
+    itemCount += group.files.length - 1;
+    totalBytes += sizes.reduce((sum, size) => sum + size, 0) - Math.max(...sizes);
+  }
+  return { scanner, itemCount, totalBytes, durationMs };
+};
+
+// Runs recorded before the deduplicated total fall back to the sum of their junk scanners
+const sumJunkTotals = (totals: Iterable<number>): number =>
+  [...totals].reduce((sum, bytes) => sum + bytes, 0);
+
+/**
+ * Persist one scan run with the device's free space and junk total at the time it finished.
+ * History is best effort, so failures are logged and never fail the scan itself.
+ */
+export const recordScanRun = async (
+  entries: ScanRunEntry[],
+  startedAt: number,
+  source: ScanRunSource = 'manual'
+): Promise<void> => {
+  if (!entries.length) {
+    return;
+  }
+
+  try {
+    const storage = await getStorageInfo();
+    // getStorageInfo reports GB and returns zeros when the device cannot be queried
+    const freeBytes = storage.total > 0 ? Math.round(storage.free * BYTES_PER_GB) : null;
+    // Scanners overlap (an old file can also be large or a duplicate), so the run's junk is taken from
+    // the saved results with each path counted once instead of adding up the per-scanner totals
+    const junkBytes = await sumReclaimableScanBytes(JUNK_SCANNERS);
+    const runId = createRunId();
+
+    await addScanHistoryEntries(
+      entries.map((entry) => ({ ...entry, runId, source, startedAt, freeBytes, junkBytes }))
+    );
+    await removeScanHistoryBefore(Date.now() - HISTORY_RETENTION_DAYS * DAY_MS);
+  } catch (error) {
+    console.warn('Failed to record scan history:', error);
+  }
+};
+
+/**
+ * Past runs, newest first.
+ */
+export const getScanRuns = async (limit: number = 20): Promise<ScanRunSummary[]> => {
+  const history = await loadScanHistory();
+  const runs = new Map<string, ScanRunSummary>();
+
+  for (const entry of history) {
+    const run = runs.get(entry.runId) ?? {
+      runId: entry.runId,
+      source: entry.source,
+      startedAt: entry.startedAt,
+      durationMs: 0,
+      freeBytes: entry.freeBytes,
+      junkBytes: 0,
+      entries: [],
+    };
+    // Scanners in one run overlap, so the slowest one is the run's duration
+    run.durationMs = Math.max(run.durationMs, entry.durationMs);
+    run.entries.push(entry);
+    runs.set(entry.runId, run);
+  }
+
+  runs.forEach((run) => {
+    const junkBytes = run.entries[0].junkBytes;
+    run.junkBytes = junkBytes ?? sumJunkTotals(
+      run.entries.filter((entry) => JUNK_SCANNERS.includes(entry.scanner)).map((entry) => entry.totalBytes)
+    );
+  });
+
+  return [...runs.values()].sort((a, b) => b.startedAt - a.startedAt).slice(0, limit);
+};
+
+/**
+ * Weekly junk size, free space and reclaimed space for the last `weeks` weeks, oldest first.
+ * The latest run's junk total carries over into weeks without a scan.
+ */
+export const getStorageTrend = async (weeks: number = 12, now: number = Date.now()): Promise<StorageTrendPoint[]> => {
+  const firstWeek = addPeriods('week', getPeriodStart('week', now), -(weeks - 1));
+  const [history, cleanups] = await Promise.all([
+    loadScanHistory(),
+    getCleanupTotalsByPeriod('week', weeks, now),
+  ]);
+
+  const latestBytes = new Map<ScanItemScanner, number>();
+  let junkBytes: number | null = null;
+  const points: StorageTrendPoint[] = [];
+  let index = 0;
+
+  for (let week = 0; week < weeks; week += 1) {
+    const weekStart = addPeriods('week', firstWeek, week);
+    const weekEnd = addPeriods('week', weekStart, 1);
+    let freeBytes: number | null = null;
+
+    for (; index < history.length && history[index].startedAt < weekEnd; index += 1) {
+      const entry = history[index];
+      if (entry.junkBytes !== null) {
+        junkBytes = entry.junkBytes;
+      } else if (JUNK_SCANNERS.includes(entry.scanner)) {
+        latestBytes.set(entry.scanner, entry.totalBytes);
+        junkBytes = sumJunkTotals(latestBytes.values());
+      }
+      if (entry.startedAt >= weekStart && entry.freeBytes !== null) {
+        freeBytes = entry.freeBytes;
+      }
+    }
+
+    points.push({
+      weekStart,
+      junkBytes,
+      freeBytes,
+      reclaimedBytes: cleanups[week].bytes,
+    });
+  }
+
+  return points;
+};
@@ -0,0 +1,179 @@
+export interface AdaptivePoolOptions {
+  minConcurrency?: number;
+  maxConcurrency?: number;
+  initialConcurrency?: number;
+  cancelRef?: { current: boolean };
+}
+
+/**
+ * Throughput of one pool run, logged by every scan so devices can be compared.
+ */
+export interface PoolStats {
+  durationMs: number;
+  completed: number;
+  itemsPerSecond: number;
+  avgLatencyMs: number; // I/O time reported by the worker, not counting JS work
+  avgStallMs: number; // how late the JS thread ran its timers
+  maxStallMs: number;
+  initialConcurrency: number;
+  finalConcurrency: number;
+  peakConcurrency: number;
+  avgConcurrency: number;
+  adjustments: number;
+}
+
+const DEFAULT_MIN_CONCURRENCY = 2;
+const DEFAULT_MAX_CONCURRENCY = 24;
+const DEFAULT_INITIAL_CONCURRENCY = 8;
+const ADJUST_INTERVAL_MS = 500;
+const STALL_SAMPLE_MS = 100;
+// A timer this late means the JS thread is too busy to keep the UI responsive
+const STALL_LIMIT_MS = 48;
+// Latency this far above the best seen so far means the storage is saturated
+const LATENCY_RISE_FACTOR = 2;
+// Weight of the newest sample in the moving averages
+const SMOOTHING = 0.2;
+
+const smooth = (average: number | null, sample: number): number =>
+  average === null ? sample : average + SMOOTHING * (sample - average);
+
+/**
+ * Measures how late a repeating timer fires, which is how long the JS thread was blocked.
+ */
+const createStallMonitor = () => {
+  let expected = Date.now() + STALL_SAMPLE_MS;
+  let recent = 0;
+  let total = 0;
+  let samples = 0;
+  let max = 0;
+
+  const timer = setInterval(() => {
+    const now = Date.now();
+    const stall = Math.max(0, now - expected);
+    expected = now + STALL_SAMPLE_MS;
+    recent = smooth(recent, stall);
+    total += stall;
+    samples += 1;
+    max = Math.max(max, stall);
+  }, STALL_SAMPLE_MS);
+
+  return {
+    recent: () => recent,
+    average: () => (samples ? total / samples : 0),
+    max: () => max,
+    stop: () => clearInterval(timer),
+  };
+};
+
+/**
+ * Runs `worker` over `queue` until it is empty, starting the next item as soon as one finishes.
+ * Workers may push more items onto `queue` while they run. Concurrency starts at
+ * `initialConcurrency` and moves within its bounds: it backs off when the JS thread stalls or
+ * I/O latency climbs, and grows while every slot is busy and both stay healthy.
+ * The worker resolves with its I/O latency in ms when it measured one.
+ */
+export const runAdaptivePool = <T>(
+  queue: T[],
+  worker: (item: T) => Promise<number | void>,
+  options: AdaptivePoolOptions = {},
+): Promise<PoolStats> => {
+  const minConcurrency = Math.max(1, options.minConcurrency ?? DEFAULT_MIN_CONCURRENCY);
+  const maxConcurrency = Math.max(minConcurrency, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+  const initialConcurrency = Math.min(
+    maxConcurrency,
+    Math.max(minConcurrency, options.initialConcurrency ?? DEFAULT_INITIAL_CONCURRENCY),
+  );
+  const { cancelRef } = options;
+
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    const stalls = createStallMonitor();
+    let limit = initialConcurrency;
+    let active = 0;
+    let peak = 0;
+    let completed = 0;
+    let concurrencySum = 0;
+    let adjustments = 0;
+    let lastAdjust = startedAt;
+    let latency: number | null = null;
+    let bestLatency = Number.POSITIVE_INFINITY;
+    let latencyTotal = 0;
+    let latencySamples = 0;
+    let settled = false;
+
+    const adjust = () => {
+      const now = Date.now();
+      if (now - lastAdjust < ADJUST_INTERVAL_MS) {
+        return;
+      }
+      lastAdjust = now;
+
+      let next = limit;
+      if (stalls.recent() > STALL_LIMIT_MS) {
+        next = Math.floor(limit * 0.75);
+      } else if (latency !== null && latency > bestLatency * LATENCY_RISE_FACTOR) {
+        next = limit - 1;
+      } else if (active >= limit && queue.length > 0) {
+        next = limit + 1;
+      }
+
+      next = Math.min(maxConcurrency, Math.max(minConcurrency, next));
+      if (next !== limit) {
+        limit = next;
+        adjustments += 1;
+      }
+    };
+
+    const finishIfIdle = () => {
+      if (settled || active > 0 || (queue.length > 0 && !cancelRef?.current)) {
+        return;
+      }
+      settled = true;
+      stalls.stop();
+
+      const durationMs = Date.now() - startedAt;
+      resolve({
+        durationMs,
+        completed,
+        itemsPerSecond: durationMs > 0 ? (completed * 1000) / durationMs : 0,
+        avgLatencyMs: latencySamples ? latencyTotal / latencySamples : 0,
+        avgStallMs: stalls.average(),
+        maxStallMs: stalls.max(),
+        initialConcurrency,
+        finalConcurrency: limit,
+        peakConcurrency: peak,
+        avgConcurrency: completed ? concurrencySum / completed : 0,
+        adjustments,
+      });
+    };
+
+    const onComplete = (itemLatency: number | void) => {
+      if (typeof itemLatency === 'number') {
+        latency = smooth(latency, itemLatency);
+        bestLatency = Math.min(bestLatency, latency);
+        latencyTotal += itemLatency;
+        latencySamples += 1;
+      }
+      concurrencySum += active;
+      active -= 1;
+      completed += 1;
+      adjust();
+      pump();
+    };
+
+    const pump = () => {
+      while (!cancelRef?.current && active < limit && queue.length > 0) {
+        const item = queue.shift() as T;
+        active += 1;
+        peak = Math.max(peak, active);
+        worker(item).then(onComplete, (error) => {
+          console.warn('[AdaptivePool] Worker failed:', error);
+          onComplete();
+        });
+      }
+      finishIfIdle();
+    };
+
+    pump();
+  });
+};
@@ -0,0 +1,38 @@
+import type { ScannerType } from './smartScan';
+
+export interface ScanSettings {
+  largeFileThresholdBytes: number;
+  oldFileThresholdDays: number;
+  minImageSizeBytes: number;
+  // Max differing dHash bits (of 64) for two images to count as similar
+  similarityMaxDistance: number;
+}
+
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = {
+  largeFileThresholdBytes: 512 * 1024 * 1024, // 512 MB
+  oldFileThresholdDays: 90,
+  minImageSizeBytes: 10 * 1024, // Skip tiny thumbnails to cut scan time
+  similarityMaxDistance: 10,
+};
+
+// Saved results that were computed with each threshold
+const AFFECTED_SCANNERS: Record<keyof ScanSettings, ScannerType[]> = {
+  largeFileThresholdBytes: ['largeFiles'],
+  oldFileThresholdDays: ['oldFiles'],
+  minImageSizeBytes: ['images', 'duplicates'],
+  // Similar image groups are saved outside the scanner registry, so there is nothing to flag
+  similarityMaxDistance: [],
+};
+
+/**
+ * Scanners whose saved results no longer match the settings after a change.
+ */
+export const getStaleScanners = (previous: ScanSettings, next: ScanSettings): ScannerType[] => {
+  const stale = new Set<ScannerType>();
+  (Object.keys(AFFECTED_SCANNERS) as (keyof ScanSettings)[]).forEach((key) => {
+    if (previous[key] !== next[key]) {
+      AFFECTED_SCANNERS[key].forEach((scanner) => stale.add(scanner));
+    }
+  });
+  return [...stale];
+};
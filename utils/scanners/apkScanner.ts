@@ -0,0 +1,21 @@
+import type { APKFileInfo } from '../../app/(Screens)/APKCleanerScreen/APKCleanerScanner';
+import { clearAPKResults, loadAPKResults, saveAPKResults } from '../db';
+import { toScanRunEntry } from '../scanHistory';
+import { fromUnifiedWalk, summarizeFiles } from './helpers';
+import type { ScannerPlugin } from './types';
+
+export const apkScanner: ScannerPlugin<APKFileInfo, 'apk', 'apkResults'> = {
+  id: 'apk',
+  name: 'APK Files',
+  itemsLabel: 'APK files',
+  resultsKey: 'apkResults',
+  stage: 1,
+  unifiedKey: 'apkFiles',
+  featureKey: 'apk',
+  run: fromUnifiedWalk('apkFiles'),
+  persist: saveAPKResults,
+  load: loadAPKResults,
+  delete: clearAPKResults,
+  summarize: summarizeFiles,
+  toHistoryEntry: (results, durationMs) => toScanRunEntry('apk', results, durationMs),
+};
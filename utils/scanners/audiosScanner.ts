@@ -0,0 +1,21 @@
+import { clearAudiosResults, loadAudiosResults, saveAudiosResults } from '../db';
+import type { CategoryFile } from '../fileCategoryCalculator';
+import { toScanRunEntry } from '../scanHistory';
+import { fromUnifiedWalk, summarizeFiles } from './helpers';
+import type { ScannerPlugin } from './types';
+
+export const audiosScanner: ScannerPlugin<CategoryFile, 'audios', 'audiosResults'> = {
+  id: 'audios',
+  name: 'Audios',
+  itemsLabel: 'audio files',
+  resultsKey: 'audiosResults',
+  stage: 1,
+  unifiedKey: 'audios',
+  category: 'Audio',
+  run: fromUnifiedWalk('audios'),
+  persist: saveAudiosResults,
+  load: loadAudiosResults,
+  delete: clearAudiosResults,
+  summarize: summarizeFiles,
+  toHistoryEntry: (results, durationMs) => toScanRunEntry('audios', results, durationMs),
+};
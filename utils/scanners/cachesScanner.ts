@@ -0,0 +1,20 @@
+import { scanCaches, type CacheItem } from '../../app/(Screens)/CachesScreen/CachesScanner';
+import { clearCachesResults, loadCachesResults, saveCachesResults } from '../db';
+import { toScanRunEntry } from '../scanHistory';
+import { summarizeFiles } from './helpers';
+import type { ScannerPlugin } from './types';
+
+export const cachesScanner: ScannerPlugin<CacheItem, 'caches', 'cachesResults'> = {
+  id: 'caches',
+  name: 'Caches',
+  itemsLabel: 'caches',
+  resultsKey: 'cachesResults',
+  stage: 0,
+  featureKey: 'caches',
+  run: ({ cancelRef }) => scanCaches(cancelRef),
+  persist: saveCachesResults,
+  load: loadCachesResults,
+  delete: clearCachesResults,
+  summarize: summarizeFiles,
+  toHistoryEntry: (results, durationMs) => toScanRunEntry('caches', results, durationMs),
+};
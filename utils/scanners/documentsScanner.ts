@@ -0,0 +1,21 @@
+import { clearDocumentsResults, loadDocumentsResults, saveDocumentsResults } from '../db';
+import type { CategoryFile } from '../fileCategoryCalculator';
+import { toScanRunEntry } from '../scanHistory';
+import { fromUnifiedWalk, summarizeFiles } from './helpers';
+import type { ScannerPlugin } from './types';
+
+export const documentsScanner: ScannerPlugin<CategoryFile, 'documents', 'documentsResults'> = {
+  id: 'documents',
+  name: 'Documents',
+  itemsLabel: 'documents',
+  resultsKey: 'documentsResults',
+  stage: 1,
+  unifiedKey: 'documents',
+  category: 'Documents',
+  run: fromUnifiedWalk('documents'),
+  persist: saveDocumentsResults,
+  load: loadDocumentsResults,
+  delete: clearDocumentsResults,
+  summarize: summarizeFiles,
+  toHistoryEntry: (results, durationMs) => toScanRunEntry('documents', results, durationMs),
+};
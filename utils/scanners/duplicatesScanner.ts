@@ -0,0 +1,55 @@
+import {
+  scanDuplicateImages,
+  scanForDuplicatesFromImages,
+  type DuplicateGroup,
+} from '../../app/(Screens)/DuplicateImagesScreen/DuplicateImageScanner';
+import { appRoutes } from '../../routes';
+import { clearDuplicateGroups, loadDuplicateGroups, saveDuplicateGroups } from '../db';
+import type { CategoryFile } from '../fileCategoryCalculator';
+import { toGroupScanRunEntry } from '../scanHistory';
+import type { ScannerPlugin } from './types';
+
+export const duplicatesScanner: ScannerPlugin<DuplicateGroup, 'duplicates', 'duplicateResults'> = {
+  id: 'duplicates',
+  name: 'Duplicate Images',
+  itemsLabel: 'duplicates',
+  resultsKey: 'duplicateResults',
+  // Hashes the images the unified walk found instead of collecting them again
+  stage: 2,
+  featureKey: 'duplicate',
+  homeCard: {
+    title: 'Duplicate Images',
+    icon: 'image-multiple-outline',
+    itemsLabel: 'duplicate images found',
+    accent: '#7E57C2',
+    route: appRoutes.duplicates,
+    description: 'Find and remove duplicate images.',
+  },
+  run: async ({ settings, cancelRef, shared, onProgress }) => {
+    const reportProgress = (progress: { current: number; total: number; currentFile?: string }) => {
+      onProgress(progress.total > 0 ? progress.current / progress.total : 0, progress.currentFile || 'scanning...');
+    };
+
+    const images = (await shared.resultsOf('images')) as CategoryFile[] | null;
+    if (!images) {
+      return scanDuplicateImages(reportProgress, cancelRef, settings.minImageSizeBytes);
+    }
+    return scanForDuplicatesFromImages(
+      images.map((image) => ({ path: image.path, size: image.size, modifiedDate: image.modified })),
+      reportProgress,
+      cancelRef,
+    );
+  },
+  persist: saveDuplicateGroups,
+  load: loadDuplicateGroups,
+  delete: clearDuplicateGroups,
+  // Every file of a group counts, as the duplicates screen lists them all
+  summarize: (groups) => ({
+    count: groups.reduce((sum, group) => sum + (group.files?.length ?? 0), 0),
+    size: groups.reduce(
+      (sum, group) => sum + (group.files?.reduce((fileSum, file) => fileSum + (file.size ?? 0), 0) ?? 0),
+      0,
+    ),
+  }),
+  toHistoryEntry: (groups, durationMs) => toGroupScanRunEntry('duplicates', groups, durationMs),
+};
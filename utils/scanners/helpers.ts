@@ -0,0 +1,19 @@
+import type { FeatureStats } from '../featureStatsCalculator';
+import type { UnifiedScanResults } from '../unifiedFileScanner';
+import type { ScannerRunContext } from './types';
+
+/**
+ * Count and total size of a flat result list.
+ */
+export const summarizeFiles = (items: { size?: number }[]): FeatureStats => ({
+  count: items.length,
+  size: items.reduce((sum, item) => sum + (item.size ?? 0), 0),
+});
+
+/**
+ * `run` of a scanner whose results are one category of the unified walk.
+ */
+export const fromUnifiedWalk =
+  <K extends keyof UnifiedScanResults>(key: K) =>
+  async ({ shared }: ScannerRunContext): Promise<UnifiedScanResults[K]> =>
+    (await shared.unifiedScan())[key];
@@ -0,0 +1,21 @@
+import { clearImagesResults, loadImagesResults, saveImagesResults } from '../db';
+import type { CategoryFile } from '../fileCategoryCalculator';
+import { toScanRunEntry } from '../scanHistory';
+import { fromUnifiedWalk, summarizeFiles } from './helpers';
+import type { ScannerPlugin } from './types';
+
+export const imagesScanner: ScannerPlugin<CategoryFile, 'images', 'imagesResults'> = {
+  id: 'images',
+  name: 'Images',
+  itemsLabel: 'images',
+  resultsKey: 'imagesResults',
+  stage: 1,
+  unifiedKey: 'images',
+  category: 'Images',
+  run: fromUnifiedWalk('images'),
+  persist: saveImagesResults,
+  load: loadImagesResults,
+  delete: clearImagesResults,
+  summarize: summarizeFiles,
+  toHistoryEntry: (results, durationMs) => toScanRunEntry('images', results, durationMs),
+};
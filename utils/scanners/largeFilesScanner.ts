@@ -0,0 +1,21 @@
+import type { LargeFileResult } from '../../app/(Screens)/LargeFilesScreen/LargeFileScanner';
+import { clearLargeFileResults, loadLargeFileResults, saveLargeFileResults } from '../db';
+import { toScanRunEntry } from '../scanHistory';
+import { fromUnifiedWalk, summarizeFiles } from './helpers';
+import type { ScannerPlugin } from './types';
+
+export const largeFilesScanner: ScannerPlugin<LargeFileResult, 'largeFiles', 'largeFileResults'> = {
+  id: 'largeFiles',
+  name: 'Large Files',
+  itemsLabel: 'large files',
+  resultsKey: 'largeFileResults',
+  stage: 1,
+  unifiedKey: 'largeFiles',
+  featureKey: 'large',
+  run: fromUnifiedWalk('largeFiles'),
+  persist: saveLargeFileResults,
+  load: loadLargeFileResults,
+  delete: clearLargeFileResults,
+  summarize: summarizeFiles,
+  toHistoryEntry: (results, durationMs) => toScanRunEntry('largeFiles', results, durationMs),
+};
@@ -0,0 +1,21 @@
+import type { OldFileInfo } from '../../app/(Screens)/OldFilesScreen/OldFilesScanner';
+import { clearOldFileResults, loadOldFileResults, saveOldFileResults } from '../db';
+import { toScanRunEntry } from '../scanHistory';
+import { fromUnifiedWalk, summarizeFiles } from './helpers';
+import type { ScannerPlugin } from './types';
+
+export const oldFilesScanner: ScannerPlugin<OldFileInfo, 'oldFiles', 'oldFileResults'> = {
+  id: 'oldFiles',
+  name: 'Old Files',
+  itemsLabel: 'old files',
+  resultsKey: 'oldFileResults',
+  stage: 1,
+  unifiedKey: 'oldFiles',
+  featureKey: 'old',
+  run: fromUnifiedWalk('oldFiles'),
+  persist: saveOldFileResults,
+  load: loadOldFileResults,
+  delete: clearOldFileResults,
+  summarize: summarizeFiles,
+  toHistoryEntry: (results, durationMs) => toScanRunEntry('oldFiles', results, durationMs),
+};
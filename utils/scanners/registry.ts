@@ -0,0 +1,171 @@
+import { initDatabase, loadScanSummaries } from '../db';
+import type { ScanProgress } from '../fastScanner';
+import { recordScanRun, type ScanRunEntry, type ScanRunSource } from '../scanHistory';
+import { DEFAULT_SCAN_SETTINGS, type ScanSettings } from '../scanSettings';
+import { unifiedFileScan, type UnifiedScanResults } from '../unifiedFileScanner';
+import { apkScanner } from './apkScanner';
+import { audiosScanner } from './audiosScanner';
+import { cachesScanner } from './cachesScanner';
+import { documentsScanner } from './documentsScanner';
+import { duplicatesScanner } from './duplicatesScanner';
+import { imagesScanner } from './imagesScanner';
+import { largeFilesScanner } from './largeFilesScanner';
+import { oldFilesScanner } from './oldFilesScanner';
+import { videosScanner } from './videosScanner';
+import { whatsappScanner } from './whatsappScanner';
+import type { ScannerPlugin, ScannerRunContext, SharedScanWork } from './types';
+
+export type {
+  ScannerHomeCard,
+  ScannerPlugin,
+  ScannerRunContext,
+  SharedScanWork,
+} from './types';
+
+// Smart Scan reports progress in this order
+const REGISTERED_SCANNERS = [
+  whatsappScanner,
+  duplicatesScanner,
+  largeFilesScanner,
+  oldFilesScanner,
+  apkScanner,
+  cachesScanner,
+  videosScanner,
+  imagesScanner,
+  audiosScanner,
+  documentsScanner,
+] as const;
+
+type RegisteredScanner = (typeof REGISTERED_SCANNERS)[number];
+
+export type ScannerType = RegisteredScanner['id'];
+
+// Redux lists that hold the results of one scanner each
+export type ScannerResultsKey = RegisteredScanner['resultsKey'];
+
+export type ScanDataSnapshot = {
+  [Scanner in RegisteredScanner as Scanner['resultsKey']]: Awaited<ReturnType<Scanner['load']>>;
+};
+
+export const SCANNERS: readonly ScannerPlugin[] = REGISTERED_SCANNERS;
+
+export const getScanner = (id: ScannerType): ScannerPlugin => SCANNERS.find((scanner) => scanner.id === id)!;
+
+export const findScanner = (id: string): ScannerPlugin | undefined => SCANNERS.find((scanner) => scanner.id === id);
+
+// Categories that all come out of the single unified walk
+export const UNIFIED_SCANNERS: ScannerPlugin[] = SCANNERS.filter((scanner) => scanner.unifiedKey);
+
+/**
+ * The scanners plus every other unified category when any of them is unified, since the walk
+ * finds all of those anyway and scanning one alone would throw the rest away.
+ */
+export const withUnifiedSiblings = (scanners: ScannerPlugin[]): ScannerPlugin[] =>
+  scanners.some((scanner) => scanner.unifiedKey)
+    ? [...scanners, ...UNIFIED_SCANNERS.filter((scanner) => !scanners.includes(scanner))]
+    : scanners;
+
+const groupByStage = (scanners: readonly ScannerPlugin[]): ScannerPlugin[][] => {
+  const stages = new Map<number, ScannerPlugin[]>();
+  scanners.forEach((scanner) => {
+    stages.set(scanner.stage, [...(stages.get(scanner.stage) ?? []), scanner]);
+  });
+  return [...stages.entries()].sort(([a], [b]) => a - b).map(([, group]) => group);
+};
+
+/**
+ * Scanners grouped by Smart Scan stage, earliest stage first.
+ */
+export const getScannerStages = (): ScannerPlugin[][] => groupByStage(SCANNERS);
+
+interface SharedScanWorkOptions {
+  settings: ScanSettings;
+  cancelRef: { current: boolean };
+  onUnifiedProgress?: (progress: ScanProgress) => void;
+  onUnifiedChunk?: (chunk: UnifiedScanResults) => void;
+  // Fall back to the saved results of scanners that did not run, as a resumed Smart Scan does
+  useSavedResults?: boolean;
+}
+
+export const createSharedScanWork = (options: SharedScanWorkOptions): SharedScanWork => {
+  let unifiedWalk: Promise<UnifiedScanResults> | null = null;
+  const produced = new Map<ScannerType, unknown[]>();
+
+  return {
+    unifiedScan: () => {
+      if (!unifiedWalk) {
+        unifiedWalk = unifiedFileScan(
+          options.onUnifiedProgress,
+          options.cancelRef,
+          options.settings,
+          options.onUnifiedChunk,
+        );
+      }
+      return unifiedWalk;
+    },
+    resultsOf: async (scannerId) => {
+      const results = produced.get(scannerId);
+      if (results) {
+        return results;
+      }
+      return options.useSavedResults ? getScanner(scannerId).load() : null;
+    },
+    provide: (scannerId, results) => {
+      produced.set(scannerId, results);
+    },
+  };
+};
+
+export interface RunScannersOptions {
+  settings?: ScanSettings;
+  cancelRef?: { current: boolean };
+  source?: ScanRunSource;
+  onUnifiedChunk?: (chunk: UnifiedScanResults) => void;
+}
+
+/**
+ * Run scanners outside Smart Scan, save their results and record the run in the scan history.
+ * Scanners that share work share it here too, so the unified categories cost a single walk.
+ * Nothing is saved when the run is cancelled. Resolves with each scanner's results by id.
+ */
+export const runScanners = async (
+  scanners: ScannerPlugin[],
+  options: RunScannersOptions = {},
+): Promise<Map<ScannerType, unknown[]>> => {
+  await initDatabase();
+
+  const settings = options.settings ?? DEFAULT_SCAN_SETTINGS;
+  const cancelRef = options.cancelRef ?? { current: false };
+  const shared = createSharedScanWork({ settings, cancelRef, onUnifiedChunk: options.onUnifiedChunk });
+  const startedAt = Date.now();
+  const results = new Map<ScannerType, unknown[]>();
+  const historyEntries: ScanRunEntry[] = [];
+
+  for (const stage of groupByStage(scanners)) {
+    await Promise.all(
+      stage.map(async (scanner) => {
+        const context: ScannerRunContext = { settings, cancelRef, shared, onProgress: () => undefined };
+        const scannerStartedAt = Date.now();
+        const scannerResults = await scanner.run(context);
+        shared.provide(scanner.id, scannerResults);
+        results.set(scanner.id, scannerResults);
+        historyEntries.push(scanner.toHistoryEntry(scannerResults, Date.now() - scannerStartedAt));
+      }),
+    );
+    if (cancelRef.current) {
+      return results;
+    }
+  }
+
+  await Promise.all(scanners.map((scanner) => scanner.persist(results.get(scanner.id) ?? [])));
+  await recordScanRun(historyEntries, startedAt, options.source);
+  return results;
+};
+
+/**
+ * Check whether any scan data exists in the database.
+ */
+export const hasAnyScanData = async (): Promise<boolean> => {
+  const summaries = await loadScanSummaries();
+  return SCANNERS.some((scanner) => (summaries[scanner.id]?.count ?? 0) > 0);
+};
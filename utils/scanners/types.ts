@@ -0,0 +1,73 @@
+import type { AppRoute } from '../../routes';
+import type { FeatureStats } from '../featureStatsCalculator';
+import type { ScanRunEntry } from '../scanHistory';
+import type { ScanSettings } from '../scanSettings';
+import type { UnifiedScanResults } from '../unifiedFileScanner';
+import type { ScannerResultsKey, ScannerType } from './registry';
+
+/**
+ * Work that several scanners of one run share, so it happens once however many of them need it.
+ */
+export interface SharedScanWork {
+  // The single filesystem walk every unified category comes out of
+  unifiedScan: () => Promise<UnifiedScanResults>;
+  // Results another scanner produced earlier in the run, or its saved ones when the run allows that
+  resultsOf: (scannerId: ScannerType) => Promise<unknown[] | null>;
+  // Results of a scanner that finished, for the scanners after it
+  provide: (scannerId: ScannerType, results: unknown[]) => void;
+}
+
+export interface ScannerRunContext {
+  settings: ScanSettings;
+  cancelRef: { current: boolean };
+  shared: SharedScanWork;
+  onProgress: (progress: number, detail?: string, etaMs?: number | null) => void;
+}
+
+/**
+ * Module card shown on the home screen for a scanner that can be run on its own.
+ */
+export interface ScannerHomeCard {
+  title: string;
+  icon: string;
+  itemsLabel: string;
+  accent: string;
+  route: AppRoute;
+  description: string;
+}
+
+/**
+ * One scanner as Smart Scan, the home screen and the saved results see it.
+ * Adding a scanner means writing one of these and listing it in the registry.
+ * Each scanner is typed with its own result T. Code that handles any scanner sees
+ * ScannerPlugin<unknown> and gets results back as unknown[]. The result handlers are method
+ * signatures so that a typed scanner still fits that view.
+ */
+export interface ScannerPlugin<
+  T = unknown,
+  Id extends ScannerType = ScannerType,
+  Key extends string = ScannerResultsKey,
+> {
+  id: Id;
+  name: string;
+  // Plural noun for what it finds, e.g. "large files"
+  itemsLabel: string;
+  // Redux list that holds the results
+  resultsKey: Key;
+  // Smart Scan runs every scanner of a stage together and the stages in ascending order
+  stage: number;
+  // Set when the results come out of the unified walk
+  unifiedKey?: keyof UnifiedScanResults;
+  // Key of the scanner's totals in the home feature stats and progress
+  featureKey?: string;
+  // File category the scanner lists, for the category progress on the home screen
+  category?: string;
+  homeCard?: ScannerHomeCard;
+  run(context: ScannerRunContext): Promise<T[]>;
+  persist(results: T[]): Promise<void>;
+  load(): Promise<T[]>;
+  // Drops the saved results
+  delete: () => Promise<void>;
+  summarize(results: T[]): FeatureStats;
+  toHistoryEntry(results: T[], durationMs: number): ScanRunEntry;
+}
@@ -0,0 +1,21 @@
+import { clearVideosResults, loadVideosResults, saveVideosResults } from '../db';
+import type { CategoryFile } from '../fileCategoryCalculator';
+import { toScanRunEntry } from '../scanHistory';
+import { fromUnifiedWalk, summarizeFiles } from './helpers';
+import type { ScannerPlugin } from './types';
+
+export const videosScanner: ScannerPlugin<CategoryFile, 'videos', 'videosResults'> = {
+  id: 'videos',
+  name: 'Videos',
+  itemsLabel: 'videos',
+  resultsKey: 'videosResults',
+  stage: 1,
+  unifiedKey: 'videos',
+  category: 'Videos',
+  run: fromUnifiedWalk('videos'),
+  persist: saveVideosResults,
+  load: loadVideosResults,
+  delete: clearVideosResults,
+  summarize: summarizeFiles,
+  toHistoryEntry: (results, durationMs) => toScanRunEntry('videos', results, durationMs),
+};
@@ -0,0 +1,29 @@
+import { scanWhatsApp, type WhatsAppScanResult } from '../../app/(Screens)/WhatsAppRemoverScreen/WhatsAppScanner';
+import { appRoutes } from '../../routes';
+import { clearWhatsAppResults, loadWhatsAppResults, saveWhatsAppResults } from '../db';
+import { toScanRunEntry } from '../scanHistory';
+import { summarizeFiles } from './helpers';
+import type { ScannerPlugin } from './types';
+
+export const whatsappScanner: ScannerPlugin<WhatsAppScanResult, 'whatsapp', 'whatsappResults'> = {
+  id: 'whatsapp',
+  name: 'Messenger Files',
+  itemsLabel: 'messenger files',
+  resultsKey: 'whatsappResults',
+  stage: 0,
+  featureKey: 'whatsapp',
+  homeCard: {
+    title: 'Messenger Cleaner',
+    icon: 'whatsapp',
+    itemsLabel: 'expendable items found',
+    accent: '#25D366',
+    route: appRoutes.whatsapp,
+    description: 'Clean up WhatsApp, Telegram, Signal, Viber and Messenger media.',
+  },
+  run: ({ cancelRef }) => scanWhatsApp(cancelRef),
+  persist: saveWhatsAppResults,
+  load: loadWhatsAppResults,
+  delete: clearWhatsAppResults,
+  summarize: summarizeFiles,
+  toHistoryEntry: (results, durationMs) => toScanRunEntry('whatsapp', results, durationMs),
+};
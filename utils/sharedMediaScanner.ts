@@ -1,14 +1,13 @@
 import RNFS from 'react-native-fs';
 import { fastScan, type ScanProgress } from './fastScanner';
 import type { CategoryFile } from './fileCategoryCalculator';
+import { DEFAULT_SCAN_SETTINGS } from './scanSettings';
 
 const VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.avi', '.mov', '.wmv', '.flv', '.webm', '.3gp', '.m4v', '.mpg', '.mpeg', '.ts', '.m2ts', '.vob', '.asf', '.rm', '.rmvb', '.divx', '.xvid', '.mp4v', '.m4p', '.m4b', '.f4v', '.f4p', '.f4a', '.f4b'];
 const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg', '.ico', '.tiff', '.tif', '.heic', '.heif', '.raw', '.cr2', '.nef', '.orf', '.sr2', '.arw', '.dng', '.psd', '.ai', '.eps', '.pcx', '.tga', '.bpg'];
 const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.flac', '.aac', '.m4a', '.ogg', '.wma', '.opus', '.amr', '.3gp', '.aa', '.aax', '.act', '.aiff', '.alac', '.ape', '.au', '.awb', '.dct', '.dss', '.dvf', '.flv', '.gsm', '.iklax', '.ivs', '.m4b', '.m4p', '.mmf', '.mpc', '.msv', '.nmf', '.ogg', '.oga', '.mogg', '.ra', '.rm', '.raw', '.rf64', '.sln', '.tta', '.voc', '.vox', '.wv', '.wav', '.webm'];
 const DOCUMENT_EXTENSIONS = ['.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.txt', '.rtf', '.odt', '.ods', '.odp', '.csv', '.pages', '.numbers', '.key', '.epub', '.mobi', '.azw', '.azw3', '.fb2', '.djvu', '.xps', '.oxps', '.ps', '.ai', '.indd', '.pub', '.vsd', '.vsdx', '.vdx', '.one', '.msg', '.eml', '.html', '.htm', '.xml', '.json', '.yaml', '.yml', '.log', '.md', '.tex'];
 
-const MIN_IMAGE_SIZE_BYTES = 10 * 1024;
-
 const buildMediaRootPaths = (): string[] => {
   const base = RNFS.ExternalStorageDirectoryPath;
   if (!base) return [];
@@ -46,6 +45,7 @@ export interface MediaScanResults {
 export async function scanAllMedia(
   onProgress?: (type: 'videos' | 'images' | 'audios' | 'documents', progress: ScanProgress) => void,
   cancelRef?: { current: boolean },
+  minImageSizeBytes: number = DEFAULT_SCAN_SETTINGS.minImageSizeBytes,
 ): Promise<MediaScanResults> {
   const startedAt = Date.now();
   const rootPaths = buildMediaRootPaths();
@@ -58,8 +58,6 @@ export async function scanAllMedia(
   // Single filesystem walk, categorize files as we go
   const entries = await fastScan<RNFS.ReadDirItem>({
     rootPaths,
-    maxConcurrentDirs: 10,
-    batchSize: 100,
     onProgress: (progress) => {
       // Emit progress for the current type being processed
       // In practice, we process all types together
@@ -96,7 +94,7 @@ export async function scanAllMedia(
       file.category = 'Videos';
       videos.push(file);
     } else if (IMAGE_EXTENSIONS.some(ext => lower.endsWith(ext))) {
-      if (size > MIN_IMAGE_SIZE_BYTES) {
+      if (size >= minImageSizeBytes) {
         file.category = 'Images';
         images.push(file);
       }
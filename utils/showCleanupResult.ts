@@ -0,0 +1,14 @@
+import { router } from 'expo-router';
+import { appRoutes } from '../routes';
+import type { DeletionResult } from './trash';
+
+/**
+ * Open the result screen on the cleanup a delete just recorded, not whatever ran last.
+ * Does nothing when the delete removed no file, as no cleanup was recorded then.
+ */
+export const showCleanupResult = (result: Pick<DeletionResult, 'cleanupId'>): void => {
+  if (!result.cleanupId) {
+    return;
+  }
+  router.push({ pathname: appRoutes.resultAnimation, params: { cleanupId: result.cleanupId } });
+};
@@ -1,95 +1,97 @@
-import { scanForDuplicatesFromImages } from '../app/(Screens)/DuplicateImagesScreen/DuplicateImageScanner';
-import { scanWhatsApp } from '../app/(Screens)/WhatsAppRemoverScreen/WhatsAppScanner';
-import { scanCaches } from '../app/(Screens)/CachesScreen/CachesScanner';
-import { unifiedFileScan } from './unifiedFileScanner';
 import {
   initDatabase,
-  saveDuplicateGroups,
-  saveLargeFileResults,
-  saveOldFileResults,
+  loadSmartScanStatus,
   saveSmartScanStatus,
-  saveWhatsAppResults,
-  saveVideosResults,
-  saveImagesResults,
-  saveAudiosResults,
-  saveDocumentsResults,
-  saveAPKResults,
-  saveCachesResults,
   type SmartScanStatus,
 } from './db';
+import { recordScanRun, type ScanRunEntry } from './scanHistory';
+import { DEFAULT_SCAN_SETTINGS, getStaleScanners, type ScanSettings } from './scanSettings';
+import {
+  SCANNERS,
+  createSharedScanWork,
+  getScannerStages,
+  type ScannerType,
+} from './scanners/registry';
+
+export type { ScannerType };
 
 export interface SmartScanProgress {
-  current: number; // Current scanner index (0-3)
-  total: number; // Total scanners (4)
+  current: number; // Index of the current scanner in the registry
+  total: number; // Number of registered scanners
   scannerName: string; // Name of current scanner
   scannerProgress?: number; // Progress within current scanner (0-1)
   scannerDetail?: string; // Detail message from current scanner
+  etaMs?: number | null; // Estimated time left in the current scanner, when it can tell
 }
 
 export type SmartScanProgressCallback = (progress: SmartScanProgress) => void;
 
-export type ScannerType = 'whatsapp' | 'duplicates' | 'largeFiles' | 'oldFiles' | 'apk' | 'caches' | 'videos' | 'images' | 'audios' | 'documents';
-
 export type SmartScanResultsUpdate = {
   scannerType: ScannerType;
   scannerName: string;
-  results: {
-    whatsappResults?: any[];
-    duplicateResults?: any[];
-    largeFileResults?: any[];
-    oldFileResults?: any[];
-    apkResults?: any[];
-    cachesResults?: any[];
-    videosResults?: any[];
-    imagesResults?: any[];
-    audiosResults?: any[];
-    documentsResults?: any[];
-  };
+  results: unknown[];
 };
 
 export type SmartScanResultsCallback = (update: SmartScanResultsUpdate) => void;
 
-const SCANNER_NAMES = [
-  'WhatsApp Files',
-  'Duplicate Images',
-  'Large Files',
-  'Old Files',
-  'APK Files',
-  'Caches',
-  'Videos',
-  'Images',
-  'Audios',
-  'Documents',
-] as const;
+export type SmartScanOutcome = 'completed' | 'cancelled';
+
+const createSmartScanStatus = (settings: ScanSettings): SmartScanStatus => ({
+  completed: false,
+  completedAt: null,
+  startedAt: Date.now(),
+  cancelledAt: null,
+  settings,
+  scannerProgress: Object.fromEntries(SCANNERS.map((scanner) => [scanner.id, false])),
+});
 
 /**
- * Run Smart Scan - executes all scanners sequentially
+ * Checkpoint of the last Smart Scan when it stopped part way, whether it was cancelled,
+ * failed or the app was killed. Null when there is nothing to resume.
+ */
+export async function getResumableSmartScan(): Promise<SmartScanStatus | null> {
+  await initDatabase();
+  const status = await loadSmartScanStatus();
+  if (!status || status.completed) {
+    return null;
+  }
+  return Object.values(status.scannerProgress).some(Boolean) ? status : null;
+}
+
+/**
+ * Run Smart Scan - executes every registered scanner, stage by stage
  * @param onProgress Callback for progress updates
  * @param onResultsUpdate Optional callback for results updates as each scanner completes
- * @returns Promise that resolves when all scans complete
+ * @param settings Thresholds for the large file, old file and image scans
+ * @param cancelRef Set to true to stop every scanner at its next checkpoint
+ * @param resume Skip the scanners an interrupted run already finished
+ * @returns 'cancelled' when cancelRef stopped the run, otherwise 'completed'
  */
 export async function runSmartScan(
   onProgress?: SmartScanProgressCallback,
-  onResultsUpdate?: SmartScanResultsCallback
-): Promise<void> {
+  onResultsUpdate?: SmartScanResultsCallback,
+  settings: ScanSettings = DEFAULT_SCAN_SETTINGS,
+  cancelRef: { current: boolean } = { current: false },
+  resume: boolean = false
+): Promise<SmartScanOutcome> {
   await initDatabase();
 
-  const status: SmartScanStatus = {
-    completed: false,
-    completedAt: null,
-    scannerProgress: {
-      whatsapp: false,
-      duplicates: false,
-      largeFiles: false,
-      oldFiles: false,
-      apk: false,
-      caches: false,
-      videos: false,
-      images: false,
-      audios: false,
-      documents: false,
-    },
-  };
+  const startedAt = Date.now();
+  // Per-scanner totals for the scan history, recorded even when the run fails part way
+  const historyEntries: ScanRunEntry[] = [];
+
+  const previous = resume ? await loadSmartScanStatus() : null;
+  const status: SmartScanStatus = previous && !previous.completed
+    ? { ...previous, cancelledAt: null, settings }
+    : createSmartScanStatus(settings);
+  const done = status.scannerProgress;
+
+  // Results finished under other thresholds would not match the rest of the run
+  if (previous?.settings) {
+    getStaleScanners(previous.settings, settings).forEach((scanner) => {
+      done[scanner] = false;
+    });
+  }
 
   const persistStatus = async () => {
     try {
@@ -104,6 +106,7 @@ export async function runSmartScan(
     scannerName: string, 
     scannerProgress?: number, 
     scannerDetail?: string,
+    etaMs?: number | null,
   ) => {
     // Ensure scannerProgress is always between 0-1 for smooth calculation
     const normalizedScannerProgress = scannerProgress !== undefined 
@@ -112,118 +115,79 @@ export async function runSmartScan(
     
     onProgress?.({
       current,
-      total: SCANNER_NAMES.length,
+      total: SCANNERS.length,
       scannerName,
       scannerProgress: normalizedScannerProgress,
       scannerDetail,
+      etaMs,
     });
   };
 
-  try {
-    // Run scanners in parallel groups for maximum speed
-    // Group 1: Fast scanners that can run in parallel (different directories)
-    await Promise.all([
-      (async () => {
-        updateProgress(0, SCANNER_NAMES[0], 0, 'scanning WhatsApp files...');
-        const results = await scanWhatsApp();
-        await saveWhatsAppResults(results);
-        status.scannerProgress.whatsapp = true;
-        await persistStatus();
-        updateProgress(0, SCANNER_NAMES[0], 1, `found ${results.length} WhatsApp files`);
-        onResultsUpdate?.({ scannerType: 'whatsapp', scannerName: SCANNER_NAMES[0], results: { whatsappResults: results } });
-        return results;
-      })(),
-      (async () => {
-        updateProgress(5, SCANNER_NAMES[5], 0, 'scanning for cache files...');
-        const results = await scanCaches();
-        await saveCachesResults(results);
-        status.scannerProgress.caches = true;
-        await persistStatus();
-        updateProgress(5, SCANNER_NAMES[5], 1, `found ${results.length} cache items`);
-        onResultsUpdate?.({ scannerType: 'caches', scannerName: SCANNER_NAMES[5], results: { cachesResults: results } });
-        return results;
-      })(),
-    ]);
-
-    // Group 2: Unified scan - ONE filesystem walk for media, large files, and old files
-    // This is MUCH faster than 3 separate scans hitting the same storage
-    updateProgress(6, 'Unified Scan', 0, 'scanning all files...');
-    const unifiedResults = await unifiedFileScan(
-      (progress) => {
-        const ratio = progress.total > 0 ? progress.current / progress.total : 0;
-        updateProgress(6, 'Unified Scan', ratio, progress.currentFile || 'scanning...');
-      }
-    );
-
-    await saveAPKResults(unifiedResults.apkFiles);
-    status.scannerProgress.apk = true;
-    updateProgress(4, SCANNER_NAMES[4], 1, `found ${unifiedResults.apkFiles.length} APK files`);
-    onResultsUpdate?.({ scannerType: 'apk', scannerName: SCANNER_NAMES[4], results: { apkResults: unifiedResults.apkFiles } });
-
-    // Save all results
-    await saveVideosResults(unifiedResults.videos);
-    status.scannerProgress.videos = true;
-    updateProgress(6, SCANNER_NAMES[6], 1, `found ${unifiedResults.videos.length} video files`);
-    onResultsUpdate?.({ scannerType: 'videos', scannerName: SCANNER_NAMES[6], results: { videosResults: unifiedResults.videos } });
-
-    await saveImagesResults(unifiedResults.images);
-    status.scannerProgress.images = true;
-    updateProgress(7, SCANNER_NAMES[7], 1, `found ${unifiedResults.images.length} image files`);
-    onResultsUpdate?.({ scannerType: 'images', scannerName: SCANNER_NAMES[7], results: { imagesResults: unifiedResults.images } });
-
-    await saveAudiosResults(unifiedResults.audios);
-    status.scannerProgress.audios = true;
-    updateProgress(8, SCANNER_NAMES[8], 1, `found ${unifiedResults.audios.length} audio files`);
-    onResultsUpdate?.({ scannerType: 'audios', scannerName: SCANNER_NAMES[8], results: { audiosResults: unifiedResults.audios } });
-
-    await saveDocumentsResults(unifiedResults.documents);
-    status.scannerProgress.documents = true;
-    updateProgress(9, SCANNER_NAMES[9], 1, `found ${unifiedResults.documents.length} document files`);
-    onResultsUpdate?.({ scannerType: 'documents', scannerName: SCANNER_NAMES[9], results: { documentsResults: unifiedResults.documents } });
-
-    await saveLargeFileResults(unifiedResults.largeFiles);
-    status.scannerProgress.largeFiles = true;
-    updateProgress(2, SCANNER_NAMES[2], 1, `found ${unifiedResults.largeFiles.length} large files`);
-    onResultsUpdate?.({ scannerType: 'largeFiles', scannerName: SCANNER_NAMES[2], results: { largeFileResults: unifiedResults.largeFiles } });
-
-    await saveOldFileResults(unifiedResults.oldFiles);
-    status.scannerProgress.oldFiles = true;
-    updateProgress(3, SCANNER_NAMES[3], 1, `found ${unifiedResults.oldFiles.length} old files`);
-    onResultsUpdate?.({ scannerType: 'oldFiles', scannerName: SCANNER_NAMES[3], results: { oldFileResults: unifiedResults.oldFiles } });
-
+  // Partial results of the scanner that was interrupted are never saved, so a resume runs it again
+  const stopCancelled = async (): Promise<SmartScanOutcome> => {
+    status.cancelledAt = Date.now();
     await persistStatus();
+    console.log('[SmartScan] cancelled, finished scanners are kept for resume');
+    return 'cancelled';
+  };
 
-    // Duplicate scanner - use images from unified scan (no need to scan again!)
-    updateProgress(1, SCANNER_NAMES[1], 0, 'scanning for duplicate images...');
-    const duplicateResults = await scanForDuplicatesFromImages(
-      unifiedResults.images.map(img => ({ path: img.path, size: img.size, modifiedDate: img.modified })),
-      (progress) => {
-        const ratio = progress.total > 0 ? progress.current / progress.total : 0;
-        updateProgress(1, SCANNER_NAMES[1], ratio, progress.currentFile || 'scanning...');
-      }
-    );
-    await saveDuplicateGroups(duplicateResults || []);
-    status.scannerProgress.duplicates = true;
+  try {
     await persistStatus();
-    const duplicateCount = duplicateResults.reduce((sum, group) => sum + group.files.length, 0);
-    updateProgress(1, SCANNER_NAMES[1], 1, `found ${duplicateCount} duplicate images`);
-    onResultsUpdate?.({
-      scannerType: 'duplicates',
-      scannerName: SCANNER_NAMES[1],
-      results: { duplicateResults: duplicateResults || [] },
+
+    // Every unified category comes out of one walk, reported as a single step
+    const unifiedIndex = SCANNERS.findIndex((scanner) => scanner.unifiedKey);
+    const shared = createSharedScanWork({
+      settings,
+      cancelRef,
+      onUnifiedProgress: (progress) => {
+        updateProgress(unifiedIndex, 'Unified Scan', progress.progress ?? 0, progress.currentFile || 'scanning...', progress.etaMs);
+      },
+      // A resumed run that skips a scanner reads what it saved last time
+      useSavedResults: true,
     });
 
+    // Scanners of one stage run in parallel; a later stage may build on an earlier one's results
+    for (const stage of getScannerStages()) {
+      await Promise.all(
+        stage.map(async (scanner) => {
+          const { id } = scanner;
+          if (done[id]) return;
+          const index = SCANNERS.findIndex((registered) => registered.id === id);
+          const report = (progress: number, detail?: string, etaMs?: number | null) =>
+            updateProgress(index, scanner.name, progress, detail, etaMs);
+
+          // The unified walk reports for its scanners as one step
+          if (!scanner.unifiedKey) {
+            report(0, `scanning for ${scanner.itemsLabel}...`);
+          }
+          const scannerStartedAt = Date.now();
+          const results = await scanner.run({ settings, cancelRef, shared, onProgress: report });
+          if (cancelRef.current) return;
+          shared.provide(id, results);
+          historyEntries.push(scanner.toHistoryEntry(results, Date.now() - scannerStartedAt));
+          await scanner.persist(results);
+          done[id] = true;
+          await persistStatus();
+          report(1, `found ${scanner.summarize(results).count} ${scanner.itemsLabel}`);
+          onResultsUpdate?.({ scannerType: id, scannerName: scanner.name, results });
+        }),
+      );
+      if (cancelRef.current) return await stopCancelled();
+    }
+
     // Mark as completed
     status.completed = true;
     status.completedAt = Date.now();
     await saveSmartScanStatus(status);
 
-    updateProgress(10, 'Complete', 1, 'smart scan completed');
+    updateProgress(SCANNERS.length, 'Complete', 1, 'smart scan completed');
+    return 'completed';
   } catch (error) {
     console.error('Smart scan error:', error);
-    // Save partial status
-    await saveSmartScanStatus(status);
+    // Save partial status; a failed save is only logged so the scan's own error is what callers see
+    await persistStatus();
     throw error;
+  } finally {
+    await recordScanRun(historyEntries, startedAt, 'smartScan');
   }
 }
-
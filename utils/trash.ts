@@ -0,0 +1,219 @@
+import RNFS from 'react-native-fs';
+import {
+  addTrashItem,
+  loadTrashItems,
+  loadTrashItemsDeletedBefore,
+  removeTrashItem,
+  type TrashItem,
+} from './db';
+import { recordCleanup } from './cleanupLedger';
+import { containsProtectedPath, getExclusionMatcher } from './exclusions';
+import type { ScannerType } from './smartScan';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrashableFile = {
+  path: string;
+  size: number;
+};
+
+export type TrashSummary = {
+  count: number;
+  size: number;
+};
+
+export type DeletionFailure = {
+  path: string;
+  reason: string;
+};
+
+/**
+ * Per-file outcome of a delete operation, shared by every scanner's delete function.
+ * `skipped` holds paths that were already gone before the delete ran, and `cleanupId`
+ * is the cleanup ledger entry for the files removed, null when nothing was.
+ * `bytesTrashed` is only freed on disk once the trash is emptied or the files expire.
+ */
+export interface DeletionResult {
+  deleted: string[];
+  failed: DeletionFailure[];
+  skipped: string[];
+  bytesTrashed: number;
+  cleanupId: string | null;
+}
+
+const MAX_LISTED_FAILURES = 5;
+const PROTECTED_FILE_REASON = 'protected by the exclusion list';
+
+// App-owned folder on the same volume as shared storage, so moves are a cheap rename
+const getTrashDirectory = (): string =>
+  `${RNFS.ExternalDirectoryPath || RNFS.DocumentDirectoryPath}/.trash`;
+
+// WhatsApp results are file:// URIs, RNFS expects plain paths
+const toFsPath = (path: string): string => path.replace(/^file:\/\//, '');
+
+const getParentDirectory = (path: string): string => path.substring(0, path.lastIndexOf('/'));
+
+const createTrashId = (): string =>
+  `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Move a single file or directory into the trash and index it.
+ * Returns null when the source no longer exists, and refuses paths covered by the exclusion list.
+ */
+export const moveToTrash = async (
+  file: TrashableFile,
+  source: ScannerType,
+): Promise<TrashItem | null> => {
+  // Last-line guard: results saved before a rule was added can still list protected files
+  const exclusions = await getExclusionMatcher();
+  if (await containsProtectedPath(exclusions, file.path)) {
+    throw new Error(PROTECTED_FILE_REASON);
+  }
+
+  const sourcePath = toFsPath(file.path);
+  if (!(await RNFS.exists(sourcePath))) {
+    return null;
+  }
+
+  const trashDirectory = getTrashDirectory();
+  await RNFS.mkdir(trashDirectory);
+
+  const id = createTrashId();
+  const item: TrashItem = {
+    id,
+    originalPath: file.path,
+    trashPath: `${trashDirectory}/${id}`,
+    size: file.size,
+    deletedAt: Date.now(),
+    source,
+  };
+
+  await RNFS.moveFile(sourcePath, item.trashPath);
+  try {
+    await addTrashItem(item);
+  } catch (error) {
+    // Never leave an unindexed file behind in the trash folder
+    await RNFS.moveFile(item.trashPath, sourcePath).catch(() => undefined);
+    throw error;
+  }
+
+  return item;
+};
+
+/**
+ * Move files into the trash and report what happened to each one.
+ */
+export const moveFilesToTrash = async (
+  files: TrashableFile[],
+  source: ScannerType,
+): Promise<DeletionResult> => {
+  const result: DeletionResult = { deleted: [], failed: [], skipped: [], bytesTrashed: 0, cleanupId: null };
+
+  await Promise.all(
+    files.map(async (file) => {
+      try {
+        const item = await moveToTrash(file, source);
+        if (item) {
+          result.deleted.push(file.path);
+          result.bytesTrashed += file.size;
+        } else {
+          result.skipped.push(file.path);
+        }
+      } catch (error) {
+        console.warn(`Failed to move ${file.path} to trash:`, error);
+        result.failed.push({
+          path: file.path,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })
+  );
+
+  const cleanup = await recordCleanup(source, result.deleted, result.bytesTrashed);
+  result.cleanupId = cleanup?.id ?? null;
+
+  return result;
+};
+
+/**
+ * Paths that are no longer on disk after a delete, whether removed now or already gone.
+ */
+export const getRemovedPaths = (result: DeletionResult): Set<string> =>
+  new Set([...result.deleted, ...result.skipped]);
+
+/**
+ * Human readable breakdown of the failures in a deletion result.
+ */
+export const describeDeletionFailures = (result: DeletionResult): string => {
+  const { failed } = result;
+  const lines = failed
+    .slice(0, MAX_LISTED_FAILURES)
+    .map(({ path, reason }) => `• ${path.split('/').pop() || path}: ${reason}`);
+  if (failed.length > MAX_LISTED_FAILURES) {
+    lines.push(`• and ${failed.length - MAX_LISTED_FAILURES} more`);
+  }
+
+  const header = `${failed.length} of ${failed.length + result.deleted.length + result.skipped.length} file${
+    failed.length !== 1 ? 's' : ''
+  } could not be deleted and ${failed.length !== 1 ? 'remain' : 'remains'} selected.`;
+  return [header, ...lines].join('\n');
+};
+
+export const getTrashItems = async (): Promise<TrashItem[]> => loadTrashItems();
+
+export const getTrashSummary = async (): Promise<TrashSummary> => {
+  const items = await loadTrashItems();
+  return {
+    count: items.length,
+    size: items.reduce((sum, item) => sum + item.size, 0),
+  };
+};
+
+/**
+ * Move a trashed file back to where it was deleted from.
+ */
+export const restoreTrashItem = async (item: TrashItem): Promise<void> => {
+  const originalPath = toFsPath(item.originalPath);
+  if (await RNFS.exists(originalPath)) {
+    throw new Error(`a file already exists at ${originalPath}`);
+  }
+  if (!(await RNFS.exists(item.trashPath))) {
+    await removeTrashItem(item.id);
+    throw new Error('trashed file is missing and cannot be restored');
+  }
+
+  await RNFS.mkdir(getParentDirectory(originalPath));
+  await RNFS.moveFile(item.trashPath, originalPath);
+  await removeTrashItem(item.id);
+};
+
+/**
+ * Permanently delete a trashed file.
+ */
+export const purgeTrashItem = async (item: TrashItem): Promise<void> => {
+  if (await RNFS.exists(item.trashPath)) {
+    await RNFS.unlink(item.trashPath);
+  }
+  await removeTrashItem(item.id);
+};
+
+/**
+ * Permanently delete every trashed file older than the retention window.
+ * Returns the number of items purged.
+ */
+export const purgeExpiredTrash = async (
+  retentionDays: number = TRASH_RETENTION_DAYS,
+): Promise<number> => {
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const expired = await loadTrashItemsDeletedBefore(cutoff);
+  if (!expired.length) {
+    return 0;
+  }
+
+  const results = await Promise.allSettled(expired.map((item) => purgeTrashItem(item)));
+  const purged = results.filter((result) => result.status === 'fulfilled').length;
+  console.log(`[Trash] purged=${purged} expired=${expired.length}`);
+  return purged;
+};
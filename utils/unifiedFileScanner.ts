@@ -4,15 +4,13 @@ import type { CategoryFile } from './fileCategoryCalculator';
 import type { LargeFileResult } from '../app/(Screens)/LargeFilesScreen/LargeFileScanner';
 import type { OldFileInfo } from '../app/(Screens)/OldFilesScreen/OldFilesScanner';
 import type { APKFileInfo } from '../app/(Screens)/APKCleanerScreen/APKCleanerScanner';
+import { DEFAULT_SCAN_SETTINGS, type ScanSettings } from './scanSettings';
 
 const VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.avi', '.mov', '.wmv', '.flv', '.webm', '.3gp', '.m4v', '.mpg', '.mpeg', '.ts', '.m2ts', '.vob', '.asf', '.rm', '.rmvb', '.divx', '.xvid', '.mp4v', '.m4p', '.m4b', '.f4v', '.f4p', '.f4a', '.f4b'];
 const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg', '.ico', '.tiff', '.tif', '.heic', '.heif', '.raw', '.cr2', '.nef', '.orf', '.sr2', '.arw', '.dng', '.psd', '.ai', '.eps', '.pcx', '.tga', '.bpg'];
 const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.flac', '.aac', '.m4a', '.ogg', '.wma', '.opus', '.amr', '.3gp', '.aa', '.aax', '.act', '.aiff', '.alac', '.ape', '.au', '.awb', '.dct', '.dss', '.dvf', '.flv', '.gsm', '.iklax', '.ivs', '.m4b', '.m4p', '.mmf', '.mpc', '.msv', '.nmf', '.ogg', '.oga', '.mogg', '.ra', '.rm', '.raw', '.rf64', '.sln', '.tta', '.voc', '.vox', '.wv', '.wav', '.webm'];
 const DOCUMENT_EXTENSIONS = ['.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.txt', '.rtf', '.odt', '.ods', '.odp', '.csv', '.pages', '.numbers', '.key', '.epub', '.mobi', '.azw', '.azw3', '.fb2', '.djvu', '.xps', '.oxps', '.ps', '.ai', '.indd', '.pub', '.vsd', '.vsdx', '.vdx', '.one', '.msg', '.eml', '.html', '.htm', '.xml', '.json', '.yaml', '.yml', '.log', '.md', '.tex'];
 
-const MIN_IMAGE_SIZE_BYTES = 10 * 1024;
-const LARGE_FILE_THRESHOLD = 512 * 1024 * 1024; // 512 MB
-const OLD_FILE_THRESHOLD_DAYS = 90;
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 const APK_EXTENSIONS = ['.apk', '.apks', '.xapk'];
 
@@ -50,112 +48,139 @@ export interface UnifiedScanResults {
   apkFiles: APKFileInfo[];
 }
 
+const createEmptyResults = (): UnifiedScanResults => ({
+  videos: [],
+  images: [],
+  audios: [],
+  documents: [],
+  largeFiles: [],
+  oldFiles: [],
+  apkFiles: [],
+});
+
 /**
  * Single filesystem walk that categorizes files for all scanners at once
  * This is MUCH faster than multiple separate scans
+ *
+ * `onChunk` receives each batch of newly categorized files while the walk is still running.
  */
 export async function unifiedFileScan(
   onProgress?: (progress: ScanProgress) => void,
   cancelRef?: { current: boolean },
+  settings: ScanSettings = DEFAULT_SCAN_SETTINGS,
+  onChunk?: (chunk: UnifiedScanResults) => void,
 ): Promise<UnifiedScanResults> {
   const startedAt = Date.now();
   const rootPaths = buildRootPaths();
   
-  const videos: CategoryFile[] = [];
-  const images: CategoryFile[] = [];
-  const audios: CategoryFile[] = [];
-  const documents: CategoryFile[] = [];
-  const largeFiles: LargeFileResult[] = [];
-  const oldFiles: OldFileInfo[] = [];
-  const apkFiles: APKFileInfo[] = [];
+  const results = createEmptyResults();
   const seenAPKPaths = new Set<string>();
 
   const now = Date.now();
-  const oldFileThresholdMs = OLD_FILE_THRESHOLD_DAYS * MS_PER_DAY;
+  const oldFileThresholdMs = settings.oldFileThresholdDays * MS_PER_DAY;
+
+  // Categorize a batch of entries, adding them to the totals and returning just this batch
+  const categorize = (entries: RNFS.ReadDirItem[]): UnifiedScanResults => {
+    const chunk = createEmptyResults();
+
+    for (const entry of entries) {
+      const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
+      const modifiedDate = entry.mtime ? entry.mtime.getTime() : now;
+      const lower = entry.name.toLowerCase();
+      const ageMs = now - modifiedDate;
+      const ageDays = Math.floor(ageMs / MS_PER_DAY);
+
+      // Capture APK files
+      const isAPK = APK_EXTENSIONS.some(ext => lower.endsWith(ext));
+      if (isAPK) {
+        if (!seenAPKPaths.has(entry.path)) {
+          seenAPKPaths.add(entry.path);
+          chunk.apkFiles.push({
+            path: entry.path,
+            size,
+            modifiedDate,
+            ageDays,
+          });
+        }
+      }
 
-  // Single filesystem walk - categorize all files in one pass
-  // No file filter - we want ALL files to check for large/old files too
-  const entries = await fastScan<RNFS.ReadDirItem>({
-    rootPaths,
-    maxConcurrentDirs: 15,
-    batchSize: 150,
-    onProgress,
-    cancelRef,
-  });
+      // Check for large files
+      if (size >= settings.largeFileThresholdBytes) {
+        const category = inferCategory(entry.path, lower);
+        chunk.largeFiles.push({
+          path: entry.path,
+          size,
+          modified: modifiedDate / 1000,
+          category,
+          source: 'recursive',
+        });
+      }
 
-  // Categorize files in a single pass
-  for (const entry of entries) {
-    if (cancelRef?.current) break;
-    
-    const size = typeof entry.size === 'number' && !Number.isNaN(entry.size) ? entry.size : 0;
-    const modifiedDate = entry.mtime ? entry.mtime.getTime() : now;
-    const lower = entry.name.toLowerCase();
-    const ageMs = now - modifiedDate;
-    const ageDays = Math.floor(ageMs / MS_PER_DAY);
-
-    // Capture APK files
-    const isAPK = APK_EXTENSIONS.some(ext => lower.endsWith(ext));
-    if (isAPK) {
-      if (!seenAPKPaths.has(entry.path)) {
-        seenAPKPaths.add(entry.path);
-        apkFiles.push({
+      // Check for old files
+      if (ageMs >= oldFileThresholdMs) {
+        chunk.oldFiles.push({
           path: entry.path,
           size,
           modifiedDate,
           ageDays,
         });
       }
-    }
 
-    // Check for large files
-    if (size >= LARGE_FILE_THRESHOLD) {
-      const category = inferCategory(entry.path, lower);
-      largeFiles.push({
+      // Categorize by media type
+      const file: CategoryFile = {
         path: entry.path,
         size,
-        modified: modifiedDate / 1000,
-        category,
-        source: 'recursive',
-      });
+        modified: modifiedDate,
+        category: '',
+      };
+
+      if (VIDEO_EXTENSIONS.some(ext => lower.endsWith(ext))) {
+        file.category = 'Videos';
+        chunk.videos.push(file);
+      } else if (IMAGE_EXTENSIONS.some(ext => lower.endsWith(ext))) {
+        if (size >= settings.minImageSizeBytes) {
+          file.category = 'Images';
+          chunk.images.push(file);
+        }
+      } else if (AUDIO_EXTENSIONS.some(ext => lower.endsWith(ext))) {
+        file.category = 'Audio';
+        chunk.audios.push(file);
+      } else if (DOCUMENT_EXTENSIONS.some(ext => lower.endsWith(ext))) {
+        // Exclude APK files
+        if (!lower.endsWith('.apk') && !lower.endsWith('.apks') && !lower.endsWith('.xapk')) {
+          file.category = 'Documents';
+          chunk.documents.push(file);
+        }
+      }
     }
 
-    // Check for old files
-    if (ageMs >= oldFileThresholdMs) {
-      oldFiles.push({
-        path: entry.path,
-        size,
-        modifiedDate,
-        ageDays,
-      });
-    }
+    results.videos.push(...chunk.videos);
+    results.images.push(...chunk.images);
+    results.audios.push(...chunk.audios);
+    results.documents.push(...chunk.documents);
+    results.largeFiles.push(...chunk.largeFiles);
+    results.oldFiles.push(...chunk.oldFiles);
+    results.apkFiles.push(...chunk.apkFiles);
+    return chunk;
+  };
 
-    // Categorize by media type
-    const file: CategoryFile = {
-      path: entry.path,
-      size,
-      modified: modifiedDate,
-      category: '',
-    };
-
-    if (VIDEO_EXTENSIONS.some(ext => lower.endsWith(ext))) {
-      file.category = 'Videos';
-      videos.push(file);
-    } else if (IMAGE_EXTENSIONS.some(ext => lower.endsWith(ext))) {
-      if (size > MIN_IMAGE_SIZE_BYTES) {
-        file.category = 'Images';
-        images.push(file);
-      }
-    } else if (AUDIO_EXTENSIONS.some(ext => lower.endsWith(ext))) {
-      file.category = 'Audio';
-      audios.push(file);
-    } else if (DOCUMENT_EXTENSIONS.some(ext => lower.endsWith(ext))) {
-      // Exclude APK files
-      if (!lower.endsWith('.apk') && !lower.endsWith('.apks') && !lower.endsWith('.xapk')) {
-        file.category = 'Documents';
-        documents.push(file);
+  // Single filesystem walk - categorize all files in one pass
+  // No file filter - we want ALL files to check for large/old files too
+  // Entries are categorized chunk by chunk as the walk streams them out
+  await fastScan<RNFS.ReadDirItem>({
+    rootPaths,
+    onProgress,
+    cancelRef,
+    incremental: true,
+    onChunk: (entries) => {
+      const chunk = categorize(entries);
+      if (!cancelRef?.current) {
+        onChunk?.(chunk);
       }
-    }
-  }
+    },
+  });
+
+  const { videos, images, audios, documents, largeFiles, oldFiles, apkFiles } = results;
 
   // Sort each category
   videos.sort((a, b) => b.size - a.size);
@@ -172,7 +197,7 @@ export async function unifiedFileScan(
     `large=${largeFiles.length} old=${oldFiles.length} apk=${apkFiles.length} durationMs=${finishedAt - startedAt}`,
   );
 
-  return { videos, images, audios, documents, largeFiles, oldFiles, apkFiles };
+  return results;
 }
 
 // Category inference for large files
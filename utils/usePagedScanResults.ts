@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  initDatabase,
+  queryScanResults,
+  queryScanResultSizes,
+  summarizeScanResults,
+  type ListScanner,
+  type ScanItemQuery,
+  type ScanItemSummary,
+  type ScanResult,
+} from './db';
+
+// Rows fetched each time a results list reaches its end
+export const SCAN_RESULTS_PAGE_SIZE = 50;
+
+export type ScanResultsFilter = Omit<ScanItemQuery, 'limit' | 'offset'>;
+
+/**
+ * Saved results of one scanner as a list that loads a page at a time, with the header totals
+ * summed in SQL. Selection stats only count paths the list knows the size of: every loaded row,
+ * plus the whole filtered list once `selectAll` has run, so nothing behind the selection is decoded.
+ */
+export const usePagedScanResults = <S extends ListScanner>(
+  scanner: S,
+  selectedPaths: string[],
+  filter: ScanResultsFilter = {}
+) => {
+  // Callers pass a fresh object every render; the query only changes when its contents do
+  const filterKey = JSON.stringify(filter);
+  const query = useMemo<ScanResultsFilter>(() => JSON.parse(filterKey), [filterKey]);
+
+  const [items, setItems] = useState<ScanResult<S>[]>([]);
+  const [summary, setSummary] = useState<ScanItemSummary>({ count: 0, size: 0 });
+  const [sizes, setSizes] = useState<Map<string, number>>(() => new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  // Bumped by every reload so pages that arrive for an older query are dropped
+  const generationRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  const reload = useCallback(async () => {
+    const generation = ++generationRef.current;
+    setIsLoading(true);
+    try {
+      await initDatabase();
+      const [page, nextSummary] = await Promise.all([
+        queryScanResults(scanner, { ...query, limit: SCAN_RESULTS_PAGE_SIZE, offset: 0 }),
+        summarizeScanResults(scanner, query),
+      ]);
+      if (generation === generationRef.current) {
+        setItems(page);
+        setSummary(nextSummary);
+        setSizes(new Map(page.map((item) => [item.path, item.size])));
+      }
+    } catch (error) {
+      console.error(`Failed to load saved ${scanner} results:`, error);
+    } finally {
+      if (generation === generationRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [scanner, query]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMoreRef.current || isLoading || items.length >= summary.count) {
+      return;
+    }
+    const generation = generationRef.current;
+    loadingMoreRef.current = true;
+    try {
+      const page = await queryScanResults(scanner, {
+        ...query,
+        limit: SCAN_RESULTS_PAGE_SIZE,
+        offset: items.length,
+      });
+      if (generation === generationRef.current) {
+        setItems((current) => [...current, ...page]);
+        setSizes((current) => {
+          const next = new Map(current);
+          page.forEach((item) => next.set(item.path, item.size));
+          return next;
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to load more ${scanner} results:`, error);
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, [scanner, query, isLoading, items.length, summary.count]);
+
+  // Paths of the whole filtered list, for "select all"
+  const selectAll = useCallback(async (): Promise<string[]> => {
+    const rows = await queryScanResultSizes(scanner, query);
+    setSizes(new Map(rows.map((row) => [row.path, row.size])));
+    return rows.map((row) => row.path);
+  }, [scanner, query]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const selection = useMemo(() => {
+    const paths = selectedPaths.filter((path) => sizes.has(path));
+    const size = paths.reduce((sum, path) => sum + (sizes.get(path) ?? 0), 0);
+    return { paths, items: paths.length, size };
+  }, [selectedPaths, sizes]);
+
+  const isAllSelected = summary.count > 0 && selection.items === summary.count;
+
+  return { items, summary, isLoading, loadMore, reload, selectAll, selection, isAllSelected };
+};
+